@@ -10,6 +10,23 @@ import { ProductRepository } from '../../repositories/product.repository';
 import { TransactionRepository } from '../../repositories/transaction.repository';
 import { ChatRepository } from '../../repositories/chat.repository';
 import { MessageRepository } from '../../repositories/message.repository';
+import { IdempotencyKeyRepository } from '../../repositories/idempotency-key.repository';
+import { RecurringTransactionRepository } from '../../repositories/recurring-transaction.repository';
+import { TransactionAttachmentRepository } from '../../repositories/transaction-attachment.repository';
+import { TaxRateRepository } from '../../repositories/tax-rate.repository';
+import { MoneyAccountRepository } from '../../repositories/money-account.repository';
+import { AccountTransferRepository } from '../../repositories/account-transfer.repository';
+import { ReceivableRepository } from '../../repositories/receivable.repository';
+import { PayableRepository } from '../../repositories/payable.repository';
+import { TransactionCategoryRepository } from '../../repositories/transaction-category.repository';
+import { CategoryBudgetRepository } from '../../repositories/category-budget.repository';
+import { AuditLogRepository } from '../../repositories/audit-log.repository';
+import { BalanceReconciliationRepository } from '../../repositories/balance-reconciliation.repository';
+import { LedgerAccountRepository } from '../../repositories/ledger-account.repository';
+import { JournalEntryRepository } from '../../repositories/journal-entry.repository';
+import { ExchangeRateRepository } from '../../repositories/exchange-rate.repository';
+import { TransactionNumberSeriesRepository } from '../../repositories/transaction-number-series.repository';
+import { AccountingPeriodRepository } from '../../repositories/accounting-period.repository';
 import { createServices } from '../../services/index';
 import type { Repositories } from '../../services/index';
 import type { Services } from '../../services/index';
@@ -43,6 +60,23 @@ export function createRepositories(): Repositories {
         transactions: new TransactionRepository(supabase),
         chats: new ChatRepository(supabase),
         messages: new MessageRepository(supabase),
+        idempotencyKeys: new IdempotencyKeyRepository(supabase),
+        recurringTransactions: new RecurringTransactionRepository(supabase),
+        transactionAttachments: new TransactionAttachmentRepository(supabase),
+        taxRates: new TaxRateRepository(supabase),
+        moneyAccounts: new MoneyAccountRepository(supabase),
+        accountTransfers: new AccountTransferRepository(supabase),
+        receivables: new ReceivableRepository(supabase),
+        payables: new PayableRepository(supabase),
+        transactionCategories: new TransactionCategoryRepository(supabase),
+        categoryBudgets: new CategoryBudgetRepository(supabase),
+        auditLogs: new AuditLogRepository(supabase),
+        balanceReconciliations: new BalanceReconciliationRepository(supabase),
+        ledgerAccounts: new LedgerAccountRepository(supabase),
+        journalEntries: new JournalEntryRepository(supabase),
+        exchangeRates: new ExchangeRateRepository(supabase),
+        numberSeries: new TransactionNumberSeriesRepository(supabase),
+        accountingPeriods: new AccountingPeriodRepository(supabase),
     };
 }
 
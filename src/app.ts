@@ -20,7 +20,8 @@ export function createApp(): Application {
       origin: process.env.CORS_ORIGIN || "*",
       credentials: true,
       methods: ["GET", "POST", "PUT", "PATCH", "DELETE", "OPTIONS"],
-      allowedHeaders: ["Content-Type", "Authorization"],
+      allowedHeaders: ["Content-Type", "Authorization", "Idempotency-Key"],
+      exposedHeaders: ["Idempotent-Replayed"],
     })
   );
 
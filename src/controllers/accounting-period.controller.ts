@@ -0,0 +1,190 @@
+/**
+ * Accounting Period Controller
+ * Close and reopen months of a business (transactions dated in a closed
+ * month are locked)
+ */
+
+import { Request, Response } from "express";
+import { initializeApp } from "../api/supabase/client";
+import { successResponse, ErrorCodes } from "../utils/response.util";
+import { getAuditContext } from "../utils/audit.util";
+import { AppError } from "../middlewares/error.middleware";
+
+const { repos, services } = initializeApp();
+
+const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+/**
+ * Helper: Verify business ownership
+ * A business has exactly one user, its owner (Businesses.user_id); there are
+ * no member roles, so only the owner gets past this check
+ */
+async function verifyBusinessOwnership(
+  businessId: number,
+  userEmail: string,
+  deniedMessage: string = "Not authorized to access this business"
+): Promise<void> {
+  const { data: business } = await repos.businesses.findById(businessId);
+  if (!business) {
+    throw new AppError(404, ErrorCodes.NOT_FOUND, "Business not found");
+  }
+
+  const { data: user } = await repos.users.findByEmail(userEmail);
+  if (!user || business.user_id !== user.id) {
+    throw new AppError(403, ErrorCodes.UNAUTHORIZED, deniedMessage);
+  }
+}
+
+/**
+ * Helper: Parse business ID and verify ownership
+ */
+async function findBusinessId(
+  req: Request,
+  deniedMessage?: string
+): Promise<number> {
+  if (!req.user) {
+    throw new AppError(
+      401,
+      ErrorCodes.AUTHENTICATION_REQUIRED,
+      "User not authenticated"
+    );
+  }
+
+  const businessId = parseInt(req.params.businessId);
+
+  if (isNaN(businessId)) {
+    throw new AppError(400, ErrorCodes.VALIDATION_ERROR, "Invalid business ID");
+  }
+
+  // Verify business ownership
+  await verifyBusinessOwnership(businessId, req.user.email, deniedMessage);
+
+  return businessId;
+}
+
+/**
+ * Helper: Parse the month route parameter (YYYY-MM)
+ */
+function parseMonth(req: Request): string {
+  const month = req.params.month;
+
+  if (!MONTH_PATTERN.test(month)) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "Month must be YYYY-MM"
+    );
+  }
+
+  return month;
+}
+
+/**
+ * Get the closed and reopened months of the business, latest first
+ * GET /api/v1/businesses/:businessId/periods
+ */
+export async function getAllPeriods(
+  req: Request,
+  res: Response
+): Promise<void> {
+  const businessId = await findBusinessId(req);
+
+  const { data: periods, error } =
+    await services.accountingPeriod.getPeriods(businessId);
+
+  if (error) {
+    throw new AppError(
+      500,
+      ErrorCodes.SERVER_ERROR,
+      "Failed to fetch accounting periods"
+    );
+  }
+
+  res.status(200).json(successResponse(periods || []));
+}
+
+/**
+ * Close a month: its transactions can no longer be recorded, changed,
+ * cancelled, deleted or restored
+ * POST /api/v1/businesses/:businessId/periods/:month/close
+ */
+export async function closePeriod(req: Request, res: Response): Promise<void> {
+  const month = parseMonth(req);
+  const businessId = await findBusinessId(req);
+
+  const { data: period, error } = await services.accountingPeriod.closePeriod(
+    businessId,
+    month,
+    req.user!.id
+  );
+
+  if (error || !period) {
+    const message: string = error?.message || "Failed to close period";
+    if (
+      message.includes("already closed") ||
+      message.includes("pending transactions") ||
+      message.includes("are over")
+    ) {
+      throw new AppError(400, ErrorCodes.BUSINESS_LOGIC_ERROR, message);
+    }
+    throw new AppError(500, ErrorCodes.SERVER_ERROR, message);
+  }
+
+  await services.audit.record(getAuditContext(req), {
+    businessId,
+    action: "close",
+    entityType: "period",
+    entityId: period.id,
+    after: period,
+  });
+
+  res.status(200).json(successResponse(period, `Period ${month} closed`));
+}
+
+/**
+ * Reopen a closed month so its transactions can be corrected
+ * Only the owner of the business can reopen a period: the ownership check is
+ * the owner check, since the owner is the only user of a business. If other
+ * users ever get access to a business, this must check for the owner role
+ * POST /api/v1/businesses/:businessId/periods/:month/reopen
+ */
+export async function reopenPeriod(
+  req: Request,
+  res: Response
+): Promise<void> {
+  const month = parseMonth(req);
+  const businessId = await findBusinessId(
+    req,
+    "Only the owner of the business can reopen a period"
+  );
+
+  const { data: before } = await repos.accountingPeriods.findByPeriodStart(
+    businessId,
+    `${month}-01`
+  );
+
+  const { data: period, error } = await services.accountingPeriod.reopenPeriod(
+    businessId,
+    month,
+    req.user!.id
+  );
+
+  if (error || !period) {
+    const message: string = error?.message || "Failed to reopen period";
+    if (message.includes("is not closed")) {
+      throw new AppError(400, ErrorCodes.BUSINESS_LOGIC_ERROR, message);
+    }
+    throw new AppError(500, ErrorCodes.SERVER_ERROR, message);
+  }
+
+  await services.audit.record(getAuditContext(req), {
+    businessId,
+    action: "reopen",
+    entityType: "period",
+    entityId: period.id,
+    before,
+    after: period,
+  });
+
+  res.status(200).json(successResponse(period, `Period ${month} reopened`));
+}
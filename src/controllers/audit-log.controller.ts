@@ -0,0 +1,202 @@
+/**
+ * Audit Log Controller
+ * Browse the audit trail of a business
+ */
+
+import { Request, Response } from "express";
+import { initializeApp } from "../api/supabase/client";
+import { successResponse, ErrorCodes } from "../utils/response.util";
+import { isInteger, isValidDate } from "../utils/validation.util";
+import { AppError } from "../middlewares/error.middleware";
+import type { AuditLogFilters } from "../repositories/audit-log.repository";
+import type {
+  AuditAction,
+  AuditEntityType,
+} from "../models/audit-log.model";
+
+const { repos } = initializeApp();
+
+const ENTITY_TYPES: AuditEntityType[] = ["transaction", "product", "period"];
+const ACTIONS: AuditAction[] = [
+  "create",
+  "update",
+  "delete",
+  "restore",
+  "complete",
+  "cancel",
+  "return",
+  "import",
+  "adjust_stock",
+  "update_stock_status",
+  "close",
+  "reopen",
+];
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+/**
+ * Helper: Verify business ownership
+ */
+async function verifyBusinessOwnership(
+  businessId: number,
+  userEmail: string
+): Promise<void> {
+  const { data: business } = await repos.businesses.findById(businessId);
+  if (!business) {
+    throw new AppError(404, ErrorCodes.NOT_FOUND, "Business not found");
+  }
+
+  const { data: user } = await repos.users.findByEmail(userEmail);
+  if (!user || business.user_id !== user.id) {
+    throw new AppError(
+      403,
+      ErrorCodes.UNAUTHORIZED,
+      "Not authorized to access this business"
+    );
+  }
+}
+
+/**
+ * Helper: Build audit log filters from query
+ * (entityType, entityId, action, actorId, date range)
+ */
+function parseAuditFilters(req: Request): AuditLogFilters {
+  const { entityType, entityId, action, actorId, startDate, endDate } =
+    req.query;
+
+  const filters: AuditLogFilters = {};
+
+  if (entityType !== undefined) {
+    if (!ENTITY_TYPES.includes(entityType as AuditEntityType)) {
+      throw new AppError(
+        400,
+        ErrorCodes.VALIDATION_ERROR,
+        "entityType must be transaction, product or period"
+      );
+    }
+    filters.entityType = entityType as AuditEntityType;
+  }
+
+  if (entityId !== undefined) {
+    if (!isInteger(entityId) || Number(entityId) <= 0) {
+      throw new AppError(
+        400,
+        ErrorCodes.VALIDATION_ERROR,
+        "entityId must be a positive integer"
+      );
+    }
+    filters.entityId = Number(entityId);
+  }
+
+  if (action !== undefined) {
+    if (!ACTIONS.includes(action as AuditAction)) {
+      throw new AppError(
+        400,
+        ErrorCodes.VALIDATION_ERROR,
+        `action must be one of ${ACTIONS.join(", ")}`
+      );
+    }
+    filters.action = action as AuditAction;
+  }
+
+  if (typeof actorId === "string" && actorId) {
+    filters.actorId = actorId;
+  }
+
+  if (startDate && endDate) {
+    if (
+      typeof startDate !== "string" ||
+      typeof endDate !== "string" ||
+      !isValidDate(startDate) ||
+      !isValidDate(endDate)
+    ) {
+      throw new AppError(
+        400,
+        ErrorCodes.VALIDATION_ERROR,
+        "startDate and endDate must be valid dates"
+      );
+    }
+    filters.dateRange = {
+      startDate,
+      endDate,
+    };
+  }
+
+  return filters;
+}
+
+/**
+ * Get audit logs, newest first
+ * GET /api/v1/businesses/:businessId/audit-logs
+ */
+export async function getAuditLogs(req: Request, res: Response): Promise<void> {
+  if (!req.user) {
+    throw new AppError(
+      401,
+      ErrorCodes.AUTHENTICATION_REQUIRED,
+      "User not authenticated"
+    );
+  }
+
+  const businessId = parseInt(req.params.businessId);
+  const { limit, offset } = req.query;
+
+  if (isNaN(businessId)) {
+    throw new AppError(400, ErrorCodes.VALIDATION_ERROR, "Invalid business ID");
+  }
+
+  const filters = parseAuditFilters(req);
+
+  const limitNum = limit !== undefined ? Number(limit) : DEFAULT_PAGE_SIZE;
+  const offsetNum = offset !== undefined ? Number(offset) : 0;
+
+  if (
+    !Number.isInteger(limitNum) ||
+    limitNum < 1 ||
+    limitNum > MAX_PAGE_SIZE
+  ) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      `limit must be an integer between 1 and ${MAX_PAGE_SIZE}`
+    );
+  }
+
+  if (!Number.isInteger(offsetNum) || offsetNum < 0) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "offset must be a non-negative integer"
+    );
+  }
+
+  // Verify business ownership
+  await verifyBusinessOwnership(businessId, req.user.email);
+
+  const { data: page, error } = await repos.auditLogs.findByBusinessId(
+    businessId,
+    filters,
+    limitNum,
+    offsetNum
+  );
+
+  if (error || !page) {
+    throw new AppError(
+      500,
+      ErrorCodes.SERVER_ERROR,
+      "Failed to fetch audit logs"
+    );
+  }
+
+  res.status(200).json(
+    successResponse({
+      logs: page.logs,
+      pagination: {
+        total: page.total,
+        limit: limitNum,
+        offset: offsetNum,
+        hasMore: offsetNum + page.logs.length < page.total,
+      },
+    })
+  );
+}
@@ -0,0 +1,201 @@
+/**
+ * Balance Reconciliation Controller
+ * Check business balances against the transaction ledger and repair drift
+ */
+
+import { Request, Response } from "express";
+import { initializeApp } from "../api/supabase/client";
+import { successResponse, ErrorCodes } from "../utils/response.util";
+import { isNonEmptyString, sanitizeString } from "../utils/validation.util";
+import { AppError } from "../middlewares/error.middleware";
+
+const { repos, services } = initializeApp();
+
+const DEFAULT_HISTORY_SIZE = 20;
+const MAX_HISTORY_SIZE = 100;
+const MAX_REASON_LENGTH = 255;
+
+/**
+ * Helper: Verify business ownership
+ */
+async function verifyBusinessOwnership(
+  businessId: number,
+  userEmail: string
+): Promise<void> {
+  const { data: business } = await repos.businesses.findById(businessId);
+  if (!business) {
+    throw new AppError(404, ErrorCodes.NOT_FOUND, "Business not found");
+  }
+
+  const { data: user } = await repos.users.findByEmail(userEmail);
+  if (!user || business.user_id !== user.id) {
+    throw new AppError(
+      403,
+      ErrorCodes.UNAUTHORIZED,
+      "Not authorized to access this business"
+    );
+  }
+}
+
+/**
+ * Helper: Parse business ID and verify ownership
+ */
+async function findBusinessId(req: Request): Promise<number> {
+  if (!req.user) {
+    throw new AppError(
+      401,
+      ErrorCodes.AUTHENTICATION_REQUIRED,
+      "User not authenticated"
+    );
+  }
+
+  const businessId = parseInt(req.params.businessId);
+
+  if (isNaN(businessId)) {
+    throw new AppError(400, ErrorCodes.VALIDATION_ERROR, "Invalid business ID");
+  }
+
+  // Verify business ownership
+  await verifyBusinessOwnership(businessId, req.user.email);
+
+  return businessId;
+}
+
+/**
+ * Helper: Validate the limit of a history list
+ */
+function parseLimit(limit: any): number {
+  if (limit === undefined) {
+    return DEFAULT_HISTORY_SIZE;
+  }
+
+  const limitNum = Number(limit);
+  if (
+    !Number.isInteger(limitNum) ||
+    limitNum < 1 ||
+    limitNum > MAX_HISTORY_SIZE
+  ) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      `limit must be an integer between 1 and ${MAX_HISTORY_SIZE}`
+    );
+  }
+
+  return limitNum;
+}
+
+/**
+ * Reconcile balances (optionally repairing drift)
+ * Recomputes every money account balance from the ledger, records the run
+ * and reports the drift with the transactions that may explain it
+ * POST /api/v1/businesses/:businessId/reconciliation
+ */
+export async function reconcileBalances(
+  req: Request,
+  res: Response
+): Promise<void> {
+  const { repair, reason } = req.body || {};
+
+  if (repair !== undefined && typeof repair !== "boolean") {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "repair must be a boolean"
+    );
+  }
+
+  if (
+    reason !== undefined &&
+    (!isNonEmptyString(reason) || reason.trim().length > MAX_REASON_LENGTH)
+  ) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      `reason must be a non-empty string (max ${MAX_REASON_LENGTH} characters)`
+    );
+  }
+
+  const businessId = await findBusinessId(req);
+
+  const { data: report, error } = await services.balanceReconciliation.reconcile(
+    businessId,
+    {
+      source: "manual",
+      repair: repair === true,
+      reason: reason !== undefined ? sanitizeString(reason) : undefined,
+      actorId: req.user!.id,
+    }
+  );
+
+  if (error?.message?.includes("no money accounts")) {
+    throw new AppError(400, ErrorCodes.BUSINESS_LOGIC_ERROR, error.message);
+  }
+
+  if (error || !report) {
+    throw new AppError(
+      500,
+      ErrorCodes.SERVER_ERROR,
+      "Failed to reconcile balances"
+    );
+  }
+
+  let message = "Balances are in line with the ledger";
+  if (!report.in_balance) {
+    message = report.repaired
+      ? "Balance drift repaired"
+      : "Balance drift found";
+  }
+
+  res.status(200).json(successResponse(report, message));
+}
+
+/**
+ * Get past reconciliation runs, newest first
+ * GET /api/v1/businesses/:businessId/reconciliation/history?limit=20
+ */
+export async function getReconciliationHistory(
+  req: Request,
+  res: Response
+): Promise<void> {
+  const limit = parseLimit(req.query.limit);
+  const businessId = await findBusinessId(req);
+
+  const { data: reconciliations, error } =
+    await repos.balanceReconciliations.findByBusinessId(businessId, limit);
+
+  if (error) {
+    throw new AppError(
+      500,
+      ErrorCodes.SERVER_ERROR,
+      "Failed to fetch reconciliation history"
+    );
+  }
+
+  res.status(200).json(successResponse(reconciliations || []));
+}
+
+/**
+ * Get adjusting entries posted by repairs, newest first
+ * GET /api/v1/businesses/:businessId/reconciliation/adjustments?limit=20
+ */
+export async function getBalanceAdjustments(
+  req: Request,
+  res: Response
+): Promise<void> {
+  const limit = parseLimit(req.query.limit);
+  const businessId = await findBusinessId(req);
+
+  const { data: adjustments, error } =
+    await repos.balanceReconciliations.findAdjustments(businessId, limit);
+
+  if (error) {
+    throw new AppError(
+      500,
+      ErrorCodes.SERVER_ERROR,
+      "Failed to fetch balance adjustments"
+    );
+  }
+
+  res.status(200).json(successResponse(adjustments || []));
+}
@@ -6,7 +6,7 @@
 import { Request, Response } from 'express';
 import { initializeApp } from '../api/supabase/client';
 import { successResponse, ErrorCodes } from '../utils/response.util';
-import { isNonEmptyString, isNonNegativeNumber, sanitizeString } from '../utils/validation.util';
+import { isNonEmptyString, isNonNegativeNumber, isCurrencyCode, sanitizeString } from '../utils/validation.util';
 import { AppError } from '../middlewares/error.middleware';
 
 const { repos, services } = initializeApp();
@@ -20,7 +20,7 @@ export async function createBusiness(req: Request, res: Response): Promise<void>
         throw new AppError(401, ErrorCodes.AUTHENTICATION_REQUIRED, 'User not authenticated');
     }
 
-    const { business_name, category, location, current_balance } = req.body;
+    const { business_name, category, location, current_balance, base_currency } = req.body;
 
     // Validate required fields
     if (!business_name || !isNonEmptyString(business_name)) {
@@ -36,6 +36,11 @@ export async function createBusiness(req: Request, res: Response): Promise<void>
         );
     }
 
+    // Validate base currency if provided (IDR by default)
+    if (base_currency !== undefined && !isCurrencyCode(base_currency)) {
+        throw new AppError(400, ErrorCodes.VALIDATION_ERROR, 'Base currency must be a 3-letter ISO 4217 code');
+    }
+
     // Get user ID from database
     const { data: user } = await repos.users.findByEmail(req.user.email);
     if (!user) {
@@ -49,6 +54,7 @@ export async function createBusiness(req: Request, res: Response): Promise<void>
         category: category ? sanitizeString(category) : undefined,
         location: location ? sanitizeString(location) : undefined,
         current_balance: current_balance || 0,
+        base_currency: base_currency ? base_currency.trim().toUpperCase() : undefined,
     });
 
     if (error || !business) {
@@ -124,12 +130,16 @@ export async function updateBusiness(req: Request, res: Response): Promise<void>
     }
 
     const businessId = parseInt(req.params.businessId);
-    const { business_name, category, location } = req.body;
+    const { business_name, category, location, base_currency } = req.body;
 
     if (isNaN(businessId)) {
         throw new AppError(400, ErrorCodes.VALIDATION_ERROR, 'Invalid business ID');
     }
 
+    if (base_currency !== undefined && !isCurrencyCode(base_currency)) {
+        throw new AppError(400, ErrorCodes.VALIDATION_ERROR, 'Base currency must be a 3-letter ISO 4217 code');
+    }
+
     // Verify ownership
     const { data: business } = await repos.businesses.findById(businessId);
     if (!business) {
@@ -141,11 +151,29 @@ export async function updateBusiness(req: Request, res: Response): Promise<void>
         throw new AppError(403, ErrorCodes.UNAUTHORIZED, 'Not authorized to update this business');
     }
 
+    // Base currency can only change before anything is recorded in it
+    const baseCurrency = base_currency ? base_currency.trim().toUpperCase() : undefined;
+    if (baseCurrency && baseCurrency !== business.base_currency) {
+        const { count, error: countError } = await repos.transactions.count({ business_id: businessId });
+
+        if (countError) {
+            throw new AppError(500, ErrorCodes.SERVER_ERROR, 'Failed to update business');
+        }
+        if (count) {
+            throw new AppError(
+                400,
+                ErrorCodes.BUSINESS_LOGIC_ERROR,
+                'Base currency cannot be changed once the business has transactions'
+            );
+        }
+    }
+
     // Update business
     const { data: updatedBusiness, error } = await repos.businesses.update(businessId, {
         business_name: business_name ? sanitizeString(business_name) : undefined,
         category: category ? sanitizeString(category) : undefined,
         location: location ? sanitizeString(location) : undefined,
+        base_currency: baseCurrency,
     });
 
     if (error || !updatedBusiness) {
@@ -191,6 +219,62 @@ export async function deleteBusiness(req: Request, res: Response): Promise<void>
     res.status(200).json(successResponse(null, 'Business deleted successfully'));
 }
 
+/**
+ * Get deleted businesses that can still be restored, latest deleted first
+ * GET /api/v1/businesses/trash
+ */
+export async function getBusinessTrash(req: Request, res: Response): Promise<void> {
+    if (!req.user) {
+        throw new AppError(401, ErrorCodes.AUTHENTICATION_REQUIRED, 'User not authenticated');
+    }
+
+    const { data: user } = await repos.users.findByEmail(req.user.email);
+    if (!user) {
+        throw new AppError(404, ErrorCodes.NOT_FOUND, 'User not found');
+    }
+
+    const { data: businesses, error } = await services.trash.getBusinesses(user.id);
+
+    if (error) {
+        throw new AppError(500, ErrorCodes.SERVER_ERROR, 'Failed to fetch deleted businesses');
+    }
+
+    res.status(200).json(successResponse(businesses || []));
+}
+
+/**
+ * Restore a deleted business (its products and transactions were kept)
+ * POST /api/v1/businesses/:businessId/restore
+ */
+export async function restoreBusiness(req: Request, res: Response): Promise<void> {
+    if (!req.user) {
+        throw new AppError(401, ErrorCodes.AUTHENTICATION_REQUIRED, 'User not authenticated');
+    }
+
+    const businessId = parseInt(req.params.businessId);
+
+    if (isNaN(businessId)) {
+        throw new AppError(400, ErrorCodes.VALIDATION_ERROR, 'Invalid business ID');
+    }
+
+    const { data: user } = await repos.users.findByEmail(req.user.email);
+    if (!user) {
+        throw new AppError(404, ErrorCodes.NOT_FOUND, 'User not found');
+    }
+
+    const { data: business, error } = await services.trash.restoreBusiness(user.id, businessId);
+
+    if (error?.message?.includes('not found')) {
+        throw new AppError(404, ErrorCodes.NOT_FOUND, error.message);
+    }
+
+    if (error || !business) {
+        throw new AppError(500, ErrorCodes.SERVER_ERROR, 'Failed to restore business');
+    }
+
+    res.status(200).json(successResponse(business, 'Business restored successfully'));
+}
+
 /**
  * Get business overview with statistics
  * GET /api/v1/businesses/:businessId/overview
@@ -0,0 +1,294 @@
+/**
+ * Category Budget Controller
+ * Handle monthly expense budgets and budget-vs-actual tracking
+ */
+
+import { Request, Response } from "express";
+import { initializeApp } from "../api/supabase/client";
+import { successResponse, ErrorCodes } from "../utils/response.util";
+import { isInteger, isPositiveNumber } from "../utils/validation.util";
+import { AppError } from "../middlewares/error.middleware";
+import { currentPeriod } from "../services/category-budget.service";
+import type { CategoryBudget } from "../models/category-budget.model";
+
+const { repos, services } = initializeApp();
+
+/**
+ * Helper: Verify business ownership
+ */
+async function verifyBusinessOwnership(
+  businessId: number,
+  userEmail: string
+): Promise<void> {
+  const { data: business } = await repos.businesses.findById(businessId);
+  if (!business) {
+    throw new AppError(404, ErrorCodes.NOT_FOUND, "Business not found");
+  }
+
+  const { data: user } = await repos.users.findByEmail(userEmail);
+  if (!user || business.user_id !== user.id) {
+    throw new AppError(
+      403,
+      ErrorCodes.UNAUTHORIZED,
+      "Not authorized to access this business"
+    );
+  }
+}
+
+/**
+ * Helper: Parse route IDs and load a budget of the business
+ */
+async function findBudget(req: Request): Promise<CategoryBudget> {
+  if (!req.user) {
+    throw new AppError(
+      401,
+      ErrorCodes.AUTHENTICATION_REQUIRED,
+      "User not authenticated"
+    );
+  }
+
+  const businessId = parseInt(req.params.businessId);
+  const budgetId = parseInt(req.params.budgetId);
+
+  if (isNaN(businessId) || isNaN(budgetId)) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "Invalid business or budget ID"
+    );
+  }
+
+  // Verify business ownership
+  await verifyBusinessOwnership(businessId, req.user.email);
+
+  const { data: budget } = await repos.categoryBudgets.findById(budgetId);
+  if (!budget || budget.business_id !== businessId) {
+    throw new AppError(404, ErrorCodes.NOT_FOUND, "Budget not found");
+  }
+
+  return budget;
+}
+
+/**
+ * Helper: Validate a budget month (YYYY-MM)
+ */
+function parsePeriod(period: any, required: boolean): string | undefined {
+  if (period === undefined && !required) {
+    return undefined;
+  }
+
+  if (typeof period !== "string" || !/^\d{4}-(0[1-9]|1[0-2])$/.test(period)) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "period must be a month in YYYY-MM format"
+    );
+  }
+
+  return period;
+}
+
+/**
+ * Create budget
+ * POST /api/v1/businesses/:businessId/budgets
+ */
+export async function createBudget(
+  req: Request,
+  res: Response
+): Promise<void> {
+  if (!req.user) {
+    throw new AppError(
+      401,
+      ErrorCodes.AUTHENTICATION_REQUIRED,
+      "User not authenticated"
+    );
+  }
+
+  const businessId = parseInt(req.params.businessId);
+  const { categoryId, period, amount } = req.body;
+
+  if (isNaN(businessId)) {
+    throw new AppError(400, ErrorCodes.VALIDATION_ERROR, "Invalid business ID");
+  }
+
+  if (!isInteger(categoryId) || Number(categoryId) <= 0) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "categoryId must be a positive integer"
+    );
+  }
+
+  const month = parsePeriod(period, true)!;
+
+  if (!isPositiveNumber(amount)) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "Amount must be a positive number"
+    );
+  }
+
+  // Verify business ownership
+  await verifyBusinessOwnership(businessId, req.user.email);
+
+  const { data: budget, error } =
+    await services.categoryBudget.createBudget({
+      business_id: businessId,
+      category_id: Number(categoryId),
+      period: `${month}-01`,
+      amount: Number(amount),
+    });
+
+  if (error?.code === "23505") {
+    throw new AppError(
+      409,
+      ErrorCodes.DUPLICATE_ENTRY,
+      "Budget for this category and period already exists"
+    );
+  }
+
+  if (error?.message?.includes("not found")) {
+    throw new AppError(404, ErrorCodes.NOT_FOUND, error.message);
+  }
+
+  if (error?.message?.includes("Expense categories")) {
+    throw new AppError(400, ErrorCodes.VALIDATION_ERROR, error.message);
+  }
+
+  if (error || !budget) {
+    throw new AppError(500, ErrorCodes.SERVER_ERROR, "Failed to create budget");
+  }
+
+  res.status(201).json(successResponse(budget, "Budget created successfully"));
+}
+
+/**
+ * Get all budgets
+ * GET /api/v1/businesses/:businessId/budgets?period=2026-10
+ */
+export async function getAllBudgets(
+  req: Request,
+  res: Response
+): Promise<void> {
+  if (!req.user) {
+    throw new AppError(
+      401,
+      ErrorCodes.AUTHENTICATION_REQUIRED,
+      "User not authenticated"
+    );
+  }
+
+  const businessId = parseInt(req.params.businessId);
+
+  if (isNaN(businessId)) {
+    throw new AppError(400, ErrorCodes.VALIDATION_ERROR, "Invalid business ID");
+  }
+
+  const period = parsePeriod(req.query.period, false);
+
+  // Verify business ownership
+  await verifyBusinessOwnership(businessId, req.user.email);
+
+  const { data: budgets, error } = await repos.categoryBudgets.findByBusinessId(
+    businessId,
+    period ? `${period}-01` : undefined
+  );
+
+  if (error) {
+    throw new AppError(500, ErrorCodes.SERVER_ERROR, "Failed to fetch budgets");
+  }
+
+  res.status(200).json(successResponse(budgets || []));
+}
+
+/**
+ * Get budget vs actual spending of a month (default: current month)
+ * GET /api/v1/businesses/:businessId/budgets/vs-actual?period=2026-10
+ */
+export async function getBudgetVsActual(
+  req: Request,
+  res: Response
+): Promise<void> {
+  if (!req.user) {
+    throw new AppError(
+      401,
+      ErrorCodes.AUTHENTICATION_REQUIRED,
+      "User not authenticated"
+    );
+  }
+
+  const businessId = parseInt(req.params.businessId);
+
+  if (isNaN(businessId)) {
+    throw new AppError(400, ErrorCodes.VALIDATION_ERROR, "Invalid business ID");
+  }
+
+  const period = parsePeriod(req.query.period, false) ?? currentPeriod();
+
+  // Verify business ownership
+  await verifyBusinessOwnership(businessId, req.user.email);
+
+  const { data: report, error } =
+    await services.categoryBudget.getBudgetVsActual(businessId, period);
+
+  if (error || !report) {
+    throw new AppError(
+      500,
+      ErrorCodes.SERVER_ERROR,
+      "Failed to compute budget vs actual"
+    );
+  }
+
+  res.status(200).json(successResponse(report));
+}
+
+/**
+ * Update budget amount
+ * PUT /api/v1/businesses/:businessId/budgets/:budgetId
+ */
+export async function updateBudget(
+  req: Request,
+  res: Response
+): Promise<void> {
+  const budget = await findBudget(req);
+  const { amount } = req.body;
+
+  if (!isPositiveNumber(amount)) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "Amount must be a positive number"
+    );
+  }
+
+  const { data: updated, error } = await repos.categoryBudgets.update(
+    budget.id,
+    { amount: Number(amount) }
+  );
+
+  if (error || !updated) {
+    throw new AppError(500, ErrorCodes.SERVER_ERROR, "Failed to update budget");
+  }
+
+  res.status(200).json(successResponse(updated, "Budget updated successfully"));
+}
+
+/**
+ * Delete budget
+ * DELETE /api/v1/businesses/:businessId/budgets/:budgetId
+ */
+export async function deleteBudget(
+  req: Request,
+  res: Response
+): Promise<void> {
+  const budget = await findBudget(req);
+
+  const { error } = await repos.categoryBudgets.softDelete(budget.id);
+
+  if (error) {
+    throw new AppError(500, ErrorCodes.SERVER_ERROR, "Failed to delete budget");
+  }
+
+  res.status(200).json(successResponse(null, "Budget deleted successfully"));
+}
@@ -0,0 +1,382 @@
+/**
+ * Exchange Rate Controller
+ * Handle exchange rates of foreign currencies (manual entry and CSV import)
+ */
+
+import { Request, Response } from "express";
+import { initializeApp } from "../api/supabase/client";
+import { successResponse, ErrorCodes } from "../utils/response.util";
+import { isCurrencyCode, isPositiveNumber } from "../utils/validation.util";
+import { AppError } from "../middlewares/error.middleware";
+import type { ExchangeRate } from "../models/exchange-rate.model";
+import type { ExchangeRateFilters } from "../repositories/exchange-rate.repository";
+import { toDateString } from "../utils/schedule.util";
+
+const { repos, services } = initializeApp();
+
+/**
+ * Helper: Verify business ownership
+ */
+async function verifyBusinessOwnership(
+  businessId: number,
+  userEmail: string
+): Promise<void> {
+  const { data: business } = await repos.businesses.findById(businessId);
+  if (!business) {
+    throw new AppError(404, ErrorCodes.NOT_FOUND, "Business not found");
+  }
+
+  const { data: user } = await repos.users.findByEmail(userEmail);
+  if (!user || business.user_id !== user.id) {
+    throw new AppError(
+      403,
+      ErrorCodes.UNAUTHORIZED,
+      "Not authorized to access this business"
+    );
+  }
+}
+
+/**
+ * Helper: Parse business ID and verify ownership
+ */
+async function findBusinessId(req: Request): Promise<number> {
+  if (!req.user) {
+    throw new AppError(
+      401,
+      ErrorCodes.AUTHENTICATION_REQUIRED,
+      "User not authenticated"
+    );
+  }
+
+  const businessId = parseInt(req.params.businessId);
+
+  if (isNaN(businessId)) {
+    throw new AppError(400, ErrorCodes.VALIDATION_ERROR, "Invalid business ID");
+  }
+
+  // Verify business ownership
+  await verifyBusinessOwnership(businessId, req.user.email);
+
+  return businessId;
+}
+
+/**
+ * Helper: Parse route IDs and load an exchange rate of the business
+ */
+async function findRate(req: Request): Promise<ExchangeRate> {
+  const businessId = await findBusinessId(req);
+  const rateId = parseInt(req.params.rateId);
+
+  if (isNaN(rateId)) {
+    throw new AppError(400, ErrorCodes.VALIDATION_ERROR, "Invalid rate ID");
+  }
+
+  const { data: rate } = await repos.exchangeRates.findById(rateId);
+  if (!rate || rate.business_id !== businessId) {
+    throw new AppError(404, ErrorCodes.NOT_FOUND, "Exchange rate not found");
+  }
+
+  return rate;
+}
+
+/**
+ * Helper: Validate a currency code
+ */
+function parseCurrency(currency: any): string {
+  if (!isCurrencyCode(currency)) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "currency must be a 3-letter ISO 4217 code (e.g. USD)"
+    );
+  }
+
+  return currency.trim().toUpperCase();
+}
+
+/**
+ * Helper: Validate a date (YYYY-MM-DD)
+ */
+function parseDate(date: any, label: string): string {
+  if (
+    typeof date !== "string" ||
+    !/^\d{4}-\d{2}-\d{2}$/.test(date) ||
+    isNaN(new Date(date).getTime())
+  ) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      `${label} must be a date in YYYY-MM-DD format`
+    );
+  }
+
+  return date;
+}
+
+/**
+ * Create exchange rate
+ * POST /api/v1/businesses/:businessId/exchange-rates
+ */
+export async function createExchangeRate(
+  req: Request,
+  res: Response
+): Promise<void> {
+  const { currency, date, rate } = req.body;
+
+  const currencyCode = parseCurrency(currency);
+  const rateDate = parseDate(date, "date");
+
+  if (!isPositiveNumber(rate)) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "rate must be a positive number"
+    );
+  }
+
+  const businessId = await findBusinessId(req);
+
+  const { data: exchangeRate, error } = await services.exchangeRate.createRate({
+    business_id: businessId,
+    currency: currencyCode,
+    rate_date: rateDate,
+    rate: Number(rate),
+  });
+
+  if (error?.code === "23505") {
+    throw new AppError(
+      409,
+      ErrorCodes.DUPLICATE_ENTRY,
+      `Exchange rate for ${currencyCode} on ${rateDate} already exists`
+    );
+  }
+
+  if (error?.message?.includes("base currency")) {
+    throw new AppError(400, ErrorCodes.VALIDATION_ERROR, error.message);
+  }
+
+  if (error || !exchangeRate) {
+    throw new AppError(
+      500,
+      ErrorCodes.SERVER_ERROR,
+      "Failed to create exchange rate"
+    );
+  }
+
+  res
+    .status(201)
+    .json(successResponse(exchangeRate, "Exchange rate created successfully"));
+}
+
+/**
+ * Get exchange rates, latest date first
+ * GET /api/v1/businesses/:businessId/exchange-rates?currency=USD&startDate=2026-10-01&endDate=2026-10-31
+ */
+export async function getAllExchangeRates(
+  req: Request,
+  res: Response
+): Promise<void> {
+  const { currency, startDate, endDate } = req.query;
+  const filters: ExchangeRateFilters = {};
+
+  if (currency !== undefined) {
+    filters.currency = parseCurrency(currency);
+  }
+
+  if (startDate !== undefined || endDate !== undefined) {
+    filters.dateRange = {
+      startDate: parseDate(startDate, "startDate"),
+      endDate: parseDate(endDate, "endDate"),
+    };
+  }
+
+  const businessId = await findBusinessId(req);
+
+  const { data: rates, error } = await repos.exchangeRates.findByBusinessId(
+    businessId,
+    filters
+  );
+
+  if (error) {
+    throw new AppError(
+      500,
+      ErrorCodes.SERVER_ERROR,
+      "Failed to fetch exchange rates"
+    );
+  }
+
+  res.status(200).json(successResponse(rates || []));
+}
+
+/**
+ * Get the rate a transaction of a currency gets on a date (default: today)
+ * (the latest rate on or before the date)
+ * GET /api/v1/businesses/:businessId/exchange-rates/effective?currency=USD&date=2026-10-19
+ */
+export async function getEffectiveExchangeRate(
+  req: Request,
+  res: Response
+): Promise<void> {
+  const currency = parseCurrency(req.query.currency);
+  const date =
+    req.query.date === undefined
+      ? toDateString(new Date())
+      : parseDate(req.query.date, "date");
+
+  const businessId = await findBusinessId(req);
+
+  const { data: rate, error } = await repos.exchangeRates.findRateOn(
+    businessId,
+    currency,
+    date
+  );
+
+  if (error) {
+    throw new AppError(
+      500,
+      ErrorCodes.SERVER_ERROR,
+      "Failed to fetch exchange rate"
+    );
+  }
+
+  if (!rate) {
+    throw new AppError(
+      404,
+      ErrorCodes.NOT_FOUND,
+      `No exchange rate for ${currency} on or before ${date}`
+    );
+  }
+
+  res.status(200).json(successResponse(rate));
+}
+
+/**
+ * Update the rate of an exchange rate
+ * Transactions already recorded keep the rate they were converted with
+ * PUT /api/v1/businesses/:businessId/exchange-rates/:rateId
+ */
+export async function updateExchangeRate(
+  req: Request,
+  res: Response
+): Promise<void> {
+  const exchangeRate = await findRate(req);
+  const { rate } = req.body;
+
+  if (!isPositiveNumber(rate)) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "rate must be a positive number"
+    );
+  }
+
+  const { data: updated, error } = await repos.exchangeRates.update(
+    exchangeRate.id,
+    { rate: Number(rate), source: "manual" }
+  );
+
+  if (error || !updated) {
+    throw new AppError(
+      500,
+      ErrorCodes.SERVER_ERROR,
+      "Failed to update exchange rate"
+    );
+  }
+
+  res
+    .status(200)
+    .json(successResponse(updated, "Exchange rate updated successfully"));
+}
+
+/**
+ * Delete exchange rate
+ * DELETE /api/v1/businesses/:businessId/exchange-rates/:rateId
+ */
+export async function deleteExchangeRate(
+  req: Request,
+  res: Response
+): Promise<void> {
+  const exchangeRate = await findRate(req);
+
+  const { error } = await repos.exchangeRates.softDelete(exchangeRate.id);
+
+  if (error) {
+    throw new AppError(
+      500,
+      ErrorCodes.SERVER_ERROR,
+      "Failed to delete exchange rate"
+    );
+  }
+
+  res
+    .status(200)
+    .json(successResponse(null, "Exchange rate deleted successfully"));
+}
+
+/**
+ * Import exchange rates from CSV (columns: date, currency, rate)
+ * mode=dry-run (default) validates only; mode=commit imports when all rows
+ * are valid
+ * POST /api/v1/businesses/:businessId/exchange-rates/import (multipart/form-data)
+ */
+export async function importExchangeRates(
+  req: Request,
+  res: Response
+): Promise<void> {
+  const mode = req.body?.mode || "dry-run";
+
+  if (!req.file) {
+    throw new AppError(400, ErrorCodes.VALIDATION_ERROR, "CSV file is required");
+  }
+
+  if (mode !== "dry-run" && mode !== "commit") {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "Mode must be dry-run or commit"
+    );
+  }
+
+  const businessId = await findBusinessId(req);
+
+  const { data: result, error } = await services.exchangeRate.importCsv(
+    businessId,
+    req.file.buffer.toString("utf-8"),
+    mode === "dry-run"
+  );
+
+  if (error || !result) {
+    // Header problems are client errors
+    if (
+      error?.message?.includes("CSV") ||
+      error?.message?.includes("Column")
+    ) {
+      throw new AppError(400, ErrorCodes.VALIDATION_ERROR, error.message);
+    }
+    throw new AppError(
+      500,
+      ErrorCodes.SERVER_ERROR,
+      error?.message || "Failed to import exchange rates"
+    );
+  }
+
+  if (!result.dryRun && result.errors.length > 0) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "CSV has invalid rows, nothing was imported",
+      result
+    );
+  }
+
+  res
+    .status(result.dryRun ? 200 : 201)
+    .json(
+      successResponse(
+        result,
+        result.dryRun
+          ? "Import validated (dry-run), nothing was saved"
+          : "Exchange rates imported successfully"
+      )
+    );
+}
@@ -0,0 +1,624 @@
+/**
+ * Ledger Controller
+ * Handle the chart of accounts, journal entries and the trial balance
+ */
+
+import { Request, Response } from "express";
+import { initializeApp } from "../api/supabase/client";
+import { successResponse, ErrorCodes } from "../utils/response.util";
+import {
+  isNonEmptyString,
+  isNonNegativeNumber,
+  isInteger,
+  isValidDate,
+  sanitizeString,
+} from "../utils/validation.util";
+import { toDateString } from "../utils/schedule.util";
+import { AppError } from "../middlewares/error.middleware";
+import type { JournalEntryFilters } from "../repositories/journal-entry.repository";
+import type {
+  LedgerAccount,
+  LedgerAccountType,
+  JournalEntryWithLines,
+  JournalSource,
+  CreateJournalLineDTO,
+} from "../models/ledger.model";
+
+const { repos, services } = initializeApp();
+
+const ACCOUNT_TYPES: LedgerAccountType[] = [
+  "asset",
+  "liability",
+  "equity",
+  "income",
+  "expense",
+];
+const JOURNAL_SOURCES: JournalSource[] = [
+  "transaction",
+  "receivable_payment",
+  "payable_payment",
+  "transfer",
+  "opening_balance",
+  "manual",
+  "reversal",
+];
+const MAX_NAME_LENGTH = 100;
+const MAX_DESCRIPTION_LENGTH = 255;
+const MAX_JOURNAL_LINES = 100;
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+/**
+ * Helper: Verify business ownership
+ */
+async function verifyBusinessOwnership(
+  businessId: number,
+  userEmail: string
+): Promise<void> {
+  const { data: business } = await repos.businesses.findById(businessId);
+  if (!business) {
+    throw new AppError(404, ErrorCodes.NOT_FOUND, "Business not found");
+  }
+
+  const { data: user } = await repos.users.findByEmail(userEmail);
+  if (!user || business.user_id !== user.id) {
+    throw new AppError(
+      403,
+      ErrorCodes.UNAUTHORIZED,
+      "Not authorized to access this business"
+    );
+  }
+}
+
+/**
+ * Helper: Parse business ID and verify ownership
+ */
+async function findBusinessId(req: Request): Promise<number> {
+  if (!req.user) {
+    throw new AppError(
+      401,
+      ErrorCodes.AUTHENTICATION_REQUIRED,
+      "User not authenticated"
+    );
+  }
+
+  const businessId = parseInt(req.params.businessId);
+
+  if (isNaN(businessId)) {
+    throw new AppError(400, ErrorCodes.VALIDATION_ERROR, "Invalid business ID");
+  }
+
+  // Verify business ownership
+  await verifyBusinessOwnership(businessId, req.user.email);
+
+  return businessId;
+}
+
+/**
+ * Helper: Parse route IDs and load a ledger account of the business
+ */
+async function findAccount(req: Request): Promise<LedgerAccount> {
+  const accountId = parseInt(req.params.accountId);
+
+  if (isNaN(accountId)) {
+    throw new AppError(400, ErrorCodes.VALIDATION_ERROR, "Invalid account ID");
+  }
+
+  const businessId = await findBusinessId(req);
+
+  const { data: account } = await repos.ledgerAccounts.findById(accountId);
+  if (!account || account.business_id !== businessId) {
+    throw new AppError(404, ErrorCodes.NOT_FOUND, "Ledger account not found");
+  }
+
+  return account;
+}
+
+/**
+ * Helper: Parse route IDs and load a journal entry of the business
+ */
+async function findJournal(req: Request): Promise<JournalEntryWithLines> {
+  const journalId = parseInt(req.params.journalId);
+
+  if (isNaN(journalId)) {
+    throw new AppError(400, ErrorCodes.VALIDATION_ERROR, "Invalid journal ID");
+  }
+
+  const businessId = await findBusinessId(req);
+
+  const { data: entry } = await repos.journalEntries.findWithLines(journalId);
+  if (!entry || entry.business_id !== businessId) {
+    throw new AppError(404, ErrorCodes.NOT_FOUND, "Journal entry not found");
+  }
+
+  return entry;
+}
+
+/**
+ * Helper: Validate an account code (e.g. 6-1100)
+ */
+function parseCode(code: any): string {
+  if (typeof code !== "string" || !/^[0-9A-Za-z.-]{1,20}$/.test(code.trim())) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "code is required (letters, digits, '.' and '-', max 20 characters)"
+    );
+  }
+
+  return code.trim();
+}
+
+/**
+ * Helper: Validate an account name
+ */
+function parseName(name: any): string {
+  if (!isNonEmptyString(name) || name.trim().length > MAX_NAME_LENGTH) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      `Name is required (max ${MAX_NAME_LENGTH} characters)`
+    );
+  }
+
+  return sanitizeString(name);
+}
+
+/**
+ * Helper: Validate a calendar date (YYYY-MM-DD)
+ */
+function parseDay(value: any, field: string): string {
+  if (
+    typeof value !== "string" ||
+    !/^\d{4}-\d{2}-\d{2}$/.test(value) ||
+    !isValidDate(value)
+  ) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      `${field} must be a date in YYYY-MM-DD format`
+    );
+  }
+
+  return value;
+}
+
+/**
+ * Helper: Validate an optional description
+ */
+function parseDescription(description: any, field: string): string | undefined {
+  if (description === undefined || description === null) {
+    return undefined;
+  }
+
+  if (
+    !isNonEmptyString(description) ||
+    description.trim().length > MAX_DESCRIPTION_LENGTH
+  ) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      `${field} must be a non-empty string (max ${MAX_DESCRIPTION_LENGTH} characters)`
+    );
+  }
+
+  return sanitizeString(description);
+}
+
+/**
+ * Helper: Validate the lines of a manual journal
+ * Each line has an accountId and either a debit or a credit amount
+ */
+function parseJournalLines(lines: any): CreateJournalLineDTO[] {
+  if (
+    !Array.isArray(lines) ||
+    lines.length < 2 ||
+    lines.length > MAX_JOURNAL_LINES
+  ) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      `lines must be an array of 2 to ${MAX_JOURNAL_LINES} lines`
+    );
+  }
+
+  return lines.map((line: any, index: number) => {
+    const { accountId, debit, credit, description } = line || {};
+
+    if (!isInteger(accountId) || Number(accountId) <= 0) {
+      throw new AppError(
+        400,
+        ErrorCodes.VALIDATION_ERROR,
+        `lines[${index}].accountId must be a positive integer`
+      );
+    }
+
+    const debitAmount = debit === undefined ? 0 : debit;
+    const creditAmount = credit === undefined ? 0 : credit;
+
+    if (
+      !isNonNegativeNumber(debitAmount) ||
+      !isNonNegativeNumber(creditAmount) ||
+      (Number(debitAmount) > 0) === (Number(creditAmount) > 0)
+    ) {
+      throw new AppError(
+        400,
+        ErrorCodes.VALIDATION_ERROR,
+        `lines[${index}] must have either a positive debit or a positive credit`
+      );
+    }
+
+    return {
+      account_id: Number(accountId),
+      debit: Number(debitAmount),
+      credit: Number(creditAmount),
+      description: parseDescription(description, `lines[${index}].description`),
+    };
+  });
+}
+
+/**
+ * Helper: Map ledger service/database errors to API errors
+ */
+function toLedgerError(error: any, fallbackMessage: string): AppError {
+  const message: string = error?.message || fallbackMessage;
+
+  if (error?.code === "23505") {
+    return new AppError(
+      409,
+      ErrorCodes.DUPLICATE_ENTRY,
+      "A ledger account with this code already exists"
+    );
+  }
+  if (message.includes("not found")) {
+    return new AppError(404, ErrorCodes.NOT_FOUND, message);
+  }
+  if (
+    message.includes("not balanced") ||
+    message.includes("at least two lines") ||
+    message.includes("cannot") ||
+    message.includes("in use") ||
+    message.includes("already reversed") ||
+    message.includes("Only manual journals")
+  ) {
+    return new AppError(400, ErrorCodes.BUSINESS_LOGIC_ERROR, message);
+  }
+  return new AppError(500, ErrorCodes.SERVER_ERROR, fallbackMessage);
+}
+
+/**
+ * Get chart of accounts
+ * GET /api/v1/businesses/:businessId/ledger/accounts?type=expense
+ */
+export async function getAccounts(req: Request, res: Response): Promise<void> {
+  const { type } = req.query;
+
+  if (
+    type !== undefined &&
+    !ACCOUNT_TYPES.includes(type as LedgerAccountType)
+  ) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      `type must be one of ${ACCOUNT_TYPES.join(", ")}`
+    );
+  }
+
+  const businessId = await findBusinessId(req);
+
+  const { data: accounts, error } = await repos.ledgerAccounts.findByBusinessId(
+    businessId,
+    type as LedgerAccountType | undefined
+  );
+
+  if (error) {
+    throw new AppError(
+      500,
+      ErrorCodes.SERVER_ERROR,
+      "Failed to fetch ledger accounts"
+    );
+  }
+
+  res.status(200).json(successResponse(accounts || []));
+}
+
+/**
+ * Create ledger account
+ * POST /api/v1/businesses/:businessId/ledger/accounts
+ */
+export async function createAccount(
+  req: Request,
+  res: Response
+): Promise<void> {
+  const { code, name, type } = req.body;
+
+  if (!ACCOUNT_TYPES.includes(type)) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      `type must be one of ${ACCOUNT_TYPES.join(", ")}`
+    );
+  }
+
+  const accountCode = parseCode(code);
+  const accountName = parseName(name);
+
+  const businessId = await findBusinessId(req);
+
+  const { data: account, error } = await services.ledger.createAccount({
+    business_id: businessId,
+    code: accountCode,
+    name: accountName,
+    type,
+  });
+
+  if (error || !account) {
+    throw toLedgerError(error, "Failed to create ledger account");
+  }
+
+  res
+    .status(201)
+    .json(successResponse(account, "Ledger account created successfully"));
+}
+
+/**
+ * Update ledger account (code and/or name; the type is fixed)
+ * PUT /api/v1/businesses/:businessId/ledger/accounts/:accountId
+ */
+export async function updateAccount(
+  req: Request,
+  res: Response
+): Promise<void> {
+  const account = await findAccount(req);
+  const { code, name } = req.body;
+
+  if (code === undefined && name === undefined) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "Nothing to update (code or name)"
+    );
+  }
+
+  const { data: updated, error } = await repos.ledgerAccounts.update(
+    account.id,
+    {
+      code: code !== undefined ? parseCode(code) : undefined,
+      name: name !== undefined ? parseName(name) : undefined,
+    }
+  );
+
+  if (error || !updated) {
+    throw toLedgerError(error, "Failed to update ledger account");
+  }
+
+  res
+    .status(200)
+    .json(successResponse(updated, "Ledger account updated successfully"));
+}
+
+/**
+ * Delete ledger account
+ * Only unused, user-created accounts can be deleted
+ * DELETE /api/v1/businesses/:businessId/ledger/accounts/:accountId
+ */
+export async function deleteAccount(
+  req: Request,
+  res: Response
+): Promise<void> {
+  const account = await findAccount(req);
+
+  const { error } = await services.ledger.deleteAccount(account);
+
+  if (error) {
+    throw toLedgerError(error, "Failed to delete ledger account");
+  }
+
+  res
+    .status(200)
+    .json(successResponse(null, "Ledger account deleted successfully"));
+}
+
+/**
+ * Get journal entries with their lines, newest first
+ * GET /api/v1/businesses/:businessId/ledger/journals
+ */
+export async function getJournals(req: Request, res: Response): Promise<void> {
+  const { startDate, endDate, source, transactionId, limit, offset } =
+    req.query;
+
+  const filters: JournalEntryFilters = {};
+
+  if (startDate !== undefined || endDate !== undefined) {
+    filters.dateRange = {
+      startDate: parseDay(startDate, "startDate"),
+      endDate: parseDay(endDate, "endDate"),
+    };
+  }
+
+  if (source !== undefined) {
+    if (!JOURNAL_SOURCES.includes(source as JournalSource)) {
+      throw new AppError(
+        400,
+        ErrorCodes.VALIDATION_ERROR,
+        `source must be one of ${JOURNAL_SOURCES.join(", ")}`
+      );
+    }
+    filters.source = source as JournalSource;
+  }
+
+  if (transactionId !== undefined) {
+    if (!isInteger(transactionId) || Number(transactionId) <= 0) {
+      throw new AppError(
+        400,
+        ErrorCodes.VALIDATION_ERROR,
+        "transactionId must be a positive integer"
+      );
+    }
+    filters.transactionId = Number(transactionId);
+  }
+
+  const limitNum = limit !== undefined ? Number(limit) : DEFAULT_PAGE_SIZE;
+  const offsetNum = offset !== undefined ? Number(offset) : 0;
+
+  if (
+    !Number.isInteger(limitNum) ||
+    limitNum < 1 ||
+    limitNum > MAX_PAGE_SIZE
+  ) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      `limit must be an integer between 1 and ${MAX_PAGE_SIZE}`
+    );
+  }
+
+  if (!Number.isInteger(offsetNum) || offsetNum < 0) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "offset must be a non-negative integer"
+    );
+  }
+
+  const businessId = await findBusinessId(req);
+
+  const { data: page, error } = await repos.journalEntries.findPage(
+    businessId,
+    filters,
+    limitNum,
+    offsetNum
+  );
+
+  if (error || !page) {
+    throw new AppError(
+      500,
+      ErrorCodes.SERVER_ERROR,
+      "Failed to fetch journal entries"
+    );
+  }
+
+  res.status(200).json(
+    successResponse({
+      journals: page.entries,
+      pagination: {
+        total: page.total,
+        limit: limitNum,
+        offset: offsetNum,
+        hasMore: offsetNum + page.entries.length < page.total,
+      },
+    })
+  );
+}
+
+/**
+ * Get journal entry with its lines
+ * GET /api/v1/businesses/:businessId/ledger/journals/:journalId
+ */
+export async function getJournalById(
+  req: Request,
+  res: Response
+): Promise<void> {
+  const entry = await findJournal(req);
+
+  res.status(200).json(successResponse(entry));
+}
+
+/**
+ * Post manual journal
+ * POST /api/v1/businesses/:businessId/ledger/journals
+ */
+export async function createJournal(
+  req: Request,
+  res: Response
+): Promise<void> {
+  const { date, description, lines } = req.body;
+
+  const entryDate = date !== undefined ? parseDay(date, "date") : undefined;
+  const entryDescription = parseDescription(description, "description");
+
+  if (!entryDescription) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "description is required"
+    );
+  }
+
+  const journalLines = parseJournalLines(lines);
+
+  const businessId = await findBusinessId(req);
+
+  const { data: entry, error } = await services.ledger.createJournal({
+    business_id: businessId,
+    entry_date: entryDate ?? toDateString(new Date()),
+    description: entryDescription,
+    lines: journalLines,
+    created_by: req.user!.id,
+  });
+
+  if (error || !entry) {
+    throw toLedgerError(error, "Failed to post journal entry");
+  }
+
+  res
+    .status(201)
+    .json(successResponse(entry, "Journal entry posted successfully"));
+}
+
+/**
+ * Reverse manual journal (posts a mirror entry dated today)
+ * POST /api/v1/businesses/:businessId/ledger/journals/:journalId/reverse
+ */
+export async function reverseJournal(
+  req: Request,
+  res: Response
+): Promise<void> {
+  const description = parseDescription(req.body?.description, "description");
+  const entry = await findJournal(req);
+
+  const { data: reversal, error } = await services.ledger.reverseJournal(
+    entry,
+    description ?? null,
+    req.user!.id
+  );
+
+  if (error || !reversal) {
+    throw toLedgerError(error, "Failed to reverse journal entry");
+  }
+
+  res
+    .status(201)
+    .json(successResponse(reversal, "Journal entry reversed successfully"));
+}
+
+/**
+ * Get trial balance on a date (default: today)
+ * GET /api/v1/businesses/:businessId/ledger/trial-balance?asOf=2026-10-31
+ */
+export async function getTrialBalance(
+  req: Request,
+  res: Response
+): Promise<void> {
+  const asOf =
+    req.query.asOf !== undefined
+      ? parseDay(req.query.asOf, "asOf")
+      : toDateString(new Date());
+
+  const businessId = await findBusinessId(req);
+
+  const { data: trialBalance, error } = await services.ledger.getTrialBalance(
+    businessId,
+    asOf
+  );
+
+  if (error || !trialBalance) {
+    throw new AppError(
+      500,
+      ErrorCodes.SERVER_ERROR,
+      "Failed to compute trial balance"
+    );
+  }
+
+  res.status(200).json(successResponse(trialBalance));
+}
@@ -0,0 +1,432 @@
+/**
+ * Money Account Controller
+ * Handle money accounts (cash drawer, bank, e-wallet) and transfers between them
+ */
+
+import { Request, Response } from "express";
+import { initializeApp } from "../api/supabase/client";
+import { successResponse, ErrorCodes } from "../utils/response.util";
+import {
+  isNonEmptyString,
+  isPositiveNumber,
+  isNonNegativeNumber,
+  isInteger,
+  isValidDate,
+  sanitizeString,
+} from "../utils/validation.util";
+import { AppError } from "../middlewares/error.middleware";
+import type {
+  MoneyAccount,
+  MoneyAccountType,
+  UpdateMoneyAccountDTO,
+} from "../models/money-account.model";
+
+const { repos } = initializeApp();
+
+const ACCOUNT_TYPES: MoneyAccountType[] = ["cash", "bank", "e_wallet"];
+
+/**
+ * Helper: Verify business ownership
+ */
+async function verifyBusinessOwnership(
+  businessId: number,
+  userEmail: string
+): Promise<void> {
+  const { data: business } = await repos.businesses.findById(businessId);
+  if (!business) {
+    throw new AppError(404, ErrorCodes.NOT_FOUND, "Business not found");
+  }
+
+  const { data: user } = await repos.users.findByEmail(userEmail);
+  if (!user || business.user_id !== user.id) {
+    throw new AppError(
+      403,
+      ErrorCodes.UNAUTHORIZED,
+      "Not authorized to access this business"
+    );
+  }
+}
+
+/**
+ * Helper: Parse route IDs and load a money account of the business
+ */
+async function findMoneyAccount(req: Request): Promise<MoneyAccount> {
+  if (!req.user) {
+    throw new AppError(
+      401,
+      ErrorCodes.AUTHENTICATION_REQUIRED,
+      "User not authenticated"
+    );
+  }
+
+  const businessId = parseInt(req.params.businessId);
+  const accountId = parseInt(req.params.accountId);
+
+  if (isNaN(businessId) || isNaN(accountId)) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "Invalid business or account ID"
+    );
+  }
+
+  // Verify business ownership
+  await verifyBusinessOwnership(businessId, req.user.email);
+
+  const { data: account } = await repos.moneyAccounts.findById(accountId);
+  if (!account || account.business_id !== businessId) {
+    throw new AppError(404, ErrorCodes.NOT_FOUND, "Money account not found");
+  }
+
+  return account;
+}
+
+/**
+ * Helper: Validate an account type
+ */
+function validateAccountType(type: any): void {
+  if (!ACCOUNT_TYPES.includes(type)) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "Type must be cash, bank, or e_wallet"
+    );
+  }
+}
+
+/**
+ * Create money account
+ * POST /api/v1/businesses/:businessId/money-accounts
+ */
+export async function createMoneyAccount(
+  req: Request,
+  res: Response
+): Promise<void> {
+  if (!req.user) {
+    throw new AppError(
+      401,
+      ErrorCodes.AUTHENTICATION_REQUIRED,
+      "User not authenticated"
+    );
+  }
+
+  const businessId = parseInt(req.params.businessId);
+  const { name, type, opening_balance, is_default } = req.body;
+
+  if (isNaN(businessId)) {
+    throw new AppError(400, ErrorCodes.VALIDATION_ERROR, "Invalid business ID");
+  }
+
+  if (!isNonEmptyString(name)) {
+    throw new AppError(400, ErrorCodes.VALIDATION_ERROR, "Name is required");
+  }
+
+  if (type !== undefined) {
+    validateAccountType(type);
+  }
+
+  if (opening_balance !== undefined && !isNonNegativeNumber(opening_balance)) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "Opening balance must be a non-negative number"
+    );
+  }
+
+  // Verify business ownership
+  await verifyBusinessOwnership(businessId, req.user.email);
+
+  // Opening balance is added to the business balance
+  const { data: account, error } = await repos.moneyAccounts.open({
+    business_id: businessId,
+    name: sanitizeString(name),
+    type: type || "cash",
+    balance: Number(opening_balance || 0),
+    is_default: is_default === true,
+  });
+
+  if (error || !account) {
+    throw new AppError(
+      500,
+      ErrorCodes.SERVER_ERROR,
+      "Failed to create money account"
+    );
+  }
+
+  res
+    .status(201)
+    .json(successResponse(account, "Money account created successfully"));
+}
+
+/**
+ * Get all money accounts with their balances
+ * GET /api/v1/businesses/:businessId/money-accounts
+ */
+export async function getAllMoneyAccounts(
+  req: Request,
+  res: Response
+): Promise<void> {
+  if (!req.user) {
+    throw new AppError(
+      401,
+      ErrorCodes.AUTHENTICATION_REQUIRED,
+      "User not authenticated"
+    );
+  }
+
+  const businessId = parseInt(req.params.businessId);
+
+  if (isNaN(businessId)) {
+    throw new AppError(400, ErrorCodes.VALIDATION_ERROR, "Invalid business ID");
+  }
+
+  // Verify business ownership
+  await verifyBusinessOwnership(businessId, req.user.email);
+
+  const { data: accounts, error } = await repos.moneyAccounts.findByBusinessId(
+    businessId
+  );
+
+  if (error) {
+    throw new AppError(
+      500,
+      ErrorCodes.SERVER_ERROR,
+      "Failed to fetch money accounts"
+    );
+  }
+
+  res.status(200).json(successResponse(accounts || []));
+}
+
+/**
+ * Update money account (name, type, default flag)
+ * The balance only changes through transactions and transfers
+ * PUT /api/v1/businesses/:businessId/money-accounts/:accountId
+ */
+export async function updateMoneyAccount(
+  req: Request,
+  res: Response
+): Promise<void> {
+  const account = await findMoneyAccount(req);
+  const { name, type, is_default } = req.body;
+
+  const updates: UpdateMoneyAccountDTO = {};
+
+  if (name !== undefined) {
+    if (!isNonEmptyString(name)) {
+      throw new AppError(
+        400,
+        ErrorCodes.VALIDATION_ERROR,
+        "Name must be a non-empty string"
+      );
+    }
+    updates.name = sanitizeString(name);
+  }
+
+  if (type !== undefined) {
+    validateAccountType(type);
+    updates.type = type;
+  }
+
+  // A business always has a default account: move the flag, never unset it
+  if (is_default === false && account.is_default) {
+    throw new AppError(
+      400,
+      ErrorCodes.BUSINESS_LOGIC_ERROR,
+      "Set another account as default instead"
+    );
+  }
+
+  if (is_default === true && !account.is_default) {
+    await repos.moneyAccounts.clearDefault(account.business_id);
+    updates.is_default = true;
+  }
+
+  const { data: updated, error } = await repos.moneyAccounts.update(
+    account.id,
+    updates
+  );
+
+  if (error || !updated) {
+    throw new AppError(
+      500,
+      ErrorCodes.SERVER_ERROR,
+      "Failed to update money account"
+    );
+  }
+
+  res
+    .status(200)
+    .json(successResponse(updated, "Money account updated successfully"));
+}
+
+/**
+ * Delete money account
+ * Only non-default accounts with a zero balance and no open transactions
+ * can be deleted
+ * DELETE /api/v1/businesses/:businessId/money-accounts/:accountId
+ */
+export async function deleteMoneyAccount(
+  req: Request,
+  res: Response
+): Promise<void> {
+  const account = await findMoneyAccount(req);
+
+  // The database checks and deletes under a lock on the account, so a
+  // payment cannot slip in between the checks and the delete
+  const { error } = await repos.moneyAccounts.remove(account.id);
+
+  if (error) {
+    const message: string = error.message || "Failed to delete money account";
+    if (
+      message.includes("default account") ||
+      message.includes("remaining balance") ||
+      message.includes("open transactions")
+    ) {
+      throw new AppError(400, ErrorCodes.BUSINESS_LOGIC_ERROR, message);
+    }
+    throw new AppError(
+      500,
+      ErrorCodes.SERVER_ERROR,
+      "Failed to delete money account"
+    );
+  }
+
+  res
+    .status(200)
+    .json(successResponse(null, "Money account deleted successfully"));
+}
+
+/**
+ * Transfer money between two accounts
+ * Not counted as income or expense; the business balance does not change
+ * POST /api/v1/businesses/:businessId/money-accounts/transfers
+ */
+export async function createTransfer(
+  req: Request,
+  res: Response
+): Promise<void> {
+  if (!req.user) {
+    throw new AppError(
+      401,
+      ErrorCodes.AUTHENTICATION_REQUIRED,
+      "User not authenticated"
+    );
+  }
+
+  const businessId = parseInt(req.params.businessId);
+  const { fromAccountId, toAccountId, amount, description, date } = req.body;
+
+  if (isNaN(businessId)) {
+    throw new AppError(400, ErrorCodes.VALIDATION_ERROR, "Invalid business ID");
+  }
+
+  if (!isInteger(fromAccountId) || !isInteger(toAccountId)) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "fromAccountId and toAccountId are required"
+    );
+  }
+
+  if (Number(fromAccountId) === Number(toAccountId)) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "Cannot transfer to the same account"
+    );
+  }
+
+  if (!amount || !isPositiveNumber(amount)) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "Amount must be a positive number"
+    );
+  }
+
+  if (date !== undefined && !isValidDate(date)) {
+    throw new AppError(400, ErrorCodes.VALIDATION_ERROR, "Invalid date");
+  }
+
+  // Verify business ownership
+  await verifyBusinessOwnership(businessId, req.user.email);
+
+  const { data: transfer, error } = await repos.accountTransfers.transfer({
+    business_id: businessId,
+    from_account_id: Number(fromAccountId),
+    to_account_id: Number(toAccountId),
+    amount: Number(amount),
+    description: description ? sanitizeString(description) : undefined,
+    transfer_date: date,
+  });
+
+  if (error || !transfer) {
+    const message: string = error?.message || "Failed to transfer money";
+    if (message.includes("not found")) {
+      throw new AppError(404, ErrorCodes.NOT_FOUND, message);
+    }
+    if (message.includes("Insufficient funds")) {
+      throw new AppError(400, ErrorCodes.INSUFFICIENT_FUNDS, message);
+    }
+    throw new AppError(500, ErrorCodes.SERVER_ERROR, message);
+  }
+
+  res
+    .status(201)
+    .json(successResponse(transfer, "Transfer recorded successfully"));
+}
+
+/**
+ * Get transfers between accounts
+ * GET /api/v1/businesses/:businessId/money-accounts/transfers
+ * Query: startDate, endDate, accountId (from or to)
+ */
+export async function getTransfers(
+  req: Request,
+  res: Response
+): Promise<void> {
+  if (!req.user) {
+    throw new AppError(
+      401,
+      ErrorCodes.AUTHENTICATION_REQUIRED,
+      "User not authenticated"
+    );
+  }
+
+  const businessId = parseInt(req.params.businessId);
+  const { startDate, endDate, accountId } = req.query;
+
+  if (isNaN(businessId)) {
+    throw new AppError(400, ErrorCodes.VALIDATION_ERROR, "Invalid business ID");
+  }
+
+  if (accountId !== undefined && !isInteger(accountId)) {
+    throw new AppError(400, ErrorCodes.VALIDATION_ERROR, "Invalid account ID");
+  }
+
+  // Verify business ownership
+  await verifyBusinessOwnership(businessId, req.user.email);
+
+  const dateRange =
+    startDate && endDate
+      ? { startDate: startDate as string, endDate: endDate as string }
+      : undefined;
+
+  const { data: transfers, error } =
+    await repos.accountTransfers.findByBusinessId(
+      businessId,
+      dateRange,
+      accountId !== undefined ? Number(accountId) : undefined
+    );
+
+  if (error) {
+    throw new AppError(
+      500,
+      ErrorCodes.SERVER_ERROR,
+      "Failed to fetch transfers"
+    );
+  }
+
+  res.status(200).json(successResponse(transfers || []));
+}
@@ -0,0 +1,277 @@
+/**
+ * Payable Controller
+ * Handle supplier payables of credit purchases and payments to suppliers
+ */
+
+import { Request, Response } from "express";
+import { initializeApp } from "../api/supabase/client";
+import { successResponse, ErrorCodes } from "../utils/response.util";
+import {
+  isPositiveNumber,
+  isInteger,
+  isValidDate,
+} from "../utils/validation.util";
+import { AppError } from "../middlewares/error.middleware";
+import type { PayableStatus } from "../models/payable.model";
+import type { PaymentMethod } from "../models/transaction-payment.model";
+
+const { repos, services } = initializeApp();
+
+const PAYABLE_STATUSES: PayableStatus[] = ["open", "paid", "cancelled"];
+const PAYMENT_METHODS: PaymentMethod[] = [
+  "cash",
+  "qris",
+  "bank_transfer",
+  "e_wallet",
+];
+const DEFAULT_UPCOMING_DAYS = 7;
+
+/**
+ * Helper: Verify business ownership
+ */
+async function verifyBusinessOwnership(
+  businessId: number,
+  userEmail: string
+): Promise<void> {
+  const { data: business } = await repos.businesses.findById(businessId);
+  if (!business) {
+    throw new AppError(404, ErrorCodes.NOT_FOUND, "Business not found");
+  }
+
+  const { data: user } = await repos.users.findByEmail(userEmail);
+  if (!user || business.user_id !== user.id) {
+    throw new AppError(
+      403,
+      ErrorCodes.UNAUTHORIZED,
+      "Not authorized to access this business"
+    );
+  }
+}
+
+/**
+ * Helper: Parse route IDs and verify business ownership
+ */
+async function parsePayableParams(
+  req: Request
+): Promise<{ businessId: number; payableId: number }> {
+  if (!req.user) {
+    throw new AppError(
+      401,
+      ErrorCodes.AUTHENTICATION_REQUIRED,
+      "User not authenticated"
+    );
+  }
+
+  const businessId = parseInt(req.params.businessId);
+  const payableId = parseInt(req.params.payableId);
+
+  if (isNaN(businessId) || isNaN(payableId)) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "Invalid business or payable ID"
+    );
+  }
+
+  // Verify business ownership
+  await verifyBusinessOwnership(businessId, req.user.email);
+
+  return { businessId, payableId };
+}
+
+/**
+ * Get payables with their overdue flag
+ * GET /api/v1/businesses/:businessId/payables?status=open|paid|cancelled
+ */
+export async function getAllPayables(
+  req: Request,
+  res: Response
+): Promise<void> {
+  if (!req.user) {
+    throw new AppError(
+      401,
+      ErrorCodes.AUTHENTICATION_REQUIRED,
+      "User not authenticated"
+    );
+  }
+
+  const businessId = parseInt(req.params.businessId);
+  const status = req.query.status as PayableStatus | undefined;
+
+  if (isNaN(businessId)) {
+    throw new AppError(400, ErrorCodes.VALIDATION_ERROR, "Invalid business ID");
+  }
+
+  if (status && !PAYABLE_STATUSES.includes(status)) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "Status must be open, paid, or cancelled"
+    );
+  }
+
+  // Verify business ownership
+  await verifyBusinessOwnership(businessId, req.user.email);
+
+  const { data: payables, error } = await services.payable.getPayables(
+    businessId,
+    status
+  );
+
+  if (error || !payables) {
+    throw new AppError(
+      500,
+      ErrorCodes.SERVER_ERROR,
+      "Failed to fetch payables"
+    );
+  }
+
+  res.status(200).json(successResponse(payables));
+}
+
+/**
+ * Get open payables due within the next days (overdue ones included)
+ * GET /api/v1/businesses/:businessId/payables/upcoming?days=7
+ */
+export async function getUpcomingPayables(
+  req: Request,
+  res: Response
+): Promise<void> {
+  if (!req.user) {
+    throw new AppError(
+      401,
+      ErrorCodes.AUTHENTICATION_REQUIRED,
+      "User not authenticated"
+    );
+  }
+
+  const businessId = parseInt(req.params.businessId);
+  const days =
+    req.query.days !== undefined
+      ? parseInt(req.query.days as string)
+      : DEFAULT_UPCOMING_DAYS;
+
+  if (isNaN(businessId)) {
+    throw new AppError(400, ErrorCodes.VALIDATION_ERROR, "Invalid business ID");
+  }
+
+  if (isNaN(days) || days < 0 || days > 365) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "Days must be between 0 and 365"
+    );
+  }
+
+  // Verify business ownership
+  await verifyBusinessOwnership(businessId, req.user.email);
+
+  const { data: payables, error } = await services.payable.getUpcoming(
+    businessId,
+    days
+  );
+
+  if (error || !payables) {
+    throw new AppError(
+      500,
+      ErrorCodes.SERVER_ERROR,
+      "Failed to fetch upcoming payables"
+    );
+  }
+
+  res.status(200).json(successResponse(payables));
+}
+
+/**
+ * Get payable with its payments
+ * GET /api/v1/businesses/:businessId/payables/:payableId
+ */
+export async function getPayableById(
+  req: Request,
+  res: Response
+): Promise<void> {
+  const { businessId, payableId } = await parsePayableParams(req);
+
+  const { data: payable, error } = await services.payable.getPayable(
+    businessId,
+    payableId
+  );
+
+  if (error || !payable) {
+    throw new AppError(404, ErrorCodes.NOT_FOUND, "Payable not found");
+  }
+
+  res.status(200).json(successResponse(payable));
+}
+
+/**
+ * Record a payment to the supplier
+ * The money account is debited when the payment is recorded
+ * POST /api/v1/businesses/:businessId/payables/:payableId/payments
+ */
+export async function recordPayablePayment(
+  req: Request,
+  res: Response
+): Promise<void> {
+  const { businessId, payableId } = await parsePayableParams(req);
+  const { amount, accountId, paymentMethod, reference, date } = req.body;
+
+  if (!amount || !isPositiveNumber(amount)) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "Amount must be a positive number"
+    );
+  }
+
+  if (
+    accountId !== undefined &&
+    accountId !== null &&
+    (!isInteger(accountId) || Number(accountId) <= 0)
+  ) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "accountId must be a positive integer"
+    );
+  }
+
+  if (paymentMethod !== undefined && !PAYMENT_METHODS.includes(paymentMethod)) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "paymentMethod must be cash, qris, bank_transfer, or e_wallet"
+    );
+  }
+
+  if (date !== undefined && !isValidDate(date)) {
+    throw new AppError(400, ErrorCodes.VALIDATION_ERROR, "Invalid date");
+  }
+
+  const { data: payment, error } = await services.payable.recordPayment(
+    businessId,
+    payableId,
+    {
+      amount: Number(amount),
+      account_id: accountId ? Number(accountId) : undefined,
+      payment_method: paymentMethod,
+      reference: typeof reference === "string" ? reference : undefined,
+      payment_date: date,
+    }
+  );
+
+  if (error || !payment) {
+    const message: string = error?.message || "Failed to record payment";
+    if (message.includes("not found")) {
+      throw new AppError(404, ErrorCodes.NOT_FOUND, message);
+    }
+    if (message.includes("exceeds") || message.includes("Payable is")) {
+      throw new AppError(400, ErrorCodes.BUSINESS_LOGIC_ERROR, message);
+    }
+    throw new AppError(500, ErrorCodes.SERVER_ERROR, message);
+  }
+
+  res
+    .status(201)
+    .json(successResponse(payment, "Payment recorded successfully"));
+}
@@ -14,6 +14,7 @@ import {
   isPositiveNumber,
 } from "../utils/validation.util";
 import { uploadProductImage, deleteProductImage } from "../utils/storage.util";
+import { getAuditContext } from "../utils/audit.util";
 import { AppError } from "../middlewares/error.middleware";
 
 const { repos, services } = initializeApp();
@@ -184,6 +185,14 @@ export async function createProduct(
       createdProduct = updatedProduct;
     }
 
+    await services.audit.record(getAuditContext(req), {
+      businessId,
+      action: "create",
+      entityType: "product",
+      entityId: createdProduct.id,
+      after: createdProduct,
+    });
+
     res
       .status(201)
       .json(successResponse(createdProduct, "Product created successfully"));
@@ -481,6 +490,15 @@ export async function updateProduct(
       );
     }
 
+    await services.audit.record(getAuditContext(req), {
+      businessId,
+      action: "update",
+      entityType: "product",
+      entityId: productId,
+      before: product,
+      after: updatedProduct,
+    });
+
     res
       .status(200)
       .json(successResponse(updatedProduct, "Product updated successfully"));
@@ -539,9 +557,117 @@ export async function deleteProduct(
     );
   }
 
+  await services.audit.record(getAuditContext(req), {
+    businessId,
+    action: "delete",
+    entityType: "product",
+    entityId: productId,
+    before: product,
+  });
+
   res.status(200).json(successResponse(null, "Product deleted successfully"));
 }
 
+/**
+ * Get deleted products that can still be restored, latest deleted first
+ * GET /api/v1/businesses/:businessId/products/trash
+ */
+export async function getProductTrash(
+  req: Request,
+  res: Response
+): Promise<void> {
+  if (!req.user) {
+    throw new AppError(
+      401,
+      ErrorCodes.AUTHENTICATION_REQUIRED,
+      "User not authenticated"
+    );
+  }
+
+  const businessId = parseInt(req.params.businessId);
+
+  if (isNaN(businessId)) {
+    throw new AppError(400, ErrorCodes.VALIDATION_ERROR, "Invalid business ID");
+  }
+
+  // Verify business ownership
+  await verifyBusinessOwnership(businessId, req.user.email);
+
+  const { data: products, error } = await services.trash.getProducts(
+    businessId
+  );
+
+  if (error) {
+    throw new AppError(
+      500,
+      ErrorCodes.SERVER_ERROR,
+      "Failed to fetch deleted products"
+    );
+  }
+
+  res.status(200).json(successResponse(products || []));
+}
+
+/**
+ * Restore a deleted product (with the stock it had when deleted)
+ * POST /api/v1/businesses/:businessId/products/:productId/restore
+ */
+export async function restoreProduct(
+  req: Request,
+  res: Response
+): Promise<void> {
+  if (!req.user) {
+    throw new AppError(
+      401,
+      ErrorCodes.AUTHENTICATION_REQUIRED,
+      "User not authenticated"
+    );
+  }
+
+  const businessId = parseInt(req.params.businessId);
+  const productId = parseInt(req.params.productId);
+
+  if (isNaN(businessId) || isNaN(productId)) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "Invalid business or product ID"
+    );
+  }
+
+  // Verify business ownership
+  await verifyBusinessOwnership(businessId, req.user.email);
+
+  const { data: product, error } = await services.trash.restoreProduct(
+    businessId,
+    productId
+  );
+
+  if (error?.message?.includes("not found")) {
+    throw new AppError(404, ErrorCodes.NOT_FOUND, error.message);
+  }
+
+  if (error || !product) {
+    throw new AppError(
+      500,
+      ErrorCodes.SERVER_ERROR,
+      "Failed to restore product"
+    );
+  }
+
+  await services.audit.record(getAuditContext(req), {
+    businessId,
+    action: "restore",
+    entityType: "product",
+    entityId: productId,
+    after: product,
+  });
+
+  res
+    .status(200)
+    .json(successResponse(product, "Product restored successfully"));
+}
+
 /**
  * Batch update stock status
  * POST /api/v1/businesses/:businessId/products/update-stock-status
@@ -567,6 +693,11 @@ export async function updateStockStatusBatch(
   // Verify business ownership
   await verifyBusinessOwnership(businessId, req.user.email);
 
+  // Snapshots for the audit log
+  const { data: before } = await repos.products.findAll({
+    business_id: businessId,
+  });
+
   // Update stock status for all products
   const { updated, error } = await services.product.updateStockStatusBatch(
     businessId
@@ -580,6 +711,32 @@ export async function updateStockStatusBatch(
     );
   }
 
+  // One log per product whose status changed
+  if (updated > 0) {
+    const { data: after } = await repos.products.findAll({
+      business_id: businessId,
+    });
+    const previous = new Map((before || []).map((p) => [p.id, p]));
+
+    await services.audit.recordMany(
+      getAuditContext(req),
+      (after || [])
+        .filter(
+          (p) =>
+            previous.has(p.id) &&
+            previous.get(p.id)!.stock_status !== p.stock_status
+        )
+        .map((p) => ({
+          businessId,
+          action: "update_stock_status" as const,
+          entityType: "product" as const,
+          entityId: p.id,
+          before: previous.get(p.id),
+          after: p,
+        }))
+    );
+  }
+
   res
     .status(200)
     .json(
@@ -644,6 +801,15 @@ export async function adjustStock(req: Request, res: Response): Promise<void> {
     );
   }
 
+  await services.audit.record(getAuditContext(req), {
+    businessId,
+    action: "adjust_stock",
+    entityType: "product",
+    entityId: productId,
+    before: product,
+    after: updatedProduct,
+  });
+
   res
     .status(200)
     .json(successResponse(updatedProduct, "Stock adjusted successfully"));
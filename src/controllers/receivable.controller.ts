@@ -0,0 +1,266 @@
+/**
+ * Receivable Controller
+ * Handle credit sale receivables, installment payments and aging
+ */
+
+import { Request, Response } from "express";
+import { initializeApp } from "../api/supabase/client";
+import { successResponse, ErrorCodes } from "../utils/response.util";
+import {
+  isPositiveNumber,
+  isInteger,
+  isValidDate,
+} from "../utils/validation.util";
+import { AppError } from "../middlewares/error.middleware";
+import type { ReceivableStatus } from "../models/receivable.model";
+import type { PaymentMethod } from "../models/transaction-payment.model";
+
+const { repos, services } = initializeApp();
+
+const RECEIVABLE_STATUSES: ReceivableStatus[] = ["open", "paid", "cancelled"];
+const PAYMENT_METHODS: PaymentMethod[] = [
+  "cash",
+  "qris",
+  "bank_transfer",
+  "e_wallet",
+];
+
+/**
+ * Helper: Verify business ownership
+ */
+async function verifyBusinessOwnership(
+  businessId: number,
+  userEmail: string
+): Promise<void> {
+  const { data: business } = await repos.businesses.findById(businessId);
+  if (!business) {
+    throw new AppError(404, ErrorCodes.NOT_FOUND, "Business not found");
+  }
+
+  const { data: user } = await repos.users.findByEmail(userEmail);
+  if (!user || business.user_id !== user.id) {
+    throw new AppError(
+      403,
+      ErrorCodes.UNAUTHORIZED,
+      "Not authorized to access this business"
+    );
+  }
+}
+
+/**
+ * Helper: Parse route IDs and verify business ownership
+ */
+async function parseReceivableParams(
+  req: Request
+): Promise<{ businessId: number; receivableId: number }> {
+  if (!req.user) {
+    throw new AppError(
+      401,
+      ErrorCodes.AUTHENTICATION_REQUIRED,
+      "User not authenticated"
+    );
+  }
+
+  const businessId = parseInt(req.params.businessId);
+  const receivableId = parseInt(req.params.receivableId);
+
+  if (isNaN(businessId) || isNaN(receivableId)) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "Invalid business or receivable ID"
+    );
+  }
+
+  // Verify business ownership
+  await verifyBusinessOwnership(businessId, req.user.email);
+
+  return { businessId, receivableId };
+}
+
+/**
+ * Get receivables
+ * GET /api/v1/businesses/:businessId/receivables?status=open|paid|cancelled
+ */
+export async function getAllReceivables(
+  req: Request,
+  res: Response
+): Promise<void> {
+  if (!req.user) {
+    throw new AppError(
+      401,
+      ErrorCodes.AUTHENTICATION_REQUIRED,
+      "User not authenticated"
+    );
+  }
+
+  const businessId = parseInt(req.params.businessId);
+  const status = req.query.status as ReceivableStatus | undefined;
+
+  if (isNaN(businessId)) {
+    throw new AppError(400, ErrorCodes.VALIDATION_ERROR, "Invalid business ID");
+  }
+
+  if (status && !RECEIVABLE_STATUSES.includes(status)) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "Status must be open, paid, or cancelled"
+    );
+  }
+
+  // Verify business ownership
+  await verifyBusinessOwnership(businessId, req.user.email);
+
+  const { data: receivables, error } =
+    await repos.receivables.findByBusinessId(businessId, status);
+
+  if (error) {
+    throw new AppError(
+      500,
+      ErrorCodes.SERVER_ERROR,
+      "Failed to fetch receivables"
+    );
+  }
+
+  res.status(200).json(successResponse(receivables || []));
+}
+
+/**
+ * Get aging report of open receivables
+ * GET /api/v1/businesses/:businessId/receivables/aging?asOf=YYYY-MM-DD
+ */
+export async function getAgingReport(
+  req: Request,
+  res: Response
+): Promise<void> {
+  if (!req.user) {
+    throw new AppError(
+      401,
+      ErrorCodes.AUTHENTICATION_REQUIRED,
+      "User not authenticated"
+    );
+  }
+
+  const businessId = parseInt(req.params.businessId);
+  const asOf = req.query.asOf as string | undefined;
+
+  if (isNaN(businessId)) {
+    throw new AppError(400, ErrorCodes.VALIDATION_ERROR, "Invalid business ID");
+  }
+
+  if (asOf !== undefined && !isValidDate(asOf)) {
+    throw new AppError(400, ErrorCodes.VALIDATION_ERROR, "Invalid asOf date");
+  }
+
+  // Verify business ownership
+  await verifyBusinessOwnership(businessId, req.user.email);
+
+  const { data: report, error } = await services.receivable.getAgingReport(
+    businessId,
+    asOf
+  );
+
+  if (error || !report) {
+    throw new AppError(
+      500,
+      ErrorCodes.SERVER_ERROR,
+      "Failed to build aging report"
+    );
+  }
+
+  res.status(200).json(successResponse(report));
+}
+
+/**
+ * Get receivable with its installments
+ * GET /api/v1/businesses/:businessId/receivables/:receivableId
+ */
+export async function getReceivableById(
+  req: Request,
+  res: Response
+): Promise<void> {
+  const { businessId, receivableId } = await parseReceivableParams(req);
+
+  const { data: receivable } = await repos.receivables.findWithPayments(
+    receivableId
+  );
+
+  if (!receivable || receivable.business_id !== businessId) {
+    throw new AppError(404, ErrorCodes.NOT_FOUND, "Receivable not found");
+  }
+
+  res.status(200).json(successResponse(receivable));
+}
+
+/**
+ * Record an installment payment
+ * The money account is credited when the payment is recorded
+ * POST /api/v1/businesses/:businessId/receivables/:receivableId/payments
+ */
+export async function recordReceivablePayment(
+  req: Request,
+  res: Response
+): Promise<void> {
+  const { businessId, receivableId } = await parseReceivableParams(req);
+  const { amount, accountId, paymentMethod, reference, date } = req.body;
+
+  if (!amount || !isPositiveNumber(amount)) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "Amount must be a positive number"
+    );
+  }
+
+  if (
+    accountId !== undefined &&
+    accountId !== null &&
+    (!isInteger(accountId) || Number(accountId) <= 0)
+  ) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "accountId must be a positive integer"
+    );
+  }
+
+  if (paymentMethod !== undefined && !PAYMENT_METHODS.includes(paymentMethod)) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "paymentMethod must be cash, qris, bank_transfer, or e_wallet"
+    );
+  }
+
+  if (date !== undefined && !isValidDate(date)) {
+    throw new AppError(400, ErrorCodes.VALIDATION_ERROR, "Invalid date");
+  }
+
+  const { data: payment, error } = await services.receivable.recordPayment(
+    businessId,
+    receivableId,
+    {
+      amount: Number(amount),
+      account_id: accountId ? Number(accountId) : undefined,
+      payment_method: paymentMethod,
+      reference: typeof reference === "string" ? reference : undefined,
+      payment_date: date,
+    }
+  );
+
+  if (error || !payment) {
+    const message: string = error?.message || "Failed to record payment";
+    if (message.includes("not found")) {
+      throw new AppError(404, ErrorCodes.NOT_FOUND, message);
+    }
+    if (message.includes("exceeds") || message.includes("Receivable is")) {
+      throw new AppError(400, ErrorCodes.BUSINESS_LOGIC_ERROR, message);
+    }
+    throw new AppError(500, ErrorCodes.SERVER_ERROR, message);
+  }
+
+  res
+    .status(201)
+    .json(successResponse(payment, "Payment recorded successfully"));
+}
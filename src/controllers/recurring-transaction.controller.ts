@@ -0,0 +1,573 @@
+/**
+ * Recurring Transaction Controller
+ * Handle recurring transaction templates (rent, salaries, subscriptions)
+ */
+
+import { Request, Response } from "express";
+import { initializeApp } from "../api/supabase/client";
+import { successResponse, ErrorCodes } from "../utils/response.util";
+import {
+  isPositiveNumber,
+  isInteger,
+  isValidDate,
+} from "../utils/validation.util";
+import { toDateString } from "../utils/schedule.util";
+import { AppError } from "../middlewares/error.middleware";
+import type { TransactionType } from "../models/transaction.model";
+import type {
+  RecurringTransaction,
+  RecurrenceFrequency,
+} from "../models/recurring-transaction.model";
+
+const { repos, services } = initializeApp();
+
+const FREQUENCIES: RecurrenceFrequency[] = [
+  "daily",
+  "weekly",
+  "monthly",
+  "yearly",
+];
+
+/**
+ * Helper: Verify business ownership
+ */
+async function verifyBusinessOwnership(
+  businessId: number,
+  userEmail: string
+): Promise<void> {
+  const { data: business } = await repos.businesses.findById(businessId);
+  if (!business) {
+    throw new AppError(404, ErrorCodes.NOT_FOUND, "Business not found");
+  }
+
+  const { data: user } = await repos.users.findByEmail(userEmail);
+  if (!user || business.user_id !== user.id) {
+    throw new AppError(
+      403,
+      ErrorCodes.UNAUTHORIZED,
+      "Not authorized to access this business"
+    );
+  }
+}
+
+/**
+ * Helper: Parse route IDs and load a recurring transaction of the business
+ */
+async function findRecurringTransaction(
+  req: Request
+): Promise<RecurringTransaction> {
+  if (!req.user) {
+    throw new AppError(
+      401,
+      ErrorCodes.AUTHENTICATION_REQUIRED,
+      "User not authenticated"
+    );
+  }
+
+  const businessId = parseInt(req.params.businessId);
+  const recurringId = parseInt(req.params.recurringId);
+
+  if (isNaN(businessId) || isNaN(recurringId)) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "Invalid business or recurring transaction ID"
+    );
+  }
+
+  // Verify business ownership
+  await verifyBusinessOwnership(businessId, req.user.email);
+
+  const { data: recurring } = await repos.recurringTransactions.findById(
+    recurringId
+  );
+  if (!recurring || recurring.business_id !== businessId) {
+    throw new AppError(
+      404,
+      ErrorCodes.NOT_FOUND,
+      "Recurring transaction not found"
+    );
+  }
+
+  return recurring;
+}
+
+/**
+ * Helper: Validate schedule fields (only the ones present in the body)
+ */
+function validateSchedule(body: any): void {
+  const { frequency, day_of_week, day_of_month, month_of_year, end_date } =
+    body;
+
+  if (frequency !== undefined && !FREQUENCIES.includes(frequency)) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "Frequency must be daily, weekly, monthly or yearly"
+    );
+  }
+
+  if (
+    day_of_week !== undefined &&
+    (!isInteger(day_of_week) || day_of_week < 0 || day_of_week > 6)
+  ) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "day_of_week must be an integer between 0 (Sunday) and 6 (Saturday)"
+    );
+  }
+
+  if (
+    day_of_month !== undefined &&
+    (!isInteger(day_of_month) || day_of_month < 1 || day_of_month > 31)
+  ) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "day_of_month must be an integer between 1 and 31"
+    );
+  }
+
+  if (
+    month_of_year !== undefined &&
+    (!isInteger(month_of_year) || month_of_year < 1 || month_of_year > 12)
+  ) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "month_of_year must be an integer between 1 and 12"
+    );
+  }
+
+  if (end_date !== undefined && end_date !== null && !isValidDate(end_date)) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "end_date must be a valid date"
+    );
+  }
+}
+
+/**
+ * Helper: Validate an optional category against the categories of the business
+ * @returns Category name as stored, or the input when omitted (null clears it)
+ */
+async function parseCategory(
+  businessId: number,
+  type: TransactionType,
+  category: any
+): Promise<string | null | undefined> {
+  if (category === undefined || category === null || category === "") {
+    return category === "" ? null : category;
+  }
+
+  if (typeof category !== "string") {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "Category must be a string"
+    );
+  }
+
+  const { data: resolved, error } =
+    await services.transactionCategory.resolve(businessId, type, category);
+
+  if (error?.message?.includes("not found")) {
+    throw new AppError(400, ErrorCodes.VALIDATION_ERROR, error.message);
+  }
+
+  if (error || !resolved) {
+    throw new AppError(
+      500,
+      ErrorCodes.SERVER_ERROR,
+      "Failed to validate category"
+    );
+  }
+
+  return resolved.name;
+}
+
+/**
+ * Create recurring transaction
+ * POST /api/v1/businesses/:businessId/recurring-transactions
+ */
+export async function createRecurringTransaction(
+  req: Request,
+  res: Response
+): Promise<void> {
+  if (!req.user) {
+    throw new AppError(
+      401,
+      ErrorCodes.AUTHENTICATION_REQUIRED,
+      "User not authenticated"
+    );
+  }
+
+  const businessId = parseInt(req.params.businessId);
+  const {
+    type,
+    category,
+    amount,
+    description,
+    frequency,
+    day_of_week,
+    day_of_month,
+    month_of_year,
+    start_date,
+    end_date,
+  } = req.body;
+
+  if (isNaN(businessId)) {
+    throw new AppError(400, ErrorCodes.VALIDATION_ERROR, "Invalid business ID");
+  }
+
+  // Validate required fields
+  if (!type || (type !== "Income" && type !== "Expense")) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "Valid type is required (Income or Expense)"
+    );
+  }
+
+  if (!amount || !isPositiveNumber(amount)) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "Amount must be a positive number"
+    );
+  }
+
+  if (!frequency) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "Frequency is required (daily, weekly, monthly or yearly)"
+    );
+  }
+
+  if (start_date !== undefined && !isValidDate(start_date)) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "start_date must be a valid date"
+    );
+  }
+
+  validateSchedule(req.body);
+
+  const startDate = start_date
+    ? toDateString(new Date(start_date))
+    : toDateString(new Date());
+
+  if (end_date && toDateString(new Date(end_date)) < startDate) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "end_date must not be before start_date"
+    );
+  }
+
+  // Verify business ownership
+  await verifyBusinessOwnership(businessId, req.user.email);
+
+  const { data: recurring, error } =
+    await services.recurringTransaction.createRecurringTransaction({
+      business_id: businessId,
+      type: type as TransactionType,
+      category:
+        (await parseCategory(businessId, type, category)) || undefined,
+      amount: Number(amount),
+      description: description || undefined,
+      frequency,
+      day_of_week,
+      day_of_month,
+      month_of_year,
+      start_date: startDate,
+      end_date: end_date ? toDateString(new Date(end_date)) : undefined,
+    });
+
+  if (error || !recurring) {
+    throw new AppError(
+      500,
+      ErrorCodes.SERVER_ERROR,
+      "Failed to create recurring transaction"
+    );
+  }
+
+  res
+    .status(201)
+    .json(
+      successResponse(recurring, "Recurring transaction created successfully")
+    );
+}
+
+/**
+ * Get all recurring transactions
+ * GET /api/v1/businesses/:businessId/recurring-transactions
+ */
+export async function getAllRecurringTransactions(
+  req: Request,
+  res: Response
+): Promise<void> {
+  if (!req.user) {
+    throw new AppError(
+      401,
+      ErrorCodes.AUTHENTICATION_REQUIRED,
+      "User not authenticated"
+    );
+  }
+
+  const businessId = parseInt(req.params.businessId);
+
+  if (isNaN(businessId)) {
+    throw new AppError(400, ErrorCodes.VALIDATION_ERROR, "Invalid business ID");
+  }
+
+  // Verify business ownership
+  await verifyBusinessOwnership(businessId, req.user.email);
+
+  const { data: recurring, error } =
+    await repos.recurringTransactions.findByBusinessId(businessId);
+
+  if (error) {
+    throw new AppError(
+      500,
+      ErrorCodes.SERVER_ERROR,
+      "Failed to fetch recurring transactions"
+    );
+  }
+
+  res.status(200).json(successResponse(recurring || []));
+}
+
+/**
+ * Get recurring transaction by ID
+ * GET /api/v1/businesses/:businessId/recurring-transactions/:recurringId
+ */
+export async function getRecurringTransactionById(
+  req: Request,
+  res: Response
+): Promise<void> {
+  const recurring = await findRecurringTransaction(req);
+
+  res.status(200).json(successResponse(recurring));
+}
+
+/**
+ * Update recurring transaction
+ * PUT /api/v1/businesses/:businessId/recurring-transactions/:recurringId
+ */
+export async function updateRecurringTransaction(
+  req: Request,
+  res: Response
+): Promise<void> {
+  const recurring = await findRecurringTransaction(req);
+  const {
+    category,
+    amount,
+    description,
+    frequency,
+    day_of_week,
+    day_of_month,
+    month_of_year,
+    end_date,
+  } = req.body;
+
+  if (amount !== undefined && !isPositiveNumber(amount)) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "Amount must be a positive number"
+    );
+  }
+
+  validateSchedule(req.body);
+
+  const { data: updated, error } =
+    await services.recurringTransaction.updateRecurringTransaction(recurring, {
+      category: await parseCategory(
+        recurring.business_id,
+        recurring.type,
+        category
+      ),
+      amount: amount !== undefined ? Number(amount) : undefined,
+      description,
+      frequency,
+      day_of_week,
+      day_of_month,
+      month_of_year,
+      end_date:
+        end_date === null
+          ? null
+          : end_date
+          ? toDateString(new Date(end_date))
+          : undefined,
+    });
+
+  if (error || !updated) {
+    throw new AppError(
+      500,
+      ErrorCodes.SERVER_ERROR,
+      "Failed to update recurring transaction"
+    );
+  }
+
+  res
+    .status(200)
+    .json(
+      successResponse(updated, "Recurring transaction updated successfully")
+    );
+}
+
+/**
+ * Delete recurring transaction (soft delete)
+ * Already created transactions are kept
+ * DELETE /api/v1/businesses/:businessId/recurring-transactions/:recurringId
+ */
+export async function deleteRecurringTransaction(
+  req: Request,
+  res: Response
+): Promise<void> {
+  const recurring = await findRecurringTransaction(req);
+
+  const { error } = await repos.recurringTransactions.softDelete(recurring.id);
+
+  if (error) {
+    throw new AppError(
+      500,
+      ErrorCodes.SERVER_ERROR,
+      "Failed to delete recurring transaction"
+    );
+  }
+
+  res
+    .status(200)
+    .json(successResponse(null, "Recurring transaction deleted successfully"));
+}
+
+/**
+ * Pause recurring transaction
+ * PUT /api/v1/businesses/:businessId/recurring-transactions/:recurringId/pause
+ */
+export async function pauseRecurringTransaction(
+  req: Request,
+  res: Response
+): Promise<void> {
+  const recurring = await findRecurringTransaction(req);
+
+  const { data: updated, error } =
+    await services.recurringTransaction.setPaused(recurring, true);
+
+  if (error || !updated) {
+    throw new AppError(
+      500,
+      ErrorCodes.SERVER_ERROR,
+      "Failed to pause recurring transaction"
+    );
+  }
+
+  res
+    .status(200)
+    .json(successResponse(updated, "Recurring transaction paused"));
+}
+
+/**
+ * Resume recurring transaction
+ * PUT /api/v1/businesses/:businessId/recurring-transactions/:recurringId/resume
+ */
+export async function resumeRecurringTransaction(
+  req: Request,
+  res: Response
+): Promise<void> {
+  const recurring = await findRecurringTransaction(req);
+
+  const { data: updated, error } =
+    await services.recurringTransaction.setPaused(recurring, false);
+
+  if (error || !updated) {
+    throw new AppError(
+      500,
+      ErrorCodes.SERVER_ERROR,
+      "Failed to resume recurring transaction"
+    );
+  }
+
+  res
+    .status(200)
+    .json(successResponse(updated, "Recurring transaction resumed"));
+}
+
+/**
+ * Skip the next occurrence
+ * POST /api/v1/businesses/:businessId/recurring-transactions/:recurringId/skip
+ */
+export async function skipRecurringOccurrence(
+  req: Request,
+  res: Response
+): Promise<void> {
+  const recurring = await findRecurringTransaction(req);
+  const skippedDate = recurring.next_run_date;
+
+  const { data: updated, error } =
+    await services.recurringTransaction.skipNextOccurrence(recurring);
+
+  if (error || !updated) {
+    throw new AppError(
+      409,
+      ErrorCodes.BUSINESS_LOGIC_ERROR,
+      error?.message || "Failed to skip occurrence"
+    );
+  }
+
+  res
+    .status(200)
+    .json(successResponse(updated, `Occurrence on ${skippedDate} skipped`));
+}
+
+/**
+ * Create due occurrences now (without waiting for the scheduler)
+ * POST /api/v1/businesses/:businessId/recurring-transactions/run
+ */
+export async function runDueRecurringTransactions(
+  req: Request,
+  res: Response
+): Promise<void> {
+  if (!req.user) {
+    throw new AppError(
+      401,
+      ErrorCodes.AUTHENTICATION_REQUIRED,
+      "User not authenticated"
+    );
+  }
+
+  const businessId = parseInt(req.params.businessId);
+
+  if (isNaN(businessId)) {
+    throw new AppError(400, ErrorCodes.VALIDATION_ERROR, "Invalid business ID");
+  }
+
+  // Verify business ownership
+  await verifyBusinessOwnership(businessId, req.user.email);
+
+  const { data: result, error } =
+    await services.recurringTransaction.materializeDueOccurrences(businessId);
+
+  if (error || !result) {
+    throw new AppError(
+      500,
+      ErrorCodes.SERVER_ERROR,
+      "Failed to run recurring transactions"
+    );
+  }
+
+  res
+    .status(200)
+    .json(
+      successResponse(
+        result,
+        `${result.created.length} recurring transactions created`
+      )
+    );
+}
@@ -0,0 +1,264 @@
+/**
+ * Tax Rate Controller
+ * Handle tax rates (e.g. PPN) configured per business
+ */
+
+import { Request, Response } from "express";
+import { initializeApp } from "../api/supabase/client";
+import { successResponse, ErrorCodes } from "../utils/response.util";
+import {
+  isNonEmptyString,
+  isNonNegativeNumber,
+  sanitizeString,
+} from "../utils/validation.util";
+import { AppError } from "../middlewares/error.middleware";
+import type { TaxRate, UpdateTaxRateDTO } from "../models/tax-rate.model";
+
+const { repos } = initializeApp();
+
+/**
+ * Helper: Verify business ownership
+ */
+async function verifyBusinessOwnership(
+  businessId: number,
+  userEmail: string
+): Promise<void> {
+  const { data: business } = await repos.businesses.findById(businessId);
+  if (!business) {
+    throw new AppError(404, ErrorCodes.NOT_FOUND, "Business not found");
+  }
+
+  const { data: user } = await repos.users.findByEmail(userEmail);
+  if (!user || business.user_id !== user.id) {
+    throw new AppError(
+      403,
+      ErrorCodes.UNAUTHORIZED,
+      "Not authorized to access this business"
+    );
+  }
+}
+
+/**
+ * Helper: Parse route IDs and load a tax rate of the business
+ */
+async function findTaxRate(req: Request): Promise<TaxRate> {
+  if (!req.user) {
+    throw new AppError(
+      401,
+      ErrorCodes.AUTHENTICATION_REQUIRED,
+      "User not authenticated"
+    );
+  }
+
+  const businessId = parseInt(req.params.businessId);
+  const taxRateId = parseInt(req.params.taxRateId);
+
+  if (isNaN(businessId) || isNaN(taxRateId)) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "Invalid business or tax rate ID"
+    );
+  }
+
+  // Verify business ownership
+  await verifyBusinessOwnership(businessId, req.user.email);
+
+  const { data: taxRate } = await repos.taxRates.findById(taxRateId);
+  if (!taxRate || taxRate.business_id !== businessId) {
+    throw new AppError(404, ErrorCodes.NOT_FOUND, "Tax rate not found");
+  }
+
+  return taxRate;
+}
+
+/**
+ * Helper: Validate a tax rate percentage (0-100)
+ */
+function validateRate(rate: any): void {
+  if (!isNonNegativeNumber(rate) || Number(rate) > 100) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "Rate must be a number between 0 and 100"
+    );
+  }
+}
+
+/**
+ * Create tax rate
+ * POST /api/v1/businesses/:businessId/tax-rates
+ */
+export async function createTaxRate(
+  req: Request,
+  res: Response
+): Promise<void> {
+  if (!req.user) {
+    throw new AppError(
+      401,
+      ErrorCodes.AUTHENTICATION_REQUIRED,
+      "User not authenticated"
+    );
+  }
+
+  const businessId = parseInt(req.params.businessId);
+  const { name, rate, is_inclusive, is_default } = req.body;
+
+  if (isNaN(businessId)) {
+    throw new AppError(400, ErrorCodes.VALIDATION_ERROR, "Invalid business ID");
+  }
+
+  if (!isNonEmptyString(name)) {
+    throw new AppError(400, ErrorCodes.VALIDATION_ERROR, "Name is required");
+  }
+
+  validateRate(rate);
+
+  // Verify business ownership
+  await verifyBusinessOwnership(businessId, req.user.email);
+
+  // Only one default tax rate per business
+  if (is_default === true) {
+    await repos.taxRates.clearDefault(businessId);
+  }
+
+  const { data: taxRate, error } = await repos.taxRates.create({
+    business_id: businessId,
+    name: sanitizeString(name),
+    rate: Number(rate),
+    is_inclusive: is_inclusive === true,
+    is_default: is_default === true,
+  });
+
+  if (error || !taxRate) {
+    throw new AppError(
+      500,
+      ErrorCodes.SERVER_ERROR,
+      "Failed to create tax rate"
+    );
+  }
+
+  res
+    .status(201)
+    .json(successResponse(taxRate, "Tax rate created successfully"));
+}
+
+/**
+ * Get all tax rates
+ * GET /api/v1/businesses/:businessId/tax-rates
+ */
+export async function getAllTaxRates(
+  req: Request,
+  res: Response
+): Promise<void> {
+  if (!req.user) {
+    throw new AppError(
+      401,
+      ErrorCodes.AUTHENTICATION_REQUIRED,
+      "User not authenticated"
+    );
+  }
+
+  const businessId = parseInt(req.params.businessId);
+
+  if (isNaN(businessId)) {
+    throw new AppError(400, ErrorCodes.VALIDATION_ERROR, "Invalid business ID");
+  }
+
+  // Verify business ownership
+  await verifyBusinessOwnership(businessId, req.user.email);
+
+  const { data: taxRates, error } = await repos.taxRates.findByBusinessId(
+    businessId
+  );
+
+  if (error) {
+    throw new AppError(
+      500,
+      ErrorCodes.SERVER_ERROR,
+      "Failed to fetch tax rates"
+    );
+  }
+
+  res.status(200).json(successResponse(taxRates || []));
+}
+
+/**
+ * Update tax rate
+ * Past sales keep the rate they were recorded with
+ * PUT /api/v1/businesses/:businessId/tax-rates/:taxRateId
+ */
+export async function updateTaxRate(
+  req: Request,
+  res: Response
+): Promise<void> {
+  const taxRate = await findTaxRate(req);
+  const { name, rate, is_inclusive, is_default } = req.body;
+
+  const updates: UpdateTaxRateDTO = {};
+
+  if (name !== undefined) {
+    if (!isNonEmptyString(name)) {
+      throw new AppError(
+        400,
+        ErrorCodes.VALIDATION_ERROR,
+        "Name must be a non-empty string"
+      );
+    }
+    updates.name = sanitizeString(name);
+  }
+
+  if (rate !== undefined) {
+    validateRate(rate);
+    updates.rate = Number(rate);
+  }
+
+  if (is_inclusive !== undefined) updates.is_inclusive = is_inclusive === true;
+  if (is_default !== undefined) updates.is_default = is_default === true;
+
+  if (updates.is_default && !taxRate.is_default) {
+    await repos.taxRates.clearDefault(taxRate.business_id);
+  }
+
+  const { data: updated, error } = await repos.taxRates.update(
+    taxRate.id,
+    updates
+  );
+
+  if (error || !updated) {
+    throw new AppError(
+      500,
+      ErrorCodes.SERVER_ERROR,
+      "Failed to update tax rate"
+    );
+  }
+
+  res
+    .status(200)
+    .json(successResponse(updated, "Tax rate updated successfully"));
+}
+
+/**
+ * Delete tax rate
+ * DELETE /api/v1/businesses/:businessId/tax-rates/:taxRateId
+ */
+export async function deleteTaxRate(
+  req: Request,
+  res: Response
+): Promise<void> {
+  const taxRate = await findTaxRate(req);
+
+  const { error } = await repos.taxRates.softDelete(taxRate.id);
+
+  if (error) {
+    throw new AppError(
+      500,
+      ErrorCodes.SERVER_ERROR,
+      "Failed to delete tax rate"
+    );
+  }
+
+  res
+    .status(200)
+    .json(successResponse(null, "Tax rate deleted successfully"));
+}
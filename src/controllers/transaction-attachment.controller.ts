@@ -0,0 +1,237 @@
+/**
+ * Transaction Attachment Controller
+ * Handle receipts and supporting documents (images, PDFs) of transactions
+ */
+
+import { Request, Response } from "express";
+import { initializeApp, supabase } from "../api/supabase/client";
+import { successResponse, ErrorCodes } from "../utils/response.util";
+import {
+  uploadTransactionAttachment,
+  deleteTransactionAttachments,
+  getTransactionAttachmentUrl,
+} from "../utils/storage.util";
+import { AppError } from "../middlewares/error.middleware";
+import type { Transaction } from "../models/transaction.model";
+import type {
+  TransactionAttachment,
+  TransactionAttachmentWithUrl,
+} from "../models/transaction-attachment.model";
+
+const { repos } = initializeApp();
+
+/**
+ * Helper: Verify business ownership
+ */
+async function verifyBusinessOwnership(
+  businessId: number,
+  userEmail: string
+): Promise<void> {
+  const { data: business } = await repos.businesses.findById(businessId);
+  if (!business) {
+    throw new AppError(404, ErrorCodes.NOT_FOUND, "Business not found");
+  }
+
+  const { data: user } = await repos.users.findByEmail(userEmail);
+  if (!user || business.user_id !== user.id) {
+    throw new AppError(
+      403,
+      ErrorCodes.UNAUTHORIZED,
+      "Not authorized to access this business"
+    );
+  }
+}
+
+/**
+ * Helper: Parse route IDs and load a transaction of the business
+ */
+async function findTransaction(req: Request): Promise<Transaction> {
+  if (!req.user) {
+    throw new AppError(
+      401,
+      ErrorCodes.AUTHENTICATION_REQUIRED,
+      "User not authenticated"
+    );
+  }
+
+  const businessId = parseInt(req.params.businessId);
+  const transactionId = parseInt(req.params.transactionId);
+
+  if (isNaN(businessId) || isNaN(transactionId)) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "Invalid business or transaction ID"
+    );
+  }
+
+  // Verify business ownership
+  await verifyBusinessOwnership(businessId, req.user.email);
+
+  const { data: transaction } = await repos.transactions.findById(
+    transactionId
+  );
+  if (!transaction || transaction.business_id !== businessId) {
+    throw new AppError(404, ErrorCodes.NOT_FOUND, "Transaction not found");
+  }
+
+  return transaction;
+}
+
+/**
+ * Helper: Add a temporary download URL to each attachment
+ */
+async function withUrls(
+  attachments: TransactionAttachment[]
+): Promise<TransactionAttachmentWithUrl[]> {
+  return Promise.all(
+    attachments.map(async (attachment) => {
+      const { url } = await getTransactionAttachmentUrl(
+        supabase,
+        attachment.file_path
+      );
+      return { ...attachment, url };
+    })
+  );
+}
+
+/**
+ * Upload attachments
+ * POST /api/v1/businesses/:businessId/transactions/:transactionId/attachments
+ */
+export async function uploadAttachments(
+  req: Request,
+  res: Response
+): Promise<void> {
+  const transaction = await findTransaction(req);
+  const files = (req.files as Express.Multer.File[] | undefined) || [];
+
+  if (files.length === 0) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "At least one file is required"
+    );
+  }
+
+  const created: TransactionAttachment[] = [];
+  const uploadedPaths: string[] = [];
+
+  try {
+    for (const file of files) {
+      const { path, error: uploadError } = await uploadTransactionAttachment(
+        supabase,
+        transaction.id,
+        file
+      );
+
+      if (uploadError || !path) {
+        throw new AppError(
+          500,
+          ErrorCodes.SERVER_ERROR,
+          `Failed to upload ${file.originalname}`
+        );
+      }
+      uploadedPaths.push(path);
+
+      const { data: attachment, error } =
+        await repos.transactionAttachments.create({
+          transaction_id: transaction.id,
+          file_name: file.originalname,
+          file_path: path,
+          mime_type: file.mimetype,
+          file_size: file.size,
+        });
+
+      if (error || !attachment) {
+        throw new AppError(
+          500,
+          ErrorCodes.SERVER_ERROR,
+          "Failed to save attachment"
+        );
+      }
+      created.push(attachment);
+    }
+  } catch (error) {
+    // All or nothing: remove what was stored before the failure
+    await deleteTransactionAttachments(supabase, uploadedPaths);
+    for (const attachment of created) {
+      await repos.transactionAttachments.delete(attachment.id);
+    }
+    throw error;
+  }
+
+  res
+    .status(201)
+    .json(
+      successResponse(
+        await withUrls(created),
+        "Attachments uploaded successfully"
+      )
+    );
+}
+
+/**
+ * Get attachments of a transaction
+ * GET /api/v1/businesses/:businessId/transactions/:transactionId/attachments
+ */
+export async function getAttachments(
+  req: Request,
+  res: Response
+): Promise<void> {
+  const transaction = await findTransaction(req);
+
+  const { data: attachments, error } =
+    await repos.transactionAttachments.findByTransactionId(transaction.id);
+
+  if (error || !attachments) {
+    throw new AppError(
+      500,
+      ErrorCodes.SERVER_ERROR,
+      "Failed to fetch attachments"
+    );
+  }
+
+  res.status(200).json(successResponse(await withUrls(attachments)));
+}
+
+/**
+ * Delete attachment
+ * DELETE /api/v1/businesses/:businessId/transactions/:transactionId/attachments/:attachmentId
+ */
+export async function deleteAttachment(
+  req: Request,
+  res: Response
+): Promise<void> {
+  const transaction = await findTransaction(req);
+  const attachmentId = parseInt(req.params.attachmentId);
+
+  if (isNaN(attachmentId)) {
+    throw new AppError(400, ErrorCodes.VALIDATION_ERROR, "Invalid attachment ID");
+  }
+
+  const { data: attachment } = await repos.transactionAttachments.findById(
+    attachmentId
+  );
+  if (!attachment || attachment.transaction_id !== transaction.id) {
+    throw new AppError(404, ErrorCodes.NOT_FOUND, "Attachment not found");
+  }
+
+  const { error } = await repos.transactionAttachments.softDelete(
+    attachmentId
+  );
+
+  if (error) {
+    throw new AppError(
+      500,
+      ErrorCodes.SERVER_ERROR,
+      "Failed to delete attachment"
+    );
+  }
+
+  await deleteTransactionAttachments(supabase, [attachment.file_path]);
+
+  res
+    .status(200)
+    .json(successResponse(null, "Attachment deleted successfully"));
+}
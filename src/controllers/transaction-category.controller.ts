@@ -0,0 +1,401 @@
+/**
+ * Transaction Category Controller
+ * Handle income and expense categories of a business
+ */
+
+import { Request, Response } from "express";
+import { initializeApp } from "../api/supabase/client";
+import { successResponse, ErrorCodes } from "../utils/response.util";
+import {
+  isNonEmptyString,
+  isInteger,
+  sanitizeString,
+} from "../utils/validation.util";
+import { AppError } from "../middlewares/error.middleware";
+import type { TransactionCategory } from "../models/transaction-category.model";
+import type { TransactionType } from "../models/transaction.model";
+
+const { repos, services } = initializeApp();
+
+const MAX_NAME_LENGTH = 50;
+
+/**
+ * Helper: Verify business ownership
+ */
+async function verifyBusinessOwnership(
+  businessId: number,
+  userEmail: string
+): Promise<void> {
+  const { data: business } = await repos.businesses.findById(businessId);
+  if (!business) {
+    throw new AppError(404, ErrorCodes.NOT_FOUND, "Business not found");
+  }
+
+  const { data: user } = await repos.users.findByEmail(userEmail);
+  if (!user || business.user_id !== user.id) {
+    throw new AppError(
+      403,
+      ErrorCodes.UNAUTHORIZED,
+      "Not authorized to access this business"
+    );
+  }
+}
+
+/**
+ * Helper: Parse route IDs and load a category of the business
+ */
+async function findCategory(req: Request): Promise<TransactionCategory> {
+  if (!req.user) {
+    throw new AppError(
+      401,
+      ErrorCodes.AUTHENTICATION_REQUIRED,
+      "User not authenticated"
+    );
+  }
+
+  const businessId = parseInt(req.params.businessId);
+  const categoryId = parseInt(req.params.categoryId);
+
+  if (isNaN(businessId) || isNaN(categoryId)) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "Invalid business or category ID"
+    );
+  }
+
+  // Verify business ownership
+  await verifyBusinessOwnership(businessId, req.user.email);
+
+  const { data: category } = await repos.transactionCategories.findById(
+    categoryId
+  );
+  if (!category || category.business_id !== businessId) {
+    throw new AppError(404, ErrorCodes.NOT_FOUND, "Category not found");
+  }
+
+  return category;
+}
+
+/**
+ * Helper: Validate a category name
+ */
+function parseName(name: any): string {
+  if (!isNonEmptyString(name) || name.trim().length > MAX_NAME_LENGTH) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      `Name is required (max ${MAX_NAME_LENGTH} characters)`
+    );
+  }
+
+  return sanitizeString(name);
+}
+
+/**
+ * Helper: Validate an optional parent category ID (null for top-level)
+ */
+function parseParentId(parentId: any): number | null {
+  if (parentId === undefined || parentId === null) {
+    return null;
+  }
+
+  if (!isInteger(parentId) || Number(parentId) <= 0) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "parentId must be a positive integer or null"
+    );
+  }
+
+  return Number(parentId);
+}
+
+/**
+ * Helper: Map category service/database errors to API errors
+ */
+function toCategoryError(error: any, fallbackMessage: string): AppError {
+  const message: string = error?.message || fallbackMessage;
+
+  if (error?.code === "23505") {
+    return new AppError(
+      409,
+      ErrorCodes.DUPLICATE_ENTRY,
+      "A category with this name and type already exists"
+    );
+  }
+  if (message.includes("not found")) {
+    return new AppError(404, ErrorCodes.NOT_FOUND, message);
+  }
+  if (
+    message.includes("System category") ||
+    message.includes("subcategories") ||
+    message.includes("in use") ||
+    message.includes("Parent category") ||
+    message.includes("own parent") ||
+    message.includes("same type") ||
+    message.includes("ledger accounts") ||
+    message.includes("merge")
+  ) {
+    return new AppError(400, ErrorCodes.BUSINESS_LOGIC_ERROR, message);
+  }
+  return new AppError(500, ErrorCodes.SERVER_ERROR, fallbackMessage);
+}
+
+/**
+ * Create category
+ * POST /api/v1/businesses/:businessId/categories
+ */
+export async function createCategory(
+  req: Request,
+  res: Response
+): Promise<void> {
+  if (!req.user) {
+    throw new AppError(
+      401,
+      ErrorCodes.AUTHENTICATION_REQUIRED,
+      "User not authenticated"
+    );
+  }
+
+  const businessId = parseInt(req.params.businessId);
+  const { name, type, parentId } = req.body;
+
+  if (isNaN(businessId)) {
+    throw new AppError(400, ErrorCodes.VALIDATION_ERROR, "Invalid business ID");
+  }
+
+  if (type !== "Income" && type !== "Expense") {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "Valid type is required (Income or Expense)"
+    );
+  }
+
+  const categoryName = parseName(name);
+  const parent = parseParentId(parentId);
+
+  // Verify business ownership
+  await verifyBusinessOwnership(businessId, req.user.email);
+
+  const { data: category, error } =
+    await services.transactionCategory.createCategory({
+      business_id: businessId,
+      name: categoryName,
+      type: type as TransactionType,
+      parent_id: parent,
+    });
+
+  if (error || !category) {
+    throw toCategoryError(error, "Failed to create category");
+  }
+
+  res
+    .status(201)
+    .json(successResponse(category, "Category created successfully"));
+}
+
+/**
+ * Get all categories
+ * GET /api/v1/businesses/:businessId/categories?type=Income
+ */
+export async function getAllCategories(
+  req: Request,
+  res: Response
+): Promise<void> {
+  if (!req.user) {
+    throw new AppError(
+      401,
+      ErrorCodes.AUTHENTICATION_REQUIRED,
+      "User not authenticated"
+    );
+  }
+
+  const businessId = parseInt(req.params.businessId);
+  const { type } = req.query;
+
+  if (isNaN(businessId)) {
+    throw new AppError(400, ErrorCodes.VALIDATION_ERROR, "Invalid business ID");
+  }
+
+  if (type !== undefined && type !== "Income" && type !== "Expense") {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "type must be Income or Expense"
+    );
+  }
+
+  // Verify business ownership
+  await verifyBusinessOwnership(businessId, req.user.email);
+
+  const { data: categories, error } =
+    await repos.transactionCategories.findByBusinessId(
+      businessId,
+      type as TransactionType | undefined
+    );
+
+  if (error) {
+    throw new AppError(
+      500,
+      ErrorCodes.SERVER_ERROR,
+      "Failed to fetch categories"
+    );
+  }
+
+  res.status(200).json(successResponse(categories || []));
+}
+
+/**
+ * Update category (name, parent and/or ledger account)
+ * Renaming also renames the category on past transactions and recurring
+ * templates
+ * PUT /api/v1/businesses/:businessId/categories/:categoryId
+ */
+export async function updateCategory(
+  req: Request,
+  res: Response
+): Promise<void> {
+  const category = await findCategory(req);
+  const { name, parentId, ledgerAccountId } = req.body;
+
+  if (
+    name === undefined &&
+    parentId === undefined &&
+    ledgerAccountId === undefined
+  ) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "Nothing to update (name, parentId or ledgerAccountId)"
+    );
+  }
+
+  if (
+    ledgerAccountId !== undefined &&
+    ledgerAccountId !== null &&
+    (!isInteger(ledgerAccountId) || Number(ledgerAccountId) <= 0)
+  ) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "ledgerAccountId must be a positive integer or null"
+    );
+  }
+
+  const newName = name !== undefined ? parseName(name) : undefined;
+  const newParent = parentId !== undefined ? parseParentId(parentId) : undefined;
+  const newLedgerAccount =
+    ledgerAccountId !== undefined && ledgerAccountId !== null
+      ? Number(ledgerAccountId)
+      : ledgerAccountId;
+
+  let updated: TransactionCategory | null = category;
+
+  if (newParent !== undefined && newParent !== category.parent_id) {
+    const { data, error } = await services.transactionCategory.setParent(
+      category,
+      newParent
+    );
+    if (error || !data) {
+      throw toCategoryError(error, "Failed to update category");
+    }
+    updated = data;
+  }
+
+  if (
+    newLedgerAccount !== undefined &&
+    newLedgerAccount !== category.ledger_account_id
+  ) {
+    const { data, error } = await services.transactionCategory.setLedgerAccount(
+      category,
+      newLedgerAccount
+    );
+    if (error || !data) {
+      throw toCategoryError(error, "Failed to update category");
+    }
+    updated = data;
+  }
+
+  if (newName !== undefined && newName !== category.name) {
+    const { data, error } = await repos.transactionCategories.rename(
+      category.id,
+      newName
+    );
+    if (error || !data) {
+      throw toCategoryError(error, "Failed to rename category");
+    }
+    updated = data;
+  }
+
+  res
+    .status(200)
+    .json(successResponse(updated, "Category updated successfully"));
+}
+
+/**
+ * Merge category into another one of the same type
+ * Transactions, recurring templates and subcategories move to the target;
+ * the merged category is deleted
+ * POST /api/v1/businesses/:businessId/categories/:categoryId/merge
+ */
+export async function mergeCategory(
+  req: Request,
+  res: Response
+): Promise<void> {
+  const category = await findCategory(req);
+  const { targetId } = req.body;
+
+  if (!isInteger(targetId) || Number(targetId) <= 0) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "targetId must be a positive integer"
+    );
+  }
+
+  const { data: target } = await repos.transactionCategories.findById(
+    Number(targetId)
+  );
+  if (!target || target.business_id !== category.business_id) {
+    throw new AppError(404, ErrorCodes.NOT_FOUND, "Target category not found");
+  }
+
+  const { data: merged, error } = await repos.transactionCategories.merge(
+    category.id,
+    target.id
+  );
+
+  if (error || !merged) {
+    throw toCategoryError(error, "Failed to merge categories");
+  }
+
+  res
+    .status(200)
+    .json(successResponse(merged, "Categories merged successfully"));
+}
+
+/**
+ * Delete category
+ * Only unused categories can be deleted; merge used ones instead
+ * DELETE /api/v1/businesses/:businessId/categories/:categoryId
+ */
+export async function deleteCategory(
+  req: Request,
+  res: Response
+): Promise<void> {
+  const category = await findCategory(req);
+
+  const { error } = await services.transactionCategory.deleteCategory(
+    category
+  );
+
+  if (error) {
+    throw toCategoryError(error, "Failed to delete category");
+  }
+
+  res
+    .status(200)
+    .json(successResponse(null, "Category deleted successfully"));
+}
@@ -0,0 +1,186 @@
+/**
+ * Transaction Number Series Controller
+ * Handle numbering of transactions (prefix, reset period and padding per type)
+ */
+
+import { Request, Response } from "express";
+import { initializeApp } from "../api/supabase/client";
+import { successResponse, ErrorCodes } from "../utils/response.util";
+import { AppError } from "../middlewares/error.middleware";
+import type {
+  NumberResetPeriod,
+  UpdateTransactionNumberSeriesDTO,
+} from "../models/transaction-number-series.model";
+import type { TransactionType } from "../models/transaction.model";
+
+const { repos } = initializeApp();
+
+const RESET_PERIODS: NumberResetPeriod[] = ["monthly", "yearly", "never"];
+const MAX_PADDING = 10;
+
+/**
+ * Helper: Verify business ownership
+ */
+async function verifyBusinessOwnership(
+  businessId: number,
+  userEmail: string
+): Promise<void> {
+  const { data: business } = await repos.businesses.findById(businessId);
+  if (!business) {
+    throw new AppError(404, ErrorCodes.NOT_FOUND, "Business not found");
+  }
+
+  const { data: user } = await repos.users.findByEmail(userEmail);
+  if (!user || business.user_id !== user.id) {
+    throw new AppError(
+      403,
+      ErrorCodes.UNAUTHORIZED,
+      "Not authorized to access this business"
+    );
+  }
+}
+
+/**
+ * Helper: Parse business ID and verify ownership
+ */
+async function findBusinessId(req: Request): Promise<number> {
+  if (!req.user) {
+    throw new AppError(
+      401,
+      ErrorCodes.AUTHENTICATION_REQUIRED,
+      "User not authenticated"
+    );
+  }
+
+  const businessId = parseInt(req.params.businessId);
+
+  if (isNaN(businessId)) {
+    throw new AppError(400, ErrorCodes.VALIDATION_ERROR, "Invalid business ID");
+  }
+
+  // Verify business ownership
+  await verifyBusinessOwnership(businessId, req.user.email);
+
+  return businessId;
+}
+
+/**
+ * Get the number series of the business (Income and Expense)
+ * GET /api/v1/businesses/:businessId/number-series
+ */
+export async function getAllNumberSeries(
+  req: Request,
+  res: Response
+): Promise<void> {
+  const businessId = await findBusinessId(req);
+
+  const { data: series, error } = await repos.numberSeries.findByBusinessId(
+    businessId
+  );
+
+  if (error) {
+    throw new AppError(
+      500,
+      ErrorCodes.SERVER_ERROR,
+      "Failed to fetch number series"
+    );
+  }
+
+  res.status(200).json(successResponse(series || []));
+}
+
+/**
+ * Update the number series of a transaction type
+ * Numbers already given are kept; transactions recorded after get the new
+ * format. A prefix continues its own sequence, so numbers never repeat
+ * PUT /api/v1/businesses/:businessId/number-series/:type
+ */
+export async function updateNumberSeries(
+  req: Request,
+  res: Response
+): Promise<void> {
+  const type = req.params.type as TransactionType;
+  const { prefix, resetPeriod, padding } = req.body;
+
+  if (type !== "Income" && type !== "Expense") {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "Type must be Income or Expense"
+    );
+  }
+
+  const updates: UpdateTransactionNumberSeriesDTO = {};
+
+  if (prefix !== undefined) {
+    if (
+      typeof prefix !== "string" ||
+      !/^[A-Z0-9-]{1,10}$/.test(prefix.trim().toUpperCase())
+    ) {
+      throw new AppError(
+        400,
+        ErrorCodes.VALIDATION_ERROR,
+        "prefix must be 1-10 letters, digits or '-'"
+      );
+    }
+    updates.prefix = prefix.trim().toUpperCase();
+  }
+
+  if (resetPeriod !== undefined) {
+    if (!RESET_PERIODS.includes(resetPeriod)) {
+      throw new AppError(
+        400,
+        ErrorCodes.VALIDATION_ERROR,
+        `resetPeriod must be one of: ${RESET_PERIODS.join(", ")}`
+      );
+    }
+    updates.reset_period = resetPeriod;
+  }
+
+  if (padding !== undefined) {
+    if (!Number.isInteger(padding) || padding < 1 || padding > MAX_PADDING) {
+      throw new AppError(
+        400,
+        ErrorCodes.VALIDATION_ERROR,
+        `padding must be an integer between 1 and ${MAX_PADDING}`
+      );
+    }
+    updates.padding = padding;
+  }
+
+  if (Object.keys(updates).length === 0) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "Nothing to update (prefix, resetPeriod or padding)"
+    );
+  }
+
+  const businessId = await findBusinessId(req);
+
+  const { data: series } = await repos.numberSeries.findByType(
+    businessId,
+    type
+  );
+
+  if (!series) {
+    throw new AppError(404, ErrorCodes.NOT_FOUND, "Number series not found");
+  }
+
+  const { data: updated, error } = await repos.numberSeries.update(
+    series.id,
+    updates
+  );
+
+  if (error || !updated) {
+    throw new AppError(
+      500,
+      ErrorCodes.SERVER_ERROR,
+      "Failed to update number series"
+    );
+  }
+
+  res
+    .status(200)
+    .json(successResponse(updated, "Number series updated successfully"));
+}
@@ -9,43 +9,1057 @@ import { successResponse, ErrorCodes } from "../utils/response.util";
 import {
   isNonEmptyString,
   isPositiveNumber,
+  isNonNegativeNumber,
   isInteger,
+  isValidDate,
+  isCurrencyCode,
+  sanitizeString,
 } from "../utils/validation.util";
+import { getAuditContext } from "../utils/audit.util";
 import { AppError } from "../middlewares/error.middleware";
 import type {
   TransactionType,
   TransactionStatus,
 } from "../models/transaction.model";
+import type {
+  TransactionFilters,
+  TransactionPageOptions,
+  TransactionSortField,
+} from "../repositories/transaction.repository";
+import type { ImportColumnMapping } from "../services/transaction-import.service";
+import type { ExportFormat } from "../services/transaction-export.service";
+import { RECEIPT_WIDTHS } from "../services/transaction-document.service";
+import type {
+  ReceiptWidth,
+  TransactionDocument,
+} from "../services/transaction-document.service";
+import type {
+  CreditSaleTerms,
+  CreditPurchaseTerms,
+} from "../services/transaction.service";
+import { addDays, toDateString } from "../utils/schedule.util";
+import type { Discount } from "../utils/pricing.util";
+import type {
+  PaymentMethod,
+  CreateTransactionPaymentDTO,
+} from "../models/transaction-payment.model";
+
+const { repos, services } = initializeApp();
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+const MAX_SEARCH_LENGTH = 100;
+
+/**
+ * Helper: Verify business ownership
+ */
+async function verifyBusinessOwnership(
+  businessId: number,
+  userEmail: string
+): Promise<void> {
+  const { data: business } = await repos.businesses.findById(businessId);
+  if (!business) {
+    throw new AppError(404, ErrorCodes.NOT_FOUND, "Business not found");
+  }
+
+  const { data: user } = await repos.users.findByEmail(userEmail);
+  if (!user || business.user_id !== user.id) {
+    throw new AppError(
+      403,
+      ErrorCodes.UNAUTHORIZED,
+      "Not authorized to access this business"
+    );
+  }
+}
+
+/**
+ * Map status change / update / delete / restore errors to API errors
+ * (balance and stock effects may fail on stock, existing returns or
+ * receivable payments; transactions of a closed period are locked)
+ */
+function toStatusChangeError(error: any, fallbackMessage: string): AppError {
+  const message: string = error?.message || fallbackMessage;
+
+  if (message.includes("Invalid status transition")) {
+    return new AppError(409, ErrorCodes.INVALID_STATUS_TRANSITION, message);
+  }
+  const periodError = toPeriodClosedError(error);
+  if (periodError) {
+    return periodError;
+  }
+  if (message.startsWith("Category")) {
+    return new AppError(400, ErrorCodes.VALIDATION_ERROR, message);
+  }
+  if (message.includes("not found")) {
+    return new AppError(404, ErrorCodes.NOT_FOUND, message);
+  }
+  if (message.includes("stock")) {
+    return new AppError(400, ErrorCodes.INSUFFICIENT_STOCK, message);
+  }
+  if (
+    message.includes("returns") ||
+    message.includes("exceeds") ||
+    message.includes("Restore the sale") ||
+    message.includes("Receivable") ||
+    message.includes("Payable") ||
+    message.includes("cannot be changed") ||
+    message.includes("does not belong")
+  ) {
+    return new AppError(400, ErrorCodes.BUSINESS_LOGIC_ERROR, message);
+  }
+  return new AppError(500, ErrorCodes.SERVER_ERROR, message);
+}
+
+/**
+ * Helper: Validate an optional category against the categories of the business
+ * @returns Category name as stored, or undefined when omitted
+ */
+async function parseCategory(
+  businessId: number,
+  type: TransactionType,
+  category: any
+): Promise<string | undefined> {
+  if (category === undefined || category === null || category === "") {
+    return undefined;
+  }
+
+  if (typeof category !== "string") {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "Category must be a string"
+    );
+  }
+
+  const { data: resolved, error } =
+    await services.transactionCategory.resolve(businessId, type, category);
+
+  if (error?.message?.includes("not found")) {
+    throw new AppError(400, ErrorCodes.VALIDATION_ERROR, error.message);
+  }
+
+  if (error || !resolved) {
+    throw new AppError(
+      500,
+      ErrorCodes.SERVER_ERROR,
+      "Failed to validate category"
+    );
+  }
+
+  return resolved.name;
+}
+
+/**
+ * Helper: Validate an optional money account ID
+ * (the database checks that the account belongs to the business)
+ */
+function parseAccountId(accountId: any): number | undefined {
+  if (accountId === undefined || accountId === null || accountId === "") {
+    return undefined;
+  }
+
+  if (!isInteger(accountId) || Number(accountId) <= 0) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "accountId must be a positive integer"
+    );
+  }
+
+  return Number(accountId);
+}
+
+/**
+ * Helper: Validate an optional currency code (business base currency when
+ * omitted; the database checks a rate exists for other currencies)
+ */
+function parseCurrency(currency: any): string | undefined {
+  if (currency === undefined || currency === null || currency === "") {
+    return undefined;
+  }
+
+  if (!isCurrencyCode(currency)) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "currency must be a 3-letter ISO 4217 code (e.g. USD)"
+    );
+  }
+
+  return currency.trim().toUpperCase();
+}
+
+/**
+ * Helper: Map currency conversion errors of the database
+ * (no rate for the transaction date, credit in a foreign currency)
+ */
+function toCurrencyError(error: any): AppError | null {
+  const message: string = error?.message || "";
+
+  if (
+    message.includes("No exchange rate") ||
+    message.includes("must be in the base currency")
+  ) {
+    return new AppError(400, ErrorCodes.BUSINESS_LOGIC_ERROR, message);
+  }
+
+  return null;
+}
+
+/**
+ * Helper: Map the error of a write dated in a closed accounting period
+ * (raised by the service check or the period lock of the database)
+ */
+function toPeriodClosedError(error: any): AppError | null {
+  const message: string = error?.message || "";
+
+  if (/^Period \S+ is closed/.test(message)) {
+    return new AppError(409, ErrorCodes.PERIOD_CLOSED, message);
+  }
+
+  return null;
+}
+
+/**
+ * Helper: Build list filters from query
+ * (type, category, status, money account, date range, amount range, search)
+ */
+function parseTransactionFilters(req: Request): TransactionFilters {
+  const {
+    type,
+    category,
+    status,
+    accountId,
+    startDate,
+    endDate,
+    minAmount,
+    maxAmount,
+    search,
+  } = req.query;
+
+  const filters: TransactionFilters = {};
+  if (type) filters.type = type as TransactionType;
+  if (category) filters.category = category as string;
+  if (status) filters.status = status as TransactionStatus;
+  if (accountId) filters.accountId = parseAccountId(accountId);
+
+  // Build date range filter
+  if (startDate && endDate) {
+    filters.dateRange = {
+      startDate: startDate as string,
+      endDate: endDate as string,
+    };
+  }
+
+  // Amount range
+  for (const [key, value] of [
+    ["minAmount", minAmount],
+    ["maxAmount", maxAmount],
+  ] as const) {
+    if (value === undefined) continue;
+    if (!isNonNegativeNumber(value)) {
+      throw new AppError(
+        400,
+        ErrorCodes.VALIDATION_ERROR,
+        `${key} must be a non-negative number`
+      );
+    }
+    filters[key] = Number(value);
+  }
+
+  if (
+    filters.minAmount !== undefined &&
+    filters.maxAmount !== undefined &&
+    filters.minAmount > filters.maxAmount
+  ) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "minAmount must not be greater than maxAmount"
+    );
+  }
+
+  // Text search on number, description and category
+  if (search !== undefined) {
+    if (typeof search !== "string" || search.length > MAX_SEARCH_LENGTH) {
+      throw new AppError(
+        400,
+        ErrorCodes.VALIDATION_ERROR,
+        `search must be a string of at most ${MAX_SEARCH_LENGTH} characters`
+      );
+    }
+    if (search.trim()) filters.search = search.trim();
+  }
+
+  return filters;
+}
+
+const SORT_FIELDS: TransactionSortField[] = [
+  "transaction_date",
+  "amount",
+  "created_at",
+];
+
+/**
+ * Helper: Parse pagination and sort query parameters
+ * (limit, offset, cursor, sortBy, sortOrder)
+ */
+function parsePageOptions(req: Request): TransactionPageOptions {
+  const { limit, offset, cursor, sortBy, sortOrder } = req.query;
+
+  const options: TransactionPageOptions = {
+    limit: DEFAULT_PAGE_SIZE,
+    offset: 0,
+    sortBy: "transaction_date",
+    sortOrder: "desc",
+  };
+
+  if (limit !== undefined) {
+    const limitNum = Number(limit);
+    if (!Number.isInteger(limitNum) || limitNum < 1 || limitNum > MAX_PAGE_SIZE) {
+      throw new AppError(
+        400,
+        ErrorCodes.VALIDATION_ERROR,
+        `limit must be an integer between 1 and ${MAX_PAGE_SIZE}`
+      );
+    }
+    options.limit = limitNum;
+  }
+
+  if (offset !== undefined) {
+    const offsetNum = Number(offset);
+    if (!Number.isInteger(offsetNum) || offsetNum < 0) {
+      throw new AppError(
+        400,
+        ErrorCodes.VALIDATION_ERROR,
+        "offset must be a non-negative integer"
+      );
+    }
+    options.offset = offsetNum;
+  }
+
+  if (cursor !== undefined) {
+    if (typeof cursor !== "string" || !cursor) {
+      throw new AppError(400, ErrorCodes.VALIDATION_ERROR, "Invalid cursor");
+    }
+    if (offset !== undefined) {
+      throw new AppError(
+        400,
+        ErrorCodes.VALIDATION_ERROR,
+        "Use either cursor or offset, not both"
+      );
+    }
+    options.cursor = cursor;
+  }
+
+  if (sortBy !== undefined) {
+    if (!SORT_FIELDS.includes(sortBy as TransactionSortField)) {
+      throw new AppError(
+        400,
+        ErrorCodes.VALIDATION_ERROR,
+        "sortBy must be transaction_date, amount, or created_at"
+      );
+    }
+    options.sortBy = sortBy as TransactionSortField;
+  }
+
+  if (sortOrder !== undefined) {
+    if (sortOrder !== "asc" && sortOrder !== "desc") {
+      throw new AppError(
+        400,
+        ErrorCodes.VALIDATION_ERROR,
+        "sortOrder must be asc or desc"
+      );
+    }
+    options.sortOrder = sortOrder;
+  }
+
+  return options;
+}
+
+/**
+ * Helper: Validate a discount ({ type: "percent" | "nominal", value })
+ */
+function parseDiscount(discount: any, label: string): Discount | undefined {
+  if (discount === undefined || discount === null) {
+    return undefined;
+  }
+
+  const valid =
+    discount &&
+    typeof discount === "object" &&
+    (discount.type === "percent" || discount.type === "nominal") &&
+    isNonNegativeNumber(discount.value) &&
+    (discount.type === "nominal" || Number(discount.value) <= 100);
+
+  if (!valid) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      `${label} must be { type: "percent" (0-100) | "nominal", value }`
+    );
+  }
+
+  return { type: discount.type, value: Number(discount.value) };
+}
+
+const PAYMENT_METHODS: PaymentMethod[] = [
+  "cash",
+  "qris",
+  "bank_transfer",
+  "e_wallet",
+];
+
+/**
+ * Helper: Validate an optional payment method and reference number
+ */
+function parsePaymentMethod(
+  method: any,
+  reference: any
+): { paymentMethod?: PaymentMethod; paymentReference?: string } {
+  if (method !== undefined && method !== null && !PAYMENT_METHODS.includes(method)) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "paymentMethod must be cash, qris, bank_transfer, or e_wallet"
+    );
+  }
+
+  if (reference !== undefined && reference !== null && typeof reference !== "string") {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "paymentReference must be a string"
+    );
+  }
+
+  return {
+    paymentMethod: method || undefined,
+    paymentReference: reference || undefined,
+  };
+}
+
+/**
+ * Helper: Validate split payments ([{ method, amount, reference? }])
+ */
+function parsePayments(payments: any): CreateTransactionPaymentDTO[] {
+  if (payments === undefined || payments === null) {
+    return [];
+  }
+
+  if (!Array.isArray(payments)) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "Payments must be an array"
+    );
+  }
+
+  return payments.map((payment: any) => {
+    const { paymentMethod, paymentReference } = parsePaymentMethod(
+      payment?.method,
+      payment?.reference
+    );
+
+    if (!paymentMethod || !isPositiveNumber(payment.amount)) {
+      throw new AppError(
+        400,
+        ErrorCodes.VALIDATION_ERROR,
+        "Each payment must have a method and a positive amount"
+      );
+    }
+
+    return {
+      method: paymentMethod,
+      amount: Number(payment.amount),
+      reference: paymentReference,
+    };
+  });
+}
+
+/**
+ * Helper: Due date of credit terms, given as dueDate (YYYY-MM-DD) or as
+ * termDays from today (e.g. 30 for 30-day terms)
+ * @returns Due date, or null if neither is valid
+ */
+function parseDueDate(credit: any): string | null {
+  if (
+    typeof credit.dueDate === "string" &&
+    /^\d{4}-\d{2}-\d{2}$/.test(credit.dueDate) &&
+    isValidDate(credit.dueDate)
+  ) {
+    return credit.dueDate;
+  }
+
+  if (
+    credit.dueDate === undefined &&
+    isInteger(credit.termDays) &&
+    Number(credit.termDays) >= 0
+  ) {
+    return addDays(toDateString(new Date()), Number(credit.termDays));
+  }
+
+  return null;
+}
+
+/**
+ * Helper: Validate an optional phone number
+ */
+function parsePhone(phone: any, label: string): string | undefined {
+  if (phone === undefined || phone === null || phone === "") {
+    return undefined;
+  }
+
+  if (typeof phone !== "string") {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      `${label} must be a string`
+    );
+  }
+
+  return sanitizeString(phone);
+}
+
+/**
+ * Helper: Validate credit sale terms
+ * ({ customerName, customerPhone?, dueDate | termDays })
+ */
+function parseCreditTerms(credit: any): CreditSaleTerms | undefined {
+  if (credit === undefined || credit === null) {
+    return undefined;
+  }
+
+  const dueDate =
+    typeof credit === "object" ? parseDueDate(credit) : null;
+
+  if (!dueDate || !isNonEmptyString(credit.customerName)) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "Credit must have customerName and dueDate (YYYY-MM-DD) or termDays"
+    );
+  }
+
+  return {
+    customerName: sanitizeString(credit.customerName),
+    customerPhone: parsePhone(credit.customerPhone, "customerPhone"),
+    dueDate,
+  };
+}
+
+/**
+ * Helper: Validate credit purchase terms
+ * ({ supplierName, supplierPhone?, dueDate | termDays })
+ */
+function parseCreditPurchaseTerms(
+  credit: any
+): CreditPurchaseTerms | undefined {
+  if (credit === undefined || credit === null) {
+    return undefined;
+  }
+
+  const dueDate =
+    typeof credit === "object" ? parseDueDate(credit) : null;
+
+  if (!dueDate || !isNonEmptyString(credit.supplierName)) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "Credit must have supplierName and dueDate (YYYY-MM-DD) or termDays"
+    );
+  }
+
+  return {
+    supplierName: sanitizeString(credit.supplierName),
+    supplierPhone: parsePhone(credit.supplierPhone, "supplierPhone"),
+    dueDate,
+  };
+}
+
+/**
+ * Record product sale
+ * POST /api/v1/businesses/:businessId/transactions/sales
+ */
+export async function recordSale(req: Request, res: Response): Promise<void> {
+  if (!req.user) {
+    throw new AppError(
+      401,
+      ErrorCodes.AUTHENTICATION_REQUIRED,
+      "User not authenticated"
+    );
+  }
+
+  const businessId = parseInt(req.params.businessId);
+  const {
+    products,
+    description,
+    discount,
+    taxRateId,
+    paymentMethod,
+    paymentReference,
+    payments,
+    accountId,
+    credit,
+    currency,
+  } = req.body;
+
+  if (isNaN(businessId)) {
+    throw new AppError(400, ErrorCodes.VALIDATION_ERROR, "Invalid business ID");
+  }
+
+  // Validate products array
+  if (!Array.isArray(products) || products.length === 0) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "Products array is required"
+    );
+  }
+
+  // Validate each product
+  for (const product of products) {
+    if (
+      !product.productId ||
+      !isInteger(product.productId) ||
+      !product.quantity ||
+      !isPositiveNumber(product.quantity) ||
+      !product.sellingPrice ||
+      !isPositiveNumber(product.sellingPrice)
+    ) {
+      throw new AppError(
+        400,
+        ErrorCodes.VALIDATION_ERROR,
+        "Each product must have productId, quantity, and sellingPrice"
+      );
+    }
+
+    parseDiscount(product.discount, "Product discount");
+  }
+
+  if (taxRateId !== undefined && taxRateId !== null && !isInteger(taxRateId)) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "taxRateId must be an integer or null"
+    );
+  }
+
+  const payment = parsePaymentMethod(paymentMethod, paymentReference);
+  const splitPayments = parsePayments(payments);
+
+  if (payment.paymentMethod && splitPayments.length > 0) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "Use either paymentMethod or payments, not both"
+    );
+  }
+
+  const creditTerms = parseCreditTerms(credit);
+
+  if (creditTerms && (payment.paymentMethod || splitPayments.length > 0)) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "Credit sales are paid later through receivable payments"
+    );
+  }
+
+  // Verify business ownership
+  await verifyBusinessOwnership(businessId, req.user.email);
+
+  // Record sale using service (computes discounts, tax and grand total)
+  const { data: transaction, error } =
+    await services.transaction.recordProductSale({
+      businessId,
+      products: products.map((product: any) => ({
+        productId: product.productId,
+        quantity: product.quantity,
+        sellingPrice: product.sellingPrice,
+        discount: parseDiscount(product.discount, "Product discount"),
+      })),
+      description,
+      discount: parseDiscount(discount, "Discount"),
+      taxRateId,
+      ...payment,
+      payments: splitPayments,
+      accountId: parseAccountId(accountId),
+      credit: creditTerms,
+      currency: parseCurrency(currency),
+    });
+
+  if (error) {
+    const currencyError = toCurrencyError(error);
+    if (currencyError) {
+      throw currencyError;
+    }
+    const periodError = toPeriodClosedError(error);
+    if (periodError) {
+      throw periodError;
+    }
+    if (error.message.includes("not found")) {
+      throw new AppError(404, ErrorCodes.NOT_FOUND, error.message);
+    }
+    if (error.message.includes("Payment amounts")) {
+      throw new AppError(400, ErrorCodes.VALIDATION_ERROR, error.message);
+    }
+    if (error.message.includes("stock")) {
+      throw new AppError(400, ErrorCodes.INSUFFICIENT_STOCK, error.message);
+    }
+    throw new AppError(500, ErrorCodes.SERVER_ERROR, error.message);
+  }
+
+  await services.audit.record(getAuditContext(req), {
+    businessId,
+    action: "create",
+    entityType: "transaction",
+    entityId: transaction?.id,
+    after: transaction,
+  });
+
+  res
+    .status(201)
+    .json(successResponse(transaction, "Sale recorded successfully"));
+}
+
+/**
+ * Record stock purchase
+ * POST /api/v1/businesses/:businessId/transactions/purchases
+ */
+export async function recordPurchase(
+  req: Request,
+  res: Response
+): Promise<void> {
+  if (!req.user) {
+    throw new AppError(
+      401,
+      ErrorCodes.AUTHENTICATION_REQUIRED,
+      "User not authenticated"
+    );
+  }
+
+  const businessId = parseInt(req.params.businessId);
+  const {
+    products,
+    description,
+    paymentMethod,
+    paymentReference,
+    accountId,
+    credit,
+    currency,
+  } = req.body;
+
+  if (isNaN(businessId)) {
+    throw new AppError(400, ErrorCodes.VALIDATION_ERROR, "Invalid business ID");
+  }
+
+  const payment = parsePaymentMethod(paymentMethod, paymentReference);
+  const creditTerms = parseCreditPurchaseTerms(credit);
+
+  if (creditTerms && payment.paymentMethod) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "Credit purchases are paid later through payable payments"
+    );
+  }
+
+  // Validate products array
+  if (!Array.isArray(products) || products.length === 0) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "Products array is required"
+    );
+  }
+
+  // Validate each product
+  for (const product of products) {
+    if (
+      !product.productId ||
+      !isInteger(product.productId) ||
+      !product.quantity ||
+      !isPositiveNumber(product.quantity) ||
+      !product.purchasePrice ||
+      !isPositiveNumber(product.purchasePrice)
+    ) {
+      throw new AppError(
+        400,
+        ErrorCodes.VALIDATION_ERROR,
+        "Each product must have productId, quantity, and purchasePrice"
+      );
+    }
+  }
+
+  // Verify business ownership
+  await verifyBusinessOwnership(businessId, req.user.email);
+
+  // Record purchase using service
+  const { data: transaction, error } =
+    await services.transaction.recordStockPurchase({
+      businessId,
+      products,
+      description,
+      ...payment,
+      accountId: parseAccountId(accountId),
+      credit: creditTerms,
+      currency: parseCurrency(currency),
+    });
+
+  if (error) {
+    const currencyError = toCurrencyError(error);
+    if (currencyError) {
+      throw currencyError;
+    }
+    const periodError = toPeriodClosedError(error);
+    if (periodError) {
+      throw periodError;
+    }
+    if (error.message.includes("not found")) {
+      throw new AppError(404, ErrorCodes.NOT_FOUND, error.message);
+    }
+    throw new AppError(500, ErrorCodes.SERVER_ERROR, error.message);
+  }
+
+  await services.audit.record(getAuditContext(req), {
+    businessId,
+    action: "create",
+    entityType: "transaction",
+    entityId: transaction?.id,
+    after: transaction,
+  });
+
+  res
+    .status(201)
+    .json(successResponse(transaction, "Purchase recorded successfully"));
+}
+
+/**
+ * Create general transaction (non-product)
+ * POST /api/v1/businesses/:businessId/transactions
+ */
+export async function createTransaction(
+  req: Request,
+  res: Response
+): Promise<void> {
+  if (!req.user) {
+    throw new AppError(
+      401,
+      ErrorCodes.AUTHENTICATION_REQUIRED,
+      "User not authenticated"
+    );
+  }
+
+  const businessId = parseInt(req.params.businessId);
+  const {
+    type,
+    category,
+    amount,
+    description,
+    status,
+    paymentMethod,
+    paymentReference,
+    accountId,
+    currency,
+  } = req.body;
+
+  if (isNaN(businessId)) {
+    throw new AppError(400, ErrorCodes.VALIDATION_ERROR, "Invalid business ID");
+  }
+
+  // Validate required fields
+  if (!type || (type !== "Income" && type !== "Expense")) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "Valid type is required (Income or Expense)"
+    );
+  }
+
+  if (!amount || !isPositiveNumber(amount)) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "Amount must be a positive number"
+    );
+  }
+
+  const payment = parsePaymentMethod(paymentMethod, paymentReference);
+
+  // Verify business ownership
+  await verifyBusinessOwnership(businessId, req.user.email);
+
+  // Create transaction using service (handles balance update)
+  const { data: transaction, error } =
+    await services.transaction.createGeneralTransaction({
+      businessId,
+      type: type as TransactionType,
+      category: await parseCategory(businessId, type, category),
+      amount,
+      description: description || undefined,
+      status: (status as TransactionStatus) || "complete",
+      ...payment,
+      accountId: parseAccountId(accountId),
+      currency: parseCurrency(currency),
+    });
+
+  if (error?.message?.includes("Money account")) {
+    throw new AppError(404, ErrorCodes.NOT_FOUND, error.message);
+  }
+
+  const periodError = toPeriodClosedError(error);
+  if (periodError) {
+    throw periodError;
+  }
+
+  const currencyError = toCurrencyError(error);
+  if (currencyError) {
+    throw currencyError;
+  }
+
+  if (error || !transaction) {
+    throw new AppError(
+      500,
+      ErrorCodes.SERVER_ERROR,
+      "Failed to create transaction"
+    );
+  }
+
+  await services.audit.record(getAuditContext(req), {
+    businessId,
+    action: "create",
+    entityType: "transaction",
+    entityId: transaction.id,
+    after: transaction,
+  });
+
+  res
+    .status(201)
+    .json(successResponse(transaction, "Transaction created successfully"));
+}
+
+/**
+ * Get all transactions
+ * GET /api/v1/businesses/:businessId/transactions
+ */
+export async function getAllTransactions(
+  req: Request,
+  res: Response
+): Promise<void> {
+  if (!req.user) {
+    throw new AppError(
+      401,
+      ErrorCodes.AUTHENTICATION_REQUIRED,
+      "User not authenticated"
+    );
+  }
+
+  const businessId = parseInt(req.params.businessId);
+
+  if (isNaN(businessId)) {
+    throw new AppError(400, ErrorCodes.VALIDATION_ERROR, "Invalid business ID");
+  }
+
+  const filters = parseTransactionFilters(req);
+  const options = parsePageOptions(req);
+
+  // Verify business ownership
+  await verifyBusinessOwnership(businessId, req.user.email);
 
-const { repos, services } = initializeApp();
+  // Filter, sort and paginate in the database
+  const { data: page, error } = await repos.transactions.findPage(
+    businessId,
+    filters,
+    options
+  );
+
+  if (error?.message?.includes("Invalid cursor")) {
+    throw new AppError(400, ErrorCodes.VALIDATION_ERROR, error.message);
+  }
+
+  if (error || !page) {
+    throw new AppError(
+      500,
+      ErrorCodes.SERVER_ERROR,
+      "Failed to fetch transactions"
+    );
+  }
+
+  res.status(200).json(
+    successResponse({
+      transactions: page.transactions,
+      pagination: {
+        total: page.total,
+        limit: options.limit,
+        offset: options.cursor ? null : options.offset,
+        hasMore: page.hasMore,
+        nextCursor: page.nextCursor,
+        sortBy: options.sortBy,
+        sortOrder: options.sortOrder,
+      },
+    })
+  );
+}
 
 /**
- * Helper: Verify business ownership
+ * Get transaction by ID
+ * GET /api/v1/businesses/:businessId/transactions/:transactionId
  */
-async function verifyBusinessOwnership(
-  businessId: number,
-  userEmail: string
+export async function getTransactionById(
+  req: Request,
+  res: Response
 ): Promise<void> {
-  const { data: business } = await repos.businesses.findById(businessId);
-  if (!business) {
-    throw new AppError(404, ErrorCodes.NOT_FOUND, "Business not found");
+  if (!req.user) {
+    throw new AppError(
+      401,
+      ErrorCodes.AUTHENTICATION_REQUIRED,
+      "User not authenticated"
+    );
   }
 
-  const { data: user } = await repos.users.findByEmail(userEmail);
-  if (!user || business.user_id !== user.id) {
+  const businessId = parseInt(req.params.businessId);
+  const transactionId = parseInt(req.params.transactionId);
+
+  if (isNaN(businessId) || isNaN(transactionId)) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "Invalid business or transaction ID"
+    );
+  }
+
+  // Verify business ownership
+  await verifyBusinessOwnership(businessId, req.user.email);
+
+  // Get transaction with details and return history
+  const { data: transaction, error } =
+    await services.transaction.getTransactionWithReturns(transactionId);
+
+  if (error || !transaction) {
+    throw new AppError(404, ErrorCodes.NOT_FOUND, "Transaction not found");
+  }
+
+  // Verify transaction belongs to business
+  if (transaction.business_id !== businessId) {
     throw new AppError(
       403,
       ErrorCodes.UNAUTHORIZED,
-      "Not authorized to access this business"
+      "Transaction does not belong to this business"
     );
   }
+
+  res.status(200).json(successResponse(transaction));
 }
 
 /**
- * Record product sale
- * POST /api/v1/businesses/:businessId/transactions/sales
+ * Record sales return
+ * POST /api/v1/businesses/:businessId/transactions/:transactionId/returns
  */
-export async function recordSale(req: Request, res: Response): Promise<void> {
+export async function recordReturn(
+  req: Request,
+  res: Response
+): Promise<void> {
   if (!req.user) {
     throw new AppError(
       401,
@@ -55,35 +1069,39 @@ export async function recordSale(req: Request, res: Response): Promise<void> {
   }
 
   const businessId = parseInt(req.params.businessId);
-  const { products, description } = req.body;
+  const transactionId = parseInt(req.params.transactionId);
+  const { items, description } = req.body;
 
-  if (isNaN(businessId)) {
-    throw new AppError(400, ErrorCodes.VALIDATION_ERROR, "Invalid business ID");
+  if (isNaN(businessId) || isNaN(transactionId)) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "Invalid business or transaction ID"
+    );
   }
 
-  // Validate products array
-  if (!Array.isArray(products) || products.length === 0) {
+  // Validate items array
+  if (!Array.isArray(items) || items.length === 0) {
     throw new AppError(
       400,
       ErrorCodes.VALIDATION_ERROR,
-      "Products array is required"
+      "Items array is required"
     );
   }
 
-  // Validate each product
-  for (const product of products) {
+  // Validate each item
+  for (const item of items) {
     if (
-      !product.productId ||
-      !isInteger(product.productId) ||
-      !product.quantity ||
-      !isPositiveNumber(product.quantity) ||
-      !product.sellingPrice ||
-      !isPositiveNumber(product.sellingPrice)
+      !item.transactionDetailId ||
+      !isInteger(item.transactionDetailId) ||
+      !item.quantity ||
+      !isInteger(item.quantity) ||
+      !isPositiveNumber(item.quantity)
     ) {
       throw new AppError(
         400,
         ErrorCodes.VALIDATION_ERROR,
-        "Each product must have productId, quantity, and sellingPrice"
+        "Each item must have transactionDetailId and a positive integer quantity"
       );
     }
   }
@@ -91,31 +1109,51 @@ export async function recordSale(req: Request, res: Response): Promise<void> {
   // Verify business ownership
   await verifyBusinessOwnership(businessId, req.user.email);
 
-  // Record sale using service
-  const { data: transaction, error } =
-    await services.transaction.recordProductSale({
+  // Record return using service (handles stock and refund)
+  const { data: salesReturn, error } =
+    await services.transaction.recordSalesReturn({
       businessId,
-      products,
+      transactionId,
+      items,
       description,
     });
 
   if (error) {
-    if (error.message.includes("stock")) {
-      throw new AppError(400, ErrorCodes.INSUFFICIENT_STOCK, error.message);
+    const periodError = toPeriodClosedError(error);
+    if (periodError) {
+      throw periodError;
+    }
+    if (error.message.includes("not found")) {
+      throw new AppError(404, ErrorCodes.NOT_FOUND, error.message);
+    }
+    if (
+      error.message.includes("exceeds") ||
+      error.message.includes("can be returned") ||
+      error.message.includes("does not belong")
+    ) {
+      throw new AppError(400, ErrorCodes.BUSINESS_LOGIC_ERROR, error.message);
     }
     throw new AppError(500, ErrorCodes.SERVER_ERROR, error.message);
   }
 
+  await services.audit.record(getAuditContext(req), {
+    businessId,
+    action: "return",
+    entityType: "transaction",
+    entityId: salesReturn?.id,
+    after: salesReturn,
+  });
+
   res
     .status(201)
-    .json(successResponse(transaction, "Sale recorded successfully"));
+    .json(successResponse(salesReturn, "Return recorded successfully"));
 }
 
 /**
- * Record stock purchase
- * POST /api/v1/businesses/:businessId/transactions/purchases
+ * Update transaction
+ * PUT /api/v1/businesses/:businessId/transactions/:transactionId
  */
-export async function recordPurchase(
+export async function updateTransaction(
   req: Request,
   res: Response
 ): Promise<void> {
@@ -128,13 +1166,100 @@ export async function recordPurchase(
   }
 
   const businessId = parseInt(req.params.businessId);
-  const { products, description } = req.body;
+  const transactionId = parseInt(req.params.transactionId);
+  const { description, status, amount, category, date } = req.body;
 
-  if (isNaN(businessId)) {
-    throw new AppError(400, ErrorCodes.VALIDATION_ERROR, "Invalid business ID");
+  if (isNaN(businessId) || isNaN(transactionId)) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "Invalid business or transaction ID"
+    );
+  }
+
+  // Verify business ownership
+  await verifyBusinessOwnership(businessId, req.user.email);
+
+  if (
+    status !== undefined &&
+    !["pending", "complete", "cancel"].includes(status)
+  ) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "Status must be pending, complete, or cancel"
+    );
+  }
+
+  // Snapshot for the audit log
+  const { data: before } = await repos.transactions.findById(transactionId);
+
+  // Update transaction using service (handles balance update if amount changes
+  // and applies/reverses effects on status change)
+  const { data: updatedTransaction, error } =
+    await services.transaction.updateGeneralTransaction(
+      businessId,
+      transactionId,
+      {
+        description: description || undefined,
+        status: status || undefined,
+        amount: amount ? Number(amount) : undefined,
+        category: category || undefined,
+        date: date || undefined,
+      }
+    );
+
+  if (error || !updatedTransaction) {
+    throw toStatusChangeError(error, "Failed to update transaction");
+  }
+
+  await services.audit.record(getAuditContext(req), {
+    businessId,
+    action: "update",
+    entityType: "transaction",
+    entityId: transactionId,
+    before,
+    after: updatedTransaction,
+  });
+
+  res
+    .status(200)
+    .json(
+      successResponse(updatedTransaction, "Transaction updated successfully")
+    );
+}
+
+/**
+ * Edit the line items of a sale or purchase
+ * Body: products (the complete new list: productId, quantity and
+ * sellingPrice or purchasePrice, optional discount for sales), discount
+ * (sales), payments (required when the transaction was split-paid)
+ * PUT /api/v1/businesses/:businessId/transactions/:transactionId/items
+ */
+export async function updateTransactionItems(
+  req: Request,
+  res: Response
+): Promise<void> {
+  if (!req.user) {
+    throw new AppError(
+      401,
+      ErrorCodes.AUTHENTICATION_REQUIRED,
+      "User not authenticated"
+    );
+  }
+
+  const businessId = parseInt(req.params.businessId);
+  const transactionId = parseInt(req.params.transactionId);
+  const { products, discount, payments } = req.body;
+
+  if (isNaN(businessId) || isNaN(transactionId)) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "Invalid business or transaction ID"
+    );
   }
 
-  // Validate products array
   if (!Array.isArray(products) || products.length === 0) {
     throw new AppError(
       400,
@@ -143,49 +1268,180 @@ export async function recordPurchase(
     );
   }
 
-  // Validate each product
+  // Verify business ownership
+  await verifyBusinessOwnership(businessId, req.user.email);
+
+  // Snapshot for the audit log (the type decides which price is expected)
+  const { data: before } = await repos.transactions.findWithDetails(
+    transactionId
+  );
+
+  if (!before || before.business_id !== businessId) {
+    throw new AppError(404, ErrorCodes.NOT_FOUND, "Transaction not found");
+  }
+
+  const priceField =
+    before.type === "Income" ? "sellingPrice" : "purchasePrice";
+
   for (const product of products) {
     if (
       !product.productId ||
       !isInteger(product.productId) ||
-      !product.quantity ||
+      !isInteger(product.quantity) ||
       !isPositiveNumber(product.quantity) ||
-      !product.purchasePrice ||
-      !isPositiveNumber(product.purchasePrice)
+      !isPositiveNumber(product[priceField])
     ) {
       throw new AppError(
         400,
         ErrorCodes.VALIDATION_ERROR,
-        "Each product must have productId, quantity, and purchasePrice"
+        `Each product must have productId, a positive integer quantity, and ${priceField}`
       );
     }
   }
 
-  // Verify business ownership
-  await verifyBusinessOwnership(businessId, req.user.email);
-
-  // Record purchase using service
   const { data: transaction, error } =
-    await services.transaction.recordStockPurchase({
+    await services.transaction.updateTransactionItems({
       businessId,
-      products,
-      description,
+      transactionId,
+      items: products.map((product: any) => ({
+        productId: product.productId,
+        quantity: Number(product.quantity),
+        unitPrice: Number(product[priceField]),
+        discount: parseDiscount(product.discount, "Product discount"),
+      })),
+      discount: parseDiscount(discount, "Discount"),
+      payments: parsePayments(payments),
     });
 
-  if (error) {
-    throw new AppError(500, ErrorCodes.SERVER_ERROR, error.message);
+  if (error || !transaction) {
+    const message: string = error?.message || "";
+    if (
+      message.includes("Payment amounts") ||
+      message.includes("Discounts only")
+    ) {
+      throw new AppError(400, ErrorCodes.VALIDATION_ERROR, message);
+    }
+    if (
+      message.startsWith("Items of") ||
+      message.includes("items to edit") ||
+      message.includes("at least one item") ||
+      message.includes("credit transaction")
+    ) {
+      throw new AppError(400, ErrorCodes.BUSINESS_LOGIC_ERROR, message);
+    }
+    throw toStatusChangeError(error, "Failed to update transaction items");
+  }
+
+  await services.audit.record(getAuditContext(req), {
+    businessId,
+    action: "update",
+    entityType: "transaction",
+    entityId: transactionId,
+    before,
+    after: transaction,
+  });
+
+  res
+    .status(200)
+    .json(
+      successResponse(transaction, "Transaction items updated successfully")
+    );
+}
+
+/**
+ * Change transaction status (shared by cancel and complete)
+ */
+async function changeTransactionStatus(
+  req: Request,
+  res: Response,
+  status: TransactionStatus,
+  successMessage: string
+): Promise<void> {
+  if (!req.user) {
+    throw new AppError(
+      401,
+      ErrorCodes.AUTHENTICATION_REQUIRED,
+      "User not authenticated"
+    );
+  }
+
+  const businessId = parseInt(req.params.businessId);
+  const transactionId = parseInt(req.params.transactionId);
+
+  if (isNaN(businessId) || isNaN(transactionId)) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "Invalid business or transaction ID"
+    );
+  }
+
+  // Verify business ownership
+  await verifyBusinessOwnership(businessId, req.user.email);
+
+  // Snapshot for the audit log
+  const { data: before } = await repos.transactions.findById(transactionId);
+
+  // Change status using service (applies or reverses balance/stock effects)
+  const { data: transaction, error } = await services.transaction.changeStatus(
+    businessId,
+    transactionId,
+    status
+  );
+
+  if (error || !transaction) {
+    throw toStatusChangeError(error, "Failed to change transaction status");
   }
 
-  res
-    .status(201)
-    .json(successResponse(transaction, "Purchase recorded successfully"));
+  await services.audit.record(getAuditContext(req), {
+    businessId,
+    action: status === "complete" ? "complete" : "cancel",
+    entityType: "transaction",
+    entityId: transactionId,
+    before,
+    after: transaction,
+  });
+
+  res.status(200).json(successResponse(transaction, successMessage));
 }
 
 /**
- * Create general transaction (non-product)
- * POST /api/v1/businesses/:businessId/transactions
+ * Complete a pending transaction (applies balance and stock effects)
+ * PUT /api/v1/businesses/:businessId/transactions/:transactionId/complete
  */
-export async function createTransaction(
+export async function completeTransaction(
+  req: Request,
+  res: Response
+): Promise<void> {
+  await changeTransactionStatus(
+    req,
+    res,
+    "complete",
+    "Transaction completed successfully"
+  );
+}
+
+/**
+ * Cancel transaction (reverses balance and stock effects if it was complete)
+ * PUT /api/v1/businesses/:businessId/transactions/:transactionId/cancel
+ */
+export async function cancelTransaction(
+  req: Request,
+  res: Response
+): Promise<void> {
+  await changeTransactionStatus(
+    req,
+    res,
+    "cancel",
+    "Transaction cancelled successfully"
+  );
+}
+
+/**
+ * Delete transaction
+ * DELETE /api/v1/businesses/:businessId/transactions/:transactionId
+ */
+export async function deleteTransaction(
   req: Request,
   res: Response
 ): Promise<void> {
@@ -198,61 +1454,50 @@ export async function createTransaction(
   }
 
   const businessId = parseInt(req.params.businessId);
-  const { type, category, amount, description, status } = req.body;
-
-  if (isNaN(businessId)) {
-    throw new AppError(400, ErrorCodes.VALIDATION_ERROR, "Invalid business ID");
-  }
-
-  // Validate required fields
-  if (!type || (type !== "Income" && type !== "Expense")) {
-    throw new AppError(
-      400,
-      ErrorCodes.VALIDATION_ERROR,
-      "Valid type is required (Income or Expense)"
-    );
-  }
+  const transactionId = parseInt(req.params.transactionId);
 
-  if (!amount || !isPositiveNumber(amount)) {
+  if (isNaN(businessId) || isNaN(transactionId)) {
     throw new AppError(
       400,
       ErrorCodes.VALIDATION_ERROR,
-      "Amount must be a positive number"
+      "Invalid business or transaction ID"
     );
   }
 
   // Verify business ownership
   await verifyBusinessOwnership(businessId, req.user.email);
 
-  // Create transaction using service (handles balance update)
-  const { data: transaction, error } =
-    await services.transaction.createGeneralTransaction({
-      businessId,
-      type: type as TransactionType,
-      category: category || undefined,
-      amount,
-      description: description || undefined,
-      status: (status as TransactionStatus) || "complete",
-    });
+  // Snapshot for the audit log
+  const { data: before } = await repos.transactions.findById(transactionId);
 
-  if (error || !transaction) {
-    throw new AppError(
-      500,
-      ErrorCodes.SERVER_ERROR,
-      "Failed to create transaction"
-    );
+  // Delete transaction using service (handles balance/stock reversal)
+  const { success, error } = await services.transaction.deleteTransaction(
+    businessId,
+    transactionId
+  );
+
+  if (error || !success) {
+    throw toStatusChangeError(error, "Failed to delete transaction");
   }
 
+  await services.audit.record(getAuditContext(req), {
+    businessId,
+    action: "delete",
+    entityType: "transaction",
+    entityId: transactionId,
+    before,
+  });
+
   res
-    .status(201)
-    .json(successResponse(transaction, "Transaction created successfully"));
+    .status(200)
+    .json(successResponse(null, "Transaction deleted successfully"));
 }
 
 /**
- * Get all transactions
- * GET /api/v1/businesses/:businessId/transactions
+ * Get deleted transactions that can still be restored, latest deleted first
+ * GET /api/v1/businesses/:businessId/transactions/trash
  */
-export async function getAllTransactions(
+export async function getTransactionTrash(
   req: Request,
   res: Response
 ): Promise<void> {
@@ -265,8 +1510,6 @@ export async function getAllTransactions(
   }
 
   const businessId = parseInt(req.params.businessId);
-  const { type, category, status, startDate, endDate, limit, offset } =
-    req.query;
 
   if (isNaN(businessId)) {
     throw new AppError(400, ErrorCodes.VALIDATION_ERROR, "Invalid business ID");
@@ -275,63 +1518,27 @@ export async function getAllTransactions(
   // Verify business ownership
   await verifyBusinessOwnership(businessId, req.user.email);
 
-  // Build filters
-  const filters: any = {};
-  if (type) filters.type = type as TransactionType;
-  if (category) filters.category = category;
-  if (status) filters.status = status as TransactionStatus;
-
-  // Build date range filter
-  const dateRangeFilter =
-    startDate && endDate
-      ? {
-          startDate: startDate as string,
-          endDate: endDate as string,
-        }
-      : undefined;
-
-  // Get transactions
-  const { data: allTransactions, error } =
-    await repos.transactions.findByBusinessId(businessId, {
-      ...filters,
-      dateRange: dateRangeFilter,
-    });
+  const { data: transactions, error } =
+    await services.trash.getTransactions(businessId);
 
   if (error) {
     throw new AppError(
       500,
       ErrorCodes.SERVER_ERROR,
-      "Failed to fetch transactions"
+      "Failed to fetch deleted transactions"
     );
   }
 
-  let transactions = allTransactions || [];
-
-  // Apply pagination
-  const total = transactions.length;
-  const limitNum = limit ? parseInt(limit as string) : 50;
-  const offsetNum = offset ? parseInt(offset as string) : 0;
-
-  transactions = transactions.slice(offsetNum, offsetNum + limitNum);
-
-  res.status(200).json(
-    successResponse({
-      transactions,
-      pagination: {
-        total,
-        limit: limitNum,
-        offset: offsetNum,
-        hasMore: offsetNum + limitNum < total,
-      },
-    })
-  );
+  res.status(200).json(successResponse(transactions || []));
 }
 
 /**
- * Get transaction by ID
- * GET /api/v1/businesses/:businessId/transactions/:transactionId
+ * Restore a deleted transaction
+ * A complete transaction gets its balance, stock and receivable/payable
+ * effects back (attachment files removed on delete are not)
+ * POST /api/v1/businesses/:businessId/transactions/:transactionId/restore
  */
-export async function getTransactionById(
+export async function restoreTransaction(
   req: Request,
   res: Response
 ): Promise<void> {
@@ -357,32 +1564,35 @@ export async function getTransactionById(
   // Verify business ownership
   await verifyBusinessOwnership(businessId, req.user.email);
 
-  // Get transaction with details
-  const { data: transaction, error } = await repos.transactions.findWithDetails(
+  const { data: transaction, error } = await services.trash.restoreTransaction(
+    businessId,
     transactionId
   );
 
   if (error || !transaction) {
-    throw new AppError(404, ErrorCodes.NOT_FOUND, "Transaction not found");
+    throw toStatusChangeError(error, "Failed to restore transaction");
   }
 
-  // Verify transaction belongs to business
-  if (transaction.business_id !== businessId) {
-    throw new AppError(
-      403,
-      ErrorCodes.UNAUTHORIZED,
-      "Transaction does not belong to this business"
-    );
-  }
+  await services.audit.record(getAuditContext(req), {
+    businessId,
+    action: "restore",
+    entityType: "transaction",
+    entityId: transactionId,
+    after: transaction,
+  });
 
-  res.status(200).json(successResponse(transaction));
+  res
+    .status(200)
+    .json(successResponse(transaction, "Transaction restored successfully"));
 }
 
 /**
- * Update transaction
- * PUT /api/v1/businesses/:businessId/transactions/:transactionId
+ * Import transactions from CSV
+ * POST /api/v1/businesses/:businessId/transactions/import
+ * multipart/form-data: file (CSV), mapping (JSON: field -> CSV header),
+ * mode ("dry-run" | "commit", default "dry-run"), accountId (optional)
  */
-export async function updateTransaction(
+export async function importTransactions(
   req: Request,
   res: Response
 ): Promise<void> {
@@ -395,54 +1605,123 @@ export async function updateTransaction(
   }
 
   const businessId = parseInt(req.params.businessId);
-  const transactionId = parseInt(req.params.transactionId);
-  const { description, status, amount, category, date } = req.body;
+  const mode = req.body?.mode || "dry-run";
+  const accountId = parseAccountId(req.body?.accountId);
 
-  if (isNaN(businessId) || isNaN(transactionId)) {
+  if (isNaN(businessId)) {
+    throw new AppError(400, ErrorCodes.VALIDATION_ERROR, "Invalid business ID");
+  }
+
+  if (!req.file) {
+    throw new AppError(400, ErrorCodes.VALIDATION_ERROR, "CSV file is required");
+  }
+
+  if (mode !== "dry-run" && mode !== "commit") {
     throw new AppError(
       400,
       ErrorCodes.VALIDATION_ERROR,
-      "Invalid business or transaction ID"
+      "Mode must be dry-run or commit"
+    );
+  }
+
+  let mapping: ImportColumnMapping;
+  try {
+    mapping =
+      typeof req.body.mapping === "string"
+        ? JSON.parse(req.body.mapping)
+        : req.body.mapping;
+  } catch {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "Mapping must be valid JSON"
+    );
+  }
+
+  if (!mapping || typeof mapping !== "object") {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "Mapping is required (date, type, amount, and optionally category, description)"
     );
   }
 
   // Verify business ownership
   await verifyBusinessOwnership(businessId, req.user.email);
 
-  // Update transaction using service (handles balance update if amount changes)
-  const { data: updatedTransaction, error } =
-    await services.transaction.updateGeneralTransaction(
+  const { data: result, error } =
+    await services.transactionImport.importCsv(
       businessId,
-      transactionId,
-      {
-        description: description || undefined,
-        status: status || undefined,
-        amount: amount ? Number(amount) : undefined,
-        category: category || undefined,
-        date: date || undefined,
-      }
+      req.file.buffer.toString("utf-8"),
+      mapping,
+      mode === "dry-run",
+      accountId
     );
 
-  if (error || !updatedTransaction) {
+  if (error || !result) {
+    if (error?.message?.includes("Money account")) {
+      throw new AppError(404, ErrorCodes.NOT_FOUND, error.message);
+    }
+    // Header / mapping problems are client errors
+    if (
+      error?.message?.includes("CSV") ||
+      error?.message?.includes("Column")
+    ) {
+      throw new AppError(400, ErrorCodes.VALIDATION_ERROR, error.message);
+    }
+    // A month closed between validation and commit
+    const periodError = toPeriodClosedError(error);
+    if (periodError) {
+      throw periodError;
+    }
     throw new AppError(
       500,
       ErrorCodes.SERVER_ERROR,
-      error?.message || "Failed to update transaction"
+      error?.message || "Failed to import transactions"
+    );
+  }
+
+  if (!result.dryRun && result.errors.length > 0) {
+    throw new AppError(
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "CSV has invalid rows, nothing was imported",
+      result
     );
   }
 
+  if (!result.dryRun) {
+    await services.audit.record(getAuditContext(req), {
+      businessId,
+      action: "import",
+      entityType: "transaction",
+      after: {
+        file: req.file.originalname,
+        imported: result.imported,
+        totals: result.totals,
+        account_id: accountId ?? null,
+      },
+    });
+  }
+
   res
-    .status(200)
+    .status(result.dryRun ? 200 : 201)
     .json(
-      successResponse(updatedTransaction, "Transaction updated successfully")
+      successResponse(
+        result,
+        result.dryRun
+          ? "Import validated (dry-run), nothing was saved"
+          : "Transactions imported successfully"
+      )
     );
 }
 
 /**
- * Cancel transaction
- * PUT /api/v1/businesses/:businessId/transactions/:transactionId/cancel
+ * Export transactions as CSV or XLSX
+ * GET /api/v1/businesses/:businessId/transactions/export?format=csv|xlsx
+ * Accepts the same filters as getAllTransactions (without pagination)
  */
-export async function cancelTransaction(
+export async function exportTransactions(
   req: Request,
   res: Response
 ): Promise<void> {
@@ -455,61 +1734,66 @@ export async function cancelTransaction(
   }
 
   const businessId = parseInt(req.params.businessId);
-  const transactionId = parseInt(req.params.transactionId);
+  const format = ((req.query.format as string) || "csv") as ExportFormat;
 
-  if (isNaN(businessId) || isNaN(transactionId)) {
+  if (isNaN(businessId)) {
+    throw new AppError(400, ErrorCodes.VALIDATION_ERROR, "Invalid business ID");
+  }
+
+  if (format !== "csv" && format !== "xlsx") {
     throw new AppError(
       400,
       ErrorCodes.VALIDATION_ERROR,
-      "Invalid business or transaction ID"
+      "Format must be csv or xlsx"
     );
   }
 
   // Verify business ownership
   await verifyBusinessOwnership(businessId, req.user.email);
 
-  // Verify transaction exists and belongs to business
-  const { data: transaction } = await repos.transactions.findById(
-    transactionId
+  // Invalid filters are rejected before the response becomes a download
+  const filters = parseTransactionFilters(req);
+
+  const fileName = `transactions-${businessId}-${
+    new Date().toISOString().split("T")[0]
+  }.${format}`;
+
+  res.setHeader(
+    "Content-Type",
+    format === "xlsx"
+      ? "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+      : "text/csv; charset=utf-8"
   );
-  if (!transaction || transaction.business_id !== businessId) {
-    throw new AppError(404, ErrorCodes.NOT_FOUND, "Transaction not found");
-  }
+  res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
 
-  // Update status to cancel
-  const { data: cancelledTransaction, error } = await repos.transactions.update(
-    transactionId,
-    {
-      status: "cancel",
-    }
+  const { error } = await services.transactionExport.exportTransactions(
+    businessId,
+    filters,
+    format,
+    res
   );
 
-  if (error || !cancelledTransaction) {
-    throw new AppError(
-      500,
-      ErrorCodes.SERVER_ERROR,
-      "Failed to cancel transaction"
-    );
+  if (error) {
+    if (!res.headersSent) {
+      res.removeHeader("Content-Type");
+      res.removeHeader("Content-Disposition");
+      throw new AppError(
+        500,
+        ErrorCodes.SERVER_ERROR,
+        "Failed to export transactions"
+      );
+    }
+    // Part of the file was already sent: abort so the client sees a failed download
+    res.destroy(error instanceof Error ? error : undefined);
   }
-
-  res
-    .status(200)
-    .json(
-      successResponse(
-        cancelledTransaction,
-        "Transaction cancelled successfully"
-      )
-    );
 }
 
 /**
- * Delete transaction
- * DELETE /api/v1/businesses/:businessId/transactions/:transactionId
+ * Helper: Parse route IDs of a transaction document and verify ownership
  */
-export async function deleteTransaction(
-  req: Request,
-  res: Response
-): Promise<void> {
+async function findDocumentIds(
+  req: Request
+): Promise<{ businessId: number; transactionId: number }> {
   if (!req.user) {
     throw new AppError(
       401,
@@ -532,23 +1816,86 @@ export async function deleteTransaction(
   // Verify business ownership
   await verifyBusinessOwnership(businessId, req.user.email);
 
-  // Delete transaction using service (handles balance/stock reversal)
-  const { success, error } = await services.transaction.deleteTransaction(
-    businessId,
-    transactionId
+  return { businessId, transactionId };
+}
+
+/**
+ * Helper: Send a rendered receipt or invoice as an inline PDF
+ */
+function sendTransactionDocument(
+  res: Response,
+  document: TransactionDocument | null,
+  error: any,
+  fallbackMessage: string
+): void {
+  if (error?.message?.includes("not found")) {
+    throw new AppError(404, ErrorCodes.NOT_FOUND, "Transaction not found");
+  }
+
+  if (
+    error?.message?.includes("only available for income") ||
+    error?.message?.includes("Cancelled")
+  ) {
+    throw new AppError(400, ErrorCodes.BUSINESS_LOGIC_ERROR, error.message);
+  }
+
+  if (error || !document) {
+    throw new AppError(500, ErrorCodes.SERVER_ERROR, fallbackMessage);
+  }
+
+  res.setHeader("Content-Type", "application/pdf");
+  res.setHeader(
+    "Content-Disposition",
+    `inline; filename="${document.fileName}"`
   );
+  res.status(200).send(document.content);
+}
 
-  if (error || !success) {
+/**
+ * Get the receipt of a sale as PDF for a thermal printer (width 58 or 80mm,
+ * default 80)
+ * GET /api/v1/businesses/:businessId/transactions/:transactionId/receipt?width=58
+ */
+export async function getTransactionReceipt(
+  req: Request,
+  res: Response
+): Promise<void> {
+  const width = req.query.width === undefined ? 80 : Number(req.query.width);
+
+  if (!RECEIPT_WIDTHS.includes(width as ReceiptWidth)) {
     throw new AppError(
-      500,
-      ErrorCodes.SERVER_ERROR,
-      error?.message || "Failed to delete transaction"
+      400,
+      ErrorCodes.VALIDATION_ERROR,
+      "width must be 58 or 80"
     );
   }
 
-  res
-    .status(200)
-    .json(successResponse(null, "Transaction deleted successfully"));
+  const { businessId, transactionId } = await findDocumentIds(req);
+
+  const { data: receipt, error } =
+    await services.transactionDocument.getReceipt(
+      businessId,
+      transactionId,
+      width as ReceiptWidth
+    );
+
+  sendTransactionDocument(res, receipt, error, "Failed to render receipt");
+}
+
+/**
+ * Get the A4 invoice of a sale as PDF
+ * GET /api/v1/businesses/:businessId/transactions/:transactionId/invoice
+ */
+export async function getTransactionInvoice(
+  req: Request,
+  res: Response
+): Promise<void> {
+  const { businessId, transactionId } = await findDocumentIds(req);
+
+  const { data: invoice, error } =
+    await services.transactionDocument.getInvoice(businessId, transactionId);
+
+  sendTransactionDocument(res, invoice, error, "Failed to render invoice");
 }
 
 /**
@@ -592,7 +1939,20 @@ export async function getTransactionTotals(
     dateFilter
   );
 
-  if (error || !totals) {
+  const { data: sales, error: salesError } =
+    await repos.transactions.getSalesTotals(businessId, dateFilter);
+
+  const { data: byPaymentMethod, error: paymentError } =
+    await repos.transactions.getTotalsByPaymentMethod(businessId, dateFilter);
+
+  if (
+    error ||
+    !totals ||
+    salesError ||
+    !sales ||
+    paymentError ||
+    !byPaymentMethod
+  ) {
     throw new AppError(
       500,
       ErrorCodes.SERVER_ERROR,
@@ -605,6 +1965,8 @@ export async function getTransactionTotals(
       income: totals.income,
       expense: totals.expense,
       net: totals.income - totals.expense,
+      sales,
+      byPaymentMethod,
       dateRange: dateFilter,
     })
   );
@@ -7,6 +7,10 @@
 
 import dotenv from 'dotenv';
 import { createApp } from './app';
+import { initializeApp } from './api/supabase/client';
+import { startRecurringTransactionJob } from './jobs/recurring-transaction.job';
+import { startBalanceReconciliationJob } from './jobs/balance-reconciliation.job';
+import { startTrashPurgeJob } from './jobs/trash-purge.job';
 
 // Load environment variables
 dotenv.config();
@@ -27,6 +31,12 @@ app.listen(PORT, () => {
     console.log(`Server URL: http://localhost:${PORT}`);
     console.log(`Health Check: http://localhost:${PORT}/api/v1/health`);
     console.log('=================================');
+
+    // Start background jobs
+    const { services } = initializeApp();
+    startRecurringTransactionJob(services);
+    startBalanceReconciliationJob(services);
+    startTrashPurgeJob(services);
 });
 
 // Graceful shutdown
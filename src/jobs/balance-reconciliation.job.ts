@@ -0,0 +1,54 @@
+/**
+ * Balance Reconciliation Job
+ * Periodically checks the balances of every business against the ledger
+ */
+
+import type { Services } from '../services/index';
+
+// How often the job runs (default: every 24 hours)
+const INTERVAL_MS = (Number(process.env.RECONCILIATION_JOB_INTERVAL_HOURS) || 24) * 60 * 60 * 1000;
+
+/**
+ * Run the job once for all businesses
+ * Set RECONCILIATION_JOB_REPAIR=true to also repair drifted balances;
+ * otherwise drift is only reported (and recorded in the reconciliation history)
+ */
+export async function runBalanceReconciliationJob(services: Services): Promise<void> {
+    const repair = process.env.RECONCILIATION_JOB_REPAIR === 'true';
+    const { data: result, error } = await services.balanceReconciliation.reconcileAll(repair);
+
+    if (error || !result) {
+        console.error('Balance reconciliation job failed:', error);
+        return;
+    }
+
+    result.drifted.forEach((drifted) => {
+        console.warn(
+            `Balance drift in business ${drifted.businessId}: ${drifted.drift}` +
+                (drifted.repaired ? ' (repaired)' : '')
+        );
+    });
+
+    result.failed.forEach((failure) => {
+        console.error(`Balance reconciliation of business ${failure.businessId} failed: ${failure.error}`);
+    });
+}
+
+/**
+ * Start the job: runs immediately, then on every interval
+ * Set RECONCILIATION_JOB_ENABLED=false to disable (e.g. when an external cron
+ * calls POST /businesses/:businessId/reconciliation instead)
+ */
+export function startBalanceReconciliationJob(services: Services): NodeJS.Timeout | null {
+    if (process.env.RECONCILIATION_JOB_ENABLED === 'false') {
+        return null;
+    }
+
+    runBalanceReconciliationJob(services);
+
+    const timer = setInterval(() => runBalanceReconciliationJob(services), INTERVAL_MS);
+    // Do not keep the process alive just for the job
+    timer.unref();
+
+    return timer;
+}
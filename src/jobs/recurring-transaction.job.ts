@@ -0,0 +1,50 @@
+/**
+ * Recurring Transaction Job
+ * Periodically creates transactions for due recurring transaction templates
+ */
+
+import type { Services } from '../services/index';
+
+// How often the job checks for due occurrences (default: every 60 minutes)
+const INTERVAL_MS = (Number(process.env.RECURRING_JOB_INTERVAL_MINUTES) || 60) * 60 * 1000;
+
+/**
+ * Run the job once for all businesses
+ */
+export async function runRecurringTransactionJob(services: Services): Promise<void> {
+    const { data: result, error } = await services.recurringTransaction.materializeDueOccurrences();
+
+    if (error || !result) {
+        console.error('Recurring transaction job failed:', error);
+        return;
+    }
+
+    if (result.created.length > 0) {
+        console.log(`Recurring transaction job: ${result.created.length} transactions created`);
+    }
+
+    result.failed.forEach((failure) => {
+        console.error(
+            `Recurring transaction ${failure.recurringTransactionId} (${failure.occurrence}) failed: ${failure.error}`
+        );
+    });
+}
+
+/**
+ * Start the job: runs immediately, then on every interval
+ * Set RECURRING_JOB_ENABLED=false to disable (e.g. when an external cron
+ * calls POST /businesses/:businessId/recurring-transactions/run instead)
+ */
+export function startRecurringTransactionJob(services: Services): NodeJS.Timeout | null {
+    if (process.env.RECURRING_JOB_ENABLED === 'false') {
+        return null;
+    }
+
+    runRecurringTransactionJob(services);
+
+    const timer = setInterval(() => runRecurringTransactionJob(services), INTERVAL_MS);
+    // Do not keep the process alive just for the job
+    timer.unref();
+
+    return timer;
+}
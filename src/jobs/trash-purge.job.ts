@@ -0,0 +1,47 @@
+/**
+ * Trash Purge Job
+ * Periodically purges records deleted more than TRASH_RETENTION_DAYS ago
+ */
+
+import type { Services } from '../services/index';
+
+// How often the job runs (default: every 24 hours)
+const INTERVAL_MS = (Number(process.env.TRASH_PURGE_JOB_INTERVAL_HOURS) || 24) * 60 * 60 * 1000;
+
+/**
+ * Run the job once for all businesses
+ */
+export async function runTrashPurgeJob(services: Services): Promise<void> {
+    const { data: result, error } = await services.trash.purgeExpired();
+
+    if (error || !result) {
+        console.error('Trash purge job failed:', error);
+        return;
+    }
+
+    const purged = result.transactions + result.products + result.businesses;
+    if (purged > 0) {
+        console.log(
+            `Trash purge job: ${result.transactions} transactions, ${result.products} products, ` +
+                `${result.businesses} businesses purged`
+        );
+    }
+}
+
+/**
+ * Start the job: runs immediately, then on every interval
+ * Set TRASH_PURGE_JOB_ENABLED=false to disable
+ */
+export function startTrashPurgeJob(services: Services): NodeJS.Timeout | null {
+    if (process.env.TRASH_PURGE_JOB_ENABLED === 'false') {
+        return null;
+    }
+
+    runTrashPurgeJob(services);
+
+    const timer = setInterval(() => runTrashPurgeJob(services), INTERVAL_MS);
+    // Do not keep the process alive just for the job
+    timer.unref();
+
+    return timer;
+}
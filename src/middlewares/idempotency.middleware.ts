@@ -0,0 +1,136 @@
+/// <reference path="../types/express.d.ts" />
+
+/**
+ * Idempotency Middleware
+ * Replays the stored response for retried requests sent with the same Idempotency-Key
+ */
+
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { initializeApp } from '../api/supabase/client';
+import { AppError } from './error.middleware';
+import { ErrorCodes } from '../utils/response.util';
+
+const { repos } = initializeApp();
+
+// How long a stored response is replayed for (default: 24 hours)
+const RETENTION_MS = (Number(process.env.IDEMPOTENCY_KEY_TTL_HOURS) || 24) * 60 * 60 * 1000;
+
+const MAX_KEY_LENGTH = 255;
+
+/**
+ * Fingerprint of the request so a reused key with another payload can be detected
+ */
+function hashRequest(req: Request): string {
+    return crypto
+        .createHash('sha256')
+        .update(`${req.method} ${req.originalUrl}\n${JSON.stringify(req.body ?? {})}`)
+        .digest('hex');
+}
+
+/**
+ * Honor the Idempotency-Key header
+ * - No header: request is processed normally
+ * - Known key, same payload: stored response is returned, handler is skipped
+ * - Known key, different payload: 409 IDEMPOTENCY_CONFLICT
+ * - New key: request is processed and a successful (2xx) response is stored.
+ *   Failed requests release the key so the client can retry with it.
+ */
+export async function idempotency(
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> {
+    try {
+        const key = req.header('Idempotency-Key');
+
+        if (key === undefined) {
+            next();
+            return;
+        }
+
+        if (!req.user) {
+            throw new AppError(
+                401,
+                ErrorCodes.AUTHENTICATION_REQUIRED,
+                'User not authenticated'
+            );
+        }
+
+        if (key.trim().length === 0 || key.length > MAX_KEY_LENGTH) {
+            throw new AppError(
+                400,
+                ErrorCodes.VALIDATION_ERROR,
+                `Idempotency-Key must be between 1 and ${MAX_KEY_LENGTH} characters`
+            );
+        }
+
+        const userId = req.user.id;
+        const requestHash = hashRequest(req);
+
+        const { data: existing } = await repos.idempotencyKeys.findByKey(userId, key);
+
+        if (existing) {
+            const age = Date.now() - new Date(existing.created_at).getTime();
+
+            if (age > RETENTION_MS) {
+                // Outside the retention window: the key can be used again
+                await repos.idempotencyKeys.delete(existing.id);
+            } else {
+                if (existing.request_hash !== requestHash) {
+                    throw new AppError(
+                        409,
+                        ErrorCodes.IDEMPOTENCY_CONFLICT,
+                        'Idempotency-Key has already been used with a different request'
+                    );
+                }
+
+                if (existing.response_status === null) {
+                    throw new AppError(
+                        409,
+                        ErrorCodes.IDEMPOTENCY_CONFLICT,
+                        'A request with this Idempotency-Key is still being processed'
+                    );
+                }
+
+                res.setHeader('Idempotent-Replayed', 'true');
+                res.status(existing.response_status).json(existing.response_body);
+                return;
+            }
+        }
+
+        // Reserve the key (unique per user, so concurrent retries cannot both pass)
+        const { data: record, error } = await repos.idempotencyKeys.create({
+            user_id: userId,
+            idempotency_key: key,
+            request_hash: requestHash,
+        });
+
+        if (error || !record) {
+            if (error?.code === '23505') {
+                throw new AppError(
+                    409,
+                    ErrorCodes.IDEMPOTENCY_CONFLICT,
+                    'A request with this Idempotency-Key is still being processed'
+                );
+            }
+            throw new AppError(500, ErrorCodes.SERVER_ERROR, 'Failed to store idempotency key');
+        }
+
+        // Store the response before sending it, so a retry never misses it
+        const sendJson = res.json.bind(res);
+        res.json = ((body: any) => {
+            const settle =
+                res.statusCode >= 200 && res.statusCode < 300
+                    ? repos.idempotencyKeys.saveResponse(record.id, res.statusCode, body)
+                    : repos.idempotencyKeys.delete(record.id);
+
+            settle.finally(() => sendJson(body));
+            return res;
+        }) as Response['json'];
+
+        next();
+    } catch (error) {
+        next(error);
+    }
+}
@@ -30,4 +30,48 @@ const upload = multer({
     },
 });
 
+// File filter for transaction attachments (receipts): images and PDFs
+const attachmentFileFilter = (req: any, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
+    const allowedMimeTypes = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp', 'application/pdf'];
+
+    if (allowedMimeTypes.includes(file.mimetype)) {
+        cb(null, true);
+    } else {
+        cb(new AppError(400, ErrorCodes.VALIDATION_ERROR, 'Only JPG, JPEG, PNG, WEBP, and PDF files are allowed'));
+    }
+};
+
+// Maximum number of files per attachment upload request
+export const MAX_ATTACHMENTS_PER_UPLOAD = 5;
+
+// Configure multer for transaction attachments
+export const attachmentUpload = multer({
+    storage: storage,
+    fileFilter: attachmentFileFilter,
+    limits: {
+        fileSize: 5 * 1024 * 1024, // 5MB max file size
+        files: MAX_ATTACHMENTS_PER_UPLOAD,
+    },
+});
+
+// File filter for CSV imports (browsers report CSV with varying MIME types)
+const csvFileFilter = (req: any, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
+    const allowedMimeTypes = ['text/csv', 'application/csv', 'application/vnd.ms-excel', 'text/plain'];
+
+    if (allowedMimeTypes.includes(file.mimetype) || file.originalname.toLowerCase().endsWith('.csv')) {
+        cb(null, true);
+    } else {
+        cb(new AppError(400, ErrorCodes.VALIDATION_ERROR, 'Only CSV files are allowed'));
+    }
+};
+
+// Configure multer for CSV imports
+export const csvUpload = multer({
+    storage: storage,
+    fileFilter: csvFileFilter,
+    limits: {
+        fileSize: 5 * 1024 * 1024, // 5MB max file size
+    },
+});
+
 export default upload;
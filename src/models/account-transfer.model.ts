@@ -0,0 +1,27 @@
+/**
+ * Account Transfer Model
+ * Money moved between two accounts of a business (not income or expense)
+ */
+
+export interface AccountTransfer {
+    id: number;
+    business_id: number;
+    from_account_id: number;
+    to_account_id: number;
+    amount: number;
+    description: string | null;
+    transfer_date: string;
+    created_at: string;
+}
+
+/**
+ * DTO for creating a new transfer
+ */
+export interface CreateAccountTransferDTO {
+    business_id: number;
+    from_account_id: number;
+    to_account_id: number;
+    amount: number;
+    description?: string;
+    transfer_date?: string;
+}
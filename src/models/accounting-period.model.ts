@@ -0,0 +1,24 @@
+/**
+ * Accounting Period Model
+ * Month of a business that can be closed once it has been reported;
+ * transactions dated in a closed month are locked
+ */
+
+export type AccountingPeriodStatus = 'closed' | 'open';
+
+export interface AccountingPeriod {
+    id: number;
+    business_id: number;
+    // YYYY-MM-DD, first day of the month
+    period_start: string;
+    // 'open' once reopened (months never closed have no row)
+    status: AccountingPeriodStatus;
+    // Users.id of who closed / last reopened the month
+    closed_at: string;
+    closed_by: string;
+    reopened_at: string | null;
+    reopened_by: string | null;
+    created_at: string;
+    updated_at: string;
+    deleted_at: string | null;
+}
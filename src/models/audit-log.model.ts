@@ -0,0 +1,67 @@
+/**
+ * Audit Log Model
+ * Append-only record of changes to transactions, products and accounting
+ * periods
+ */
+
+export type AuditEntityType = 'transaction' | 'product' | 'period';
+
+export type AuditAction =
+    | 'create'
+    | 'update'
+    | 'delete'
+    | 'restore'
+    | 'complete'
+    | 'cancel'
+    | 'return'
+    | 'import'
+    | 'adjust_stock'
+    | 'update_stock_status'
+    | 'close'
+    | 'reopen';
+
+/**
+ * Changed field of an update
+ */
+export interface AuditChange {
+    from: unknown;
+    to: unknown;
+}
+
+export interface AuditLog {
+    id: number;
+    business_id: number;
+    // Users.id of the actor
+    actor_id: string;
+    actor_email: string | null;
+    action: AuditAction;
+    entity_type: AuditEntityType;
+    // Null for batch actions
+    entity_id: number | null;
+    before: Record<string, unknown> | null;
+    after: Record<string, unknown> | null;
+    // Only for updates (both before and after known)
+    changes: Record<string, AuditChange> | null;
+    ip_address: string | null;
+    user_agent: string | null;
+    request_method: string | null;
+    request_path: string | null;
+    created_at: string;
+}
+
+/**
+ * Who made a change and from where
+ */
+export interface AuditContext {
+    actorId: string;
+    actorEmail: string | null;
+    ipAddress: string | null;
+    userAgent: string | null;
+    method: string | null;
+    path: string | null;
+}
+
+/**
+ * DTO for appending an audit log
+ */
+export type CreateAuditLogDTO = Omit<AuditLog, 'id' | 'created_at'>;
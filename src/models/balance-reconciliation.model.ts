@@ -0,0 +1,76 @@
+/**
+ * Balance Reconciliation Model
+ * Comparison of stored balances with the transaction ledger, and the
+ * adjusting entries that repair them
+ */
+
+import type { Transaction } from './transaction.model';
+
+// backfill: opening balances taken from the ledger when reconciliation was introduced
+export type ReconciliationSource = 'manual' | 'job' | 'backfill';
+
+/**
+ * Stored vs ledger balance of one money account
+ * drift = recorded_balance - expected_balance
+ */
+export interface AccountDrift {
+    account_id: number;
+    account_name: string;
+    recorded_balance: number;
+    expected_balance: number;
+    drift: number;
+}
+
+export interface BalanceReconciliation {
+    id: number;
+    business_id: number;
+    // Business.current_balance at the time of the check
+    recorded_balance: number;
+    // Total of the ledger balances of all accounts
+    expected_balance: number;
+    drift: number;
+    // False when the business total or any account is off
+    in_balance: boolean;
+    accounts: AccountDrift[];
+    source: ReconciliationSource;
+    repaired: boolean;
+    created_at: string;
+}
+
+export type CreateBalanceReconciliationDTO = Omit<BalanceReconciliation, 'id' | 'repaired' | 'created_at'>;
+
+/**
+ * Adjusting entry that brought a stored balance back to the ledger
+ * account_id is null when only the business total was off
+ */
+export interface BalanceAdjustment {
+    id: number;
+    business_id: number;
+    account_id: number | null;
+    reconciliation_id: number | null;
+    previous_balance: number;
+    new_balance: number;
+    amount: number;
+    reason: string | null;
+    // Users.id of who repaired, null for the job
+    created_by: string | null;
+    created_at: string;
+}
+
+/**
+ * Transaction that may explain a drift
+ */
+export interface DriftTransaction extends Transaction {
+    // What the transaction adds to its account balance when complete
+    balance_effect: number;
+    // Its effect equals the drift of its account
+    matches_drift: boolean;
+}
+
+export interface ReconciliationReport extends BalanceReconciliation {
+    // Transactions of the drifted accounts changed since the last clean check
+    // (null: no clean check yet, the most recent ones)
+    since: string | null;
+    transactions: DriftTransaction[];
+    adjustments: BalanceAdjustment[];
+}
@@ -13,9 +13,13 @@ export interface Business {
     category: string | null;
     location: string | null;
     current_balance: number;
+    // ISO 4217 code the books are kept in (IDR by default)
+    base_currency: string;
     created_at: string;
     updated_at: string;
     deleted_at: string | null;
+    // Set when the trash is purged; the record can no longer be restored
+    purged_at: string | null;
 }
 
 /**
@@ -43,6 +47,7 @@ export interface CreateBusinessDTO {
     category?: string;
     location?: string;
     current_balance?: number;
+    base_currency?: string;
 }
 
 /**
@@ -53,4 +58,5 @@ export interface UpdateBusinessDTO {
     category?: string;
     location?: string;
     current_balance?: number;
+    base_currency?: string;
 }
@@ -0,0 +1,74 @@
+/**
+ * Category Budget Model
+ * Monthly spending limit of an expense category
+ */
+
+export interface CategoryBudget {
+    id: number;
+    business_id: number;
+    category_id: number;
+    // First day of the budget month (YYYY-MM-01)
+    period: string;
+    amount: number;
+    created_at: string;
+    updated_at: string;
+    deleted_at: string | null;
+}
+
+/**
+ * DTO for creating a new budget
+ */
+export interface CreateCategoryBudgetDTO {
+    business_id: number;
+    category_id: number;
+    // YYYY-MM-01
+    period: string;
+    amount: number;
+}
+
+/**
+ * DTO for updating an existing budget
+ */
+export interface UpdateCategoryBudgetDTO {
+    amount?: number;
+}
+
+/**
+ * on_track: below 80% of the budget
+ * warning: 80% or more
+ * over_budget: 100% or more
+ */
+export type BudgetStatus = 'on_track' | 'warning' | 'over_budget';
+
+/**
+ * Budget of one category compared with actual spending
+ */
+export interface BudgetVsActual {
+    budget_id: number;
+    category_id: number;
+    category_name: string;
+    budget: number;
+    // Complete expenses of the month, subcategories included
+    actual: number;
+    // Negative when over budget
+    remaining: number;
+    // actual / budget * 100, one decimal
+    percentage: number;
+    status: BudgetStatus;
+}
+
+export interface BudgetReport {
+    // YYYY-MM
+    period: string;
+    categories: BudgetVsActual[];
+    totals: {
+        // Budgets of subcategories with a budgeted parent are not added twice
+        budget: number;
+        // Spending in budgeted categories
+        actual: number;
+        // Spending in categories without a budget
+        unbudgeted: number;
+    };
+    // Categories at warning or over budget, most used first
+    alerts: BudgetVsActual[];
+}
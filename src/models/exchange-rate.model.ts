@@ -0,0 +1,39 @@
+/**
+ * Exchange Rate Model
+ * Rate of a foreign currency against the business base currency on a date
+ */
+
+export type ExchangeRateSource = 'manual' | 'import';
+
+export interface ExchangeRate {
+    id: number;
+    business_id: number;
+    // ISO 4217 code (e.g. USD, SGD)
+    currency: string;
+    // YYYY-MM-DD; applies until the next rate of the currency
+    rate_date: string;
+    // Base currency units per unit of currency
+    rate: number;
+    source: ExchangeRateSource;
+    created_at: string;
+    updated_at: string;
+    deleted_at: string | null;
+}
+
+/**
+ * DTO for creating a new exchange rate
+ */
+export interface CreateExchangeRateDTO {
+    business_id: number;
+    currency: string;
+    rate_date: string;
+    rate: number;
+    source?: ExchangeRateSource;
+}
+
+/**
+ * DTO for updating an existing exchange rate
+ */
+export interface UpdateExchangeRateDTO {
+    rate?: number;
+}
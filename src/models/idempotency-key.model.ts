@@ -0,0 +1,25 @@
+/**
+ * Idempotency Key Model
+ * Stored response for a request sent with an Idempotency-Key header
+ */
+
+export interface IdempotencyKey {
+    id: number;
+    user_id: string;
+    idempotency_key: string;
+    request_hash: string;
+    // Null while the original request is still being processed
+    response_status: number | null;
+    response_body: any | null;
+    // timestamptz (ISO string with offset)
+    created_at: string;
+}
+
+/**
+ * DTO for reserving a new idempotency key
+ */
+export interface CreateIdempotencyKeyDTO {
+    user_id: string;
+    idempotency_key: string;
+    request_hash: string;
+}
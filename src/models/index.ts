@@ -23,10 +23,12 @@ export type {
     Transaction,
     TransactionDetailJoined,
     TransactionWithDetails,
+    TransactionWithReturns,
     CreateTransactionDTO,
     UpdateTransactionDTO,
     TransactionType,
     TransactionStatus,
+    TransactionPaymentMethod,
 } from './transaction.model';
 
 // Transaction Detail
@@ -37,3 +39,141 @@ export type { Chat, ChatWithMessages } from './chat.model';
 
 // Message
 export type { Message, CreateMessageDTO, MessageSender } from './message.model';
+
+// Idempotency Key
+export type { IdempotencyKey, CreateIdempotencyKeyDTO } from './idempotency-key.model';
+
+// Recurring Transaction
+export type {
+    RecurringTransaction,
+    RecurrenceFrequency,
+    RecurrenceSchedule,
+    CreateRecurringTransactionDTO,
+    UpdateRecurringTransactionDTO,
+} from './recurring-transaction.model';
+
+// Transaction Attachment
+export type {
+    TransactionAttachment,
+    TransactionAttachmentWithUrl,
+    CreateTransactionAttachmentDTO,
+} from './transaction-attachment.model';
+
+// Tax Rate
+export type { TaxRate, CreateTaxRateDTO, UpdateTaxRateDTO } from './tax-rate.model';
+
+// Transaction Payment
+export type {
+    PaymentMethod,
+    TransactionPayment,
+    CreateTransactionPaymentDTO,
+    PaymentMethodBreakdown,
+} from './transaction-payment.model';
+
+// Money Account
+export type {
+    MoneyAccount,
+    MoneyAccountType,
+    CreateMoneyAccountDTO,
+    UpdateMoneyAccountDTO,
+} from './money-account.model';
+
+// Account Transfer
+export type { AccountTransfer, CreateAccountTransferDTO } from './account-transfer.model';
+
+// Receivable
+export type {
+    Receivable,
+    ReceivableStatus,
+    ReceivablePayment,
+    ReceivableWithPayments,
+    CreateReceivableDTO,
+    CreateReceivablePaymentDTO,
+} from './receivable.model';
+
+// Payable
+export type {
+    Payable,
+    PayableStatus,
+    PayableWithDueStatus,
+    PayablePayment,
+    PayableWithPayments,
+    CreatePayableDTO,
+    CreatePayablePaymentDTO,
+} from './payable.model';
+
+// Transaction Category
+export type {
+    TransactionCategory,
+    CreateTransactionCategoryDTO,
+    UpdateTransactionCategoryDTO,
+} from './transaction-category.model';
+
+// Category Budget
+export type {
+    CategoryBudget,
+    CreateCategoryBudgetDTO,
+    UpdateCategoryBudgetDTO,
+    BudgetStatus,
+    BudgetVsActual,
+    BudgetReport,
+} from './category-budget.model';
+
+// Audit Log
+export type {
+    AuditLog,
+    AuditAction,
+    AuditEntityType,
+    AuditChange,
+    AuditContext,
+    CreateAuditLogDTO,
+} from './audit-log.model';
+
+// Balance Reconciliation
+export type {
+    BalanceReconciliation,
+    BalanceAdjustment,
+    AccountDrift,
+    DriftTransaction,
+    ReconciliationReport,
+    ReconciliationSource,
+    CreateBalanceReconciliationDTO,
+} from './balance-reconciliation.model';
+
+// Ledger
+export type {
+    LedgerAccount,
+    LedgerAccountType,
+    LedgerSystemKey,
+    CreateLedgerAccountDTO,
+    UpdateLedgerAccountDTO,
+    JournalSource,
+    JournalEntry,
+    JournalEntryWithLines,
+    JournalLine,
+    CreateJournalEntryDTO,
+    CreateJournalLineDTO,
+    TrialBalanceRow,
+    TrialBalance,
+} from './ledger.model';
+
+// Exchange Rates
+export type {
+    ExchangeRate,
+    ExchangeRateSource,
+    CreateExchangeRateDTO,
+    UpdateExchangeRateDTO,
+} from './exchange-rate.model';
+
+// Transaction Numbers
+export type {
+    TransactionNumberSeries,
+    NumberResetPeriod,
+    UpdateTransactionNumberSeriesDTO,
+} from './transaction-number-series.model';
+
+// Accounting Periods
+export type {
+    AccountingPeriod,
+    AccountingPeriodStatus,
+} from './accounting-period.model';
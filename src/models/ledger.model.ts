@@ -0,0 +1,143 @@
+/**
+ * Ledger Model
+ * Chart of accounts and double-entry journal entries
+ */
+
+export type LedgerAccountType = 'asset' | 'liability' | 'equity' | 'income' | 'expense';
+
+/**
+ * Accounts the automatic postings use
+ */
+export type LedgerSystemKey =
+    | 'receivable'
+    | 'input_tax'
+    | 'payable'
+    | 'output_tax'
+    | 'opening_equity'
+    | 'sales'
+    | 'sales_returns'
+    | 'other_income'
+    | 'purchases'
+    | 'other_expense';
+
+export interface LedgerAccount {
+    id: number;
+    business_id: number;
+    // e.g. 1-1100
+    code: string;
+    name: string;
+    type: LedgerAccountType;
+    system_key: LedgerSystemKey | null;
+    // Cash account of a money account (only moves with the money account)
+    money_account_id: number | null;
+    created_at: string;
+    updated_at: string;
+    deleted_at: string | null;
+}
+
+/**
+ * DTO for creating a new ledger account
+ */
+export interface CreateLedgerAccountDTO {
+    business_id: number;
+    code: string;
+    name: string;
+    type: LedgerAccountType;
+}
+
+/**
+ * DTO for updating an existing ledger account
+ * The type is fixed once the account exists
+ */
+export interface UpdateLedgerAccountDTO {
+    code?: string;
+    name?: string;
+}
+
+export type JournalSource =
+    | 'transaction'
+    | 'receivable_payment'
+    | 'payable_payment'
+    | 'transfer'
+    | 'opening_balance'
+    | 'manual'
+    | 'reversal';
+
+export interface JournalLine {
+    id: number;
+    journal_entry_id: number;
+    account_id: number;
+    // Exactly one of debit and credit is positive
+    debit: number;
+    credit: number;
+    description: string | null;
+}
+
+export interface JournalEntry {
+    id: number;
+    business_id: number;
+    entry_date: string;
+    description: string | null;
+    source: JournalSource;
+    transaction_id: number | null;
+    // Payment, transfer or money account the entry was posted for
+    reference_id: number | null;
+    // Entry this one reverses
+    reversal_of: number | null;
+    // Users.id for manual journals and their reversals
+    created_by: string | null;
+    created_at: string;
+}
+
+/**
+ * Journal entry with lines joined
+ * Matches Supabase join response
+ */
+export interface JournalEntryWithLines extends JournalEntry {
+    JournalLines: JournalLine[];
+}
+
+/**
+ * DTO for a line of a manual journal
+ */
+export interface CreateJournalLineDTO {
+    account_id: number;
+    debit: number;
+    credit: number;
+    description?: string;
+}
+
+/**
+ * DTO for posting a manual journal
+ */
+export interface CreateJournalEntryDTO {
+    business_id: number;
+    entry_date: string;
+    description: string;
+    lines: CreateJournalLineDTO[];
+    created_by: string;
+}
+
+/**
+ * Account of a trial balance
+ * The net balance sits in the debit or the credit column; balance is signed
+ * by the normal side of the account (debit for assets and expenses, credit
+ * for the others)
+ */
+export interface TrialBalanceRow {
+    account_id: number;
+    code: string;
+    name: string;
+    type: LedgerAccountType;
+    debit: number;
+    credit: number;
+    balance: number;
+}
+
+export interface TrialBalance {
+    as_of: string;
+    accounts: TrialBalanceRow[];
+    totals: { debit: number; credit: number };
+    // Total debits equal total credits
+    balanced: boolean;
+}
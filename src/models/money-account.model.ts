@@ -0,0 +1,46 @@
+/**
+ * Money Account Model
+ * Where a business keeps its money (cash drawer, bank account, e-wallet)
+ */
+
+export type MoneyAccountType = 'cash' | 'bank' | 'e_wallet';
+
+export interface MoneyAccount {
+    id: number;
+    business_id: number;
+    name: string;
+    type: MoneyAccountType;
+    // Business.current_balance is the total of all account balances
+    balance: number;
+    // Starting point of the ledger the balance is reconciled against
+    opening_balance: number;
+    // Cash account of the general ledger (created on first posting)
+    ledger_account_id: number | null;
+    // Used for transactions that do not specify an account
+    is_default: boolean;
+    created_at: string;
+    updated_at: string;
+    deleted_at: string | null;
+}
+
+/**
+ * DTO for opening a new money account
+ */
+export interface CreateMoneyAccountDTO {
+    business_id: number;
+    name: string;
+    type?: MoneyAccountType;
+    // Opening balance
+    balance?: number;
+    is_default?: boolean;
+}
+
+/**
+ * DTO for updating an existing money account
+ * The balance only changes through transactions and transfers
+ */
+export interface UpdateMoneyAccountDTO {
+    name?: string;
+    type?: MoneyAccountType;
+    is_default?: boolean;
+}
@@ -0,0 +1,79 @@
+/**
+ * Payable Model
+ * Amount the business still owes a supplier for a credit purchase
+ */
+
+import type { PaymentMethod } from './transaction-payment.model';
+
+export type PayableStatus = 'open' | 'paid' | 'cancelled';
+
+export interface Payable {
+    id: number;
+    business_id: number;
+    // The credit purchase
+    transaction_id: number;
+    supplier_name: string;
+    supplier_phone: string | null;
+    amount: number;
+    amount_paid: number;
+    due_date: string;
+    status: PayableStatus;
+    created_at: string;
+    updated_at: string;
+    deleted_at: string | null;
+}
+
+/**
+ * Payable with outstanding amount and due state (computed, not stored)
+ */
+export interface PayableWithDueStatus extends Payable {
+    outstanding: number;
+    // Days until the due date (negative once overdue)
+    days_until_due: number;
+    // Open and past its due date
+    is_overdue: boolean;
+}
+
+/**
+ * Payment made to the supplier for a payable
+ */
+export interface PayablePayment {
+    id: number;
+    payable_id: number;
+    // Money account the payment was made from
+    account_id: number;
+    amount: number;
+    payment_method: PaymentMethod | null;
+    reference: string | null;
+    payment_date: string;
+    created_at: string;
+}
+
+/**
+ * Payable with its payments
+ * Field name 'PayablePayments' matches Supabase join response
+ */
+export interface PayableWithPayments extends Payable {
+    PayablePayments: PayablePayment[];
+}
+
+/**
+ * DTO for the payable created with a credit purchase
+ */
+export interface CreatePayableDTO {
+    supplier_name: string;
+    supplier_phone?: string;
+    due_date: string;
+}
+
+/**
+ * DTO for recording a payment to the supplier
+ */
+export interface CreatePayablePaymentDTO {
+    amount: number;
+    // Default money account when omitted
+    account_id?: number;
+    payment_method?: PaymentMethod;
+    reference?: string;
+    payment_date?: string;
+}
@@ -18,6 +18,8 @@ export interface Product {
     created_at: string;
     updated_at: string;
     deleted_at: string | null;
+    // Set when the trash is purged; the record can no longer be restored
+    purged_at: string | null;
 }
 
 /**
@@ -0,0 +1,69 @@
+/**
+ * Receivable Model
+ * Amount a customer still owes for a credit sale (kasbon), paid in installments
+ */
+
+import type { PaymentMethod } from './transaction-payment.model';
+
+export type ReceivableStatus = 'open' | 'paid' | 'cancelled';
+
+export interface Receivable {
+    id: number;
+    business_id: number;
+    // The credit sale
+    transaction_id: number;
+    customer_name: string;
+    customer_phone: string | null;
+    // Owed: sale amount minus returns credited against it
+    amount: number;
+    amount_paid: number;
+    due_date: string;
+    status: ReceivableStatus;
+    created_at: string;
+    updated_at: string;
+    deleted_at: string | null;
+}
+
+/**
+ * Installment received for a receivable
+ */
+export interface ReceivablePayment {
+    id: number;
+    receivable_id: number;
+    // Money account the payment was received into
+    account_id: number;
+    amount: number;
+    payment_method: PaymentMethod | null;
+    reference: string | null;
+    payment_date: string;
+    created_at: string;
+}
+
+/**
+ * Receivable with its installments
+ * Field name 'ReceivablePayments' matches Supabase join response
+ */
+export interface ReceivableWithPayments extends Receivable {
+    ReceivablePayments: ReceivablePayment[];
+}
+
+/**
+ * DTO for the receivable created with a credit sale
+ */
+export interface CreateReceivableDTO {
+    customer_name: string;
+    customer_phone?: string;
+    due_date: string;
+}
+
+/**
+ * DTO for recording an installment
+ */
+export interface CreateReceivablePaymentDTO {
+    amount: number;
+    // Default money account when omitted
+    account_id?: number;
+    payment_method?: PaymentMethod;
+    reference?: string;
+    payment_date?: string;
+}
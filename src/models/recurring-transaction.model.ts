@@ -0,0 +1,72 @@
+/**
+ * Recurring Transaction Model
+ * Template for a transaction that repeats on a schedule
+ */
+
+import type { TransactionType } from './transaction.model';
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+export interface RecurringTransaction {
+    id: number;
+    business_id: number;
+    type: TransactionType;
+    category: string | null;
+    category_id: number | null;
+    amount: number;
+    description: string | null;
+    frequency: RecurrenceFrequency;
+    // 0 (Sunday) - 6 (Saturday), weekly schedules
+    day_of_week: number | null;
+    // 1 - 31, monthly and yearly schedules (clamped to the month length)
+    day_of_month: number | null;
+    // 1 - 12, yearly schedules
+    month_of_year: number | null;
+    start_date: string;
+    end_date: string | null;
+    next_run_date: string;
+    is_paused: boolean;
+    created_at: string;
+    updated_at: string;
+    deleted_at: string | null;
+}
+
+/**
+ * Schedule fields of a recurring transaction
+ */
+export type RecurrenceSchedule = Pick<
+    RecurringTransaction,
+    'frequency' | 'day_of_week' | 'day_of_month' | 'month_of_year'
+>;
+
+/**
+ * DTO for creating a new recurring transaction
+ */
+export interface CreateRecurringTransactionDTO {
+    business_id: number;
+    type: TransactionType;
+    category?: string;
+    amount: number;
+    description?: string;
+    frequency: RecurrenceFrequency;
+    day_of_week?: number;
+    day_of_month?: number;
+    month_of_year?: number;
+    start_date: string;
+    end_date?: string;
+}
+
+/**
+ * DTO for updating an existing recurring transaction
+ */
+export interface UpdateRecurringTransactionDTO {
+    // null clears the category
+    category?: string | null;
+    amount?: number;
+    description?: string;
+    frequency?: RecurrenceFrequency;
+    day_of_week?: number;
+    day_of_month?: number;
+    month_of_year?: number;
+    end_date?: string | null;
+}
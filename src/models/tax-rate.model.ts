@@ -0,0 +1,40 @@
+/**
+ * Tax Rate Model
+ * Tax (e.g. PPN 11%) configured per business, applied to sales
+ */
+
+export interface TaxRate {
+    id: number;
+    business_id: number;
+    name: string;
+    // Percentage, e.g. 11 for PPN 11%
+    rate: number;
+    // true: prices already include the tax; false: tax is added on top
+    is_inclusive: boolean;
+    // Applied to sales that do not specify a tax rate
+    is_default: boolean;
+    created_at: string;
+    updated_at: string;
+    deleted_at: string | null;
+}
+
+/**
+ * DTO for creating a new tax rate
+ */
+export interface CreateTaxRateDTO {
+    business_id: number;
+    name: string;
+    rate: number;
+    is_inclusive?: boolean;
+    is_default?: boolean;
+}
+
+/**
+ * DTO for updating an existing tax rate
+ */
+export interface UpdateTaxRateDTO {
+    name?: string;
+    rate?: number;
+    is_inclusive?: boolean;
+    is_default?: boolean;
+}
@@ -0,0 +1,35 @@
+/**
+ * Transaction Attachment Model
+ * Receipt or supporting document (image or PDF) stored for a transaction
+ */
+
+export interface TransactionAttachment {
+    id: number;
+    transaction_id: number;
+    file_name: string;
+    // Object path inside the transaction-attachment storage bucket
+    file_path: string;
+    mime_type: string;
+    file_size: number;
+    created_at: string;
+    updated_at: string;
+    deleted_at: string | null;
+}
+
+/**
+ * Attachment with a temporary download URL
+ */
+export interface TransactionAttachmentWithUrl extends TransactionAttachment {
+    url: string | null;
+}
+
+/**
+ * DTO for recording an uploaded attachment
+ */
+export interface CreateTransactionAttachmentDTO {
+    transaction_id: number;
+    file_name: string;
+    file_path: string;
+    mime_type: string;
+    file_size: number;
+}
@@ -0,0 +1,43 @@
+/**
+ * Transaction Category Model
+ * Income and expense categories of a business, grouped one level deep
+ */
+
+import type { TransactionType } from './transaction.model';
+
+export interface TransactionCategory {
+    id: number;
+    business_id: number;
+    name: string;
+    // Transactions of this type can use the category
+    type: TransactionType;
+    // Parent category (top-level categories only)
+    parent_id: number | null;
+    // Used by sales, purchases and returns: cannot be renamed, merged or deleted
+    is_system: boolean;
+    // Ledger account the category's transactions are posted to
+    // (null: the default sales/purchase/other income or expense account)
+    ledger_account_id: number | null;
+    created_at: string;
+    updated_at: string;
+    deleted_at: string | null;
+}
+
+/**
+ * DTO for creating a new category
+ */
+export interface CreateTransactionCategoryDTO {
+    business_id: number;
+    name: string;
+    type: TransactionType;
+    parent_id?: number | null;
+}
+
+/**
+ * DTO for updating an existing category
+ * Names change through rename, so transactions follow
+ */
+export interface UpdateTransactionCategoryDTO {
+    parent_id?: number | null;
+    ledger_account_id?: number | null;
+}
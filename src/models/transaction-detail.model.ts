@@ -9,6 +9,10 @@ export interface TransactionDetail {
     product_id: number;
     quantity: number;
     unit_price_at_transaction: number;
+    // Line discount in Rupiah (line net = quantity * unit price - discount)
+    discount_amount: number;
+    // Sold line this line returns (sales returns only)
+    source_detail_id: number | null;
 }
 
 /**
@@ -19,4 +23,5 @@ export interface CreateTransactionDetailDTO {
     product_id: number;
     quantity: number;
     unit_price_at_transaction: number;
+    discount_amount?: number;
 }
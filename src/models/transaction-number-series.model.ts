@@ -0,0 +1,32 @@
+/**
+ * Transaction Number Series Model
+ * Numbering of transactions per business and type (e.g. INV/2026/10/0001)
+ */
+
+import type { TransactionType } from './transaction.model';
+
+// monthly: PREFIX/YYYY/MM/0001, yearly: PREFIX/YYYY/0001, never: PREFIX/0001
+export type NumberResetPeriod = 'monthly' | 'yearly' | 'never';
+
+export interface TransactionNumberSeries {
+    id: number;
+    business_id: number;
+    type: TransactionType;
+    // Uppercase letters, digits and '-', at most 10 characters
+    prefix: string;
+    reset_period: NumberResetPeriod;
+    // Minimum digits of the sequence
+    padding: number;
+    created_at: string;
+    updated_at: string;
+    deleted_at: string | null;
+}
+
+/**
+ * DTO for updating a number series (applies to transactions recorded after)
+ */
+export interface UpdateTransactionNumberSeriesDTO {
+    prefix?: string;
+    reset_period?: NumberResetPeriod;
+    padding?: number;
+}
@@ -0,0 +1,34 @@
+/**
+ * Transaction Payment Model
+ * Amount paid with one payment method for a transaction
+ */
+
+export type PaymentMethod = 'cash' | 'qris' | 'bank_transfer' | 'e_wallet';
+
+export interface TransactionPayment {
+    id: number;
+    transaction_id: number;
+    method: PaymentMethod;
+    amount: number;
+    // Optional reference (QRIS / transfer / e-wallet transaction number)
+    reference: string | null;
+    created_at: string;
+}
+
+/**
+ * DTO for a payment recorded with a transaction
+ */
+export interface CreateTransactionPaymentDTO {
+    method: PaymentMethod;
+    amount: number;
+    reference?: string;
+}
+
+/**
+ * Income and expense per payment method
+ * 'unspecified' covers transactions recorded without a payment method
+ */
+export type PaymentMethodBreakdown = Record<
+    PaymentMethod | 'unspecified',
+    { income: number; expense: number }
+>;
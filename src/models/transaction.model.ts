@@ -4,22 +4,64 @@
  */
 
 import type { Product } from './product.model';
+import type { Receivable } from './receivable.model';
+import type { Payable } from './payable.model';
+import type {
+    PaymentMethod,
+    TransactionPayment,
+    CreateTransactionPaymentDTO,
+} from './transaction-payment.model';
 
 export type TransactionType = 'Income' | 'Expense';
 export type TransactionStatus = 'pending' | 'complete' | 'cancel';
+// 'split' when the transaction was paid with several methods
+export type TransactionPaymentMethod = PaymentMethod | 'split';
 
 export interface Transaction {
     id: number;
     business_id: number;
+    // Number of the business, e.g. INV/2026/10/0001 (assigned on insert)
+    number: string;
     transaction_date: string;
     type: TransactionType;
+    // Category name, kept in sync with the category (renames and merges)
     category: string | null;
+    category_id: number | null;
+    // Grand total: subtotal - discount_amount (+ tax_amount when tax is exclusive)
     amount: number;
+    // ISO 4217 code; the business base currency unless recorded otherwise
+    currency: string;
+    // Base currency units per unit of currency, fixed when recorded
+    exchange_rate: number;
+    // amount converted to the base currency (balances and totals use it)
+    base_amount: number;
+    // Before discounts (equals amount when there are no discounts or tax)
+    subtotal: number;
+    // Line discounts + transaction discount
+    discount_amount: number;
+    tax_amount: number;
+    // Tax applied to the sale (rate and mode are a snapshot at sale time)
+    tax_rate_id: number | null;
+    tax_rate: number | null;
+    tax_inclusive: boolean;
+    payment_method: TransactionPaymentMethod | null;
+    payment_reference: string | null;
+    // Money account the amount was paid into / out of
+    account_id: number | null;
+    // Part of the amount not settled in cash (credit sale or purchase, or the
+    // part of a return that lowered the receivable); balance effects skip it
+    credit_amount: number;
     description: string | null;
     status: TransactionStatus;
+    // Original transaction this one offsets (e.g. the sale of a sales return)
+    related_transaction_id: number | null;
+    // Recurring template this transaction was generated from
+    recurring_transaction_id: number | null;
     created_at: string;
     updated_at: string;
     deleted_at: string | null;
+    // Set when the trash is purged; the record can no longer be restored
+    purged_at: string | null;
 }
 
 /**
@@ -33,6 +75,8 @@ export interface TransactionDetailJoined {
     product_id: number;
     quantity: number;
     unit_price_at_transaction: number;
+    discount_amount: number;
+    source_detail_id: number | null;
     // Product information from join (Supabase returns 'Products' not 'product')
     Products?: Pick<Product, 'id' | 'name'>;
 }
@@ -43,6 +87,19 @@ export interface TransactionDetailJoined {
  */
 export interface TransactionWithDetails extends Transaction {
     TransactionDetails: TransactionDetailJoined[];
+    TransactionPayments?: TransactionPayment[];
+    // Credit sale receivable (at most one)
+    Receivables?: Receivable[];
+    // Credit purchase payable (at most one)
+    Payables?: Payable[];
+}
+
+/**
+ * Sale with its return history
+ * Returns are Expense transactions linked through related_transaction_id
+ */
+export interface TransactionWithReturns extends TransactionWithDetails {
+    Returns: TransactionWithDetails[];
 }
 
 /**
@@ -56,6 +113,14 @@ export interface CreateTransactionDTO {
     amount: number;
     description?: string;
     status?: TransactionStatus;
+    payment_method?: PaymentMethod;
+    payment_reference?: string;
+    // Split payment; amounts must add up to amount
+    payments?: CreateTransactionPaymentDTO[];
+    // Business default account when omitted
+    account_id?: number;
+    // Business base currency when omitted
+    currency?: string;
 }
 
 /**
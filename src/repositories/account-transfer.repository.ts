@@ -0,0 +1,81 @@
+/**
+ * Account Transfer Repository
+ * Handles transfers between money accounts
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { BaseRepository } from './base.repository';
+import type { AccountTransfer, CreateAccountTransferDTO } from '../models/account-transfer.model';
+import type { DateRangeFilter } from './transaction.repository';
+
+export class AccountTransferRepository extends BaseRepository<AccountTransfer> {
+    constructor(supabase: SupabaseClient) {
+        super(supabase, 'AccountTransfers');
+    }
+
+    /**
+     * Find transfers of a business, newest first
+     * Optionally only transfers from or to one account
+     */
+    async findByBusinessId(
+        businessId: number,
+        dateRange?: DateRangeFilter,
+        accountId?: number
+    ): Promise<{ data: AccountTransfer[] | null; error: any }> {
+        try {
+            let query = this.supabase
+                .from(this.tableName)
+                .select('*')
+                .eq('business_id', businessId);
+
+            if (dateRange) {
+                query = query
+                    .gte('transfer_date', dateRange.startDate)
+                    .lte('transfer_date', dateRange.endDate);
+            }
+
+            if (accountId) {
+                query = query.or(`from_account_id.eq.${accountId},to_account_id.eq.${accountId}`);
+            }
+
+            const { data, error } = await query.order('transfer_date', { ascending: false });
+
+            return { data: data as AccountTransfer[], error };
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+
+    /**
+     * Move money between two accounts (atomic operation)
+     * Calls the transfer_between_accounts database procedure, which locks
+     * both accounts, rejects transfers above the source balance and records
+     * the transfer. The business balance does not change.
+     */
+    async transfer(transfer: CreateAccountTransferDTO): Promise<{ data: AccountTransfer | null; error: any }> {
+        try {
+            const { data: transferId, error } = await this.supabase.rpc('transfer_between_accounts', {
+                p_business_id: transfer.business_id,
+                p_from_account_id: transfer.from_account_id,
+                p_to_account_id: transfer.to_account_id,
+                p_amount: transfer.amount,
+                p_description: transfer.description ?? null,
+                p_transfer_date: transfer.transfer_date ?? null,
+            });
+
+            if (error) {
+                return { data: null, error };
+            }
+
+            const { data, error: findError } = await this.supabase
+                .from(this.tableName)
+                .select('*')
+                .eq('id', transferId as number)
+                .single();
+
+            return { data: data as AccountTransfer, error: findError };
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+}
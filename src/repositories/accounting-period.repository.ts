@@ -0,0 +1,115 @@
+/**
+ * Accounting Period Repository
+ * Handles accounting period database operations
+ * (the lock on transactions of closed months is enforced by the database)
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { BaseRepository } from './base.repository';
+import type { AccountingPeriod, AccountingPeriodStatus } from '../models/accounting-period.model';
+
+export class AccountingPeriodRepository extends BaseRepository<AccountingPeriod> {
+    constructor(supabase: SupabaseClient) {
+        super(supabase, 'AccountingPeriods');
+    }
+
+    /**
+     * Find the closed (and reopened) months of a business, latest first
+     */
+    async findByBusinessId(
+        businessId: number,
+        status?: AccountingPeriodStatus
+    ): Promise<{ data: AccountingPeriod[] | null; error: any }> {
+        try {
+            let query = this.supabase
+                .from(this.tableName)
+                .select('*')
+                .eq('business_id', businessId)
+                .is('deleted_at', null);
+
+            if (status) {
+                query = query.eq('status', status);
+            }
+
+            const { data, error } = await query.order('period_start', { ascending: false });
+
+            return { data: data as AccountingPeriod[], error };
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+
+    /**
+     * Find the period of a month
+     * @param periodStart - First day of the month (YYYY-MM-DD)
+     */
+    async findByPeriodStart(
+        businessId: number,
+        periodStart: string
+    ): Promise<{ data: AccountingPeriod | null; error: any }> {
+        try {
+            const { data, error } = await this.supabase
+                .from(this.tableName)
+                .select('*')
+                .eq('business_id', businessId)
+                .eq('period_start', periodStart)
+                .is('deleted_at', null)
+                .maybeSingle();
+
+            return { data: data as AccountingPeriod | null, error };
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+
+    /**
+     * Find which of the given months are closed
+     * @param periodStarts - First days of the months (YYYY-MM-DD)
+     */
+    async findClosed(
+        businessId: number,
+        periodStarts: string[]
+    ): Promise<{ data: AccountingPeriod[] | null; error: any }> {
+        try {
+            const { data, error } = await this.supabase
+                .from(this.tableName)
+                .select('*')
+                .eq('business_id', businessId)
+                .in('period_start', periodStarts)
+                .eq('status', 'closed')
+                .is('deleted_at', null)
+                .order('period_start', { ascending: true });
+
+            return { data: data as AccountingPeriod[], error };
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+
+    /**
+     * Close a month (checks and closing run in close_accounting_period)
+     * @param periodStart - First day of the month (YYYY-MM-DD)
+     * @param userId - Users.id of who closes it
+     */
+    async close(
+        businessId: number,
+        periodStart: string,
+        userId: string
+    ): Promise<{ data: AccountingPeriod | null; error: any }> {
+        try {
+            const { data: periodId, error } = await this.supabase.rpc('close_accounting_period', {
+                p_business_id: businessId,
+                p_period_start: periodStart,
+                p_user_id: userId,
+            });
+
+            if (error) {
+                return { data: null, error };
+            }
+
+            return this.findById(periodId as number);
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+}
@@ -0,0 +1,94 @@
+/**
+ * Audit Log Repository
+ * Handles audit log database operations (insert and read only)
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { BaseRepository } from './base.repository';
+import type {
+    AuditLog,
+    AuditAction,
+    AuditEntityType,
+    CreateAuditLogDTO,
+} from '../models/audit-log.model';
+import type { DateRangeFilter } from './transaction.repository';
+
+export interface AuditLogFilters {
+    entityType?: AuditEntityType;
+    entityId?: number;
+    action?: AuditAction;
+    actorId?: string;
+    dateRange?: DateRangeFilter;
+}
+
+export class AuditLogRepository extends BaseRepository<AuditLog> {
+    constructor(supabase: SupabaseClient) {
+        super(supabase, 'AuditLogs');
+    }
+
+    /**
+     * Append audit log entries
+     */
+    async append(entries: CreateAuditLogDTO[]): Promise<{ error: any }> {
+        try {
+            if (entries.length === 0) {
+                return { error: null };
+            }
+
+            const { error } = await this.supabase.from(this.tableName).insert(entries);
+
+            return { error };
+        } catch (error) {
+            return { error };
+        }
+    }
+
+    /**
+     * Find one page of audit logs of a business, newest first
+     * total is the exact number of logs matching the filters
+     */
+    async findByBusinessId(
+        businessId: number,
+        filters: AuditLogFilters,
+        limit: number,
+        offset: number
+    ): Promise<{ data: { logs: AuditLog[]; total: number } | null; error: any }> {
+        try {
+            let query = this.supabase
+                .from(this.tableName)
+                .select('*', { count: 'exact' })
+                .eq('business_id', businessId);
+
+            if (filters.entityType) {
+                query = query.eq('entity_type', filters.entityType);
+            }
+            if (filters.entityId !== undefined) {
+                query = query.eq('entity_id', filters.entityId);
+            }
+            if (filters.action) {
+                query = query.eq('action', filters.action);
+            }
+            if (filters.actorId) {
+                query = query.eq('actor_id', filters.actorId);
+            }
+            if (filters.dateRange) {
+                query = query
+                    .gte('created_at', filters.dateRange.startDate)
+                    .lte('created_at', filters.dateRange.endDate);
+            }
+
+            const { data, count, error } = await query
+                .order('created_at', { ascending: false })
+                .order('id', { ascending: false })
+                .range(offset, offset + limit - 1);
+
+            if (error) {
+                return { data: null, error };
+            }
+
+            return { data: { logs: (data || []) as AuditLog[], total: count ?? 0 }, error: null };
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+}
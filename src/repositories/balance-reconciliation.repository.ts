@@ -0,0 +1,161 @@
+/**
+ * Balance Reconciliation Repository
+ * Handles balance reconciliation runs, ledger balances and adjusting entries
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { BaseRepository } from './base.repository';
+import type {
+    BalanceReconciliation,
+    BalanceAdjustment,
+    CreateBalanceReconciliationDTO,
+} from '../models/balance-reconciliation.model';
+
+/**
+ * Stored and ledger balance of a money account
+ * (row of the account_ledger_balances database function)
+ */
+export interface LedgerBalance {
+    account_id: number;
+    account_name: string;
+    recorded_balance: number;
+    expected_balance: number;
+    // Business.current_balance (same on every row)
+    business_balance: number;
+}
+
+export class BalanceReconciliationRepository extends BaseRepository<BalanceReconciliation> {
+    constructor(supabase: SupabaseClient) {
+        super(supabase, 'BalanceReconciliations');
+    }
+
+    /**
+     * Get the stored and ledger balance of every money account of a business
+     * Calls the account_ledger_balances database function, which reads both
+     * in one snapshot
+     */
+    async getLedgerBalances(businessId: number): Promise<{ data: LedgerBalance[] | null; error: any }> {
+        try {
+            const { data, error } = await this.supabase.rpc('account_ledger_balances', {
+                p_business_id: businessId,
+            });
+
+            if (error) {
+                return { data: null, error };
+            }
+
+            return { data: (data as LedgerBalance[]) || [], error: null };
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+
+    /**
+     * Record a reconciliation run
+     */
+    async record(
+        reconciliation: CreateBalanceReconciliationDTO
+    ): Promise<{ data: BalanceReconciliation | null; error: any }> {
+        return this.create(reconciliation as Partial<BalanceReconciliation>);
+    }
+
+    /**
+     * Find reconciliation runs of a business, newest first
+     */
+    async findByBusinessId(
+        businessId: number,
+        limit: number
+    ): Promise<{ data: BalanceReconciliation[] | null; error: any }> {
+        try {
+            const { data, error } = await this.supabase
+                .from(this.tableName)
+                .select('*')
+                .eq('business_id', businessId)
+                .order('created_at', { ascending: false })
+                .order('id', { ascending: false })
+                .limit(limit);
+
+            return { data: data as BalanceReconciliation[], error };
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+
+    /**
+     * Find the latest run of a business that found no drift (or was repaired)
+     */
+    async findLastInBalance(businessId: number): Promise<{ data: BalanceReconciliation | null; error: any }> {
+        try {
+            const { data, error } = await this.supabase
+                .from(this.tableName)
+                .select('*')
+                .eq('business_id', businessId)
+                .or('in_balance.is.true,repaired.is.true')
+                .order('created_at', { ascending: false })
+                .order('id', { ascending: false })
+                .limit(1)
+                .maybeSingle();
+
+            return { data: data as BalanceReconciliation | null, error };
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+
+    /**
+     * Bring the stored balances of a business back to the ledger (atomic operation)
+     * Calls the repair_account_balances database procedure, which recomputes
+     * the ledger under lock and posts an adjusting entry per corrected balance
+     */
+    async repair(
+        businessId: number,
+        reconciliationId: number,
+        reason: string | null,
+        createdBy: string | null
+    ): Promise<{ data: BalanceAdjustment[] | null; error: any }> {
+        try {
+            const { error } = await this.supabase.rpc('repair_account_balances', {
+                p_business_id: businessId,
+                p_reconciliation_id: reconciliationId,
+                p_reason: reason,
+                p_created_by: createdBy,
+            });
+
+            if (error) {
+                return { data: null, error };
+            }
+
+            const { data, error: fetchError } = await this.supabase
+                .from('BalanceAdjustments')
+                .select('*')
+                .eq('reconciliation_id', reconciliationId)
+                .order('id', { ascending: true });
+
+            return { data: data as BalanceAdjustment[], error: fetchError };
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+
+    /**
+     * Find adjusting entries of a business, newest first
+     */
+    async findAdjustments(
+        businessId: number,
+        limit: number
+    ): Promise<{ data: BalanceAdjustment[] | null; error: any }> {
+        try {
+            const { data, error } = await this.supabase
+                .from('BalanceAdjustments')
+                .select('*')
+                .eq('business_id', businessId)
+                .order('created_at', { ascending: false })
+                .order('id', { ascending: false })
+                .limit(limit);
+
+            return { data: data as BalanceAdjustment[], error };
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+}
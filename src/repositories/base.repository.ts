@@ -207,6 +207,74 @@ export class BaseRepository<T> {
         }
     }
 
+    /**
+     * Find soft-deleted records matching filters that are still in the trash
+     * (not purged), latest deleted first
+     * Only for tables with a trash (purged_at column)
+     */
+    async findTrashed(filters?: QueryFilters): Promise<{ data: T[] | null; error: any }> {
+        try {
+            let query = this.supabase
+                .from(this.tableName)
+                .select('*')
+                .not('deleted_at', 'is', null)
+                .is('purged_at', null);
+
+            if (filters) {
+                Object.entries(filters).forEach(([key, value]) => {
+                    if (value !== undefined && value !== null) {
+                        query = query.eq(key, value);
+                    }
+                });
+            }
+
+            const { data, error } = await query.order('deleted_at', { ascending: false });
+            return { data: data as T[], error };
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+
+    /**
+     * Find a soft-deleted record by ID that is still in the trash (null if none)
+     * Only for tables with a trash (purged_at column)
+     */
+    async findTrashedById(id: number): Promise<{ data: T | null; error: any }> {
+        try {
+            const { data, error } = await this.supabase
+                .from(this.tableName)
+                .select('*')
+                .eq('id', id)
+                .not('deleted_at', 'is', null)
+                .is('purged_at', null)
+                .maybeSingle();
+
+            return { data: data as T | null, error };
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+
+    /**
+     * Purge records deleted before a time from the trash
+     * The rows stay (other records refer to them) but can no longer be restored
+     * Only for tables with a trash (purged_at column)
+     */
+    async purgeTrashed(deletedBefore: string): Promise<{ count: number | null; error: any }> {
+        try {
+            const { count, error } = await this.supabase
+                .from(this.tableName)
+                .update({ purged_at: new Date().toISOString() }, { count: 'exact' })
+                .not('deleted_at', 'is', null)
+                .lt('deleted_at', deletedBefore)
+                .is('purged_at', null);
+
+            return { count, error };
+        } catch (error) {
+            return { count: null, error };
+        }
+    }
+
     /**
      * Count records matching filters
      */
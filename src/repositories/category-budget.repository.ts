@@ -0,0 +1,43 @@
+/**
+ * Category Budget Repository
+ * Handles category budget database operations
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { BaseRepository } from './base.repository';
+import type { CategoryBudget } from '../models/category-budget.model';
+
+export class CategoryBudgetRepository extends BaseRepository<CategoryBudget> {
+    constructor(supabase: SupabaseClient) {
+        super(supabase, 'CategoryBudgets');
+    }
+
+    /**
+     * Find budgets of a business, optionally of one month (YYYY-MM-01)
+     * Latest month first
+     */
+    async findByBusinessId(
+        businessId: number,
+        period?: string
+    ): Promise<{ data: CategoryBudget[] | null; error: any }> {
+        try {
+            let query = this.supabase
+                .from(this.tableName)
+                .select('*')
+                .eq('business_id', businessId)
+                .is('deleted_at', null);
+
+            if (period) {
+                query = query.eq('period', period);
+            }
+
+            const { data, error } = await query
+                .order('period', { ascending: false })
+                .order('category_id', { ascending: true });
+
+            return { data: data as CategoryBudget[], error };
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+}
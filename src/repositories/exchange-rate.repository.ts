@@ -0,0 +1,101 @@
+/**
+ * Exchange Rate Repository
+ * Handles exchange rate database operations
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { BaseRepository } from './base.repository';
+import type { DateRangeFilter } from './transaction.repository';
+import type { ExchangeRate, CreateExchangeRateDTO } from '../models/exchange-rate.model';
+
+export interface ExchangeRateFilters {
+    currency?: string;
+    dateRange?: DateRangeFilter;
+}
+
+export class ExchangeRateRepository extends BaseRepository<ExchangeRate> {
+    constructor(supabase: SupabaseClient) {
+        super(supabase, 'ExchangeRates');
+    }
+
+    /**
+     * Find rates of a business, latest date first
+     */
+    async findByBusinessId(
+        businessId: number,
+        filters?: ExchangeRateFilters
+    ): Promise<{ data: ExchangeRate[] | null; error: any }> {
+        try {
+            let query = this.supabase
+                .from(this.tableName)
+                .select('*')
+                .eq('business_id', businessId)
+                .is('deleted_at', null);
+
+            if (filters?.currency) {
+                query = query.eq('currency', filters.currency);
+            }
+
+            if (filters?.dateRange) {
+                query = query
+                    .gte('rate_date', filters.dateRange.startDate)
+                    .lte('rate_date', filters.dateRange.endDate);
+            }
+
+            const { data, error } = await query
+                .order('rate_date', { ascending: false })
+                .order('currency', { ascending: true });
+
+            return { data: data as ExchangeRate[], error };
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+
+    /**
+     * Find the rate of a currency on a date (latest rate on or before it)
+     */
+    async findRateOn(
+        businessId: number,
+        currency: string,
+        date: string
+    ): Promise<{ data: ExchangeRate | null; error: any }> {
+        try {
+            const { data, error } = await this.supabase
+                .from(this.tableName)
+                .select('*')
+                .eq('business_id', businessId)
+                .eq('currency', currency)
+                .lte('rate_date', date)
+                .is('deleted_at', null)
+                .order('rate_date', { ascending: false })
+                .limit(1)
+                .maybeSingle();
+
+            return { data: data as ExchangeRate | null, error };
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+
+    /**
+     * Import rates atomically (import_exchange_rates)
+     * A rate for a currency and date that already exists is replaced
+     * @returns Number of rates imported
+     */
+    async importBatch(
+        businessId: number,
+        rates: Omit<CreateExchangeRateDTO, 'business_id' | 'source'>[]
+    ): Promise<{ data: number | null; error: any }> {
+        try {
+            const { data, error } = await this.supabase.rpc('import_exchange_rates', {
+                p_business_id: businessId,
+                p_rates: rates,
+            });
+
+            return { data: data as number, error };
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+}
@@ -0,0 +1,55 @@
+/**
+ * Idempotency Key Repository
+ * Handles storage of idempotent request responses
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { BaseRepository } from './base.repository';
+import type { IdempotencyKey } from '../models/idempotency-key.model';
+
+export class IdempotencyKeyRepository extends BaseRepository<IdempotencyKey> {
+    constructor(supabase: SupabaseClient) {
+        super(supabase, 'IdempotencyKeys');
+    }
+
+    /**
+     * Find a stored key for a user
+     */
+    async findByKey(
+        userId: string,
+        key: string
+    ): Promise<{ data: IdempotencyKey | null; error: any }> {
+        try {
+            const { data, error } = await this.supabase
+                .from(this.tableName)
+                .select('*')
+                .eq('user_id', userId)
+                .eq('idempotency_key', key)
+                .maybeSingle();
+
+            return { data: data as IdempotencyKey, error };
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+
+    /**
+     * Store the final response for a key
+     */
+    async saveResponse(
+        id: number,
+        status: number,
+        body: any
+    ): Promise<{ error: any }> {
+        try {
+            const { error } = await this.supabase
+                .from(this.tableName)
+                .update({ response_status: status, response_body: body })
+                .eq('id', id);
+
+            return { error };
+        } catch (error) {
+            return { error };
+        }
+    }
+}
@@ -10,6 +10,36 @@ export { UserRepository } from './user.repository';
 export { BusinessRepository } from './business.repository';
 export { ProductRepository } from './product.repository';
 export { TransactionRepository } from './transaction.repository';
-export type { DateRangeFilter, TransactionFilters } from './transaction.repository';
+export type {
+    DateRangeFilter,
+    TransactionFilters,
+    SalesTotals,
+    TransactionSortField,
+    SortOrder,
+    TransactionPageOptions,
+    TransactionPage,
+} from './transaction.repository';
 export { ChatRepository } from './chat.repository';
 export { MessageRepository } from './message.repository';
+export { IdempotencyKeyRepository } from './idempotency-key.repository';
+export { RecurringTransactionRepository } from './recurring-transaction.repository';
+export { TransactionAttachmentRepository } from './transaction-attachment.repository';
+export { TaxRateRepository } from './tax-rate.repository';
+export { MoneyAccountRepository } from './money-account.repository';
+export { AccountTransferRepository } from './account-transfer.repository';
+export { ReceivableRepository } from './receivable.repository';
+export { PayableRepository } from './payable.repository';
+export { TransactionCategoryRepository } from './transaction-category.repository';
+export { CategoryBudgetRepository } from './category-budget.repository';
+export { AuditLogRepository } from './audit-log.repository';
+export { BalanceReconciliationRepository } from './balance-reconciliation.repository';
+export { LedgerAccountRepository } from './ledger-account.repository';
+export { JournalEntryRepository } from './journal-entry.repository';
+export { ExchangeRateRepository } from './exchange-rate.repository';
+export { TransactionNumberSeriesRepository } from './transaction-number-series.repository';
+export { AccountingPeriodRepository } from './accounting-period.repository';
+export type { AuditLogFilters } from './audit-log.repository';
+export type { LedgerBalance } from './balance-reconciliation.repository';
+export type { LedgerAccountTotals } from './ledger-account.repository';
+export type { JournalEntryFilters } from './journal-entry.repository';
+export type { ExchangeRateFilters } from './exchange-rate.repository';
@@ -0,0 +1,154 @@
+/**
+ * Journal Entry Repository
+ * Handles journal entry database operations (post and read only)
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { BaseRepository } from './base.repository';
+import type {
+    JournalEntry,
+    JournalEntryWithLines,
+    JournalSource,
+    CreateJournalEntryDTO,
+} from '../models/ledger.model';
+import type { DateRangeFilter } from './transaction.repository';
+
+export interface JournalEntryFilters {
+    dateRange?: DateRangeFilter;
+    source?: JournalSource;
+    transactionId?: number;
+}
+
+export class JournalEntryRepository extends BaseRepository<JournalEntry> {
+    constructor(supabase: SupabaseClient) {
+        super(supabase, 'JournalEntries');
+    }
+
+    /**
+     * Find a journal entry with its lines
+     */
+    async findWithLines(entryId: number): Promise<{ data: JournalEntryWithLines | null; error: any }> {
+        try {
+            const { data, error } = await this.supabase
+                .from(this.tableName)
+                .select('*, JournalLines(*)')
+                .eq('id', entryId)
+                .maybeSingle();
+
+            return { data: data as JournalEntryWithLines | null, error };
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+
+    /**
+     * Find one page of journal entries of a business with their lines,
+     * newest first
+     * total is the exact number of entries matching the filters
+     */
+    async findPage(
+        businessId: number,
+        filters: JournalEntryFilters,
+        limit: number,
+        offset: number
+    ): Promise<{ data: { entries: JournalEntryWithLines[]; total: number } | null; error: any }> {
+        try {
+            let query = this.supabase
+                .from(this.tableName)
+                .select('*, JournalLines(*)', { count: 'exact' })
+                .eq('business_id', businessId);
+
+            if (filters.dateRange) {
+                query = query
+                    .gte('entry_date', filters.dateRange.startDate)
+                    .lte('entry_date', filters.dateRange.endDate);
+            }
+            if (filters.source) {
+                query = query.eq('source', filters.source);
+            }
+            if (filters.transactionId !== undefined) {
+                query = query.eq('transaction_id', filters.transactionId);
+            }
+
+            const { data, count, error } = await query
+                .order('entry_date', { ascending: false })
+                .order('id', { ascending: false })
+                .range(offset, offset + limit - 1);
+
+            if (error) {
+                return { data: null, error };
+            }
+
+            return {
+                data: { entries: (data as JournalEntryWithLines[]) || [], total: count ?? 0 },
+                error: null,
+            };
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+
+    /**
+     * Post a manual journal (atomic operation)
+     * Calls the post_journal_entry database procedure, which checks that the
+     * accounts belong to the business and that debits equal credits
+     */
+    async postManual(entry: CreateJournalEntryDTO): Promise<{ data: JournalEntryWithLines | null; error: any }> {
+        try {
+            const { data: entryId, error } = await this.supabase.rpc('post_journal_entry', {
+                p_entry: { ...entry, source: 'manual' },
+            });
+
+            if (error) {
+                return { data: null, error };
+            }
+
+            return this.findWithLines(entryId as number);
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+
+    /**
+     * Reverse a journal entry (atomic operation)
+     * Calls the reverse_journal_entry database procedure, which posts the
+     * entry again with debits and credits swapped
+     */
+    async reverse(
+        entryId: number,
+        description: string | null,
+        createdBy: string
+    ): Promise<{ data: JournalEntryWithLines | null; error: any }> {
+        try {
+            const { data: reversalId, error } = await this.supabase.rpc('reverse_journal_entry', {
+                p_entry_id: entryId,
+                p_description: description,
+                p_created_by: createdBy,
+            });
+
+            if (error) {
+                return { data: null, error };
+            }
+
+            return this.findWithLines(reversalId as number);
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+
+    /**
+     * Check whether an entry has been reversed
+     */
+    async isReversed(entryId: number): Promise<{ data: boolean; error: any }> {
+        try {
+            const { count, error } = await this.supabase
+                .from(this.tableName)
+                .select('id', { count: 'exact', head: true })
+                .eq('reversal_of', entryId);
+
+            return { data: (count ?? 0) > 0, error };
+        } catch (error) {
+            return { data: false, error };
+        }
+    }
+}
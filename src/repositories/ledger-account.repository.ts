@@ -0,0 +1,106 @@
+/**
+ * Ledger Account Repository
+ * Handles chart of accounts database operations
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { BaseRepository } from './base.repository';
+import type { LedgerAccount, LedgerAccountType } from '../models/ledger.model';
+
+/**
+ * Debit and credit totals of a ledger account
+ * (row of the trial_balance database function)
+ */
+export interface LedgerAccountTotals {
+    account_id: number;
+    code: string;
+    name: string;
+    type: LedgerAccountType;
+    debit: number;
+    credit: number;
+}
+
+export class LedgerAccountRepository extends BaseRepository<LedgerAccount> {
+    constructor(supabase: SupabaseClient) {
+        super(supabase, 'LedgerAccounts');
+    }
+
+    /**
+     * Find the chart of accounts of a business, by code
+     */
+    async findByBusinessId(
+        businessId: number,
+        type?: LedgerAccountType
+    ): Promise<{ data: LedgerAccount[] | null; error: any }> {
+        try {
+            let query = this.supabase
+                .from(this.tableName)
+                .select('*')
+                .eq('business_id', businessId)
+                .is('deleted_at', null);
+
+            if (type) {
+                query = query.eq('type', type);
+            }
+
+            const { data, error } = await query.order('code', { ascending: true });
+
+            return { data: data as LedgerAccount[], error };
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+
+    /**
+     * Check whether journal lines or category mappings use an account
+     */
+    async isInUse(accountId: number): Promise<{ data: boolean; error: any }> {
+        try {
+            const { count: lineCount, error: linesError } = await this.supabase
+                .from('JournalLines')
+                .select('id', { count: 'exact', head: true })
+                .eq('account_id', accountId);
+
+            if (linesError) {
+                return { data: false, error: linesError };
+            }
+            if ((lineCount ?? 0) > 0) {
+                return { data: true, error: null };
+            }
+
+            const { count: categoryCount, error: categoriesError } = await this.supabase
+                .from('TransactionCategories')
+                .select('id', { count: 'exact', head: true })
+                .eq('ledger_account_id', accountId)
+                .is('deleted_at', null);
+
+            return { data: (categoryCount ?? 0) > 0, error: categoriesError };
+        } catch (error) {
+            return { data: false, error };
+        }
+    }
+
+    /**
+     * Get debit and credit totals per account up to a date (inclusive)
+     * Calls the trial_balance database function
+     */
+    async getTotals(
+        businessId: number,
+        asOf: string
+    ): Promise<{ data: LedgerAccountTotals[] | null; error: any }> {
+        try {
+            const { data, error } = await this.supabase.rpc('trial_balance', {
+                p_business_id: businessId,
+                p_as_of: asOf,
+            });
+
+            if (error) {
+                return { data: null, error };
+            }
+
+            return { data: (data as LedgerAccountTotals[]) || [], error: null };
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+}
@@ -0,0 +1,90 @@
+/**
+ * Money Account Repository
+ * Handles money account database operations
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { BaseRepository } from './base.repository';
+import type { MoneyAccount, CreateMoneyAccountDTO } from '../models/money-account.model';
+
+export class MoneyAccountRepository extends BaseRepository<MoneyAccount> {
+    constructor(supabase: SupabaseClient) {
+        super(supabase, 'MoneyAccounts');
+    }
+
+    /**
+     * Find all money accounts of a business, default account first
+     */
+    async findByBusinessId(businessId: number): Promise<{ data: MoneyAccount[] | null; error: any }> {
+        try {
+            const { data, error } = await this.supabase
+                .from(this.tableName)
+                .select('*')
+                .eq('business_id', businessId)
+                .is('deleted_at', null)
+                .order('is_default', { ascending: false })
+                .order('name', { ascending: true });
+
+            return { data: data as MoneyAccount[], error };
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+
+    /**
+     * Open a money account (atomic operation)
+     * Calls the open_money_account database procedure, which adds the
+     * opening balance to the business balance and moves the default flag
+     * when the new account is the default
+     */
+    async open(account: CreateMoneyAccountDTO): Promise<{ data: MoneyAccount | null; error: any }> {
+        try {
+            const { data: accountId, error } = await this.supabase.rpc('open_money_account', {
+                p_account: account,
+            });
+
+            if (error) {
+                return { data: null, error };
+            }
+
+            return this.findById(accountId as number);
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+
+    /**
+     * Delete a money account (atomic operation)
+     * Calls the delete_money_account database procedure, which locks the
+     * account and refuses the default account, a nonzero balance and
+     * accounts with open transactions
+     */
+    async remove(accountId: number): Promise<{ error: any }> {
+        try {
+            const { error } = await this.supabase.rpc('delete_money_account', {
+                p_account_id: accountId,
+            });
+
+            return { error };
+        } catch (error) {
+            return { error };
+        }
+    }
+
+    /**
+     * Unset the default flag on all money accounts of a business
+     */
+    async clearDefault(businessId: number): Promise<{ error: any }> {
+        try {
+            const { error } = await this.supabase
+                .from(this.tableName)
+                .update({ is_default: false, updated_at: new Date().toISOString() })
+                .eq('business_id', businessId)
+                .eq('is_default', true);
+
+            return { error };
+        } catch (error) {
+            return { error };
+        }
+    }
+}
@@ -0,0 +1,104 @@
+/**
+ * Payable Repository
+ * Handles payable (credit purchase) database operations
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { BaseRepository } from './base.repository';
+import type {
+    Payable,
+    PayableStatus,
+    PayableWithPayments,
+    PayablePayment,
+    CreatePayablePaymentDTO,
+} from '../models/payable.model';
+
+export class PayableRepository extends BaseRepository<Payable> {
+    constructor(supabase: SupabaseClient) {
+        super(supabase, 'Payables');
+    }
+
+    /**
+     * Find payables of a business, earliest due first
+     * @param dueOnOrBefore Only payables due on or before this date (YYYY-MM-DD)
+     */
+    async findByBusinessId(
+        businessId: number,
+        status?: PayableStatus,
+        dueOnOrBefore?: string
+    ): Promise<{ data: Payable[] | null; error: any }> {
+        try {
+            let query = this.supabase
+                .from(this.tableName)
+                .select('*')
+                .eq('business_id', businessId)
+                .is('deleted_at', null);
+
+            if (status) {
+                query = query.eq('status', status);
+            }
+
+            if (dueOnOrBefore) {
+                query = query.lte('due_date', dueOnOrBefore);
+            }
+
+            const { data, error } = await query
+                .order('due_date', { ascending: true })
+                .order('id', { ascending: true });
+
+            return { data: data as Payable[], error };
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+
+    /**
+     * Get payable with its payments
+     */
+    async findWithPayments(payableId: number): Promise<{ data: PayableWithPayments | null; error: any }> {
+        try {
+            const { data, error } = await this.supabase
+                .from(this.tableName)
+                .select('*, PayablePayments(*)')
+                .eq('id', payableId)
+                .is('deleted_at', null)
+                .single();
+
+            return { data: data as PayableWithPayments, error };
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+
+    /**
+     * Record a payment to the supplier (atomic operation)
+     * Calls the record_payable_payment database procedure, which rejects
+     * payments above the outstanding amount, debits the money account and
+     * marks the payable paid once it is settled
+     */
+    async recordPayment(
+        payableId: number,
+        payment: CreatePayablePaymentDTO
+    ): Promise<{ data: PayablePayment | null; error: any }> {
+        try {
+            const { data: paymentId, error } = await this.supabase.rpc('record_payable_payment', {
+                p_payable_id: payableId,
+                p_payment: payment,
+            });
+
+            if (error) {
+                return { data: null, error };
+            }
+
+            const { data, error: findError } = await this.supabase
+                .from('PayablePayments')
+                .select('*')
+                .eq('id', paymentId as number)
+                .single();
+
+            return { data: data as PayablePayment, error: findError };
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+}
@@ -0,0 +1,98 @@
+/**
+ * Receivable Repository
+ * Handles receivable (credit sale) database operations
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { BaseRepository } from './base.repository';
+import type {
+    Receivable,
+    ReceivableStatus,
+    ReceivableWithPayments,
+    ReceivablePayment,
+    CreateReceivablePaymentDTO,
+} from '../models/receivable.model';
+
+export class ReceivableRepository extends BaseRepository<Receivable> {
+    constructor(supabase: SupabaseClient) {
+        super(supabase, 'Receivables');
+    }
+
+    /**
+     * Find receivables of a business, earliest due first
+     */
+    async findByBusinessId(
+        businessId: number,
+        status?: ReceivableStatus
+    ): Promise<{ data: Receivable[] | null; error: any }> {
+        try {
+            let query = this.supabase
+                .from(this.tableName)
+                .select('*')
+                .eq('business_id', businessId)
+                .is('deleted_at', null);
+
+            if (status) {
+                query = query.eq('status', status);
+            }
+
+            const { data, error } = await query
+                .order('due_date', { ascending: true })
+                .order('id', { ascending: true });
+
+            return { data: data as Receivable[], error };
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+
+    /**
+     * Get receivable with its installments
+     */
+    async findWithPayments(receivableId: number): Promise<{ data: ReceivableWithPayments | null; error: any }> {
+        try {
+            const { data, error } = await this.supabase
+                .from(this.tableName)
+                .select('*, ReceivablePayments(*)')
+                .eq('id', receivableId)
+                .is('deleted_at', null)
+                .single();
+
+            return { data: data as ReceivableWithPayments, error };
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+
+    /**
+     * Record an installment (atomic operation)
+     * Calls the record_receivable_payment database procedure, which rejects
+     * payments above the outstanding amount, credits the money account and
+     * marks the receivable paid once it is settled
+     */
+    async recordPayment(
+        receivableId: number,
+        payment: CreateReceivablePaymentDTO
+    ): Promise<{ data: ReceivablePayment | null; error: any }> {
+        try {
+            const { data: paymentId, error } = await this.supabase.rpc('record_receivable_payment', {
+                p_receivable_id: receivableId,
+                p_payment: payment,
+            });
+
+            if (error) {
+                return { data: null, error };
+            }
+
+            const { data, error: findError } = await this.supabase
+                .from('ReceivablePayments')
+                .select('*')
+                .eq('id', paymentId as number)
+                .single();
+
+            return { data: data as ReceivablePayment, error: findError };
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+}
@@ -0,0 +1,75 @@
+/**
+ * Recurring Transaction Repository
+ * Handles recurring transaction template database operations
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { BaseRepository } from './base.repository';
+import type { RecurringTransaction } from '../models/recurring-transaction.model';
+
+export class RecurringTransactionRepository extends BaseRepository<RecurringTransaction> {
+    constructor(supabase: SupabaseClient) {
+        super(supabase, 'RecurringTransactions');
+    }
+
+    /**
+     * Find all recurring transactions for a specific business
+     */
+    async findByBusinessId(businessId: number): Promise<{ data: RecurringTransaction[] | null; error: any }> {
+        return this.findAll(
+            { business_id: businessId },
+            { orderBy: { column: 'next_run_date', ascending: true } }
+        );
+    }
+
+    /**
+     * Find active (not paused) templates with an occurrence due on or before a date
+     */
+    async findDue(
+        asOfDate: string,
+        businessId?: number
+    ): Promise<{ data: RecurringTransaction[] | null; error: any }> {
+        try {
+            let query = this.supabase
+                .from(this.tableName)
+                .select('*')
+                .eq('is_paused', false)
+                .lte('next_run_date', asOfDate)
+                .is('deleted_at', null);
+
+            if (businessId) {
+                query = query.eq('business_id', businessId);
+            }
+
+            const { data, error } = await query.order('next_run_date', { ascending: true });
+            return { data: data as RecurringTransaction[], error };
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+
+    /**
+     * Move next_run_date only if it still has the expected value
+     * Returns null data when another worker already moved it
+     */
+    async advanceNextRunDate(
+        id: number,
+        expectedDate: string,
+        nextDate: string
+    ): Promise<{ data: RecurringTransaction | null; error: any }> {
+        try {
+            const { data, error } = await this.supabase
+                .from(this.tableName)
+                .update({ next_run_date: nextDate, updated_at: new Date().toISOString() })
+                .eq('id', id)
+                .eq('next_run_date', expectedDate)
+                .is('deleted_at', null)
+                .select()
+                .maybeSingle();
+
+            return { data: data as RecurringTransaction, error };
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+}
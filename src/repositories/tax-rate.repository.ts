@@ -0,0 +1,69 @@
+/**
+ * Tax Rate Repository
+ * Handles tax rate database operations
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { BaseRepository } from './base.repository';
+import type { TaxRate } from '../models/tax-rate.model';
+
+export class TaxRateRepository extends BaseRepository<TaxRate> {
+    constructor(supabase: SupabaseClient) {
+        super(supabase, 'TaxRates');
+    }
+
+    /**
+     * Find all tax rates of a business
+     */
+    async findByBusinessId(businessId: number): Promise<{ data: TaxRate[] | null; error: any }> {
+        try {
+            const { data, error } = await this.supabase
+                .from(this.tableName)
+                .select('*')
+                .eq('business_id', businessId)
+                .is('deleted_at', null)
+                .order('name', { ascending: true });
+
+            return { data: data as TaxRate[], error };
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+
+    /**
+     * Find the default tax rate of a business (null if none)
+     */
+    async findDefault(businessId: number): Promise<{ data: TaxRate | null; error: any }> {
+        try {
+            const { data, error } = await this.supabase
+                .from(this.tableName)
+                .select('*')
+                .eq('business_id', businessId)
+                .eq('is_default', true)
+                .is('deleted_at', null)
+                .limit(1)
+                .maybeSingle();
+
+            return { data: data as TaxRate | null, error };
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+
+    /**
+     * Unset the default flag on all tax rates of a business
+     */
+    async clearDefault(businessId: number): Promise<{ error: any }> {
+        try {
+            const { error } = await this.supabase
+                .from(this.tableName)
+                .update({ is_default: false, updated_at: new Date().toISOString() })
+                .eq('business_id', businessId)
+                .eq('is_default', true);
+
+            return { error };
+        } catch (error) {
+            return { error };
+        }
+    }
+}
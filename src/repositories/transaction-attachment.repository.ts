@@ -0,0 +1,65 @@
+/**
+ * Transaction Attachment Repository
+ * Handles transaction attachment database operations
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { BaseRepository } from './base.repository';
+import type { TransactionAttachment } from '../models/transaction-attachment.model';
+import { deleteTransactionAttachments } from '../utils/storage.util';
+
+export class TransactionAttachmentRepository extends BaseRepository<TransactionAttachment> {
+    constructor(supabase: SupabaseClient) {
+        super(supabase, 'TransactionAttachments');
+    }
+
+    /**
+     * Find all attachments of a transaction
+     */
+    async findByTransactionId(
+        transactionId: number
+    ): Promise<{ data: TransactionAttachment[] | null; error: any }> {
+        try {
+            const { data, error } = await this.supabase
+                .from(this.tableName)
+                .select('*')
+                .eq('transaction_id', transactionId)
+                .is('deleted_at', null)
+                .order('created_at', { ascending: true });
+
+            return { data: data as TransactionAttachment[], error };
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+
+    /**
+     * Find the attachments of deleted transactions that are about to be
+     * purged (deleted before a time, not purged yet)
+     * They went to the trash with their transaction, so they are deleted too
+     */
+    async findOfTrashedTransactions(
+        deletedBefore: string
+    ): Promise<{ data: TransactionAttachment[] | null; error: any }> {
+        try {
+            const { data, error } = await this.supabase
+                .from(this.tableName)
+                .select('*, Transactions!inner(id)')
+                .not('Transactions.deleted_at', 'is', null)
+                .lt('Transactions.deleted_at', deletedBefore)
+                .is('Transactions.purged_at', null);
+
+            return { data: data as TransactionAttachment[], error };
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+
+    /**
+     * Remove attachment files from storage
+     */
+    async removeFiles(filePaths: string[]): Promise<{ error: any }> {
+        const { error } = await deleteTransactionAttachments(this.supabase, filePaths);
+        return { error };
+    }
+}
@@ -0,0 +1,158 @@
+/**
+ * Transaction Category Repository
+ * Handles transaction category database operations
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { BaseRepository } from './base.repository';
+import type { TransactionCategory } from '../models/transaction-category.model';
+import type { TransactionType } from '../models/transaction.model';
+
+export class TransactionCategoryRepository extends BaseRepository<TransactionCategory> {
+    constructor(supabase: SupabaseClient) {
+        super(supabase, 'TransactionCategories');
+    }
+
+    /**
+     * Find all categories of a business, by type then name
+     */
+    async findByBusinessId(
+        businessId: number,
+        type?: TransactionType
+    ): Promise<{ data: TransactionCategory[] | null; error: any }> {
+        try {
+            let query = this.supabase
+                .from(this.tableName)
+                .select('*')
+                .eq('business_id', businessId)
+                .is('deleted_at', null);
+
+            if (type) {
+                query = query.eq('type', type);
+            }
+
+            const { data, error } = await query
+                .order('type', { ascending: true })
+                .order('name', { ascending: true });
+
+            return { data: data as TransactionCategory[], error };
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+
+    /**
+     * Find a category of a business by name (case-insensitive)
+     */
+    async findByName(
+        businessId: number,
+        type: TransactionType,
+        name: string
+    ): Promise<{ data: TransactionCategory | null; error: any }> {
+        try {
+            // Escape LIKE wildcards so the name matches literally
+            const pattern = name.trim().replace(/[\\%_]/g, char => `\\${char}`);
+
+            const { data, error } = await this.supabase
+                .from(this.tableName)
+                .select('*')
+                .eq('business_id', businessId)
+                .eq('type', type)
+                .ilike('name', pattern)
+                .is('deleted_at', null)
+                .maybeSingle();
+
+            return { data: data as TransactionCategory | null, error };
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+
+    /**
+     * Check whether a category has active subcategories
+     */
+    async hasChildren(categoryId: number): Promise<{ data: boolean; error: any }> {
+        try {
+            const { count, error } = await this.supabase
+                .from(this.tableName)
+                .select('id', { count: 'exact', head: true })
+                .eq('parent_id', categoryId)
+                .is('deleted_at', null);
+
+            return { data: (count ?? 0) > 0, error };
+        } catch (error) {
+            return { data: false, error };
+        }
+    }
+
+    /**
+     * Check whether transactions, recurring templates or budgets use a category
+     */
+    async isInUse(categoryId: number): Promise<{ data: boolean; error: any }> {
+        try {
+            for (const table of ['Transactions', 'RecurringTransactions', 'CategoryBudgets']) {
+                const { count, error } = await this.supabase
+                    .from(table)
+                    .select('id', { count: 'exact', head: true })
+                    .eq('category_id', categoryId)
+                    .is('deleted_at', null);
+
+                if (error) {
+                    return { data: false, error };
+                }
+                if ((count ?? 0) > 0) {
+                    return { data: true, error: null };
+                }
+            }
+
+            return { data: false, error: null };
+        } catch (error) {
+            return { data: false, error };
+        }
+    }
+
+    /**
+     * Rename a category (atomic operation)
+     * Calls the rename_transaction_category database procedure, which also
+     * renames the category on its transactions and recurring templates
+     */
+    async rename(categoryId: number, name: string): Promise<{ data: TransactionCategory | null; error: any }> {
+        try {
+            const { error } = await this.supabase.rpc('rename_transaction_category', {
+                p_category_id: categoryId,
+                p_name: name,
+            });
+
+            if (error) {
+                return { data: null, error };
+            }
+
+            return this.findById(categoryId);
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+
+    /**
+     * Merge a category into another one (atomic operation)
+     * Calls the merge_transaction_categories database procedure, which moves
+     * transactions, recurring templates, subcategories and budgets to the
+     * target and deletes the source
+     */
+    async merge(sourceId: number, targetId: number): Promise<{ data: TransactionCategory | null; error: any }> {
+        try {
+            const { error } = await this.supabase.rpc('merge_transaction_categories', {
+                p_source_id: sourceId,
+                p_target_id: targetId,
+            });
+
+            if (error) {
+                return { data: null, error };
+            }
+
+            return this.findById(targetId);
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+}
@@ -0,0 +1,56 @@
+/**
+ * Transaction Number Series Repository
+ * Handles number series database operations
+ * (numbers themselves are assigned by the database when a transaction is inserted)
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { BaseRepository } from './base.repository';
+import type { TransactionNumberSeries } from '../models/transaction-number-series.model';
+import type { TransactionType } from '../models/transaction.model';
+
+export class TransactionNumberSeriesRepository extends BaseRepository<TransactionNumberSeries> {
+    constructor(supabase: SupabaseClient) {
+        super(supabase, 'TransactionNumberSeries');
+    }
+
+    /**
+     * Find the number series of a business (one per transaction type)
+     */
+    async findByBusinessId(businessId: number): Promise<{ data: TransactionNumberSeries[] | null; error: any }> {
+        try {
+            const { data, error } = await this.supabase
+                .from(this.tableName)
+                .select('*')
+                .eq('business_id', businessId)
+                .is('deleted_at', null)
+                .order('type', { ascending: false });
+
+            return { data: data as TransactionNumberSeries[], error };
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+
+    /**
+     * Find the number series of a transaction type
+     */
+    async findByType(
+        businessId: number,
+        type: TransactionType
+    ): Promise<{ data: TransactionNumberSeries | null; error: any }> {
+        try {
+            const { data, error } = await this.supabase
+                .from(this.tableName)
+                .select('*')
+                .eq('business_id', businessId)
+                .eq('type', type)
+                .is('deleted_at', null)
+                .maybeSingle();
+
+            return { data: data as TransactionNumberSeries | null, error };
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+}
@@ -10,8 +10,17 @@ import type {
     TransactionWithDetails,
     TransactionType,
     TransactionStatus,
+    CreateTransactionDTO,
+    UpdateTransactionDTO,
 } from '../models/transaction.model';
 import type { CreateTransactionDetailDTO } from '../models/transaction-detail.model';
+import type { CreateReceivableDTO } from '../models/receivable.model';
+import type { CreatePayableDTO } from '../models/payable.model';
+import type {
+    TransactionPayment,
+    CreateTransactionPaymentDTO,
+    PaymentMethodBreakdown,
+} from '../models/transaction-payment.model';
 
 export interface DateRangeFilter {
     startDate: string;
@@ -22,7 +31,101 @@ export interface TransactionFilters {
     type?: TransactionType;
     status?: TransactionStatus;
     category?: string;
+    accountId?: number;
     dateRange?: DateRangeFilter;
+    minAmount?: number;
+    maxAmount?: number;
+    // Case-insensitive match on number, description or category
+    search?: string;
+}
+
+export type TransactionSortField = 'transaction_date' | 'amount' | 'created_at';
+export type SortOrder = 'asc' | 'desc';
+
+export interface TransactionPageOptions {
+    limit: number;
+    // Offset pagination (ignored when a cursor is given)
+    offset?: number;
+    // Keyset pagination: nextCursor of the previous page
+    cursor?: string;
+    sortBy: TransactionSortField;
+    sortOrder: SortOrder;
+}
+
+export interface TransactionPage {
+    transactions: Transaction[];
+    // All transactions matching the filters
+    total: number;
+    hasMore: boolean;
+    // Cursor of the next page (null on the last page)
+    nextCursor: string | null;
+}
+
+interface PageCursor {
+    sortBy: TransactionSortField;
+    sortOrder: SortOrder;
+    value: string | number;
+    id: number;
+}
+
+/**
+ * Convert an amount in the transaction currency to the base currency
+ * (rounded to 2 decimals, like base_amount)
+ */
+function toBaseAmount(amount: number | string, exchangeRate: number | string): number {
+    return Math.round(Number(amount) * Number(exchangeRate) * 100) / 100;
+}
+
+/**
+ * Quote a value for a PostgREST logic filter (or=...)
+ */
+function quoteFilterValue(value: string | number): string {
+    return `"${String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * PostgREST logic filter matching number, description or category (ILIKE)
+ * LIKE wildcards in the search term are matched literally
+ */
+function searchCondition(search: string): string {
+    const pattern = quoteFilterValue(`%${search.replace(/[\\%_]/g, char => `\\${char}`)}%`);
+    return `number.ilike.${pattern},description.ilike.${pattern},category.ilike.${pattern}`;
+}
+
+function encodeCursor(cursor: PageCursor): string {
+    return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+/**
+ * Decode a page cursor
+ * @returns Cursor, or null if it is malformed or made for another sort order
+ */
+function decodeCursor(
+    cursor: string,
+    sortBy: TransactionSortField,
+    sortOrder: SortOrder
+): PageCursor | null {
+    try {
+        const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8')) as PageCursor;
+        if (
+            decoded.sortBy !== sortBy ||
+            decoded.sortOrder !== sortOrder ||
+            !Number.isInteger(decoded.id) ||
+            (typeof decoded.value !== 'string' && typeof decoded.value !== 'number')
+        ) {
+            return null;
+        }
+        return decoded;
+    } catch {
+        return null;
+    }
+}
+
+export interface SalesTotals {
+    subtotal: number;
+    discount: number;
+    tax: number;
+    grandTotal: number;
 }
 
 export class TransactionRepository extends BaseRepository<Transaction> {
@@ -30,6 +133,42 @@ export class TransactionRepository extends BaseRepository<Transaction> {
         super(supabase, 'Transactions');
     }
 
+    /**
+     * Apply list filters to a transactions query
+     */
+    private applyFilters<Q extends { eq: any; gte: any; lte: any; or: any }>(
+        query: Q,
+        filters?: TransactionFilters
+    ): Q {
+        if (filters?.type) {
+            query = query.eq('type', filters.type);
+        }
+        if (filters?.status) {
+            query = query.eq('status', filters.status);
+        }
+        if (filters?.category) {
+            query = query.eq('category', filters.category);
+        }
+        if (filters?.accountId) {
+            query = query.eq('account_id', filters.accountId);
+        }
+        if (filters?.dateRange) {
+            query = query
+                .gte('transaction_date', filters.dateRange.startDate)
+                .lte('transaction_date', filters.dateRange.endDate);
+        }
+        if (filters?.minAmount !== undefined) {
+            query = query.gte('amount', filters.minAmount);
+        }
+        if (filters?.maxAmount !== undefined) {
+            query = query.lte('amount', filters.maxAmount);
+        }
+        if (filters?.search) {
+            query = query.or(searchCondition(filters.search));
+        }
+        return query;
+    }
+
     /**
      * Find all transactions for a specific business with filters
      */
@@ -45,21 +184,7 @@ export class TransactionRepository extends BaseRepository<Transaction> {
                 .eq('business_id', businessId)
                 .is('deleted_at', null);
 
-            // Apply filters
-            if (filters?.type) {
-                query = query.eq('type', filters.type);
-            }
-            if (filters?.status) {
-                query = query.eq('status', filters.status);
-            }
-            if (filters?.category) {
-                query = query.eq('category', filters.category);
-            }
-            if (filters?.dateRange) {
-                query = query
-                    .gte('transaction_date', filters.dateRange.startDate)
-                    .lte('transaction_date', filters.dateRange.endDate);
-            }
+            query = this.applyFilters(query, filters);
 
             query = query.order('transaction_date', { ascending: false });
 
@@ -74,6 +199,139 @@ export class TransactionRepository extends BaseRepository<Transaction> {
         }
     }
 
+    /**
+     * Find one page of transactions, filtered, sorted and paginated in the database
+     * - Offset pagination, or keyset pagination with the cursor of the previous
+     *   page (stable while new transactions are recorded)
+     * - Ties on the sort field are ordered by id
+     * - total is the exact number of transactions matching the filters
+     */
+    async findPage(
+        businessId: number,
+        filters: TransactionFilters | undefined,
+        options: TransactionPageOptions
+    ): Promise<{ data: TransactionPage | null; error: any }> {
+        try {
+            const { sortBy, sortOrder, limit } = options;
+            const ascending = sortOrder === 'asc';
+
+            let cursor: PageCursor | null = null;
+            if (options.cursor) {
+                cursor = decodeCursor(options.cursor, sortBy, sortOrder);
+                if (!cursor) {
+                    return { data: null, error: new Error('Invalid cursor for this sort order') };
+                }
+            }
+
+            // Search and cursor are both OR conditions: nest them in one filter
+            const conditions: string[] = [];
+            if (filters?.search) {
+                conditions.push(searchCondition(filters.search));
+            }
+            if (cursor) {
+                const op = ascending ? 'gt' : 'lt';
+                const value = quoteFilterValue(cursor.value);
+                conditions.push(`${sortBy}.${op}.${value},and(${sortBy}.eq.${value},id.${op}.${cursor.id})`);
+            }
+
+            let query = this.supabase
+                .from(this.tableName)
+                .select('*', { count: 'exact' })
+                .eq('business_id', businessId)
+                .is('deleted_at', null);
+
+            query = this.applyFilters(query, { ...filters, search: undefined });
+
+            if (conditions.length === 1) {
+                query = query.or(conditions[0]);
+            } else if (conditions.length === 2) {
+                query = query.or(`and(or(${conditions[0]}),or(${conditions[1]}))`);
+            }
+
+            query = query.order(sortBy, { ascending }).order('id', { ascending });
+
+            // One extra row tells whether there is a next page
+            query = cursor
+                ? query.limit(limit + 1)
+                : query.range(options.offset ?? 0, (options.offset ?? 0) + limit);
+
+            const { data, count, error } = await query;
+
+            if (error) {
+                return { data: null, error };
+            }
+
+            let total = count ?? 0;
+
+            // With a cursor the count only covers the remaining rows
+            if (cursor) {
+                let countQuery = this.supabase
+                    .from(this.tableName)
+                    .select('id', { count: 'exact', head: true })
+                    .eq('business_id', businessId)
+                    .is('deleted_at', null);
+
+                countQuery = this.applyFilters(countQuery, filters);
+
+                const { count: fullCount, error: countError } = await countQuery;
+                if (countError) {
+                    return { data: null, error: countError };
+                }
+                total = fullCount ?? 0;
+            }
+
+            const rows = (data || []) as Transaction[];
+            const hasMore = rows.length > limit;
+            const transactions = rows.slice(0, limit);
+            const last = transactions[transactions.length - 1];
+
+            return {
+                data: {
+                    transactions,
+                    total,
+                    hasMore,
+                    nextCursor:
+                        hasMore && last
+                            ? encodeCursor({ sortBy, sortOrder, value: last[sortBy], id: last.id })
+                            : null,
+                },
+                error: null,
+            };
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+
+    /**
+     * Find one page of transactions with their details, oldest first
+     * Used to export large result sets page by page
+     */
+    async findPageWithDetails(
+        businessId: number,
+        filters: TransactionFilters | undefined,
+        offset: number,
+        limit: number
+    ): Promise<{ data: TransactionWithDetails[] | null; error: any }> {
+        try {
+            let query = this.supabase
+                .from(this.tableName)
+                .select('*, TransactionDetails(*, Products(id, name))')
+                .eq('business_id', businessId)
+                .is('deleted_at', null);
+
+            query = this.applyFilters(query, filters);
+
+            const { data, error } = await query
+                .order('transaction_date', { ascending: true })
+                .order('id', { ascending: true })
+                .range(offset, offset + limit - 1);
+
+            return { data: data as TransactionWithDetails[], error };
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+
     /**
      * Get transaction with its details
      */
@@ -81,7 +339,7 @@ export class TransactionRepository extends BaseRepository<Transaction> {
         try {
             const { data, error } = await this.supabase
                 .from(this.tableName)
-                .select('*, TransactionDetails(*, Products(id, name))')
+                .select('*, TransactionDetails(*, Products(id, name)), TransactionPayments(*), Receivables(*), Payables(*)')
                 .eq('id', transactionId)
                 .is('deleted_at', null)
                 .single();
@@ -98,50 +356,163 @@ export class TransactionRepository extends BaseRepository<Transaction> {
     }
 
     /**
-     * Create transaction with details (atomic operation)
+     * Record transaction with details (atomic operation)
+     * Calls the record_transaction database procedure, which inserts the
+     * transaction, its details and payments, moves product stock and updates
+     * the money account and business balance in one database transaction
+     * (all or nothing). A credit sale also gets its receivable, a credit
+     * purchase its payable.
      */
-    async createWithDetails(
+    async recordWithDetails(
         transaction: Partial<Transaction>,
-        details: CreateTransactionDetailDTO[]
+        details: CreateTransactionDetailDTO[],
+        payments: CreateTransactionPaymentDTO[] = [],
+        credit: { receivable?: CreateReceivableDTO; payable?: CreatePayableDTO } = {}
     ): Promise<{ data: TransactionWithDetails | null; error: any }> {
         try {
-            // Start transaction by creating the main transaction
-            const { data: newTransaction, error: transactionError } = await this.create(transaction);
+            const { data: transactionId, error } = await this.supabase.rpc('record_transaction', {
+                p_transaction: {
+                    ...transaction,
+                    payments,
+                    receivable: credit.receivable ?? null,
+                    payable: credit.payable ?? null,
+                },
+                p_details: details.map(detail => ({
+                    product_id: detail.product_id,
+                    quantity: detail.quantity,
+                    unit_price_at_transaction: detail.unit_price_at_transaction,
+                    discount_amount: detail.discount_amount ?? 0,
+                })),
+            });
 
-            if (transactionError || !newTransaction) {
-                return { data: null, error: transactionError };
+            if (error) {
+                return { data: null, error };
             }
 
-            // Create transaction details
-            const detailsWithTransactionId = details.map(detail => ({
-                ...detail,
-                transaction_id: newTransaction.id,
-            }));
+            return this.findWithDetails(transactionId as number);
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
 
-            const { data: newDetails, error: detailsError } = await this.supabase
-                .from('TransactionDetails')
-                .insert(detailsWithTransactionId)
-                .select();
+    /**
+     * Replace the line items of a sale or purchase (atomic operation)
+     * Calls the update_transaction_items database procedure, which moves stock
+     * and balance by the difference, and updates payments and the
+     * receivable/payable to the new total
+     * @param payments New payments (null: a single payment follows the amount)
+     */
+    async updateItems(
+        transactionId: number,
+        totals: Pick<Transaction, 'amount' | 'subtotal' | 'discount_amount' | 'tax_amount'>,
+        details: CreateTransactionDetailDTO[],
+        payments: CreateTransactionPaymentDTO[] | null
+    ): Promise<{ data: TransactionWithDetails | null; error: any }> {
+        try {
+            const { error } = await this.supabase.rpc('update_transaction_items', {
+                p_transaction_id: transactionId,
+                p_transaction: { ...totals, payments },
+                p_details: details.map(detail => ({
+                    product_id: detail.product_id,
+                    quantity: detail.quantity,
+                    unit_price_at_transaction: detail.unit_price_at_transaction,
+                    discount_amount: detail.discount_amount ?? 0,
+                })),
+            });
 
-            if (detailsError) {
-                // Rollback: delete the transaction if details creation fails
-                await this.delete(newTransaction.id);
-                return { data: null, error: detailsError };
+            if (error) {
+                return { data: null, error };
             }
 
-            const result: TransactionWithDetails = {
-                ...newTransaction,
-                TransactionDetails: newDetails || [],
-            };
+            return this.findWithDetails(transactionId);
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+
+    /**
+     * Import a batch of complete transactions (atomic operation)
+     * Calls the import_transactions database procedure, which inserts all
+     * rows and adjusts the balance of the money account (default account
+     * when omitted) once for the whole batch
+     * @returns Number of inserted transactions
+     */
+    async importBatch(
+        businessId: number,
+        transactions: CreateTransactionDTO[],
+        accountId?: number
+    ): Promise<{ data: number | null; error: any }> {
+        try {
+            const { data, error } = await this.supabase.rpc('import_transactions', {
+                p_business_id: businessId,
+                p_transactions: transactions.map(transaction => ({
+                    transaction_date: transaction.transaction_date,
+                    type: transaction.type,
+                    category: transaction.category ?? null,
+                    amount: transaction.amount,
+                    description: transaction.description ?? null,
+                })),
+                p_account_id: accountId ?? null,
+            });
+
+            if (error) {
+                return { data: null, error };
+            }
+
+            return { data: data as number, error: null };
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+
+    /**
+     * Record a return of sale line items (atomic operation)
+     * Calls the record_sales_return database procedure, which rejects
+     * quantities above what is still returnable and records the refund
+     * as an Expense linked to the sale
+     */
+    async recordReturn(
+        transactionId: number,
+        items: { transaction_detail_id: number; quantity: number }[],
+        description?: string
+    ): Promise<{ data: TransactionWithDetails | null; error: any }> {
+        try {
+            const { data: returnId, error } = await this.supabase.rpc('record_sales_return', {
+                p_transaction_id: transactionId,
+                p_items: items,
+                p_description: description ?? null,
+            });
+
+            if (error) {
+                return { data: null, error };
+            }
+
+            return this.findWithDetails(returnId as number);
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
 
-            return { data: result, error: null };
+    /**
+     * Find returns recorded against a transaction, with their details
+     */
+    async findReturns(transactionId: number): Promise<{ data: TransactionWithDetails[] | null; error: any }> {
+        try {
+            const { data, error } = await this.supabase
+                .from(this.tableName)
+                .select('*, TransactionDetails(*, Products(id, name)), TransactionPayments(*), Receivables(*)')
+                .eq('related_transaction_id', transactionId)
+                .is('deleted_at', null)
+                .order('transaction_date', { ascending: true });
+
+            return { data: data as TransactionWithDetails[], error };
         } catch (error) {
             return { data: null, error };
         }
     }
 
     /**
-     * Get total income and expenses for a business
+     * Get total income and expenses for a business (in the base currency)
      */
     async getTotalsByType(
         businessId: number,
@@ -150,7 +521,7 @@ export class TransactionRepository extends BaseRepository<Transaction> {
         try {
             let query = this.supabase
                 .from(this.tableName)
-                .select('type, amount')
+                .select('type, base_amount')
                 .eq('business_id', businessId)
                 .eq('status', 'complete')
                 .is('deleted_at', null);
@@ -170,9 +541,9 @@ export class TransactionRepository extends BaseRepository<Transaction> {
             const totals = data?.reduce(
                 (acc, item) => {
                     if (item.type === 'Income') {
-                        acc.income += Number(item.amount);
+                        acc.income += Number(item.base_amount);
                     } else if (item.type === 'Expense') {
-                        acc.expense += Number(item.amount);
+                        acc.expense += Number(item.base_amount);
                     }
                     return acc;
                 },
@@ -186,13 +557,340 @@ export class TransactionRepository extends BaseRepository<Transaction> {
     }
 
     /**
-     * Update transaction status
+     * Get totals of complete Expense transactions per category id (in the
+     * base currency); transactions without a category are under key 0
+     */
+    async getExpenseTotalsByCategory(
+        businessId: number,
+        dateRange: DateRangeFilter
+    ): Promise<{ data: Map<number, number> | null; error: any }> {
+        try {
+            const { data, error } = await this.supabase
+                .from(this.tableName)
+                .select('category_id, base_amount')
+                .eq('business_id', businessId)
+                .eq('type', 'Expense')
+                .eq('status', 'complete')
+                .is('deleted_at', null)
+                .gte('transaction_date', dateRange.startDate)
+                .lte('transaction_date', dateRange.endDate);
+
+            if (error) {
+                return { data: null, error };
+            }
+
+            const totals = new Map<number, number>();
+            for (const item of data || []) {
+                const key = item.category_id ?? 0;
+                totals.set(key, (totals.get(key) || 0) + Number(item.base_amount));
+            }
+
+            return { data: totals, error: null };
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+
+    /**
+     * Get subtotal, discount, tax and grand total of complete Income transactions
+     * (in the base currency)
+     */
+    async getSalesTotals(
+        businessId: number,
+        dateRange?: DateRangeFilter
+    ): Promise<{ data: SalesTotals | null; error: any }> {
+        try {
+            let query = this.supabase
+                .from(this.tableName)
+                .select('amount, base_amount, exchange_rate, subtotal, discount_amount, tax_amount')
+                .eq('business_id', businessId)
+                .eq('type', 'Income')
+                .eq('status', 'complete')
+                .is('deleted_at', null);
+
+            if (dateRange) {
+                query = query
+                    .gte('transaction_date', dateRange.startDate)
+                    .lte('transaction_date', dateRange.endDate);
+            }
+
+            const { data, error } = await query;
+
+            if (error) {
+                return { data: null, error };
+            }
+
+            const totals = (data || []).reduce(
+                (acc, item) => {
+                    acc.subtotal += toBaseAmount(item.subtotal ?? item.amount, item.exchange_rate);
+                    acc.discount += toBaseAmount(item.discount_amount, item.exchange_rate);
+                    acc.tax += toBaseAmount(item.tax_amount, item.exchange_rate);
+                    acc.grandTotal += Number(item.base_amount);
+                    return acc;
+                },
+                { subtotal: 0, discount: 0, tax: 0, grandTotal: 0 }
+            );
+
+            return { data: totals, error: null };
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+
+    /**
+     * Get income and expense per payment method (complete transactions, in
+     * the base currency)
+     * - Split payments count under each method with their own amount
+     * - Only what was paid counts: the credit part of a credit sale or
+     *   purchase counts when the receivable or payable is paid, under the
+     *   method of that payment (on its payment date)
+     */
+    async getTotalsByPaymentMethod(
+        businessId: number,
+        dateRange?: DateRangeFilter
+    ): Promise<{ data: PaymentMethodBreakdown | null; error: any }> {
+        try {
+            let paymentsQuery = this.supabase
+                .from('TransactionPayments')
+                .select('method, amount, Transactions!inner(type, exchange_rate, base_amount, credit_amount)')
+                .eq('Transactions.business_id', businessId)
+                .eq('Transactions.status', 'complete')
+                .is('Transactions.deleted_at', null);
+
+            let unspecifiedQuery = this.supabase
+                .from(this.tableName)
+                .select('type, base_amount, credit_amount')
+                .eq('business_id', businessId)
+                .eq('status', 'complete')
+                .is('payment_method', null)
+                .is('deleted_at', null);
+
+            let receivablePaymentsQuery = this.supabase
+                .from('ReceivablePayments')
+                .select('payment_method, amount, Receivables!inner(business_id)')
+                .eq('Receivables.business_id', businessId);
+
+            let payablePaymentsQuery = this.supabase
+                .from('PayablePayments')
+                .select('payment_method, amount, Payables!inner(business_id)')
+                .eq('Payables.business_id', businessId);
+
+            if (dateRange) {
+                paymentsQuery = paymentsQuery
+                    .gte('Transactions.transaction_date', dateRange.startDate)
+                    .lte('Transactions.transaction_date', dateRange.endDate);
+                unspecifiedQuery = unspecifiedQuery
+                    .gte('transaction_date', dateRange.startDate)
+                    .lte('transaction_date', dateRange.endDate);
+                receivablePaymentsQuery = receivablePaymentsQuery
+                    .gte('payment_date', dateRange.startDate)
+                    .lte('payment_date', dateRange.endDate);
+                payablePaymentsQuery = payablePaymentsQuery
+                    .gte('payment_date', dateRange.startDate)
+                    .lte('payment_date', dateRange.endDate);
+            }
+
+            const [payments, unspecified, receivablePayments, payablePayments] = await Promise.all([
+                paymentsQuery,
+                unspecifiedQuery,
+                receivablePaymentsQuery,
+                payablePaymentsQuery,
+            ]);
+
+            const queryError =
+                payments.error || unspecified.error || receivablePayments.error || payablePayments.error;
+
+            if (queryError) {
+                return { data: null, error: queryError };
+            }
+
+            const breakdown: PaymentMethodBreakdown = {
+                cash: { income: 0, expense: 0 },
+                qris: { income: 0, expense: 0 },
+                bank_transfer: { income: 0, expense: 0 },
+                e_wallet: { income: 0, expense: 0 },
+                unspecified: { income: 0, expense: 0 },
+            };
+
+            for (const payment of payments.data || []) {
+                const transaction = payment.Transactions as unknown as {
+                    type: TransactionType;
+                    exchange_rate: number;
+                    base_amount: number;
+                    credit_amount: number;
+                };
+                const key = transaction.type === 'Income' ? 'income' : 'expense';
+                // Payments cover the whole amount; only the part not on credit was paid
+                const baseAmount = Number(transaction.base_amount);
+                const paidShare =
+                    baseAmount > 0 ? (baseAmount - Number(transaction.credit_amount)) / baseAmount : 1;
+                breakdown[payment.method as keyof PaymentMethodBreakdown][key] += toBaseAmount(
+                    Number(payment.amount) * paidShare,
+                    transaction.exchange_rate
+                );
+            }
+
+            for (const item of unspecified.data || []) {
+                const key = item.type === 'Income' ? 'income' : 'expense';
+                breakdown.unspecified[key] += Number(item.base_amount) - Number(item.credit_amount);
+            }
+
+            // Receivables and payables are kept in the base currency
+            for (const payment of receivablePayments.data || []) {
+                const method = (payment.payment_method || 'unspecified') as keyof PaymentMethodBreakdown;
+                breakdown[method].income += Number(payment.amount);
+            }
+
+            for (const payment of payablePayments.data || []) {
+                const method = (payment.payment_method || 'unspecified') as keyof PaymentMethodBreakdown;
+                breakdown[method].expense += Number(payment.amount);
+            }
+
+            return { data: breakdown, error: null };
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+
+    /**
+     * Find payments of a transaction
+     */
+    async findPayments(transactionId: number): Promise<{ data: TransactionPayment[] | null; error: any }> {
+        try {
+            const { data, error } = await this.supabase
+                .from('TransactionPayments')
+                .select('*')
+                .eq('transaction_id', transactionId)
+                .order('id', { ascending: true });
+
+            return { data: data as TransactionPayment[], error };
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+
+    /**
+     * Update a transaction with its effects (atomic operation)
+     * Calls the update_transaction database procedure: an amount change moves
+     * the money account of a complete transaction and its single payment, and
+     * a status change is applied after the other fields
+     */
+    async updateWithEffects(
+        transactionId: number,
+        changes: Omit<UpdateTransactionDTO, 'type'>
+    ): Promise<{ data: Transaction | null; error: any }> {
+        try {
+            const { error } = await this.supabase.rpc('update_transaction', {
+                p_transaction_id: transactionId,
+                p_changes: changes,
+            });
+
+            if (error) {
+                return { data: null, error };
+            }
+
+            return this.findById(transactionId);
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+
+    /**
+     * Update transaction status (atomic operation)
+     * Calls the transition_transaction_status database procedure, which
+     * rejects illegal transitions and applies (pending -> complete) or
+     * reverses (complete -> cancel) balance and stock effects exactly once
      */
     async updateStatus(
         transactionId: number,
         status: TransactionStatus
     ): Promise<{ data: Transaction | null; error: any }> {
-        return this.update(transactionId, { status } as Partial<Transaction>);
+        try {
+            const { error } = await this.supabase.rpc('transition_transaction_status', {
+                p_transaction_id: transactionId,
+                p_status: status,
+            });
+
+            if (error) {
+                return { data: null, error };
+            }
+
+            return this.findById(transactionId);
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+
+    /**
+     * Soft delete a transaction (atomic operation)
+     * Calls the delete_transaction database procedure, which reverses the
+     * balance and stock effects of a complete transaction before deleting it
+     */
+    async deleteWithEffects(transactionId: number): Promise<{ success: boolean; error: any }> {
+        try {
+            const { error } = await this.supabase.rpc('delete_transaction', {
+                p_transaction_id: transactionId,
+            });
+
+            return { success: !error, error };
+        } catch (error) {
+            return { success: false, error };
+        }
+    }
+
+    /**
+     * Restore a deleted transaction (restore_transaction)
+     * Complete transactions get their balance, stock and receivable/payable
+     * effects back in the same database transaction
+     */
+    async restoreWithEffects(transactionId: number): Promise<{ data: Transaction | null; error: any }> {
+        try {
+            const { error } = await this.supabase.rpc('restore_transaction', {
+                p_transaction_id: transactionId,
+            });
+
+            if (error) {
+                return { data: null, error };
+            }
+
+            return await this.findById(transactionId);
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+
+    /**
+     * Find transactions of money accounts created, updated or deleted since a
+     * time (null: no lower bound), newest first
+     * Includes soft-deleted transactions, whose removal also moved the balance
+     */
+    async findChangedSince(
+        accountIds: number[],
+        since: string | null,
+        limit: number
+    ): Promise<{ data: Transaction[] | null; error: any }> {
+        try {
+            let query = this.supabase
+                .from(this.tableName)
+                .select('*')
+                .in('account_id', accountIds);
+
+            if (since) {
+                const value = quoteFilterValue(since);
+                query = query.or(
+                    `created_at.gte.${value},updated_at.gte.${value},deleted_at.gte.${value}`
+                );
+            }
+
+            const { data, error } = await query
+                .order('updated_at', { ascending: false })
+                .order('id', { ascending: false })
+                .limit(limit);
+
+            return { data: data as Transaction[], error };
+        } catch (error) {
+            return { data: null, error };
+        }
     }
 
     /**
@@ -0,0 +1,16 @@
+/**
+ * Accounting Period Routes (nested under businesses)
+ * /api/v1/businesses/:businessId/periods/*
+ */
+
+import { Router } from 'express';
+import { asyncHandler } from '../middlewares/error.middleware';
+import * as accountingPeriodController from '../controllers/accounting-period.controller';
+
+const router = Router({ mergeParams: true }); // Merge params to access businessId
+
+router.get('/', asyncHandler(accountingPeriodController.getAllPeriods));
+router.post('/:month/close', asyncHandler(accountingPeriodController.closePeriod));
+router.post('/:month/reopen', asyncHandler(accountingPeriodController.reopenPeriod));
+
+export default router;
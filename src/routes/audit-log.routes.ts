@@ -0,0 +1,14 @@
+/**
+ * Audit Log Routes (nested under businesses)
+ * /api/v1/businesses/:businessId/audit-logs/*
+ */
+
+import { Router } from 'express';
+import { asyncHandler } from '../middlewares/error.middleware';
+import * as auditLogController from '../controllers/audit-log.controller';
+
+const router = Router({ mergeParams: true }); // Merge params to access businessId
+
+router.get('/', asyncHandler(auditLogController.getAuditLogs));
+
+export default router;
@@ -0,0 +1,16 @@
+/**
+ * Balance Reconciliation Routes (nested under businesses)
+ * /api/v1/businesses/:businessId/reconciliation/*
+ */
+
+import { Router } from 'express';
+import { asyncHandler } from '../middlewares/error.middleware';
+import * as reconciliationController from '../controllers/balance-reconciliation.controller';
+
+const router = Router({ mergeParams: true }); // Merge params to access businessId
+
+router.post('/', asyncHandler(reconciliationController.reconcileBalances));
+router.get('/history', asyncHandler(reconciliationController.getReconciliationHistory));
+router.get('/adjustments', asyncHandler(reconciliationController.getBalanceAdjustments));
+
+export default router;
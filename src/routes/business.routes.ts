@@ -10,6 +10,19 @@ import * as businessController from "../controllers/business.controller";
 import productRoutes from "./product.routes";
 import transactionRoutes from "./transaction.routes";
 import aiInsightsRoutes from "./ai-insights.routes";
+import recurringTransactionRoutes from "./recurring-transaction.routes";
+import taxRateRoutes from "./tax-rate.routes";
+import transactionCategoryRoutes from "./transaction-category.routes";
+import categoryBudgetRoutes from "./category-budget.routes";
+import auditLogRoutes from "./audit-log.routes";
+import balanceReconciliationRoutes from "./balance-reconciliation.routes";
+import ledgerRoutes from "./ledger.routes";
+import exchangeRateRoutes from "./exchange-rate.routes";
+import numberSeriesRoutes from "./transaction-number-series.routes";
+import moneyAccountRoutes from "./money-account.routes";
+import receivableRoutes from "./receivable.routes";
+import payableRoutes from "./payable.routes";
+import accountingPeriodRoutes from "./accounting-period.routes";
 
 const router = Router();
 
@@ -19,9 +32,14 @@ router.use(authenticate);
 // Business CRUD
 router.post("/", asyncHandler(businessController.createBusiness));
 router.get("/", asyncHandler(businessController.getAllBusinesses));
+router.get("/trash", asyncHandler(businessController.getBusinessTrash));
 router.get("/:businessId", asyncHandler(businessController.getBusinessById));
 router.put("/:businessId", asyncHandler(businessController.updateBusiness));
 router.delete("/:businessId", asyncHandler(businessController.deleteBusiness));
+router.post(
+  "/:businessId/restore",
+  asyncHandler(businessController.restoreBusiness)
+);
 
 // Business analytics
 router.get(
@@ -37,5 +55,21 @@ router.get(
 router.use("/:businessId/products", productRoutes);
 router.use("/:businessId/transactions", transactionRoutes);
 router.use("/:businessId/ai", aiInsightsRoutes);
+router.use(
+  "/:businessId/recurring-transactions",
+  recurringTransactionRoutes
+);
+router.use("/:businessId/tax-rates", taxRateRoutes);
+router.use("/:businessId/money-accounts", moneyAccountRoutes);
+router.use("/:businessId/receivables", receivableRoutes);
+router.use("/:businessId/payables", payableRoutes);
+router.use("/:businessId/categories", transactionCategoryRoutes);
+router.use("/:businessId/budgets", categoryBudgetRoutes);
+router.use("/:businessId/audit-logs", auditLogRoutes);
+router.use("/:businessId/reconciliation", balanceReconciliationRoutes);
+router.use("/:businessId/ledger", ledgerRoutes);
+router.use("/:businessId/exchange-rates", exchangeRateRoutes);
+router.use("/:businessId/number-series", numberSeriesRoutes);
+router.use("/:businessId/periods", accountingPeriodRoutes);
 
 export default router;
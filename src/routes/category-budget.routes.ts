@@ -0,0 +1,19 @@
+/**
+ * Category Budget Routes (nested under businesses)
+ * /api/v1/businesses/:businessId/budgets/*
+ */
+
+import { Router } from 'express';
+import { asyncHandler } from '../middlewares/error.middleware';
+import * as budgetController from '../controllers/category-budget.controller';
+
+const router = Router({ mergeParams: true }); // Merge params to access businessId
+
+router.post('/', asyncHandler(budgetController.createBudget));
+router.get('/', asyncHandler(budgetController.getAllBudgets));
+// Report (before /:budgetId)
+router.get('/vs-actual', asyncHandler(budgetController.getBudgetVsActual));
+router.put('/:budgetId', asyncHandler(budgetController.updateBudget));
+router.delete('/:budgetId', asyncHandler(budgetController.deleteBudget));
+
+export default router;
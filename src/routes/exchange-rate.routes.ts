@@ -0,0 +1,21 @@
+/**
+ * Exchange Rate Routes (nested under businesses)
+ * /api/v1/businesses/:businessId/exchange-rates/*
+ */
+
+import { Router } from 'express';
+import { asyncHandler } from '../middlewares/error.middleware';
+import { csvUpload } from '../middlewares/upload.middleware';
+import * as exchangeRateController from '../controllers/exchange-rate.controller';
+
+const router = Router({ mergeParams: true }); // Merge params to access businessId
+
+router.post('/', asyncHandler(exchangeRateController.createExchangeRate));
+router.get('/', asyncHandler(exchangeRateController.getAllExchangeRates));
+// Static paths (before /:rateId)
+router.post('/import', csvUpload.single('file'), asyncHandler(exchangeRateController.importExchangeRates));
+router.get('/effective', asyncHandler(exchangeRateController.getEffectiveExchangeRate));
+router.put('/:rateId', asyncHandler(exchangeRateController.updateExchangeRate));
+router.delete('/:rateId', asyncHandler(exchangeRateController.deleteExchangeRate));
+
+export default router;
@@ -0,0 +1,27 @@
+/**
+ * Ledger Routes (nested under businesses)
+ * /api/v1/businesses/:businessId/ledger/*
+ */
+
+import { Router } from 'express';
+import { asyncHandler } from '../middlewares/error.middleware';
+import * as ledgerController from '../controllers/ledger.controller';
+
+const router = Router({ mergeParams: true }); // Merge params to access businessId
+
+// Chart of accounts
+router.get('/accounts', asyncHandler(ledgerController.getAccounts));
+router.post('/accounts', asyncHandler(ledgerController.createAccount));
+router.put('/accounts/:accountId', asyncHandler(ledgerController.updateAccount));
+router.delete('/accounts/:accountId', asyncHandler(ledgerController.deleteAccount));
+
+// Journal entries
+router.get('/journals', asyncHandler(ledgerController.getJournals));
+router.post('/journals', asyncHandler(ledgerController.createJournal));
+router.get('/journals/:journalId', asyncHandler(ledgerController.getJournalById));
+router.post('/journals/:journalId/reverse', asyncHandler(ledgerController.reverseJournal));
+
+// Trial balance
+router.get('/trial-balance', asyncHandler(ledgerController.getTrialBalance));
+
+export default router;
@@ -0,0 +1,22 @@
+/**
+ * Money Account Routes (nested under businesses)
+ * /api/v1/businesses/:businessId/money-accounts/*
+ */
+
+import { Router } from 'express';
+import { asyncHandler } from '../middlewares/error.middleware';
+import * as moneyAccountController from '../controllers/money-account.controller';
+
+const router = Router({ mergeParams: true }); // Merge params to access businessId
+
+router.post('/', asyncHandler(moneyAccountController.createMoneyAccount));
+router.get('/', asyncHandler(moneyAccountController.getAllMoneyAccounts));
+
+// Transfers (before /:accountId)
+router.post('/transfers', asyncHandler(moneyAccountController.createTransfer));
+router.get('/transfers', asyncHandler(moneyAccountController.getTransfers));
+
+router.put('/:accountId', asyncHandler(moneyAccountController.updateMoneyAccount));
+router.delete('/:accountId', asyncHandler(moneyAccountController.deleteMoneyAccount));
+
+export default router;
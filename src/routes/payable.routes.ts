@@ -0,0 +1,17 @@
+/**
+ * Payable Routes (nested under businesses)
+ * /api/v1/businesses/:businessId/payables/*
+ */
+
+import { Router } from 'express';
+import { asyncHandler } from '../middlewares/error.middleware';
+import * as payableController from '../controllers/payable.controller';
+
+const router = Router({ mergeParams: true }); // Merge params to access businessId
+
+router.get('/', asyncHandler(payableController.getAllPayables));
+router.get('/upcoming', asyncHandler(payableController.getUpcomingPayables));
+router.get('/:payableId', asyncHandler(payableController.getPayableById));
+router.post('/:payableId/payments', asyncHandler(payableController.recordPayablePayment));
+
+export default router;
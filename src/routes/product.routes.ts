@@ -18,6 +18,7 @@ router.post(
 
 // Special queries (must come before :productId routes)
 router.get("/low-stock", asyncHandler(productController.getLowStockProducts));
+router.get("/trash", asyncHandler(productController.getProductTrash));
 
 // Product CRUD
 router.post(
@@ -34,5 +35,9 @@ router.put(
 );
 router.patch("/:productId/stock", asyncHandler(productController.adjustStock));
 router.delete("/:productId", asyncHandler(productController.deleteProduct));
+router.post(
+  "/:productId/restore",
+  asyncHandler(productController.restoreProduct)
+);
 
 export default router;
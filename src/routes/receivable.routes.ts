@@ -0,0 +1,17 @@
+/**
+ * Receivable Routes (nested under businesses)
+ * /api/v1/businesses/:businessId/receivables/*
+ */
+
+import { Router } from 'express';
+import { asyncHandler } from '../middlewares/error.middleware';
+import * as receivableController from '../controllers/receivable.controller';
+
+const router = Router({ mergeParams: true }); // Merge params to access businessId
+
+router.get('/', asyncHandler(receivableController.getAllReceivables));
+router.get('/aging', asyncHandler(receivableController.getAgingReport));
+router.get('/:receivableId', asyncHandler(receivableController.getReceivableById));
+router.post('/:receivableId/payments', asyncHandler(receivableController.recordReceivablePayment));
+
+export default router;
@@ -0,0 +1,27 @@
+/**
+ * Recurring Transaction Routes (nested under businesses)
+ * /api/v1/businesses/:businessId/recurring-transactions/*
+ */
+
+import { Router } from 'express';
+import { asyncHandler } from '../middlewares/error.middleware';
+import * as recurringController from '../controllers/recurring-transaction.controller';
+
+const router = Router({ mergeParams: true }); // Merge params to access businessId
+
+// Special endpoints (must come before :recurringId routes)
+router.post('/run', asyncHandler(recurringController.runDueRecurringTransactions));
+
+// Recurring transaction CRUD
+router.post('/', asyncHandler(recurringController.createRecurringTransaction));
+router.get('/', asyncHandler(recurringController.getAllRecurringTransactions));
+router.get('/:recurringId', asyncHandler(recurringController.getRecurringTransactionById));
+router.put('/:recurringId', asyncHandler(recurringController.updateRecurringTransaction));
+router.delete('/:recurringId', asyncHandler(recurringController.deleteRecurringTransaction));
+
+// Schedule actions
+router.put('/:recurringId/pause', asyncHandler(recurringController.pauseRecurringTransaction));
+router.put('/:recurringId/resume', asyncHandler(recurringController.resumeRecurringTransaction));
+router.post('/:recurringId/skip', asyncHandler(recurringController.skipRecurringOccurrence));
+
+export default router;
@@ -0,0 +1,17 @@
+/**
+ * Tax Rate Routes (nested under businesses)
+ * /api/v1/businesses/:businessId/tax-rates/*
+ */
+
+import { Router } from 'express';
+import { asyncHandler } from '../middlewares/error.middleware';
+import * as taxRateController from '../controllers/tax-rate.controller';
+
+const router = Router({ mergeParams: true }); // Merge params to access businessId
+
+router.post('/', asyncHandler(taxRateController.createTaxRate));
+router.get('/', asyncHandler(taxRateController.getAllTaxRates));
+router.put('/:taxRateId', asyncHandler(taxRateController.updateTaxRate));
+router.delete('/:taxRateId', asyncHandler(taxRateController.deleteTaxRate));
+
+export default router;
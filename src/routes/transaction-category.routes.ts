@@ -0,0 +1,18 @@
+/**
+ * Transaction Category Routes (nested under businesses)
+ * /api/v1/businesses/:businessId/categories/*
+ */
+
+import { Router } from 'express';
+import { asyncHandler } from '../middlewares/error.middleware';
+import * as categoryController from '../controllers/transaction-category.controller';
+
+const router = Router({ mergeParams: true }); // Merge params to access businessId
+
+router.post('/', asyncHandler(categoryController.createCategory));
+router.get('/', asyncHandler(categoryController.getAllCategories));
+router.put('/:categoryId', asyncHandler(categoryController.updateCategory));
+router.delete('/:categoryId', asyncHandler(categoryController.deleteCategory));
+router.post('/:categoryId/merge', asyncHandler(categoryController.mergeCategory));
+
+export default router;
@@ -0,0 +1,15 @@
+/**
+ * Transaction Number Series Routes (nested under businesses)
+ * /api/v1/businesses/:businessId/number-series/*
+ */
+
+import { Router } from 'express';
+import { asyncHandler } from '../middlewares/error.middleware';
+import * as numberSeriesController from '../controllers/transaction-number-series.controller';
+
+const router = Router({ mergeParams: true }); // Merge params to access businessId
+
+router.get('/', asyncHandler(numberSeriesController.getAllNumberSeries));
+router.put('/:type', asyncHandler(numberSeriesController.updateNumberSeries));
+
+export default router;
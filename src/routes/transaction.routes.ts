@@ -5,23 +5,50 @@
 
 import { Router } from 'express';
 import { asyncHandler } from '../middlewares/error.middleware';
+import { idempotency } from '../middlewares/idempotency.middleware';
+import { attachmentUpload, csvUpload, MAX_ATTACHMENTS_PER_UPLOAD } from '../middlewares/upload.middleware';
 import * as transactionController from '../controllers/transaction.controller';
+import * as attachmentController from '../controllers/transaction-attachment.controller';
 
 const router = Router({ mergeParams: true }); // Merge params to access businessId
 
 // Special endpoints (must come before :transactionId routes)
-router.post('/sales', asyncHandler(transactionController.recordSale));
-router.post('/purchases', asyncHandler(transactionController.recordPurchase));
+// Transaction-creating endpoints accept an Idempotency-Key header
+router.post('/sales', idempotency, asyncHandler(transactionController.recordSale));
+router.post('/purchases', idempotency, asyncHandler(transactionController.recordPurchase));
 router.get('/totals', asyncHandler(transactionController.getTransactionTotals));
+router.get('/export', asyncHandler(transactionController.exportTransactions));
+router.get('/trash', asyncHandler(transactionController.getTransactionTrash));
+router.post('/import', csvUpload.single('file'), asyncHandler(transactionController.importTransactions));
 
 // Transaction CRUD
-router.post('/', asyncHandler(transactionController.createTransaction));
+router.post('/', idempotency, asyncHandler(transactionController.createTransaction));
 router.get('/', asyncHandler(transactionController.getAllTransactions));
 router.get('/:transactionId', asyncHandler(transactionController.getTransactionById));
 router.put('/:transactionId', asyncHandler(transactionController.updateTransaction));
+router.put('/:transactionId/items', asyncHandler(transactionController.updateTransactionItems));
 router.delete('/:transactionId', asyncHandler(transactionController.deleteTransaction));
 
 // Special actions
+router.put('/:transactionId/complete', asyncHandler(transactionController.completeTransaction));
 router.put('/:transactionId/cancel', asyncHandler(transactionController.cancelTransaction));
+router.post('/:transactionId/returns', idempotency, asyncHandler(transactionController.recordReturn));
+router.post('/:transactionId/restore', asyncHandler(transactionController.restoreTransaction));
+
+// Receipt (thermal printer) and invoice (A4) of a sale, as PDF
+router.get('/:transactionId/receipt', asyncHandler(transactionController.getTransactionReceipt));
+router.get('/:transactionId/invoice', asyncHandler(transactionController.getTransactionInvoice));
+
+// Attachments (receipts, invoices: images and PDFs)
+router.post(
+    '/:transactionId/attachments',
+    attachmentUpload.array('files', MAX_ATTACHMENTS_PER_UPLOAD),
+    asyncHandler(attachmentController.uploadAttachments)
+);
+router.get('/:transactionId/attachments', asyncHandler(attachmentController.getAttachments));
+router.delete(
+    '/:transactionId/attachments/:attachmentId',
+    asyncHandler(attachmentController.deleteAttachment)
+);
 
 export default router;
@@ -0,0 +1,110 @@
+/**
+ * Accounting Period Service
+ * Close a month of a business once it has been reported, and reopen it when
+ * it has to be corrected
+ * While a month is closed the database rejects every change to transactions
+ * dated in it (see the accounting periods migration)
+ */
+
+import { BaseService } from './base.service';
+import type { AccountingPeriod } from '../models/accounting-period.model';
+
+/**
+ * First day (YYYY-MM-DD) of the month of an ISO date or a YYYY-MM month
+ */
+export function toPeriodStart(date: string): string {
+    return `${date.slice(0, 7)}-01`;
+}
+
+/**
+ * Month (YYYY-MM) of a period
+ */
+export function toPeriodMonth(periodStart: string): string {
+    return periodStart.slice(0, 7);
+}
+
+export class AccountingPeriodService extends BaseService {
+    /**
+     * Closed and reopened months of a business, latest first
+     */
+    async getPeriods(businessId: number): Promise<{ data: AccountingPeriod[] | null; error: any }> {
+        try {
+            return await this.repos.accountingPeriods.findByBusinessId(businessId);
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+
+    /**
+     * Close a month (YYYY-MM)
+     * - Only months that are over
+     * - None of its transactions may still be pending
+     */
+    async closePeriod(
+        businessId: number,
+        month: string,
+        userId: string
+    ): Promise<{ data: AccountingPeriod | null; error: any }> {
+        try {
+            return await this.repos.accountingPeriods.close(businessId, toPeriodStart(month), userId);
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+
+    /**
+     * Reopen a closed month (YYYY-MM) so its transactions can be changed again
+     */
+    async reopenPeriod(
+        businessId: number,
+        month: string,
+        userId: string
+    ): Promise<{ data: AccountingPeriod | null; error: any }> {
+        try {
+            const { data: period, error: findError } = await this.repos.accountingPeriods.findByPeriodStart(
+                businessId,
+                toPeriodStart(month)
+            );
+
+            if (findError) {
+                return { data: null, error: findError };
+            }
+
+            if (!period || period.status !== 'closed') {
+                return { data: null, error: new Error(`Period ${month} is not closed`) };
+            }
+
+            return await this.repos.accountingPeriods.update(period.id, {
+                status: 'open',
+                reopened_at: new Date().toISOString(),
+                reopened_by: userId,
+            });
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+
+    /**
+     * Error for the first closed month among the given dates, if any
+     */
+    async findClosedPeriodError(businessId: number, dates: string[]): Promise<{ error: any }> {
+        try {
+            const { data: closed, error } = await this.repos.accountingPeriods.findClosed(
+                businessId,
+                [...new Set(dates.map(toPeriodStart))]
+            );
+
+            if (error) {
+                return { error };
+            }
+
+            if (closed && closed.length > 0) {
+                return { error: new Error(`Period ${toPeriodMonth(closed[0].period_start)} is closed`) };
+            }
+
+            return { error: null };
+        } catch (error) {
+            return { error };
+        }
+    }
+}
@@ -4,6 +4,9 @@
  */
 
 import { BaseService } from "./base.service";
+import type { Repositories } from "./base.service";
+import type { RecurringTransactionService } from "./recurring-transaction.service";
+import type { CategoryBudgetService } from "./category-budget.service";
 import type { Chat } from "../models/chat.model";
 import type { Message } from "../models/message.model";
 
@@ -14,6 +17,19 @@ export interface ChatInteraction {
 }
 
 export class AIService extends BaseService {
+  private recurringTransactionService: RecurringTransactionService;
+  private categoryBudgetService: CategoryBudgetService;
+
+  constructor(
+    repositories: Repositories,
+    recurringTransactionService: RecurringTransactionService,
+    categoryBudgetService: CategoryBudgetService
+  ) {
+    super(repositories);
+    this.recurringTransactionService = recurringTransactionService;
+    this.categoryBudgetService = categoryBudgetService;
+  }
+
   /**
    * Process AI chat message
    * - Gets or creates chat for user
@@ -305,6 +321,8 @@ export class AIService extends BaseService {
   /**
    * Generate Cashflow Forecast
    * Predicts income and expenses for the next N days
+   * - Daily averages from the last 30 days (excluding recurring transactions)
+   * - Plus scheduled occurrences of recurring transactions on their dates
    */
   async generateCashflowForecast(
     businessId: number,
@@ -331,18 +349,26 @@ export class AIService extends BaseService {
         throw new Error("Insufficient data for forecast");
       }
 
+      // Recurring transactions are projected from their schedule instead
+      const { data: upcomingRecurring } =
+        await this.recurringTransactionService.getUpcomingOccurrences(
+          businessId,
+          days,
+          now
+        );
+
       // Calculate daily averages
       const incomeTransactions = transactions.filter(
-        (t) => t.type === "Income"
+        (t) => t.type === "Income" && !t.recurring_transaction_id
       );
       const expenseTransactions = transactions.filter(
-        (t) => t.type === "Expense"
+        (t) => t.type === "Expense" && !t.recurring_transaction_id
       );
 
       const avgDailyIncome =
-        incomeTransactions.reduce((sum, t) => sum + t.amount, 0) / 30;
+        incomeTransactions.reduce((sum, t) => sum + t.base_amount, 0) / 30;
       const avgDailyExpense =
-        expenseTransactions.reduce((sum, t) => sum + t.amount, 0) / 30;
+        expenseTransactions.reduce((sum, t) => sum + t.base_amount, 0) / 30;
 
       // Generate forecast
       const forecast = [];
@@ -350,15 +376,29 @@ export class AIService extends BaseService {
 
       for (let i = 1; i <= days; i++) {
         const forecastDate = new Date(now.getTime() + i * 24 * 60 * 60 * 1000);
-        const projectedIncome = avgDailyIncome;
-        const projectedExpense = avgDailyExpense;
+        const date = forecastDate.toISOString().split("T")[0];
+        const recurring = (upcomingRecurring || []).filter(
+          (o) => o.date === date
+        );
+
+        const projectedIncome =
+          avgDailyIncome +
+          recurring
+            .filter((o) => o.type === "Income")
+            .reduce((sum, o) => sum + o.amount, 0);
+        const projectedExpense =
+          avgDailyExpense +
+          recurring
+            .filter((o) => o.type === "Expense")
+            .reduce((sum, o) => sum + o.amount, 0);
         projectedBalance += projectedIncome - projectedExpense;
 
         forecast.push({
-          date: forecastDate.toISOString().split("T")[0],
+          date,
           projectedIncome: Math.round(projectedIncome),
           projectedExpense: Math.round(projectedExpense),
           projectedBalance: Math.round(projectedBalance),
+          recurring,
           warning: projectedBalance < 0 ? "Potensi cashflow minus" : null,
         });
       }
@@ -371,6 +411,7 @@ export class AIService extends BaseService {
           currentBalance: business.current_balance,
           projectedEndBalance: endBalance,
           forecast,
+          upcomingRecurring: upcomingRecurring || [],
           warnings:
             warnings.length > 0
               ? `Ada potensi cashflow minus pada tanggal: ${warnings.join(
@@ -422,7 +463,7 @@ export class AIService extends BaseService {
       transactions.forEach((t) => {
         const category = t.category || "Lainnya";
         categoryExpenses[category] =
-          (categoryExpenses[category] || 0) + t.amount;
+          (categoryExpenses[category] || 0) + t.base_amount;
       });
 
       // Find high-spending categories
@@ -477,7 +518,37 @@ export class AIService extends BaseService {
         });
       }
 
-      return { data: { recommendations, totalExpense }, error: null };
+      // Budget alerts of this month, same numbers as the budget-vs-actual report
+      const { data: budgets } =
+        await this.categoryBudgetService.getBudgetVsActual(businessId);
+
+      const budgetRecommendations = (budgets?.alerts || []).map((alert) => {
+        const over = alert.status === "over_budget";
+        return {
+          category: alert.category_name,
+          amount: alert.actual,
+          percentage: Math.round(alert.percentage),
+          suggestion: over
+            ? `Pengeluaran kategori ${alert.category_name} sudah melewati anggaran bulan ini (${Math.round(
+                alert.percentage
+              )}% dari Rp ${alert.budget.toLocaleString(
+                "id-ID"
+              )}). Tunda pengeluaran yang tidak mendesak di kategori ini.`
+            : `Pengeluaran kategori ${alert.category_name} sudah ${Math.round(
+                alert.percentage
+              )}% dari anggaran bulan ini. Sisa anggaran Rp ${alert.remaining.toLocaleString(
+                "id-ID"
+              )}.`,
+          priority: over ? "high" : "medium",
+          source: "budget",
+        };
+      });
+      recommendations.unshift(...budgetRecommendations);
+
+      return {
+        data: { recommendations, totalExpense, budgets: budgets || null },
+        error: null,
+      };
     } catch (error) {
       return { data: null, error };
     }
@@ -764,6 +835,21 @@ export class AIService extends BaseService {
         );
       }
 
+      // Budgets of this month
+      const { data: budgets } =
+        await this.categoryBudgetService.getBudgetVsActual(businessId);
+
+      if (budgets && budgets.categories.length > 0) {
+        contextParts.push(`\n[ANGGARAN BULAN ${budgets.period}]`);
+        budgets.categories.forEach((b) => {
+          contextParts.push(
+            `- ${b.category_name}: Rp ${b.actual.toLocaleString(
+              "id-ID"
+            )} dari Rp ${b.budget.toLocaleString("id-ID")} (${b.percentage}%)`
+          );
+        });
+      }
+
       contextParts.push(`\n[INSTRUKSI]`);
       contextParts.push(
         `Anda adalah asisten keuangan AI untuk bisnis UMKM. Berikan jawaban yang spesifik, actionable, dan dalam Bahasa Indonesia. Gunakan data di atas untuk memberikan insight yang relevan.`
@@ -785,14 +871,14 @@ export class AIService extends BaseService {
       .filter((t) => t.type === "Expense")
       .forEach((t) => {
         const cat = t.category || "Lainnya";
-        weekExpenses[cat] = (weekExpenses[cat] || 0) + t.amount;
+        weekExpenses[cat] = (weekExpenses[cat] || 0) + t.base_amount;
       });
 
     monthData
       .filter((t) => t.type === "Expense")
       .forEach((t) => {
         const cat = t.category || "Lainnya";
-        monthExpenses[cat] = (monthExpenses[cat] || 0) + t.amount;
+        monthExpenses[cat] = (monthExpenses[cat] || 0) + t.base_amount;
       });
 
     const insights = [];
@@ -820,7 +906,7 @@ export class AIService extends BaseService {
     // Simplified - in production, analyze transaction_products table
     const totalIncome = transactions
       .filter((t) => t.type === "Income")
-      .reduce((sum, t) => sum + t.amount, 0);
+      .reduce((sum, t) => sum + t.base_amount, 0);
 
     return products.slice(0, 3).map((p) => ({
       productName: p.name,
@@ -832,19 +918,19 @@ export class AIService extends BaseService {
   private analyzeProfitMargin(weekData: any[], monthData: any[]) {
     const weekIncome = weekData
       .filter((t) => t.type === "Income")
-      .reduce((sum, t) => sum + t.amount, 0);
+      .reduce((sum, t) => sum + t.base_amount, 0);
     const weekExpense = weekData
       .filter((t) => t.type === "Expense")
-      .reduce((sum, t) => sum + t.amount, 0);
+      .reduce((sum, t) => sum + t.base_amount, 0);
     const weekMargin =
       weekIncome > 0 ? ((weekIncome - weekExpense) / weekIncome) * 100 : 0;
 
     const monthIncome = monthData
       .filter((t) => t.type === "Income")
-      .reduce((sum, t) => sum + t.amount, 0);
+      .reduce((sum, t) => sum + t.base_amount, 0);
     const monthExpense = monthData
       .filter((t) => t.type === "Expense")
-      .reduce((sum, t) => sum + t.amount, 0);
+      .reduce((sum, t) => sum + t.base_amount, 0);
     const monthMargin =
       monthIncome > 0 ? ((monthIncome - monthExpense) / monthIncome) * 100 : 0;
 
@@ -0,0 +1,97 @@
+/**
+ * Audit Service
+ * Appends audit logs for changes to transactions, products and accounting
+ * periods
+ */
+
+import { BaseService } from './base.service';
+import type {
+    AuditAction,
+    AuditChange,
+    AuditContext,
+    AuditEntityType,
+    CreateAuditLogDTO,
+} from '../models/audit-log.model';
+
+export interface AuditEntry {
+    businessId: number;
+    action: AuditAction;
+    entityType: AuditEntityType;
+    entityId?: number | null;
+    // Entity before the change (null on create)
+    before?: object | null;
+    // Entity after the change (null on delete)
+    after?: object | null;
+}
+
+// Bookkeeping columns that change on every write
+const IGNORED_FIELDS = new Set(['updated_at']);
+
+/**
+ * Fields that differ between two snapshots of an entity
+ */
+function diffRecords(before: Record<string, unknown>, after: Record<string, unknown>): Record<string, AuditChange> {
+    const changes: Record<string, AuditChange> = {};
+
+    for (const field of new Set([...Object.keys(before), ...Object.keys(after)])) {
+        if (IGNORED_FIELDS.has(field)) continue;
+
+        const from = before[field] ?? null;
+        const to = after[field] ?? null;
+        if (JSON.stringify(from) !== JSON.stringify(to)) {
+            changes[field] = { from, to };
+        }
+    }
+
+    return changes;
+}
+
+export class AuditService extends BaseService {
+    /**
+     * Append one audit log
+     * Never throws: the change it describes has already been made, so a
+     * failed write is logged instead of failing the request
+     */
+    async record(context: AuditContext, entry: AuditEntry): Promise<{ error: any }> {
+        return this.recordMany(context, [entry]);
+    }
+
+    /**
+     * Append several audit logs in one insert
+     */
+    async recordMany(context: AuditContext, entries: AuditEntry[]): Promise<{ error: any }> {
+        try {
+            const logs: CreateAuditLogDTO[] = entries.map(entry => {
+                const before = (entry.before ?? null) as Record<string, unknown> | null;
+                const after = (entry.after ?? null) as Record<string, unknown> | null;
+
+                return {
+                    business_id: entry.businessId,
+                    actor_id: context.actorId,
+                    actor_email: context.actorEmail,
+                    action: entry.action,
+                    entity_type: entry.entityType,
+                    entity_id: entry.entityId ?? null,
+                    before,
+                    after,
+                    changes: before && after ? diffRecords(before, after) : null,
+                    ip_address: context.ipAddress,
+                    user_agent: context.userAgent,
+                    request_method: context.method,
+                    request_path: context.path,
+                };
+            });
+
+            const { error } = await this.repos.auditLogs.append(logs);
+
+            if (error) {
+                console.error('Failed to write audit log:', error);
+            }
+
+            return { error };
+        } catch (error) {
+            console.error('Failed to write audit log:', error);
+            return { error };
+        }
+    }
+}
@@ -0,0 +1,210 @@
+/**
+ * Balance Reconciliation Service
+ * Recomputes balances from the transaction ledger, reports drift and repairs
+ * it with adjusting entries
+ */
+
+import { BaseService } from './base.service';
+import type { Transaction } from '../models/transaction.model';
+import type {
+    AccountDrift,
+    DriftTransaction,
+    ReconciliationReport,
+    ReconciliationSource,
+} from '../models/balance-reconciliation.model';
+import { round2 } from '../utils/pricing.util';
+
+// Most transactions listed with a drift
+const MAX_DRIFT_TRANSACTIONS = 100;
+
+export interface ReconcileAllResult {
+    checked: number;
+    drifted: { businessId: number; drift: number; repaired: boolean }[];
+    failed: { businessId: number; error: string }[];
+}
+
+/**
+ * What a complete transaction adds to its account balance
+ * (only the part settled in cash moves the balance, in the base currency)
+ */
+function balanceEffect(transaction: Transaction): number {
+    const cash = Number(transaction.base_amount) - Number(transaction.credit_amount);
+    return round2(transaction.type === 'Income' ? cash : -cash);
+}
+
+export class BalanceReconciliationService extends BaseService {
+    /**
+     * Compare the stored balances of a business with its ledger and record the run
+     * - Each money account: balance vs opening balance + complete transactions
+     *   + receivable/payable payments + transfers
+     * - The business: current_balance vs the total of the account ledgers
+     * - With drift, lists the transactions of the drifted accounts changed
+     *   since the last clean run; the ones whose effect equals the drift are
+     *   flagged
+     * - repair: also brings the stored balances back to the ledger
+     */
+    async reconcile(
+        businessId: number,
+        options: {
+            source: ReconciliationSource;
+            repair?: boolean;
+            reason?: string;
+            actorId?: string;
+        }
+    ): Promise<{ data: ReconciliationReport | null; error: any }> {
+        try {
+            const [
+                { data: ledger, error: ledgerError },
+                { data: lastClean, error: lastCleanError },
+            ] = await Promise.all([
+                this.repos.balanceReconciliations.getLedgerBalances(businessId),
+                this.repos.balanceReconciliations.findLastInBalance(businessId),
+            ]);
+
+            if (ledgerError || lastCleanError || !ledger) {
+                return {
+                    data: null,
+                    error: ledgerError || lastCleanError || new Error('Failed to compute ledger balances'),
+                };
+            }
+
+            if (ledger.length === 0) {
+                return { data: null, error: new Error('Business has no money accounts') };
+            }
+
+            const accounts: AccountDrift[] = ledger.map((row) => ({
+                account_id: row.account_id,
+                account_name: row.account_name,
+                recorded_balance: row.recorded_balance,
+                expected_balance: row.expected_balance,
+                drift: round2(row.recorded_balance - row.expected_balance),
+            }));
+
+            const recordedBalance = ledger[0].business_balance;
+            const expectedBalance = round2(accounts.reduce((sum, account) => sum + account.expected_balance, 0));
+            const drift = round2(recordedBalance - expectedBalance);
+            const drifted = accounts.filter((account) => account.drift !== 0);
+            const inBalance = drift === 0 && drifted.length === 0;
+
+            const { data: reconciliation, error: recordError } =
+                await this.repos.balanceReconciliations.record({
+                    business_id: businessId,
+                    recorded_balance: recordedBalance,
+                    expected_balance: expectedBalance,
+                    drift,
+                    in_balance: inBalance,
+                    accounts,
+                    source: options.source,
+                });
+
+            if (recordError || !reconciliation) {
+                return { data: null, error: recordError || new Error('Failed to record reconciliation') };
+            }
+
+            const report: ReconciliationReport = {
+                ...reconciliation,
+                since: lastClean?.created_at ?? null,
+                transactions: [],
+                adjustments: [],
+            };
+
+            if (inBalance) {
+                return { data: report, error: null };
+            }
+
+            // Transactions that may explain the drift
+            if (drifted.length > 0) {
+                const { data: changed, error: changedError } =
+                    await this.repos.transactions.findChangedSince(
+                        drifted.map((account) => account.account_id),
+                        report.since,
+                        MAX_DRIFT_TRANSACTIONS
+                    );
+
+                if (changedError || !changed) {
+                    return { data: null, error: changedError || new Error('Failed to fetch transactions') };
+                }
+
+                const driftByAccount = new Map(drifted.map((account) => [account.account_id, account.drift]));
+
+                report.transactions = changed.map((transaction): DriftTransaction => {
+                    const effect = balanceEffect(transaction);
+                    const accountDrift = driftByAccount.get(transaction.account_id!) ?? 0;
+
+                    return {
+                        ...transaction,
+                        balance_effect: effect,
+                        matches_drift: effect !== 0 && Math.abs(effect) === Math.abs(accountDrift),
+                    };
+                });
+            }
+
+            if (options.repair) {
+                const { data: adjustments, error: repairError } =
+                    await this.repos.balanceReconciliations.repair(
+                        businessId,
+                        reconciliation.id,
+                        options.reason ?? null,
+                        options.actorId ?? null
+                    );
+
+                if (repairError || !adjustments) {
+                    return { data: null, error: repairError || new Error('Failed to repair balances') };
+                }
+
+                report.repaired = true;
+                report.adjustments = adjustments;
+            }
+
+            return { data: report, error: null };
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+
+    /**
+     * Reconcile every business (background job)
+     * repair: also repair the drifted ones
+     */
+    async reconcileAll(repair: boolean = false): Promise<{ data: ReconcileAllResult | null; error: any }> {
+        try {
+            const { data: businesses, error } = await this.repos.businesses.findAll();
+
+            if (error || !businesses) {
+                return { data: null, error: error || new Error('Failed to fetch businesses') };
+            }
+
+            const result: ReconcileAllResult = { checked: 0, drifted: [], failed: [] };
+
+            // One at a time: each run reads every transaction of the business
+            for (const business of businesses) {
+                const { data: report, error: reconcileError } = await this.reconcile(business.id, {
+                    source: 'job',
+                    repair,
+                    reason: repair ? 'Automatic repair by the reconciliation job' : undefined,
+                });
+
+                if (reconcileError || !report) {
+                    result.failed.push({
+                        businessId: business.id,
+                        error: reconcileError?.message || 'Reconciliation failed',
+                    });
+                    continue;
+                }
+
+                result.checked++;
+                if (!report.in_balance) {
+                    result.drifted.push({
+                        businessId: business.id,
+                        drift: report.drift,
+                        repaired: report.repaired,
+                    });
+                }
+            }
+
+            return { data: result, error: null };
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+}
@@ -9,6 +9,23 @@ import type { ProductRepository } from '../repositories/product.repository';
 import type { TransactionRepository } from '../repositories/transaction.repository';
 import type { ChatRepository } from '../repositories/chat.repository';
 import type { MessageRepository } from '../repositories/message.repository';
+import type { IdempotencyKeyRepository } from '../repositories/idempotency-key.repository';
+import type { RecurringTransactionRepository } from '../repositories/recurring-transaction.repository';
+import type { TransactionAttachmentRepository } from '../repositories/transaction-attachment.repository';
+import type { TaxRateRepository } from '../repositories/tax-rate.repository';
+import type { MoneyAccountRepository } from '../repositories/money-account.repository';
+import type { AccountTransferRepository } from '../repositories/account-transfer.repository';
+import type { ReceivableRepository } from '../repositories/receivable.repository';
+import type { PayableRepository } from '../repositories/payable.repository';
+import type { TransactionCategoryRepository } from '../repositories/transaction-category.repository';
+import type { CategoryBudgetRepository } from '../repositories/category-budget.repository';
+import type { AuditLogRepository } from '../repositories/audit-log.repository';
+import type { BalanceReconciliationRepository } from '../repositories/balance-reconciliation.repository';
+import type { LedgerAccountRepository } from '../repositories/ledger-account.repository';
+import type { JournalEntryRepository } from '../repositories/journal-entry.repository';
+import type { ExchangeRateRepository } from '../repositories/exchange-rate.repository';
+import type { TransactionNumberSeriesRepository } from '../repositories/transaction-number-series.repository';
+import type { AccountingPeriodRepository } from '../repositories/accounting-period.repository';
 
 /**
  * Repositories interface for dependency injection
@@ -20,6 +37,23 @@ export interface Repositories {
     transactions: TransactionRepository;
     chats: ChatRepository;
     messages: MessageRepository;
+    idempotencyKeys: IdempotencyKeyRepository;
+    recurringTransactions: RecurringTransactionRepository;
+    transactionAttachments: TransactionAttachmentRepository;
+    taxRates: TaxRateRepository;
+    moneyAccounts: MoneyAccountRepository;
+    accountTransfers: AccountTransferRepository;
+    receivables: ReceivableRepository;
+    payables: PayableRepository;
+    transactionCategories: TransactionCategoryRepository;
+    categoryBudgets: CategoryBudgetRepository;
+    auditLogs: AuditLogRepository;
+    balanceReconciliations: BalanceReconciliationRepository;
+    ledgerAccounts: LedgerAccountRepository;
+    journalEntries: JournalEntryRepository;
+    exchangeRates: ExchangeRateRepository;
+    numberSeries: TransactionNumberSeriesRepository;
+    accountingPeriods: AccountingPeriodRepository;
 }
 
 /**
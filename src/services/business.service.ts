@@ -6,13 +6,21 @@
 import { BaseService } from './base.service';
 import type { Business } from '../models/business.model';
 import type { DateRangeFilter } from '../repositories/transaction.repository';
+import type { PaymentMethodBreakdown } from '../models/transaction-payment.model';
+import type { MoneyAccount } from '../models/money-account.model';
 
 export interface BalanceSummary {
     business: Business;
+    // Base currency all amounts are in
+    currency: string;
     totalIncome: number;
     totalExpense: number;
+    // Total of all money accounts
     currentBalance: number;
+    // Current balance per money account
+    accounts: MoneyAccount[];
     netProfit: number;
+    byPaymentMethod: PaymentMethodBreakdown;
     dateRange?: DateRangeFilter;
 }
 
@@ -23,8 +31,10 @@ export class BusinessService extends BaseService {
      * - Business details
      * - Total income
      * - Total expense
-     * - Current balance (from database)
+     * - Current balance (from database), total and per money account
      * - Net profit (income - expense)
+     * - Income and expense per payment method
+     * Amounts are in the business base currency (base_amount of transactions)
      */
     async getBalanceSummary(
         businessId: number,
@@ -56,16 +66,41 @@ export class BusinessService extends BaseService {
                 };
             }
 
-            // Step 3: Calculate net profit
+            // Step 3: Get breakdown per payment method
+            const { data: byPaymentMethod, error: paymentError } =
+                await this.repos.transactions.getTotalsByPaymentMethod(businessId, dateRange);
+
+            if (paymentError || !byPaymentMethod) {
+                return {
+                    data: null,
+                    error: paymentError || new Error('Failed to fetch payment method totals'),
+                };
+            }
+
+            // Step 4: Get balance per money account
+            const { data: accounts, error: accountsError } =
+                await this.repos.moneyAccounts.findByBusinessId(businessId);
+
+            if (accountsError || !accounts) {
+                return {
+                    data: null,
+                    error: accountsError || new Error('Failed to fetch money accounts'),
+                };
+            }
+
+            // Step 5: Calculate net profit
             const netProfit = totals.income - totals.expense;
 
-            // Step 4: Compile summary
+            // Step 6: Compile summary
             const summary: BalanceSummary = {
                 business,
+                currency: business.base_currency,
                 totalIncome: totals.income,
                 totalExpense: totals.expense,
                 currentBalance: business.current_balance,
+                accounts,
                 netProfit,
+                byPaymentMethod,
                 dateRange,
             };
 
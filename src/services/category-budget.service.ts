@@ -0,0 +1,172 @@
+/**
+ * Category Budget Service
+ * Monthly expense budgets per category and budget-vs-actual tracking
+ */
+
+import { BaseService } from './base.service';
+import type {
+    CategoryBudget,
+    CreateCategoryBudgetDTO,
+    BudgetStatus,
+    BudgetVsActual,
+    BudgetReport,
+} from '../models/category-budget.model';
+import type { DateRangeFilter } from '../repositories/transaction.repository';
+import { toDateString } from '../utils/schedule.util';
+
+// Percentage of the budget at which a category is flagged
+export const BUDGET_WARNING_THRESHOLD = 80;
+export const BUDGET_OVER_THRESHOLD = 100;
+
+/**
+ * Current month as YYYY-MM (UTC)
+ */
+export function currentPeriod(now: Date = new Date()): string {
+    return toDateString(now).slice(0, 7);
+}
+
+/**
+ * Date range of a YYYY-MM month, for transaction_date filters
+ */
+function periodRange(period: string): DateRangeFilter {
+    const [year, month] = period.split('-').map(Number);
+    const nextMonth = Date.UTC(year, month, 1);
+
+    return {
+        startDate: `${period}-01T00:00:00.000Z`,
+        endDate: new Date(nextMonth - 1).toISOString(),
+    };
+}
+
+function budgetStatus(percentage: number): BudgetStatus {
+    if (percentage >= BUDGET_OVER_THRESHOLD) return 'over_budget';
+    if (percentage >= BUDGET_WARNING_THRESHOLD) return 'warning';
+    return 'on_track';
+}
+
+export class CategoryBudgetService extends BaseService {
+    /**
+     * Create a budget for an expense category and month
+     */
+    async createBudget(dto: CreateCategoryBudgetDTO): Promise<{ data: CategoryBudget | null; error: any }> {
+        try {
+            const { data: category } = await this.repos.transactionCategories.findById(dto.category_id);
+
+            if (!category || category.business_id !== dto.business_id) {
+                return { data: null, error: new Error('Category not found') };
+            }
+
+            if (category.type !== 'Expense') {
+                return { data: null, error: new Error('Budgets can only be set for Expense categories') };
+            }
+
+            return await this.repos.categoryBudgets.create({
+                business_id: dto.business_id,
+                category_id: dto.category_id,
+                period: dto.period,
+                amount: dto.amount,
+            });
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+
+    /**
+     * Compare the budgets of a month (YYYY-MM) with actual spending
+     * - Actual = complete Expense transactions of the month in the category
+     *   and its subcategories
+     * - Categories at 80% or more are flagged (warning), at 100% or more
+     *   over_budget
+     */
+    async getBudgetVsActual(
+        businessId: number,
+        period: string = currentPeriod()
+    ): Promise<{ data: BudgetReport | null; error: any }> {
+        try {
+            const [
+                { data: budgets, error: budgetsError },
+                { data: categories, error: categoriesError },
+                { data: spending, error: spendingError },
+            ] = await Promise.all([
+                this.repos.categoryBudgets.findByBusinessId(businessId, `${period}-01`),
+                this.repos.transactionCategories.findByBusinessId(businessId, 'Expense'),
+                this.repos.transactions.getExpenseTotalsByCategory(businessId, periodRange(period)),
+            ]);
+
+            if (budgetsError || categoriesError || spendingError || !budgets || !categories || !spending) {
+                return {
+                    data: null,
+                    error: budgetsError || categoriesError || spendingError || new Error('Failed to fetch budgets'),
+                };
+            }
+
+            const names = new Map(categories.map(category => [category.id, category.name]));
+            const parents = new Map(categories.map(category => [category.id, category.parent_id]));
+
+            // Spending of each category including its subcategories
+            const rolledUp = new Map(spending);
+            for (const category of categories) {
+                if (category.parent_id !== null) {
+                    rolledUp.set(
+                        category.parent_id,
+                        (rolledUp.get(category.parent_id) || 0) + (spending.get(category.id) || 0)
+                    );
+                }
+            }
+
+            const entries: BudgetVsActual[] = budgets.map(budget => {
+                const amount = Number(budget.amount);
+                const actual = rolledUp.get(budget.category_id) || 0;
+                const percentage = Math.round((actual / amount) * 1000) / 10;
+
+                return {
+                    budget_id: budget.id,
+                    category_id: budget.category_id,
+                    category_name: names.get(budget.category_id) ?? `Kategori #${budget.category_id}`,
+                    budget: amount,
+                    actual,
+                    remaining: amount - actual,
+                    percentage,
+                    status: budgetStatus(percentage),
+                };
+            });
+
+            // A budgeted parent already covers its subcategories
+            const budgeted = new Set(budgets.map(budget => budget.category_id));
+            const covered = new Set(budgeted);
+            for (const category of categories) {
+                if (category.parent_id !== null && budgeted.has(category.parent_id)) {
+                    covered.add(category.id);
+                }
+            }
+
+            let totalExpense = 0;
+            let budgetedExpense = 0;
+            for (const [categoryId, amount] of spending) {
+                totalExpense += amount;
+                if (covered.has(categoryId)) budgetedExpense += amount;
+            }
+
+            return {
+                data: {
+                    period,
+                    categories: entries,
+                    totals: {
+                        // Subcategory budgets are part of their parent's budget
+                        budget: entries
+                            .filter(entry => !budgeted.has(parents.get(entry.category_id) ?? 0))
+                            .reduce((sum, entry) => sum + entry.budget, 0),
+                        actual: budgetedExpense,
+                        unbudgeted: totalExpense - budgetedExpense,
+                    },
+                    alerts: entries
+                        .filter(entry => entry.status !== 'on_track')
+                        .sort((a, b) => b.percentage - a.percentage),
+                },
+                error: null,
+            };
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+}
@@ -0,0 +1,213 @@
+/**
+ * Exchange Rate Service
+ * Rates of foreign currencies against the business base currency, entered
+ * manually or imported from CSV
+ * Transactions take the rate of their date when they are recorded (see the
+ * multi-currency migration); changing a rate later does not convert them again
+ */
+
+import { BaseService } from './base.service';
+import type { ExchangeRate, CreateExchangeRateDTO } from '../models/exchange-rate.model';
+import { parseCsv } from '../utils/csv.util';
+import { parseImportDate, parseImportAmount } from './transaction-import.service';
+
+export type RateImportField = 'date' | 'currency' | 'rate';
+
+export interface RateImportRowError {
+    // 1-based data row number (the header row is not counted)
+    row: number;
+    field?: RateImportField;
+    message: string;
+}
+
+export interface RateImportResult {
+    dryRun: boolean;
+    totalRows: number;
+    validRows: number;
+    errors: RateImportRowError[];
+    // Number of rates imported (0 on dry-run)
+    imported: number;
+    // First valid rows as they would be imported, for review
+    preview: Omit<CreateExchangeRateDTO, 'business_id' | 'source'>[];
+}
+
+const RATE_IMPORT_FIELDS: RateImportField[] = ['date', 'currency', 'rate'];
+export const MAX_RATE_IMPORT_ROWS = 5000;
+const PREVIEW_ROWS = 20;
+
+export class ExchangeRateService extends BaseService {
+    /**
+     * Add a rate of a currency on a date
+     * Rates are only kept for currencies other than the base currency
+     */
+    async createRate(dto: CreateExchangeRateDTO): Promise<{ data: ExchangeRate | null; error: any }> {
+        try {
+            const { data: baseCurrency, error: businessError } = await this.getBaseCurrency(dto.business_id);
+
+            if (businessError || !baseCurrency) {
+                return { data: null, error: businessError };
+            }
+
+            if (dto.currency === baseCurrency) {
+                return {
+                    data: null,
+                    error: new Error(`Exchange rates are for currencies other than the base currency (${baseCurrency})`),
+                };
+            }
+
+            return await this.repos.exchangeRates.create({
+                business_id: dto.business_id,
+                currency: dto.currency,
+                rate_date: dto.rate_date,
+                rate: dto.rate,
+                source: 'manual',
+            });
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+
+    /**
+     * Validate and (unless dry-run) import rates from CSV
+     * - Header must have date, currency and rate columns (any order and case)
+     * - Every row is validated first; errors are reported per row and field
+     * - Commit only happens when all rows are valid (all or nothing); a rate
+     *   for a currency and date that already exists is replaced
+     */
+    async importCsv(
+        businessId: number,
+        csvText: string,
+        dryRun: boolean
+    ): Promise<{ data: RateImportResult | null; error: any }> {
+        try {
+            const [header, ...rows] = parseCsv(csvText);
+
+            if (!header) {
+                return { data: null, error: new Error('CSV file is empty') };
+            }
+
+            if (rows.length > MAX_RATE_IMPORT_ROWS) {
+                return {
+                    data: null,
+                    error: new Error(`CSV file has more than ${MAX_RATE_IMPORT_ROWS} rows`),
+                };
+            }
+
+            const headerIndex = new Map(header.map((name, index) => [name.trim().toLowerCase(), index]));
+            const columns = {} as Record<RateImportField, number>;
+
+            for (const field of RATE_IMPORT_FIELDS) {
+                const index = headerIndex.get(field);
+                if (index === undefined) {
+                    return { data: null, error: new Error(`Column "${field}" not found in CSV header`) };
+                }
+                columns[field] = index;
+            }
+
+            const { data: baseCurrency, error: businessError } = await this.getBaseCurrency(businessId);
+
+            if (businessError || !baseCurrency) {
+                return { data: null, error: businessError };
+            }
+
+            const valueOf = (row: string[], field: RateImportField): string =>
+                (row[columns[field]] ?? '').trim();
+
+            const errors: RateImportRowError[] = [];
+            const rates: RateImportResult['preview'] = [];
+            const seen = new Set<string>();
+
+            rows.forEach((row, i) => {
+                const rowNumber = i + 1;
+                const rowErrors: RateImportRowError[] = [];
+
+                const date = parseImportDate(valueOf(row, 'date'));
+                if (!date) {
+                    rowErrors.push({
+                        row: rowNumber,
+                        field: 'date',
+                        message: 'Date must be YYYY-MM-DD or DD/MM/YYYY',
+                    });
+                }
+
+                const currency = valueOf(row, 'currency').toUpperCase();
+                if (!/^[A-Z]{3}$/.test(currency)) {
+                    rowErrors.push({
+                        row: rowNumber,
+                        field: 'currency',
+                        message: 'Currency must be a 3-letter ISO 4217 code',
+                    });
+                } else if (currency === baseCurrency) {
+                    rowErrors.push({
+                        row: rowNumber,
+                        field: 'currency',
+                        message: `Currency must differ from the base currency (${baseCurrency})`,
+                    });
+                }
+
+                const rate = parseImportAmount(valueOf(row, 'rate'));
+                if (isNaN(rate) || rate <= 0) {
+                    rowErrors.push({
+                        row: rowNumber,
+                        field: 'rate',
+                        message: 'Rate must be a positive number',
+                    });
+                }
+
+                if (rowErrors.length === 0) {
+                    const rateDate = date!.split('T')[0];
+                    const key = `${currency}:${rateDate}`;
+
+                    if (seen.has(key)) {
+                        rowErrors.push({
+                            row: rowNumber,
+                            message: `Duplicate rate for ${currency} on ${rateDate}`,
+                        });
+                    } else {
+                        seen.add(key);
+                        rates.push({ currency, rate_date: rateDate, rate });
+                    }
+                }
+
+                errors.push(...rowErrors);
+            });
+
+            const result: RateImportResult = {
+                dryRun,
+                totalRows: rows.length,
+                validRows: rates.length,
+                errors,
+                imported: 0,
+                preview: rates.slice(0, PREVIEW_ROWS),
+            };
+
+            if (dryRun || errors.length > 0 || rates.length === 0) {
+                return { data: result, error: null };
+            }
+
+            const { data: imported, error } = await this.repos.exchangeRates.importBatch(businessId, rates);
+
+            if (error) {
+                return { data: null, error };
+            }
+
+            result.imported = imported ?? 0;
+            return { data: result, error: null };
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+
+    /**
+     * Base currency of a business
+     */
+    private async getBaseCurrency(businessId: number): Promise<{ data: string | null; error: any }> {
+        const { data: business, error } = await this.repos.businesses.findById(businessId);
+
+        if (error || !business) {
+            return { data: null, error: error || new Error('Business not found') };
+        }
+
+        return { data: business.base_currency, error: null };
+    }
+}
@@ -12,6 +12,10 @@ export type {
     StockPurchaseItem,
     RecordSaleData,
     RecordPurchaseData,
+    SalesReturnItem,
+    RecordReturnData,
+    CreditSaleTerms,
+    CreditPurchaseTerms,
 } from './transaction.service';
 
 export { ProductService } from './product.service';
@@ -22,12 +26,73 @@ export type { BalanceSummary } from './business.service';
 export { AIService } from './ai.service';
 export type { ChatInteraction } from './ai.service';
 
+export { RecurringTransactionService } from './recurring-transaction.service';
+export type { MaterializeResult, UpcomingOccurrence } from './recurring-transaction.service';
+
+export { TransactionImportService } from './transaction-import.service';
+export type {
+    ImportField,
+    ImportColumnMapping,
+    ImportRowError,
+    ImportResult,
+} from './transaction-import.service';
+
+export { TransactionExportService } from './transaction-export.service';
+export type { ExportFormat, ExportSummary } from './transaction-export.service';
+
+export { TransactionDocumentService } from './transaction-document.service';
+export type { ReceiptWidth, TransactionDocument } from './transaction-document.service';
+
+export { ReceivableService } from './receivable.service';
+export type {
+    AgingBucketLabel,
+    AgingBucket,
+    AgingEntry,
+    AgingReport,
+} from './receivable.service';
+
+export { PayableService } from './payable.service';
+
+export { TransactionCategoryService } from './transaction-category.service';
+
+export { CategoryBudgetService } from './category-budget.service';
+
+export { AuditService } from './audit.service';
+export type { AuditEntry } from './audit.service';
+
+export { BalanceReconciliationService } from './balance-reconciliation.service';
+export type { ReconcileAllResult } from './balance-reconciliation.service';
+
+export { LedgerService } from './ledger.service';
+
+export { ExchangeRateService } from './exchange-rate.service';
+export type { RateImportField, RateImportRowError, RateImportResult } from './exchange-rate.service';
+
+export { TrashService } from './trash.service';
+export type { TrashItem, PurgeResult } from './trash.service';
+
+export { AccountingPeriodService } from './accounting-period.service';
+
 // Re-export Repositories type from base
 import type { Repositories } from './base.service';
 import { TransactionService } from './transaction.service';
 import { ProductService } from './product.service';
 import { BusinessService } from './business.service';
 import { AIService } from './ai.service';
+import { RecurringTransactionService } from './recurring-transaction.service';
+import { TransactionImportService } from './transaction-import.service';
+import { TransactionExportService } from './transaction-export.service';
+import { TransactionDocumentService } from './transaction-document.service';
+import { ReceivableService } from './receivable.service';
+import { PayableService } from './payable.service';
+import { TransactionCategoryService } from './transaction-category.service';
+import { CategoryBudgetService } from './category-budget.service';
+import { AuditService } from './audit.service';
+import { BalanceReconciliationService } from './balance-reconciliation.service';
+import { LedgerService } from './ledger.service';
+import { ExchangeRateService } from './exchange-rate.service';
+import { TrashService } from './trash.service';
+import { AccountingPeriodService } from './accounting-period.service';
 import { User } from '../models';
 import { UserService } from './user.service';
 
@@ -36,12 +101,31 @@ import { UserService } from './user.service';
  * Creates all services with dependency-injected repositories
  */
 export function createServices(repos: Repositories) {
+    const accountingPeriod = new AccountingPeriodService(repos);
+    const transaction = new TransactionService(repos, accountingPeriod);
+    const recurringTransaction = new RecurringTransactionService(repos, transaction);
+    const categoryBudget = new CategoryBudgetService(repos);
+
     return {
         user: new UserService(repos),
-        transaction: new TransactionService(repos),
+        transaction,
         product: new ProductService(repos),
         business: new BusinessService(repos),
-        ai: new AIService(repos),
+        ai: new AIService(repos, recurringTransaction, categoryBudget),
+        recurringTransaction,
+        transactionImport: new TransactionImportService(repos),
+        transactionExport: new TransactionExportService(repos),
+        transactionDocument: new TransactionDocumentService(repos),
+        receivable: new ReceivableService(repos),
+        payable: new PayableService(repos),
+        transactionCategory: new TransactionCategoryService(repos),
+        categoryBudget,
+        audit: new AuditService(repos),
+        balanceReconciliation: new BalanceReconciliationService(repos),
+        ledger: new LedgerService(repos),
+        exchangeRate: new ExchangeRateService(repos),
+        trash: new TrashService(repos),
+        accountingPeriod,
     };
 }
 
@@ -54,4 +138,18 @@ export interface Services {
     product: ProductService;
     business: BusinessService;
     ai: AIService;
+    recurringTransaction: RecurringTransactionService;
+    transactionImport: TransactionImportService;
+    transactionExport: TransactionExportService;
+    transactionDocument: TransactionDocumentService;
+    receivable: ReceivableService;
+    payable: PayableService;
+    transactionCategory: TransactionCategoryService;
+    categoryBudget: CategoryBudgetService;
+    audit: AuditService;
+    balanceReconciliation: BalanceReconciliationService;
+    ledger: LedgerService;
+    exchangeRate: ExchangeRateService;
+    trash: TrashService;
+    accountingPeriod: AccountingPeriodService;
 }
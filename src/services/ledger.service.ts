@@ -0,0 +1,195 @@
+/**
+ * Ledger Service
+ * Chart of accounts, manual journals and the trial balance
+ * Sales, purchases, general transactions, payments and transfers are posted
+ * by the database when they are recorded
+ */
+
+import { BaseService } from './base.service';
+import type {
+    LedgerAccount,
+    LedgerAccountType,
+    CreateLedgerAccountDTO,
+    CreateJournalEntryDTO,
+    JournalEntryWithLines,
+    TrialBalance,
+    TrialBalanceRow,
+} from '../models/ledger.model';
+import { round2 } from '../utils/pricing.util';
+
+// Account types whose balance is normally on the debit side
+const DEBIT_NORMAL_TYPES: LedgerAccountType[] = ['asset', 'expense'];
+
+export class LedgerService extends BaseService {
+    /**
+     * Add an account to the chart of accounts of a business
+     */
+    async createAccount(dto: CreateLedgerAccountDTO): Promise<{ data: LedgerAccount | null; error: any }> {
+        try {
+            return await this.repos.ledgerAccounts.create({
+                business_id: dto.business_id,
+                code: dto.code,
+                name: dto.name,
+                type: dto.type,
+            });
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+
+    /**
+     * Delete an account
+     * System accounts, cash accounts of money accounts and accounts with
+     * postings or category mappings are kept
+     */
+    async deleteAccount(account: LedgerAccount): Promise<{ error: any }> {
+        try {
+            if (account.system_key) {
+                return { error: new Error('System ledger accounts cannot be deleted') };
+            }
+
+            if (account.money_account_id !== null) {
+                return { error: new Error('Cash accounts of money accounts cannot be deleted') };
+            }
+
+            const { data: inUse, error: inUseError } = await this.repos.ledgerAccounts.isInUse(account.id);
+            if (inUseError) {
+                return { error: inUseError };
+            }
+            if (inUse) {
+                return { error: new Error('Ledger account is in use by journal entries or categories') };
+            }
+
+            const { error } = await this.repos.ledgerAccounts.softDelete(account.id);
+            return { error };
+        } catch (error) {
+            return { error };
+        }
+    }
+
+    /**
+     * Post a manual journal (e.g. depreciation, accruals, corrections)
+     * - Lines must balance (debits = credits)
+     * - Accounts must belong to the business; cash accounts of money accounts
+     *   only move with transactions, payments and transfers
+     */
+    async createJournal(dto: CreateJournalEntryDTO): Promise<{ data: JournalEntryWithLines | null; error: any }> {
+        try {
+            const debit = round2(dto.lines.reduce((sum, line) => sum + line.debit, 0));
+            const credit = round2(dto.lines.reduce((sum, line) => sum + line.credit, 0));
+
+            if (debit !== credit) {
+                return {
+                    data: null,
+                    error: new Error(`Journal entry is not balanced (debit ${debit}, credit ${credit})`),
+                };
+            }
+
+            const { data: accounts, error: accountsError } =
+                await this.repos.ledgerAccounts.findByBusinessId(dto.business_id);
+
+            if (accountsError || !accounts) {
+                return { data: null, error: accountsError || new Error('Failed to fetch ledger accounts') };
+            }
+
+            const accountsById = new Map(accounts.map((account) => [account.id, account]));
+
+            for (const line of dto.lines) {
+                const account = accountsById.get(line.account_id);
+
+                if (!account) {
+                    return { data: null, error: new Error(`Ledger account ${line.account_id} not found`) };
+                }
+                if (account.money_account_id !== null) {
+                    return {
+                        data: null,
+                        error: new Error('Cash accounts of money accounts cannot be used in manual journals'),
+                    };
+                }
+            }
+
+            return await this.repos.journalEntries.postManual(dto);
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+
+    /**
+     * Reverse a manual journal with a mirror entry dated today
+     * Entries of transactions follow the transaction (cancel or edit it instead)
+     */
+    async reverseJournal(
+        entry: JournalEntryWithLines,
+        description: string | null,
+        actorId: string
+    ): Promise<{ data: JournalEntryWithLines | null; error: any }> {
+        try {
+            if (entry.source !== 'manual') {
+                return {
+                    data: null,
+                    error: new Error('Only manual journals can be reversed. Automatic entries follow their source'),
+                };
+            }
+
+            const { data: reversed, error: reversedError } =
+                await this.repos.journalEntries.isReversed(entry.id);
+
+            if (reversedError) {
+                return { data: null, error: reversedError };
+            }
+            if (reversed) {
+                return { data: null, error: new Error(`Journal entry ${entry.id} is already reversed`) };
+            }
+
+            return await this.repos.journalEntries.reverse(entry.id, description, actorId);
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+
+    /**
+     * Trial balance of a business on a date (YYYY-MM-DD, inclusive)
+     * Every account with postings, its net balance in the debit or credit
+     * column; the columns total the same when the books balance
+     */
+    async getTrialBalance(businessId: number, asOf: string): Promise<{ data: TrialBalance | null; error: any }> {
+        try {
+            const { data: totals, error } = await this.repos.ledgerAccounts.getTotals(businessId, asOf);
+
+            if (error || !totals) {
+                return { data: null, error: error || new Error('Failed to compute trial balance') };
+            }
+
+            const accounts: TrialBalanceRow[] = totals
+                .filter((row) => row.debit !== 0 || row.credit !== 0)
+                .map((row) => {
+                    const net = round2(row.debit - row.credit);
+
+                    return {
+                        account_id: row.account_id,
+                        code: row.code,
+                        name: row.name,
+                        type: row.type,
+                        debit: net > 0 ? net : 0,
+                        credit: net < 0 ? -net : 0,
+                        balance: DEBIT_NORMAL_TYPES.includes(row.type) ? net : -net,
+                    };
+                });
+
+            const debit = round2(accounts.reduce((sum, row) => sum + row.debit, 0));
+            const credit = round2(accounts.reduce((sum, row) => sum + row.credit, 0));
+
+            return {
+                data: {
+                    as_of: asOf,
+                    accounts,
+                    totals: { debit, credit },
+                    balanced: debit === credit,
+                },
+                error: null,
+            };
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+}
@@ -0,0 +1,122 @@
+/**
+ * Payable Service
+ * Supplier payments, due dates and overdue state of credit purchases
+ */
+
+import { BaseService } from './base.service';
+import type {
+    Payable,
+    PayableStatus,
+    PayableWithDueStatus,
+    PayableWithPayments,
+    PayablePayment,
+    CreatePayablePaymentDTO,
+} from '../models/payable.model';
+import { toDateString, addDays, daysBetween } from '../utils/schedule.util';
+
+/**
+ * Add outstanding amount and due state to a payable
+ */
+function withDueStatus<T extends Payable>(payable: T, today: string): T & PayableWithDueStatus {
+    const daysUntilDue = daysBetween(today, payable.due_date);
+
+    return {
+        ...payable,
+        outstanding: Number(payable.amount) - Number(payable.amount_paid),
+        days_until_due: daysUntilDue,
+        is_overdue: payable.status === 'open' && daysUntilDue < 0,
+    };
+}
+
+export class PayableService extends BaseService {
+    /**
+     * Get payables of a business with their due state
+     */
+    async getPayables(
+        businessId: number,
+        status?: PayableStatus,
+        today: string = toDateString(new Date())
+    ): Promise<{ data: PayableWithDueStatus[] | null; error: any }> {
+        try {
+            const { data: payables, error } = await this.repos.payables.findByBusinessId(businessId, status);
+
+            if (error || !payables) {
+                return { data: null, error: error || new Error('Failed to fetch payables') };
+            }
+
+            return { data: payables.map(payable => withDueStatus(payable, today)), error: null };
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+
+    /**
+     * Get open payables due within the next days, overdue ones included
+     * Earliest due first
+     */
+    async getUpcoming(
+        businessId: number,
+        days: number,
+        today: string = toDateString(new Date())
+    ): Promise<{ data: PayableWithDueStatus[] | null; error: any }> {
+        try {
+            const { data: payables, error } = await this.repos.payables.findByBusinessId(
+                businessId,
+                'open',
+                addDays(today, days)
+            );
+
+            if (error || !payables) {
+                return { data: null, error: error || new Error('Failed to fetch payables') };
+            }
+
+            return { data: payables.map(payable => withDueStatus(payable, today)), error: null };
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+
+    /**
+     * Get a payable of the business with its payments and due state
+     */
+    async getPayable(
+        businessId: number,
+        payableId: number,
+        today: string = toDateString(new Date())
+    ): Promise<{ data: (PayableWithPayments & PayableWithDueStatus) | null; error: any }> {
+        try {
+            const { data: payable } = await this.repos.payables.findWithPayments(payableId);
+
+            if (!payable || payable.business_id !== businessId) {
+                return { data: null, error: new Error('Payable not found') };
+            }
+
+            return { data: withDueStatus(payable, today), error: null };
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+
+    /**
+     * Record a payment to the supplier for a payable of the business
+     * The money account is debited when the payment is recorded
+     * (record_payable_payment)
+     */
+    async recordPayment(
+        businessId: number,
+        payableId: number,
+        payment: CreatePayablePaymentDTO
+    ): Promise<{ data: PayablePayment | null; error: any }> {
+        try {
+            const { data: payable } = await this.repos.payables.findById(payableId);
+
+            if (!payable || payable.business_id !== businessId) {
+                return { data: null, error: new Error('Payable not found') };
+            }
+
+            return await this.repos.payables.recordPayment(payableId, payment);
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+}
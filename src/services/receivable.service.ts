@@ -0,0 +1,123 @@
+/**
+ * Receivable Service
+ * Installment payments and aging of credit sales (kasbon)
+ */
+
+import { BaseService } from './base.service';
+import type {
+    Receivable,
+    ReceivablePayment,
+    CreateReceivablePaymentDTO,
+} from '../models/receivable.model';
+import { toDateString, daysBetween } from '../utils/schedule.util';
+
+export type AgingBucketLabel = 'not_due' | '0-30' | '31-60' | '60+';
+
+export interface AgingBucket {
+    label: AgingBucketLabel;
+    count: number;
+    outstanding: number;
+}
+
+export interface AgingEntry {
+    receivable: Receivable;
+    outstanding: number;
+    // Days past the due date (negative while not yet due)
+    daysOverdue: number;
+    bucket: AgingBucketLabel;
+}
+
+export interface AgingReport {
+    asOf: string;
+    totalOutstanding: number;
+    buckets: AgingBucket[];
+    receivables: AgingEntry[];
+}
+
+const AGING_BUCKETS: AgingBucketLabel[] = ['not_due', '0-30', '31-60', '60+'];
+
+/**
+ * Aging bucket for a number of days past due
+ */
+function agingBucket(daysOverdue: number): AgingBucketLabel {
+    if (daysOverdue < 0) return 'not_due';
+    if (daysOverdue <= 30) return '0-30';
+    if (daysOverdue <= 60) return '31-60';
+    return '60+';
+}
+
+export class ReceivableService extends BaseService {
+    /**
+     * Record an installment for a receivable of the business
+     * The money account is credited when the payment is recorded
+     * (record_receivable_payment)
+     */
+    async recordPayment(
+        businessId: number,
+        receivableId: number,
+        payment: CreateReceivablePaymentDTO
+    ): Promise<{ data: ReceivablePayment | null; error: any }> {
+        try {
+            const { data: receivable } = await this.repos.receivables.findById(receivableId);
+
+            if (!receivable || receivable.business_id !== businessId) {
+                return { data: null, error: new Error('Receivable not found') };
+            }
+
+            return await this.repos.receivables.recordPayment(receivableId, payment);
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+
+    /**
+     * Aging report of open receivables
+     * Outstanding amounts grouped by days past the due date:
+     * not yet due, 0-30, 31-60 and over 60 days
+     */
+    async getAgingReport(
+        businessId: number,
+        asOf: string = toDateString(new Date())
+    ): Promise<{ data: AgingReport | null; error: any }> {
+        try {
+            const { data: receivables, error } = await this.repos.receivables.findByBusinessId(
+                businessId,
+                'open'
+            );
+
+            if (error || !receivables) {
+                return { data: null, error: error || new Error('Failed to fetch receivables') };
+            }
+
+            const buckets: AgingBucket[] = AGING_BUCKETS.map(label => ({
+                label,
+                count: 0,
+                outstanding: 0,
+            }));
+
+            const entries: AgingEntry[] = receivables.map(receivable => {
+                const outstanding = Number(receivable.amount) - Number(receivable.amount_paid);
+                const daysOverdue = daysBetween(receivable.due_date, asOf);
+                const bucket = agingBucket(daysOverdue);
+
+                const total = buckets.find(b => b.label === bucket)!;
+                total.count++;
+                total.outstanding += outstanding;
+
+                return { receivable, outstanding, daysOverdue, bucket };
+            });
+
+            return {
+                data: {
+                    asOf,
+                    totalOutstanding: entries.reduce((sum, entry) => sum + entry.outstanding, 0),
+                    buckets,
+                    receivables: entries,
+                },
+                error: null,
+            };
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+}
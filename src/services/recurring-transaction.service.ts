@@ -0,0 +1,314 @@
+/**
+ * Recurring Transaction Service
+ * Manages recurring transaction templates and materializes due occurrences
+ */
+
+import { BaseService } from './base.service';
+import type { Repositories } from './base.service';
+import type { TransactionService } from './transaction.service';
+import type { Transaction } from '../models/transaction.model';
+import type {
+    RecurringTransaction,
+    CreateRecurringTransactionDTO,
+    UpdateRecurringTransactionDTO,
+} from '../models/recurring-transaction.model';
+import {
+    toDateString,
+    addDays,
+    completeSchedule,
+    firstOccurrenceOnOrAfter,
+    nextOccurrenceAfter,
+    occurrencesBetween,
+} from '../utils/schedule.util';
+
+export interface MaterializeResult {
+    created: Transaction[];
+    failed: { recurringTransactionId: number; occurrence: string; error: string }[];
+}
+
+export interface UpcomingOccurrence {
+    recurringTransactionId: number;
+    date: string;
+    type: RecurringTransaction['type'];
+    category: string | null;
+    amount: number;
+    description: string | null;
+}
+
+export class RecurringTransactionService extends BaseService {
+    private transactionService: TransactionService;
+
+    constructor(repositories: Repositories, transactionService: TransactionService) {
+        super(repositories);
+        this.transactionService = transactionService;
+    }
+
+    /**
+     * Create a recurring transaction template
+     * Day fields the frequency needs default to start_date (e.g. monthly
+     * without day_of_month repeats on the day of month of start_date)
+     * next_run_date is the first occurrence on or after start_date
+     */
+    async createRecurringTransaction(
+        dto: CreateRecurringTransactionDTO
+    ): Promise<{ data: RecurringTransaction | null; error: any }> {
+        try {
+            const schedule = completeSchedule(
+                {
+                    frequency: dto.frequency,
+                    day_of_week: dto.day_of_week ?? null,
+                    day_of_month: dto.day_of_month ?? null,
+                    month_of_year: dto.month_of_year ?? null,
+                },
+                dto.start_date
+            );
+
+            return await this.repos.recurringTransactions.create({
+                business_id: dto.business_id,
+                type: dto.type,
+                category: dto.category || null,
+                amount: dto.amount,
+                description: dto.description || null,
+                ...schedule,
+                start_date: dto.start_date,
+                end_date: dto.end_date || null,
+                next_run_date: firstOccurrenceOnOrAfter(schedule, dto.start_date),
+                is_paused: false,
+            });
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+
+    /**
+     * Update a recurring transaction template
+     * Schedule changes recompute next_run_date from the current one (day
+     * fields the new frequency needs default to start_date)
+     */
+    async updateRecurringTransaction(
+        recurring: RecurringTransaction,
+        dto: UpdateRecurringTransactionDTO
+    ): Promise<{ data: RecurringTransaction | null; error: any }> {
+        try {
+            const updates: Partial<RecurringTransaction> = {};
+            if (dto.category !== undefined) updates.category = dto.category;
+            if (dto.amount !== undefined) updates.amount = dto.amount;
+            if (dto.description !== undefined) updates.description = dto.description;
+            if (dto.end_date !== undefined) updates.end_date = dto.end_date;
+
+            const scheduleChanged =
+                dto.frequency !== undefined ||
+                dto.day_of_week !== undefined ||
+                dto.day_of_month !== undefined ||
+                dto.month_of_year !== undefined;
+
+            if (scheduleChanged) {
+                const schedule = completeSchedule(
+                    {
+                        frequency: dto.frequency ?? recurring.frequency,
+                        day_of_week: dto.day_of_week ?? recurring.day_of_week,
+                        day_of_month: dto.day_of_month ?? recurring.day_of_month,
+                        month_of_year: dto.month_of_year ?? recurring.month_of_year,
+                    },
+                    recurring.start_date
+                );
+                Object.assign(updates, schedule);
+                updates.next_run_date = firstOccurrenceOnOrAfter(schedule, recurring.next_run_date);
+            }
+
+            return await this.repos.recurringTransactions.update(recurring.id, updates);
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+
+    /**
+     * Skip the next occurrence without creating a transaction
+     */
+    async skipNextOccurrence(
+        recurring: RecurringTransaction
+    ): Promise<{ data: RecurringTransaction | null; error: any }> {
+        try {
+            const { data, error } = await this.repos.recurringTransactions.advanceNextRunDate(
+                recurring.id,
+                recurring.next_run_date,
+                nextOccurrenceAfter(recurring, recurring.next_run_date)
+            );
+
+            if (error) {
+                return { data: null, error };
+            }
+
+            if (!data) {
+                return { data: null, error: new Error('Occurrence is already being processed') };
+            }
+
+            return { data, error: null };
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+
+    /**
+     * Pause or resume a template
+     * Resuming continues from the first occurrence on or after today,
+     * occurrences that fell inside the pause are not created
+     */
+    async setPaused(
+        recurring: RecurringTransaction,
+        isPaused: boolean
+    ): Promise<{ data: RecurringTransaction | null; error: any }> {
+        try {
+            const updates: Partial<RecurringTransaction> = { is_paused: isPaused };
+
+            const today = toDateString(new Date());
+            if (!isPaused && recurring.next_run_date < today) {
+                updates.next_run_date = firstOccurrenceOnOrAfter(recurring, today);
+            }
+
+            return await this.repos.recurringTransactions.update(recurring.id, updates);
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+
+    /**
+     * Create transactions for every due occurrence (up to and including today)
+     * - Catches up on occurrences missed while the scheduler was not running
+     * - Each occurrence is claimed by advancing next_run_date first, so
+     *   concurrent schedulers never create the same occurrence twice
+     * - Transactions are created through TransactionService.createGeneralTransaction
+     * - Occurrences dated in a closed accounting period are skipped and reported
+     *   as failed
+     */
+    async materializeDueOccurrences(
+        businessId?: number,
+        asOf: Date = new Date()
+    ): Promise<{ data: MaterializeResult | null; error: any }> {
+        try {
+            const today = toDateString(asOf);
+            const { data: templates, error } = await this.repos.recurringTransactions.findDue(
+                today,
+                businessId
+            );
+
+            if (error || !templates) {
+                return { data: null, error };
+            }
+
+            const result: MaterializeResult = { created: [], failed: [] };
+
+            for (const template of templates) {
+                let occurrence = template.next_run_date;
+
+                while (occurrence <= today && (!template.end_date || occurrence <= template.end_date)) {
+                    const nextDate = nextOccurrenceAfter(template, occurrence);
+
+                    const { data: claimed } = await this.repos.recurringTransactions.advanceNextRunDate(
+                        template.id,
+                        occurrence,
+                        nextDate
+                    );
+
+                    if (!claimed) {
+                        // Another scheduler run already took this occurrence
+                        break;
+                    }
+
+                    const { data: transaction, error: createError } =
+                        await this.transactionService.createGeneralTransaction({
+                            businessId: template.business_id,
+                            type: template.type,
+                            category: template.category || undefined,
+                            amount: template.amount,
+                            description: template.description || undefined,
+                            status: 'complete',
+                            transactionDate: occurrence,
+                            recurringTransactionId: template.id,
+                        });
+
+                    if (createError || !transaction) {
+                        result.failed.push({
+                            recurringTransactionId: template.id,
+                            occurrence,
+                            error: createError?.message || 'Failed to create transaction',
+                        });
+
+                        // An occurrence in a closed accounting period is skipped
+                        // (it could never be created); any other failure gives
+                        // the occurrence back so the next run retries it
+                        if (createError?.message?.includes('is closed')) {
+                            occurrence = nextDate;
+                            continue;
+                        }
+
+                        await this.repos.recurringTransactions.advanceNextRunDate(
+                            template.id,
+                            nextDate,
+                            occurrence
+                        );
+                        break;
+                    }
+
+                    result.created.push(transaction);
+                    occurrence = nextDate;
+                }
+            }
+
+            return { data: result, error: null };
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+
+    /**
+     * List upcoming occurrences of active templates for the next N days
+     * Starts tomorrow, matching the cashflow forecast horizon
+     */
+    async getUpcomingOccurrences(
+        businessId: number,
+        days: number,
+        from: Date = new Date()
+    ): Promise<{ data: UpcomingOccurrence[] | null; error: any }> {
+        try {
+            const { data: templates, error } = await this.repos.recurringTransactions.findAll({
+                business_id: businessId,
+                is_paused: false,
+            });
+
+            if (error || !templates) {
+                return { data: null, error };
+            }
+
+            const today = toDateString(from);
+            const horizonStart = addDays(today, 1);
+            const horizonEnd = addDays(today, days);
+
+            const occurrences: UpcomingOccurrence[] = [];
+
+            for (const template of templates) {
+                const start =
+                    template.next_run_date > horizonStart ? template.next_run_date : horizonStart;
+                const end =
+                    template.end_date && template.end_date < horizonEnd ? template.end_date : horizonEnd;
+
+                for (const date of occurrencesBetween(template, start, end)) {
+                    occurrences.push({
+                        recurringTransactionId: template.id,
+                        date,
+                        type: template.type,
+                        category: template.category,
+                        amount: Number(template.amount),
+                        description: template.description,
+                    });
+                }
+            }
+
+            occurrences.sort((a, b) => a.date.localeCompare(b.date));
+
+            return { data: occurrences, error: null };
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+}
@@ -0,0 +1,207 @@
+/**
+ * Transaction Category Service
+ * Category tree rules and validation of transaction categories
+ */
+
+import { BaseService } from './base.service';
+import type {
+    TransactionCategory,
+    CreateTransactionCategoryDTO,
+} from '../models/transaction-category.model';
+import type { TransactionType } from '../models/transaction.model';
+
+export class TransactionCategoryService extends BaseService {
+    /**
+     * Resolve a category name to a category of the business
+     * - Case-insensitive; the result carries the stored spelling
+     * - The category must have the same type as the transaction
+     */
+    async resolve(
+        businessId: number,
+        type: TransactionType,
+        name: string
+    ): Promise<{ data: TransactionCategory | null; error: any }> {
+        try {
+            const { data: category, error } = await this.repos.transactionCategories.findByName(
+                businessId,
+                type,
+                name
+            );
+
+            if (error) {
+                return { data: null, error };
+            }
+
+            if (!category) {
+                return {
+                    data: null,
+                    error: new Error(`Category "${name.trim()}" not found for ${type} transactions`),
+                };
+            }
+
+            return { data: category, error: null };
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+
+    /**
+     * Create a category
+     * The parent must be a top-level category of the same business and type
+     */
+    async createCategory(
+        dto: CreateTransactionCategoryDTO
+    ): Promise<{ data: TransactionCategory | null; error: any }> {
+        try {
+            if (dto.parent_id) {
+                const { error } = await this.validateParent(dto.business_id, dto.type, dto.parent_id);
+                if (error) {
+                    return { data: null, error };
+                }
+            }
+
+            return await this.repos.transactionCategories.create({
+                business_id: dto.business_id,
+                name: dto.name,
+                type: dto.type,
+                parent_id: dto.parent_id ?? null,
+            });
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+
+    /**
+     * Move a category under another one, or to the top level (null)
+     * Categories with subcategories stay top-level
+     */
+    async setParent(
+        category: TransactionCategory,
+        parentId: number | null
+    ): Promise<{ data: TransactionCategory | null; error: any }> {
+        try {
+            if (parentId !== null) {
+                if (parentId === category.id) {
+                    return { data: null, error: new Error('A category cannot be its own parent') };
+                }
+
+                const { error } = await this.validateParent(category.business_id, category.type, parentId);
+                if (error) {
+                    return { data: null, error };
+                }
+
+                const { data: hasChildren, error: childrenError } =
+                    await this.repos.transactionCategories.hasChildren(category.id);
+                if (childrenError) {
+                    return { data: null, error: childrenError };
+                }
+                if (hasChildren) {
+                    return {
+                        data: null,
+                        error: new Error('A category with subcategories cannot be moved under another category'),
+                    };
+                }
+            }
+
+            return await this.repos.transactionCategories.update(category.id, { parent_id: parentId });
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+
+    /**
+     * Map a category to the ledger account its transactions are posted to
+     * (null: back to the default account)
+     * - Income categories map to income accounts, Expense categories to
+     *   expense accounts
+     * - Applies to transactions posted from now on
+     */
+    async setLedgerAccount(
+        category: TransactionCategory,
+        ledgerAccountId: number | null
+    ): Promise<{ data: TransactionCategory | null; error: any }> {
+        try {
+            if (ledgerAccountId !== null) {
+                const { data: account, error } = await this.repos.ledgerAccounts.findById(ledgerAccountId);
+
+                if (error || !account || account.business_id !== category.business_id) {
+                    return { data: null, error: new Error('Ledger account not found') };
+                }
+
+                const expectedType = category.type === 'Income' ? 'income' : 'expense';
+                if (account.type !== expectedType) {
+                    return {
+                        data: null,
+                        error: new Error(`${category.type} categories can only be mapped to ${expectedType} ledger accounts`),
+                    };
+                }
+            }
+
+            return await this.repos.transactionCategories.update(category.id, {
+                ledger_account_id: ledgerAccountId,
+            });
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+
+    /**
+     * Delete a category
+     * Only unused categories without subcategories can be deleted; used ones
+     * are merged into another category so their history is kept
+     */
+    async deleteCategory(category: TransactionCategory): Promise<{ error: any }> {
+        try {
+            if (category.is_system) {
+                return { error: new Error(`System category "${category.name}" cannot be deleted`) };
+            }
+
+            const { data: hasChildren, error: childrenError } =
+                await this.repos.transactionCategories.hasChildren(category.id);
+            if (childrenError) {
+                return { error: childrenError };
+            }
+            if (hasChildren) {
+                return { error: new Error('Category has subcategories; move or delete them first') };
+            }
+
+            const { data: inUse, error: usageError } = await this.repos.transactionCategories.isInUse(
+                category.id
+            );
+            if (usageError) {
+                return { error: usageError };
+            }
+            if (inUse) {
+                return { error: new Error('Category is in use; merge it into another category instead') };
+            }
+
+            const { error } = await this.repos.transactionCategories.softDelete(category.id);
+            return { error };
+        } catch (error) {
+            return { error };
+        }
+    }
+
+    /**
+     * Parent must exist in the business, have the same type and be top-level
+     */
+    private async validateParent(
+        businessId: number,
+        type: TransactionType,
+        parentId: number
+    ): Promise<{ error: any }> {
+        const { data: parent, error } = await this.repos.transactionCategories.findById(parentId);
+
+        if (error || !parent || parent.business_id !== businessId) {
+            return { error: new Error('Parent category not found') };
+        }
+        if (parent.type !== type) {
+            return { error: new Error('Parent category must have the same type') };
+        }
+        if (parent.parent_id !== null) {
+            return { error: new Error('Parent category must be a top-level category') };
+        }
+
+        return { error: null };
+    }
+}
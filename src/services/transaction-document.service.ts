@@ -0,0 +1,583 @@
+/**
+ * Transaction Document Service
+ * Renders sales as PDF receipts (58/80mm thermal paper) and A4 invoices
+ * Documents are rendered in memory; they are a few kilobytes
+ */
+
+import PDFDocument from 'pdfkit';
+import { BaseService } from './base.service';
+import type { Business } from '../models/business.model';
+import type {
+    TransactionWithDetails,
+    TransactionPaymentMethod,
+} from '../models/transaction.model';
+import { formatAmount, formatMoney } from '../utils/currency.util';
+import { round2 } from '../utils/pricing.util';
+
+export type ReceiptWidth = 58 | 80;
+export const RECEIPT_WIDTHS: ReceiptWidth[] = [58, 80];
+
+export interface TransactionDocument {
+    fileName: string;
+    content: Buffer;
+}
+
+// Characters per line of thermal printers (font A)
+const RECEIPT_COLUMNS: Record<ReceiptWidth, number> = { 58: 32, 80: 48 };
+const RECEIPT_MARGIN = 8;
+const MM_TO_PT = 72 / 25.4;
+// Courier glyphs are 0.6 em wide
+const COURIER_CHAR_WIDTH = 0.6;
+const RECEIPT_LINE_HEIGHT = 1.25;
+
+const INVOICE_MARGIN = 50;
+
+const PAYMENT_METHOD_LABELS: Record<TransactionPaymentMethod, string> = {
+    cash: 'Tunai',
+    qris: 'QRIS',
+    bank_transfer: 'Transfer Bank',
+    e_wallet: 'E-Wallet',
+    split: 'Split',
+};
+
+/**
+ * Item line of a document
+ */
+interface DocumentLine {
+    name: string;
+    quantity: number;
+    unitPrice: number;
+    // Line discount
+    discount: number;
+    // quantity * unitPrice - discount
+    total: number;
+}
+
+/**
+ * Everything a receipt or invoice shows, in the transaction currency
+ */
+interface SaleDocument {
+    business: Business;
+    transaction: TransactionWithDetails;
+    currency: string;
+    lines: DocumentLine[];
+    // After line discounts, before the sale discount
+    itemsTotal: number;
+    saleDiscount: number;
+    tax: number;
+    taxLabel: string;
+    total: number;
+    // [label, amount, reference]
+    payments: [string, number, string | null][];
+    credit: {
+        customerName: string;
+        customerPhone: string | null;
+        dueDate: string;
+        paid: number;
+        outstanding: number;
+    } | null;
+}
+
+/**
+ * Format a date(-time) string as DD/MM/YYYY (HH:MM)
+ */
+function formatDateTime(value: string): string {
+    const match = value.match(/^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2}))?/);
+    if (!match) {
+        return value;
+    }
+
+    const date = `${match[3]}/${match[2]}/${match[1]}`;
+    return match[4] ? `${date} ${match[4]}:${match[5]}` : date;
+}
+
+/**
+ * Word-wrap text to lines of at most `columns` characters
+ */
+function wrap(text: string, columns: number): string[] {
+    const lines: string[] = [];
+    let line = '';
+
+    for (let word of text.split(/\s+/).filter(Boolean)) {
+        while (word.length > columns) {
+            if (line) {
+                lines.push(line);
+                line = '';
+            }
+            lines.push(word.slice(0, columns));
+            word = word.slice(columns);
+        }
+
+        if (!line) {
+            line = word;
+        } else if (line.length + 1 + word.length <= columns) {
+            line += ` ${word}`;
+        } else {
+            lines.push(line);
+            line = word;
+        }
+    }
+
+    if (line) {
+        lines.push(line);
+    }
+
+    return lines.length > 0 ? lines : [''];
+}
+
+/**
+ * Center text on a line
+ */
+function center(text: string, columns: number): string[] {
+    return wrap(text, columns).map(line => ' '.repeat(Math.floor((columns - line.length) / 2)) + line);
+}
+
+/**
+ * Left label and right-aligned value on one line
+ * (the value moves to its own line when both do not fit)
+ */
+function pair(left: string, right: string, columns: number): string[] {
+    if (left.length + 1 + right.length <= columns) {
+        return [left + ' '.repeat(columns - left.length - right.length) + right];
+    }
+
+    return [...wrap(left, columns), right.padStart(columns)];
+}
+
+/**
+ * Transaction number as part of a file name (INV/2026/10/0001 -> INV-2026-10-0001)
+ */
+function fileNameOf(number: string): string {
+    return number.replace(/[^A-Za-z0-9-]/g, '-');
+}
+
+/**
+ * Collect a PDF document into a buffer
+ */
+function toBuffer(doc: PDFKit.PDFDocument): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+        doc.on('end', () => resolve(Buffer.concat(chunks)));
+        doc.on('error', reject);
+        doc.end();
+    });
+}
+
+export class TransactionDocumentService extends BaseService {
+    /**
+     * Render a sale as a thermal receipt (58 or 80mm wide)
+     * The page is as long as the receipt, like a paper roll
+     */
+    async getReceipt(
+        businessId: number,
+        transactionId: number,
+        width: ReceiptWidth
+    ): Promise<{ data: TransactionDocument | null; error: any }> {
+        try {
+            const { data: sale, error } = await this.loadSale(businessId, transactionId);
+
+            if (error || !sale) {
+                return { data: null, error };
+            }
+
+            const lines = this.receiptLines(sale, RECEIPT_COLUMNS[width]);
+            const pageWidth = width * MM_TO_PT;
+            const fontSize = (pageWidth - 2 * RECEIPT_MARGIN) / (RECEIPT_COLUMNS[width] * COURIER_CHAR_WIDTH);
+            const lineHeight = fontSize * RECEIPT_LINE_HEIGHT;
+
+            const doc = new PDFDocument({
+                size: [pageWidth, 2 * RECEIPT_MARGIN + lines.length * lineHeight],
+                margin: RECEIPT_MARGIN,
+                info: { Title: `Struk ${sale.transaction.number}` },
+            });
+
+            doc.fontSize(fontSize);
+            lines.forEach(([text, bold], index) => {
+                doc.font(bold ? 'Courier-Bold' : 'Courier').text(
+                    text,
+                    RECEIPT_MARGIN,
+                    RECEIPT_MARGIN + index * lineHeight,
+                    { lineBreak: false }
+                );
+            });
+
+            return {
+                data: {
+                    fileName: `receipt-${fileNameOf(sale.transaction.number)}.pdf`,
+                    content: await toBuffer(doc),
+                },
+                error: null,
+            };
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+
+    /**
+     * Render a sale as an A4 invoice
+     * For a credit sale the customer, due date and what is still owed are shown
+     */
+    async getInvoice(
+        businessId: number,
+        transactionId: number
+    ): Promise<{ data: TransactionDocument | null; error: any }> {
+        try {
+            const { data: sale, error } = await this.loadSale(businessId, transactionId);
+
+            if (error || !sale) {
+                return { data: null, error };
+            }
+
+            const { business, transaction, currency } = sale;
+            const doc = new PDFDocument({
+                size: 'A4',
+                margin: INVOICE_MARGIN,
+                info: { Title: `Invoice ${transaction.number}` },
+            });
+            const left = INVOICE_MARGIN;
+            const right = doc.page.width - INVOICE_MARGIN;
+            const contentWidth = right - left;
+
+            // Seller and document header
+            doc.font('Helvetica-Bold').fontSize(18).text(business.business_name, left, INVOICE_MARGIN, {
+                width: contentWidth / 2,
+            });
+            doc.font('Helvetica').fontSize(10);
+            if (business.location) {
+                doc.text(business.location, { width: contentWidth / 2 });
+            }
+            const sellerBottom = doc.y;
+
+            doc.font('Helvetica-Bold').fontSize(22).text('INVOICE', left, INVOICE_MARGIN, {
+                width: contentWidth,
+                align: 'right',
+            });
+            doc.font('Helvetica').fontSize(10);
+            const meta: [string, string][] = [
+                ['No.', transaction.number],
+                ['Tanggal', formatDateTime(transaction.transaction_date)],
+            ];
+            if (sale.credit) {
+                meta.push(['Jatuh tempo', formatDateTime(sale.credit.dueDate)]);
+            }
+            if (transaction.status === 'pending') {
+                meta.push(['Status', 'Belum selesai']);
+            }
+            for (const [label, value] of meta) {
+                doc.text(`${label}: ${value}`, left, doc.y, { width: contentWidth, align: 'right' });
+            }
+
+            let y = Math.max(sellerBottom, doc.y) + 20;
+
+            // Buyer
+            if (sale.credit) {
+                doc.font('Helvetica-Bold').text('Kepada:', left, y);
+                doc.font('Helvetica').text(sale.credit.customerName);
+                if (sale.credit.customerPhone) {
+                    doc.text(sale.credit.customerPhone);
+                }
+                y = doc.y + 20;
+            }
+
+            // Items
+            const columns: { header: string; x: number; width: number; align: 'left' | 'right' }[] = [
+                { header: 'No', x: left, width: 25, align: 'left' },
+                { header: 'Produk', x: left + 25, width: 185, align: 'left' },
+                { header: 'Qty', x: left + 210, width: 40, align: 'right' },
+                { header: `Harga (${currency})`, x: left + 250, width: 85, align: 'right' },
+                { header: 'Diskon', x: left + 335, width: 70, align: 'right' },
+                { header: 'Jumlah', x: left + 405, width: contentWidth - 405, align: 'right' },
+            ];
+
+            const drawHeader = () => {
+                doc.font('Helvetica-Bold').fontSize(9);
+                for (const column of columns) {
+                    doc.text(column.header, column.x, y, { width: column.width, align: column.align });
+                }
+                y += 14;
+                doc.moveTo(left, y).lineTo(right, y).stroke();
+                y += 6;
+                doc.font('Helvetica').fontSize(9);
+            };
+
+            drawHeader();
+            sale.lines.forEach((line, index) => {
+                const rowHeight = doc.heightOfString(line.name, { width: columns[1].width }) + 6;
+
+                if (y + rowHeight > doc.page.height - INVOICE_MARGIN) {
+                    doc.addPage();
+                    y = INVOICE_MARGIN;
+                    drawHeader();
+                }
+
+                const values = [
+                    String(index + 1),
+                    line.name,
+                    String(line.quantity),
+                    formatAmount(line.unitPrice, currency),
+                    line.discount > 0 ? `-${formatAmount(line.discount, currency)}` : '-',
+                    formatAmount(line.total, currency),
+                ];
+                values.forEach((value, i) => {
+                    doc.text(value, columns[i].x, y, { width: columns[i].width, align: columns[i].align });
+                });
+                y += rowHeight;
+            });
+
+            doc.moveTo(left, y).lineTo(right, y).stroke();
+            y += 10;
+
+            // Totals and payment, kept together on one page
+            const summary = this.summaryLines(sale);
+            if (y + (summary.length + sale.payments.length + 6) * 14 > doc.page.height - INVOICE_MARGIN) {
+                doc.addPage();
+                y = INVOICE_MARGIN;
+            }
+
+            const labelX = left + contentWidth - 250;
+            for (const [label, value, bold] of summary) {
+                doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(bold ? 11 : 10);
+                doc.text(label, labelX, y, { width: 140 });
+                doc.text(value, labelX + 140, y, { width: 110, align: 'right' });
+                y += bold ? 16 : 14;
+            }
+
+            y += 16;
+            doc.font('Helvetica-Bold').fontSize(10).text('Pembayaran', left, y);
+            doc.font('Helvetica');
+            for (const line of this.paymentLines(sale)) {
+                doc.text(line, left, doc.y, { width: contentWidth });
+            }
+
+            doc.fontSize(8).text(
+                'Dokumen ini dibuat secara elektronik dan sah tanpa tanda tangan.',
+                left,
+                doc.y + 30,
+                { width: contentWidth, align: 'center' }
+            );
+
+            return {
+                data: {
+                    fileName: `invoice-${fileNameOf(transaction.number)}.pdf`,
+                    content: await toBuffer(doc),
+                },
+                error: null,
+            };
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+
+    /**
+     * Load a sale of the business with its business, lines and payments
+     * Only income transactions that are not cancelled have documents
+     */
+    private async loadSale(
+        businessId: number,
+        transactionId: number
+    ): Promise<{ data: SaleDocument | null; error: any }> {
+        const [
+            { data: transaction, error: transactionError },
+            { data: business, error: businessError },
+        ] = await Promise.all([
+            this.repos.transactions.findWithDetails(transactionId),
+            this.repos.businesses.findById(businessId),
+        ]);
+
+        if (transactionError || businessError) {
+            return { data: null, error: transactionError || businessError };
+        }
+
+        if (!transaction || !business || transaction.business_id !== businessId) {
+            return { data: null, error: new Error('Transaction not found') };
+        }
+
+        if (transaction.type !== 'Income') {
+            return {
+                data: null,
+                error: new Error('Receipts and invoices are only available for income transactions'),
+            };
+        }
+
+        if (transaction.status === 'cancel') {
+            return {
+                data: null,
+                error: new Error('Cancelled transactions have no receipt or invoice'),
+            };
+        }
+
+        const details = transaction.TransactionDetails || [];
+        const lines: DocumentLine[] =
+            details.length > 0
+                ? details.map(detail => {
+                      const unitPrice = Number(detail.unit_price_at_transaction);
+                      const discount = Number(detail.discount_amount);
+                      return {
+                          name: detail.Products?.name ?? `Produk #${detail.product_id}`,
+                          quantity: detail.quantity,
+                          unitPrice,
+                          discount,
+                          total: round2(unitPrice * detail.quantity - discount),
+                      };
+                  })
+                : [
+                      {
+                          name: transaction.description || transaction.category || 'Pemasukan',
+                          quantity: 1,
+                          unitPrice: Number(transaction.subtotal),
+                          discount: 0,
+                          total: Number(transaction.subtotal),
+                      },
+                  ];
+
+        const lineDiscounts = lines.reduce((sum, line) => sum + line.discount, 0);
+        const taxRate = transaction.tax_rate !== null ? ` ${Number(transaction.tax_rate)}%` : '';
+
+        const payments: SaleDocument['payments'] = (transaction.TransactionPayments || []).map(payment => [
+            PAYMENT_METHOD_LABELS[payment.method],
+            Number(payment.amount),
+            payment.reference,
+        ]);
+        if (payments.length === 0 && transaction.payment_method) {
+            payments.push([
+                PAYMENT_METHOD_LABELS[transaction.payment_method],
+                Number(transaction.amount),
+                transaction.payment_reference,
+            ]);
+        }
+
+        const receivable = transaction.Receivables?.find(item => item.deleted_at === null);
+
+        return {
+            data: {
+                business,
+                transaction,
+                currency: transaction.currency,
+                lines,
+                itemsTotal: round2(Number(transaction.subtotal) - lineDiscounts),
+                saleDiscount: round2(Number(transaction.discount_amount) - lineDiscounts),
+                tax: Number(transaction.tax_amount),
+                taxLabel: `PPN${taxRate}${transaction.tax_inclusive ? ' (termasuk)' : ''}`,
+                total: Number(transaction.amount),
+                payments,
+                credit: receivable
+                    ? {
+                          customerName: receivable.customer_name,
+                          customerPhone: receivable.customer_phone,
+                          dueDate: receivable.due_date,
+                          paid: Number(receivable.amount_paid),
+                          outstanding: round2(Number(receivable.amount) - Number(receivable.amount_paid)),
+                      }
+                    : null,
+            },
+            error: null,
+        };
+    }
+
+    /**
+     * Subtotal, discount, tax and total lines: [label, value, bold]
+     * A sale in another currency also shows the rate and the base currency total
+     */
+    private summaryLines(sale: SaleDocument): [string, string, boolean][] {
+        const { business, transaction, currency } = sale;
+        const lines: [string, string, boolean][] = [['Subtotal', formatAmount(sale.itemsTotal, currency), false]];
+
+        if (sale.saleDiscount > 0) {
+            lines.push(['Diskon', `-${formatAmount(sale.saleDiscount, currency)}`, false]);
+        }
+        if (sale.tax > 0) {
+            lines.push([sale.taxLabel, formatAmount(sale.tax, currency), false]);
+        }
+        lines.push(['TOTAL', formatMoney(sale.total, currency), true]);
+
+        if (currency !== business.base_currency) {
+            lines.push([
+                `Kurs 1 ${currency}`,
+                formatMoney(Number(transaction.exchange_rate), business.base_currency),
+                false,
+            ]);
+            lines.push([
+                `Total ${business.base_currency}`,
+                formatMoney(Number(transaction.base_amount), business.base_currency),
+                false,
+            ]);
+        }
+
+        return lines;
+    }
+
+    /**
+     * Payment information lines (methods and references, or credit terms)
+     */
+    private paymentLines(sale: SaleDocument): string[] {
+        const { currency } = sale;
+
+        if (sale.credit) {
+            return [
+                `Kredit (kasbon) a.n. ${sale.credit.customerName}`,
+                `Jatuh tempo: ${formatDateTime(sale.credit.dueDate)}`,
+                `Sudah dibayar: ${formatMoney(sale.credit.paid, currency)}`,
+                `Sisa tagihan: ${formatMoney(sale.credit.outstanding, currency)}`,
+            ];
+        }
+
+        if (sale.payments.length === 0) {
+            return ['Metode pembayaran tidak dicatat'];
+        }
+
+        return sale.payments.map(
+            ([label, amount, reference]) =>
+                `${label}: ${formatMoney(amount, currency)}${reference ? ` (Ref: ${reference})` : ''}`
+        );
+    }
+
+    /**
+     * Receipt text lines for a fixed-width font: [text, bold]
+     */
+    private receiptLines(sale: SaleDocument, columns: number): [string, boolean][] {
+        const { business, transaction, currency } = sale;
+        const lines: [string, boolean][] = [];
+        const add = (texts: string[], bold: boolean = false) => texts.forEach(text => lines.push([text, bold]));
+        const separator = '-'.repeat(columns);
+
+        add(center(business.business_name, columns), true);
+        if (business.location) {
+            add(center(business.location, columns));
+        }
+        add([separator]);
+        add(pair('No', transaction.number, columns));
+        add(pair('Tanggal', formatDateTime(transaction.transaction_date), columns));
+        if (transaction.status === 'pending') {
+            add(pair('Status', 'Belum selesai', columns));
+        }
+        add([separator]);
+
+        for (const line of sale.lines) {
+            add(wrap(line.name, columns));
+            add(
+                pair(
+                    `  ${line.quantity} x ${formatAmount(line.unitPrice, currency)}`,
+                    formatAmount(round2(line.quantity * line.unitPrice), currency),
+                    columns
+                )
+            );
+            if (line.discount > 0) {
+                add(pair('  Diskon', `-${formatAmount(line.discount, currency)}`, columns));
+            }
+        }
+
+        add([separator]);
+        for (const [label, value, bold] of this.summaryLines(sale)) {
+            add(pair(label, value, columns), bold);
+        }
+        add([separator]);
+        for (const text of this.paymentLines(sale)) {
+            add(wrap(text, columns));
+        }
+        add(['']);
+        add(center('Terima kasih', columns));
+
+        return lines;
+    }
+}
@@ -0,0 +1,269 @@
+/**
+ * Transaction Export Service
+ * Streams transactions with their line items as CSV or XLSX spreadsheets
+ */
+
+import type { Writable } from 'stream';
+import ExcelJS from 'exceljs';
+import { BaseService } from './base.service';
+import type { TransactionFilters } from '../repositories/transaction.repository';
+import type { TransactionWithDetails } from '../models/transaction.model';
+import { toCsvLine, escapeFormula } from '../utils/csv.util';
+import { formatMoney, moneyNumberFormat } from '../utils/currency.util';
+import { round2 } from '../utils/pricing.util';
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+export interface ExportSummary {
+    transactions: number;
+    rows: number;
+    totals: { income: number; expense: number; net: number };
+}
+
+// Transactions fetched per database round trip
+const EXPORT_PAGE_SIZE = 500;
+
+// money: 'transaction' columns are in the currency of the row,
+// 'base' columns in the base currency of the business
+const COLUMNS: { header: string; width: number; money?: 'transaction' | 'base' }[] = [
+    { header: 'Tanggal', width: 12 },
+    { header: 'No. Transaksi', width: 20 },
+    { header: 'Jenis', width: 10 },
+    { header: 'Kategori', width: 18 },
+    { header: 'Status', width: 10 },
+    { header: 'Keterangan', width: 30 },
+    { header: 'Mata Uang', width: 10 },
+    { header: 'Produk', width: 24 },
+    { header: 'Jumlah', width: 8 },
+    { header: 'Harga Satuan', width: 16, money: 'transaction' },
+    { header: 'Subtotal', width: 16, money: 'transaction' },
+    { header: 'Total Transaksi', width: 18, money: 'transaction' },
+    { header: 'Total (Mata Uang Dasar)', width: 22, money: 'base' },
+];
+
+const CURRENCY_COLUMN = COLUMNS.findIndex(column => column.header === 'Mata Uang');
+
+type ExportRow = (string | number | null)[];
+
+/**
+ * Flatten a transaction into one row per line item
+ * Transactions without line items (general transactions) get a single row.
+ * The line subtotal is after the line discount.
+ * The transaction totals are only on the first row, so summing the columns
+ * does not count a transaction more than once.
+ */
+function toRows(transaction: TransactionWithDetails): ExportRow[] {
+    const base = [
+        transaction.transaction_date.split('T')[0],
+        transaction.number,
+        transaction.type === 'Income' ? 'Pemasukan' : 'Pengeluaran',
+        transaction.category,
+        transaction.status,
+        transaction.description,
+        transaction.currency,
+    ];
+    const amount = Number(transaction.amount);
+    const baseAmount = Number(transaction.base_amount);
+    const details = transaction.TransactionDetails || [];
+
+    if (details.length === 0) {
+        return [[...base, null, null, null, null, amount, baseAmount]];
+    }
+
+    return details.map((detail, index) => {
+        const unitPrice = Number(detail.unit_price_at_transaction);
+        return [
+            ...base,
+            detail.Products?.name ?? `Produk #${detail.product_id}`,
+            detail.quantity,
+            unitPrice,
+            round2(unitPrice * detail.quantity - Number(detail.discount_amount)),
+            index === 0 ? amount : null,
+            index === 0 ? baseAmount : null,
+        ];
+    });
+}
+
+/**
+ * Currency of a money cell of a row
+ */
+function columnCurrency(row: ExportRow, column: number, baseCurrency: string): string {
+    return COLUMNS[column].money === 'base' ? baseCurrency : String(row[CURRENCY_COLUMN] ?? baseCurrency);
+}
+
+export class TransactionExportService extends BaseService {
+    /**
+     * Write transactions matching the filters to the output stream
+     * - Reads transactions page by page, so memory stays flat for large exports
+     * - Amounts are in the currency of the transaction, next to the total in
+     *   the base currency of the business
+     * - CSV shows money as text with its currency; XLSX keeps numeric cells
+     *   with a number format of the currency
+     * - Footer totals only count complete transactions and use the base
+     *   currency amount, like getTotalsByType (the last column)
+     * Output is not ended on error; the caller decides how to abort
+     */
+    async exportTransactions(
+        businessId: number,
+        filters: TransactionFilters | undefined,
+        format: ExportFormat,
+        output: Writable
+    ): Promise<{ data: ExportSummary | null; error: any }> {
+        try {
+            const summary: ExportSummary = {
+                transactions: 0,
+                rows: 0,
+                totals: { income: 0, expense: 0, net: 0 },
+            };
+
+            const { data: business, error: businessError } = await this.repos.businesses.findById(businessId);
+
+            if (businessError || !business) {
+                return { data: null, error: businessError || new Error('Business not found') };
+            }
+
+            const baseCurrency = business.base_currency;
+            const writer =
+                format === 'xlsx' ? this.xlsxWriter(output, baseCurrency) : this.csvWriter(output, baseCurrency);
+
+            for (let offset = 0; ; offset += EXPORT_PAGE_SIZE) {
+                const { data: page, error } = await this.repos.transactions.findPageWithDetails(
+                    businessId,
+                    filters,
+                    offset,
+                    EXPORT_PAGE_SIZE
+                );
+
+                if (error || !page) {
+                    return { data: null, error: error || new Error('Failed to fetch transactions') };
+                }
+
+                for (const transaction of page) {
+                    for (const row of toRows(transaction)) {
+                        await writer.row(row);
+                        summary.rows++;
+                    }
+
+                    summary.transactions++;
+                    if (transaction.status === 'complete') {
+                        if (transaction.type === 'Income') {
+                            summary.totals.income += Number(transaction.base_amount);
+                        } else {
+                            summary.totals.expense += Number(transaction.base_amount);
+                        }
+                    }
+                }
+
+                if (page.length < EXPORT_PAGE_SIZE) {
+                    break;
+                }
+            }
+
+            summary.totals.net = summary.totals.income - summary.totals.expense;
+            await writer.finish(summary);
+
+            return { data: summary, error: null };
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+
+    /**
+     * CSV writer: UTF-8 BOM so Excel detects the encoding, money as text with
+     * its currency (e.g. "Rp 1.500.000", "USD 100,00"), text that looks like
+     * a formula prefixed with '
+     */
+    private csvWriter(output: Writable, baseCurrency: string) {
+        const write = (values: ExportRow) =>
+            new Promise<void>((resolve, reject) => {
+                output.write(toCsvLine(values), error => (error ? reject(error) : resolve()));
+            });
+
+        let started = false;
+        const start = async () => {
+            if (!started) {
+                started = true;
+                await write(['\uFEFF' + COLUMNS[0].header, ...COLUMNS.slice(1).map(c => c.header)]);
+            }
+        };
+
+        return {
+            row: async (row: ExportRow) => {
+                await start();
+                await write(
+                    row.map((value, i) => {
+                        if (COLUMNS[i].money && typeof value === 'number') {
+                            return formatMoney(value, columnCurrency(row, i, baseCurrency));
+                        }
+                        // Description, category and product names are user text
+                        return typeof value === 'string' ? escapeFormula(value) : value;
+                    })
+                );
+            },
+            finish: async (summary: ExportSummary) => {
+                await start();
+                const label = COLUMNS.length - 2;
+                await write([]);
+                for (const [name, value] of this.footer(summary)) {
+                    const line: ExportRow = new Array(COLUMNS.length).fill(null);
+                    line[label] = name;
+                    line[label + 1] = formatMoney(value, baseCurrency);
+                    await write(line);
+                }
+                output.end();
+            },
+        };
+    }
+
+    /**
+     * XLSX writer: streamed workbook, money cells use the number format of
+     * their currency
+     */
+    private xlsxWriter(output: Writable, baseCurrency: string) {
+        const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: output, useStyles: true });
+        const sheet = workbook.addWorksheet('Transaksi');
+        sheet.columns = COLUMNS.map(column => ({
+            header: column.header,
+            width: column.width,
+            style: column.money ? { numFmt: moneyNumberFormat(baseCurrency) } : {},
+        }));
+        sheet.getRow(1).font = { bold: true };
+
+        return {
+            row: async (row: ExportRow) => {
+                const added = sheet.addRow(row);
+                COLUMNS.forEach((column, i) => {
+                    if (column.money) {
+                        added.getCell(i + 1).numFmt = moneyNumberFormat(columnCurrency(row, i, baseCurrency));
+                    }
+                });
+                added.commit();
+            },
+            finish: async (summary: ExportSummary) => {
+                const label = COLUMNS.length - 2;
+                sheet.addRow([]).commit();
+                for (const [name, value] of this.footer(summary)) {
+                    const line: ExportRow = new Array(COLUMNS.length).fill(null);
+                    line[label] = name;
+                    line[label + 1] = value;
+                    const footerRow = sheet.addRow(line);
+                    footerRow.font = { bold: true };
+                    footerRow.commit();
+                }
+                sheet.commit();
+                await workbook.commit();
+            },
+        };
+    }
+
+    /**
+     * Totals footer lines
+     */
+    private footer(summary: ExportSummary): [string, number][] {
+        return [
+            ['Total Pemasukan', summary.totals.income],
+            ['Total Pengeluaran', summary.totals.expense],
+            ['Selisih', summary.totals.net],
+        ];
+    }
+}
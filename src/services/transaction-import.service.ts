@@ -0,0 +1,288 @@
+/**
+ * Transaction Import Service
+ * Imports bookkeeping history from CSV with user-defined column mapping
+ */
+
+import { BaseService } from './base.service';
+import type { CreateTransactionDTO, TransactionType } from '../models/transaction.model';
+import { parseCsv } from '../utils/csv.util';
+
+/**
+ * CreateTransactionDTO fields that can be mapped from a CSV column
+ */
+export type ImportField = 'date' | 'type' | 'category' | 'amount' | 'description';
+
+/**
+ * Column mapping: DTO field -> CSV header name
+ * date, type and amount are required
+ */
+export type ImportColumnMapping = Partial<Record<ImportField, string>>;
+
+export interface ImportRowError {
+    // 1-based data row number (the header row is not counted)
+    row: number;
+    field?: ImportField;
+    message: string;
+}
+
+export interface ImportResult {
+    dryRun: boolean;
+    totalRows: number;
+    validRows: number;
+    errors: ImportRowError[];
+    // Number of transactions inserted (0 on dry-run)
+    imported: number;
+    totals: { income: number; expense: number; net: number };
+    // First valid rows as they would be inserted, for review
+    preview: CreateTransactionDTO[];
+}
+
+export const IMPORT_FIELDS: ImportField[] = ['date', 'type', 'category', 'amount', 'description'];
+const REQUIRED_FIELDS: ImportField[] = ['date', 'type', 'amount'];
+export const MAX_IMPORT_ROWS = 5000;
+const PREVIEW_ROWS = 20;
+
+const TYPE_ALIASES: Record<string, TransactionType> = {
+    income: 'Income',
+    pemasukan: 'Income',
+    expense: 'Expense',
+    pengeluaran: 'Expense',
+};
+
+/**
+ * Parse a date as YYYY-MM-DD (optionally with time), DD/MM/YYYY or DD-MM-YYYY
+ * @returns ISO date string, or null if invalid
+ */
+export function parseImportDate(value: string): string | null {
+    let year: number;
+    let month: number;
+    let day: number;
+
+    const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})(?:[T ][\d:.]+Z?)?$/);
+    const local = value.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{4})$/);
+
+    if (iso) {
+        [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+    } else if (local) {
+        [day, month, year] = [Number(local[1]), Number(local[2]), Number(local[3])];
+    } else {
+        return null;
+    }
+
+    const date = new Date(Date.UTC(year, month - 1, day));
+    if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+        return null;
+    }
+
+    return date.toISOString();
+}
+
+/**
+ * Parse an amount written as 1500000, 1.500.000, 1.500.000,50, 1,500,000.50
+ * or with an "Rp" prefix
+ * @returns Amount, or NaN if the format is not recognized
+ */
+export function parseImportAmount(value: string): number {
+    const cleaned = value.replace(/^(rp|idr)\.?/i, '').replace(/\s/g, '');
+
+    if (/^\d{1,3}(\.\d{3})+(,\d+)?$/.test(cleaned)) {
+        return Number(cleaned.replace(/\./g, '').replace(',', '.'));
+    }
+    if (/^\d{1,3}(,\d{3})+(\.\d+)?$/.test(cleaned)) {
+        return Number(cleaned.replace(/,/g, ''));
+    }
+    if (/^\d+,\d+$/.test(cleaned)) {
+        return Number(cleaned.replace(',', '.'));
+    }
+    if (/^\d+(\.\d+)?$/.test(cleaned)) {
+        return Number(cleaned);
+    }
+    return NaN;
+}
+
+export class TransactionImportService extends BaseService {
+    /**
+     * Validate and (unless dry-run) import transactions from CSV
+     * - Every row is validated first; errors are reported per row and field
+     * - Categories must exist in the business for the row's type
+     * - Dates must not be in a closed accounting period
+     * - Commit only happens when all rows are valid (all or nothing)
+     * - Imported transactions are complete and go into one money account
+     *   (default account when omitted); the balance is adjusted once for the
+     *   whole batch (import_transactions)
+     */
+    async importCsv(
+        businessId: number,
+        csvText: string,
+        mapping: ImportColumnMapping,
+        dryRun: boolean,
+        accountId?: number
+    ): Promise<{ data: ImportResult | null; error: any }> {
+        try {
+            const [header, ...rows] = parseCsv(csvText);
+
+            if (!header) {
+                return { data: null, error: new Error('CSV file is empty') };
+            }
+
+            if (rows.length > MAX_IMPORT_ROWS) {
+                return {
+                    data: null,
+                    error: new Error(`CSV file has more than ${MAX_IMPORT_ROWS} rows`),
+                };
+            }
+
+            // Resolve mapped header names to column indexes
+            const headerIndex = new Map(header.map((name, index) => [name.trim().toLowerCase(), index]));
+            const columns: Partial<Record<ImportField, number>> = {};
+
+            for (const field of REQUIRED_FIELDS) {
+                if (!mapping[field]) {
+                    return { data: null, error: new Error(`Column mapping for "${field}" is required`) };
+                }
+            }
+
+            for (const field of IMPORT_FIELDS) {
+                const column = mapping[field];
+                if (!column) continue;
+
+                const index = headerIndex.get(column.trim().toLowerCase());
+                if (index === undefined) {
+                    return { data: null, error: new Error(`Column "${column}" not found in CSV header`) };
+                }
+                columns[field] = index;
+            }
+
+            const valueOf = (row: string[], field: ImportField): string =>
+                columns[field] === undefined ? '' : (row[columns[field]!] ?? '').trim();
+
+            // Category names by type and lowercased name
+            const { data: categories, error: categoriesError } =
+                await this.repos.transactionCategories.findByBusinessId(businessId);
+
+            if (categoriesError || !categories) {
+                return { data: null, error: categoriesError || new Error('Failed to fetch categories') };
+            }
+
+            const categoryNames = new Map(
+                categories.map(category => [`${category.type}:${category.name.toLowerCase()}`, category.name])
+            );
+
+            // Rows dated in a closed month are rejected like invalid rows
+            const { data: closedPeriods, error: periodsError } =
+                await this.repos.accountingPeriods.findByBusinessId(businessId, 'closed');
+
+            if (periodsError || !closedPeriods) {
+                return { data: null, error: periodsError || new Error('Failed to fetch accounting periods') };
+            }
+
+            const closedMonths = new Set(closedPeriods.map(period => period.period_start.slice(0, 7)));
+
+            const errors: ImportRowError[] = [];
+            const transactions: CreateTransactionDTO[] = [];
+            const totals = { income: 0, expense: 0, net: 0 };
+
+            rows.forEach((row, i) => {
+                const rowNumber = i + 1;
+                const rowErrors: ImportRowError[] = [];
+
+                const date = parseImportDate(valueOf(row, 'date'));
+                if (!date) {
+                    rowErrors.push({
+                        row: rowNumber,
+                        field: 'date',
+                        message: 'Date must be YYYY-MM-DD or DD/MM/YYYY',
+                    });
+                } else if (closedMonths.has(date.slice(0, 7))) {
+                    rowErrors.push({
+                        row: rowNumber,
+                        field: 'date',
+                        message: `Period ${date.slice(0, 7)} is closed`,
+                    });
+                }
+
+                const type = TYPE_ALIASES[valueOf(row, 'type').toLowerCase()];
+                if (!type) {
+                    rowErrors.push({
+                        row: rowNumber,
+                        field: 'type',
+                        message: 'Type must be Income or Expense',
+                    });
+                }
+
+                const categoryValue = valueOf(row, 'category');
+                const category = categoryValue
+                    ? categoryNames.get(`${type}:${categoryValue.toLowerCase()}`)
+                    : undefined;
+                if (categoryValue && type && !category) {
+                    rowErrors.push({
+                        row: rowNumber,
+                        field: 'category',
+                        message: `Category "${categoryValue}" not found for ${type} transactions`,
+                    });
+                }
+
+                const amount = parseImportAmount(valueOf(row, 'amount'));
+                if (isNaN(amount) || amount <= 0) {
+                    rowErrors.push({
+                        row: rowNumber,
+                        field: 'amount',
+                        message: 'Amount must be a positive number',
+                    });
+                }
+
+                if (rowErrors.length > 0) {
+                    errors.push(...rowErrors);
+                    return;
+                }
+
+                transactions.push({
+                    business_id: businessId,
+                    transaction_date: date!,
+                    type,
+                    category,
+                    amount,
+                    description: valueOf(row, 'description') || undefined,
+                    status: 'complete',
+                });
+
+                if (type === 'Income') {
+                    totals.income += amount;
+                } else {
+                    totals.expense += amount;
+                }
+            });
+
+            totals.net = totals.income - totals.expense;
+
+            const result: ImportResult = {
+                dryRun,
+                totalRows: rows.length,
+                validRows: transactions.length,
+                errors,
+                imported: 0,
+                totals,
+                preview: transactions.slice(0, PREVIEW_ROWS),
+            };
+
+            if (dryRun || errors.length > 0 || transactions.length === 0) {
+                return { data: result, error: null };
+            }
+
+            const { data: imported, error } = await this.repos.transactions.importBatch(
+                businessId,
+                transactions,
+                accountId
+            );
+
+            if (error) {
+                return { data: null, error };
+            }
+
+            result.imported = imported ?? 0;
+            return { data: result, error: null };
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+}
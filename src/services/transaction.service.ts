@@ -1,21 +1,38 @@
 /**
  * Transaction Service
  * Orchestrates complex transaction operations with stock and balance management
+ * Journal entries are posted by the database when a transaction is completed,
+ * cancelled, edited or deleted (see the general ledger migration)
+ * Changes to transactions dated in a closed accounting period are rejected
+ * (the database locks them too, see the accounting periods migration)
  */
 
 import { BaseService } from "./base.service";
+import type { Repositories } from "./base.service";
+import type { AccountingPeriodService } from "./accounting-period.service";
 import type {
   Transaction,
   TransactionWithDetails,
+  TransactionWithReturns,
   TransactionType,
   TransactionStatus,
+  UpdateTransactionDTO,
 } from "../models/transaction.model";
 import type { CreateTransactionDetailDTO } from "../models/transaction-detail.model";
+import type { TaxRate } from "../models/tax-rate.model";
+import type {
+  PaymentMethod,
+  CreateTransactionPaymentDTO,
+} from "../models/transaction-payment.model";
+import { calculateSaleTotals, round2 } from "../utils/pricing.util";
+import type { Discount } from "../utils/pricing.util";
 
 export interface ProductSaleItem {
   productId: number;
   quantity: number;
   sellingPrice: number;
+  // Discount on the whole line (quantity * sellingPrice)
+  discount?: Discount;
 }
 
 export interface StockPurchaseItem {
@@ -28,22 +45,117 @@ export interface RecordSaleData {
   businessId: number;
   products: ProductSaleItem[];
   description?: string;
+  // Discount on the whole sale, applied after line discounts
+  discount?: Discount;
+  // Omitted: business default tax rate; null: no tax
+  taxRateId?: number | null;
+  // Single payment method, or payments split across methods
+  paymentMethod?: PaymentMethod;
+  paymentReference?: string;
+  payments?: CreateTransactionPaymentDTO[];
+  // Money account the sale is paid into (default account when omitted)
+  accountId?: number;
+  // Credit sale (kasbon): paid later through receivable payments
+  credit?: CreditSaleTerms;
+  // ISO 4217 code of the prices (business base currency when omitted)
+  currency?: string;
+}
+
+export interface CreditSaleTerms {
+  customerName: string;
+  customerPhone?: string;
+  // YYYY-MM-DD
+  dueDate: string;
 }
 
 export interface RecordPurchaseData {
   businessId: number;
   products: StockPurchaseItem[];
   description?: string;
+  paymentMethod?: PaymentMethod;
+  paymentReference?: string;
+  // Money account the purchase is paid from (default account when omitted)
+  accountId?: number;
+  // Credit purchase: paid later through payable payments
+  credit?: CreditPurchaseTerms;
+  // ISO 4217 code of the prices (business base currency when omitted)
+  currency?: string;
+}
+
+export interface CreditPurchaseTerms {
+  supplierName: string;
+  supplierPhone?: string;
+  // YYYY-MM-DD
+  dueDate: string;
+}
+
+export interface SalesReturnItem {
+  transactionDetailId: number;
+  quantity: number;
+}
+
+export interface RecordReturnData {
+  businessId: number;
+  transactionId: number;
+  items: SalesReturnItem[];
+  description?: string;
+}
+
+export interface TransactionItem {
+  productId: number;
+  quantity: number;
+  // Selling price (sale) or purchase price (purchase)
+  unitPrice: number;
+  // Discount on the whole line (sales only)
+  discount?: Discount;
+}
+
+export interface UpdateItemsData {
+  businessId: number;
+  transactionId: number;
+  // The complete new list of items
+  items: TransactionItem[];
+  // Discount on the whole sale, applied after line discounts (sales only)
+  discount?: Discount;
+  // New payments; required when the transaction was paid with split payments
+  payments?: CreateTransactionPaymentDTO[];
+}
+
+/**
+ * Status transitions that are allowed, by current status
+ */
+const ALLOWED_STATUS_TRANSITIONS: Record<TransactionStatus, TransactionStatus[]> = {
+  pending: ["complete", "cancel"],
+  complete: ["cancel"],
+  cancel: [],
+};
+
+export function isAllowedStatusTransition(
+  from: TransactionStatus,
+  to: TransactionStatus
+): boolean {
+  return ALLOWED_STATUS_TRANSITIONS[from].includes(to);
 }
 
 export class TransactionService extends BaseService {
+  private accountingPeriodService: AccountingPeriodService;
+
+  constructor(
+    repositories: Repositories,
+    accountingPeriodService: AccountingPeriodService
+  ) {
+    super(repositories);
+    this.accountingPeriodService = accountingPeriodService;
+  }
+
   /**
    * Record a product sale
-   * - Validates stock availability
-   * - Creates transaction with details (atomic)
-   * - Updates product stock (decrement)
-   * - Updates business balance (increment)
-   * - Manual rollback on failure
+   * - Computes subtotal, discounts, tax and grand total
+   * - Creates transaction with details
+   * - Decrements product stock (fails on insufficient stock)
+   * - Increments the money account (and business) balance by the grand total,
+   *   or creates a receivable for a credit sale (balance follows the payments)
+   * All steps run in one database transaction (record_transaction)
    */
   async recordProductSale(data: RecordSaleData): Promise<{
     data: TransactionWithDetails | null;
@@ -52,180 +164,94 @@ export class TransactionService extends BaseService {
     const { businessId, products, description } = data;
 
     try {
-      // Step 1: Validate stock availability for all products
-      for (const item of products) {
-        const { data: product, error } = await this.repos.products.findById(
-          item.productId
-        );
+      // Step 1: Resolve tax rate and calculate totals
+      const { data: taxRate, error: taxError } = await this.resolveTaxRate(
+        businessId,
+        data.taxRateId
+      );
 
-        if (error || !product) {
-          return {
-            data: null,
-            error: new Error(`Product ${item.productId} not found`),
-          };
-        }
+      if (taxError) {
+        return { data: null, error: taxError };
+      }
+
+      const totals = calculateSaleTotals(
+        products.map((item) => ({
+          quantity: item.quantity,
+          unitPrice: item.sellingPrice,
+          discount: item.discount,
+        })),
+        data.discount,
+        taxRate && { rate: Number(taxRate.rate), isInclusive: taxRate.is_inclusive }
+      );
 
-        if (product.current_stock < item.quantity) {
+      // Credit sales are paid later, not at the counter
+      const payments = data.payments || [];
+      if (data.credit && (data.paymentMethod || payments.length > 0)) {
+        return {
+          data: null,
+          error: new Error(
+            "Payment of a credit sale is recorded through receivable payments"
+          ),
+        };
+      }
+
+      // Split payments must cover exactly the grand total
+      if (payments.length > 0) {
+        const paid = payments.reduce((sum, payment) => sum + payment.amount, 0);
+        if (Math.abs(paid - totals.grandTotal) >= 0.01) {
           return {
             data: null,
             error: new Error(
-              `Insufficient stock for ${product.name}. Available: ${product.current_stock}, Required: ${item.quantity}`
+              `Payment amounts must add up to the total (${totals.grandTotal})`
             ),
           };
         }
       }
 
-      // Step 2: Calculate total amount
-      const totalAmount = products.reduce(
-        (sum, item) => sum + item.quantity * item.sellingPrice,
-        0
-      );
-
-      // Step 3: Create transaction with details (atomic within transaction table)
+      // Step 2: Build transaction and details
       const transactionDTO: Partial<Transaction> = {
         business_id: businessId,
         type: "Income" as TransactionType,
         category: "Sales",
-        amount: totalAmount,
+        amount: totals.grandTotal,
+        subtotal: totals.subtotal,
+        discount_amount: totals.discountAmount,
+        tax_amount: totals.taxAmount,
+        tax_rate_id: taxRate?.id ?? null,
+        tax_rate: taxRate ? Number(taxRate.rate) : null,
+        tax_inclusive: taxRate?.is_inclusive ?? false,
+        payment_method: data.paymentMethod ?? null,
+        payment_reference: data.paymentReference ?? null,
+        account_id: data.accountId ?? null,
+        credit_amount: data.credit ? totals.grandTotal : 0,
         description: description || "Product sale",
         status: "complete",
+        ...(data.currency && { currency: data.currency }),
       };
 
       const transactionDetailsDTO: CreateTransactionDetailDTO[] = products.map(
-        (item) => ({
-          transaction_id: 0, // Will be set by repository
+        (item, index) => ({
+          transaction_id: 0, // Will be set by the database procedure
           product_id: item.productId,
           quantity: item.quantity,
           unit_price_at_transaction: item.sellingPrice,
+          discount_amount: totals.lineDiscounts[index],
         })
       );
 
-      const { data: transaction, error: transactionError } =
-        await this.repos.transactions.createWithDetails(
-          transactionDTO,
-          transactionDetailsDTO
-        );
-
-      if (transactionError || !transaction) {
-        return { data: null, error: transactionError };
-      }
-
-      // Step 4: Update product stocks (with rollback on failure)
-      try {
-        for (const item of products) {
-          // Get current product to calculate new stock
-          const { data: product, error: fetchError } =
-            await this.repos.products.findById(item.productId);
-          if (fetchError || !product) {
-            await this.repos.transactions.delete(transaction.id);
-            return {
-              data: null,
-              error: new Error(
-                `Product ${item.productId} not found during stock update`
-              ),
-            };
-          }
-
-          // Calculate new stock (decrement for sale)
-          const newStock = product.current_stock - item.quantity;
-          const { error: stockError } = await this.repos.products.updateStock(
-            item.productId,
-            newStock
-          );
-
-          if (stockError) {
-            // ROLLBACK: Delete transaction if stock update fails
-            await this.repos.transactions.delete(transaction.id);
-            return {
-              data: null,
-              error: new Error(
-                `Failed to update stock for product ${item.productId}: ${stockError.message}`
-              ),
-            };
-          }
+      // Step 3: Record atomically (stock, balance, payments and receivable included)
+      return await this.repos.transactions.recordWithDetails(
+        transactionDTO,
+        transactionDetailsDTO,
+        payments,
+        {
+          receivable: data.credit && {
+            customer_name: data.credit.customerName,
+            customer_phone: data.credit.customerPhone,
+            due_date: data.credit.dueDate,
+          },
         }
-      } catch (stockUpdateError) {
-        // ROLLBACK: Delete transaction
-        await this.repos.transactions.delete(transaction.id);
-        return {
-          data: null,
-          error: new Error(`Stock update failed: ${stockUpdateError}`),
-        };
-      }
-
-      // Step 5: Update business balance (with rollback on failure)
-      try {
-        // Get current business to calculate new balance
-        const { data: business, error: fetchError } =
-          await this.repos.businesses.findById(businessId);
-        if (fetchError || !business) {
-          // ROLLBACK: Restore stock and delete transaction
-          for (const item of products) {
-            const { data: product } = await this.repos.products.findById(
-              item.productId
-            );
-            if (product) {
-              await this.repos.products.updateStock(
-                item.productId,
-                product.current_stock + item.quantity
-              );
-            }
-          }
-          await this.repos.transactions.delete(transaction.id);
-          return {
-            data: null,
-            error: new Error("Business not found during balance update"),
-          };
-        }
-
-        // Calculate new balance (increment for sale)
-        const newBalance = business.current_balance + totalAmount;
-        const { error: balanceError } =
-          await this.repos.businesses.updateBalance(businessId, newBalance);
-
-        if (balanceError) {
-          // ROLLBACK: Restore stock and delete transaction
-          for (const item of products) {
-            const { data: product } = await this.repos.products.findById(
-              item.productId
-            );
-            if (product) {
-              await this.repos.products.updateStock(
-                item.productId,
-                product.current_stock + item.quantity
-              );
-            }
-          }
-          await this.repos.transactions.delete(transaction.id);
-          return {
-            data: null,
-            error: new Error(
-              `Failed to update balance: ${balanceError.message}`
-            ),
-          };
-        }
-      } catch (balanceUpdateError) {
-        // ROLLBACK: Restore stock and delete transaction
-        for (const item of products) {
-          const { data: product } = await this.repos.products.findById(
-            item.productId
-          );
-          if (product) {
-            await this.repos.products.updateStock(
-              item.productId,
-              product.current_stock + item.quantity
-            );
-          }
-        }
-        await this.repos.transactions.delete(transaction.id);
-        return {
-          data: null,
-          error: new Error(`Balance update failed: ${balanceUpdateError}`),
-        };
-      }
-
-      // Success: Return transaction with details
-      return { data: transaction, error: null };
+      );
     } catch (error) {
       return { data: null, error };
     }
@@ -233,10 +259,11 @@ export class TransactionService extends BaseService {
 
   /**
    * Record a stock purchase
-   * - Creates transaction with details (atomic)
-   * - Updates product stock (increment)
-   * - Updates business balance (decrement)
-   * - Manual rollback on failure
+   * - Creates transaction with details
+   * - Increments product stock
+   * - Decrements the money account (and business) balance, or creates a
+   *   payable for a credit purchase (balance follows the payments)
+   * All steps run in one database transaction (record_transaction)
    */
   async recordStockPurchase(data: RecordPurchaseData): Promise<{
     data: TransactionWithDetails | null;
@@ -245,171 +272,60 @@ export class TransactionService extends BaseService {
     const { businessId, products, description } = data;
 
     try {
-      // Step 1: Validate products exist
-      for (const item of products) {
-        const { data: product, error } = await this.repos.products.findById(
-          item.productId
-        );
-
-        if (error || !product) {
-          return {
-            data: null,
-            error: new Error(`Product ${item.productId} not found`),
-          };
-        }
+      if (data.credit && data.paymentMethod) {
+        return {
+          data: null,
+          error: new Error(
+            "Payment of a credit purchase is recorded through payable payments"
+          ),
+        };
       }
 
-      // Step 2: Calculate total amount
-      const totalAmount = products.reduce(
-        (sum, item) => sum + item.quantity * item.purchasePrice,
-        0
+      // Step 1: Calculate total amount (rounded like the sale totals)
+      const totalAmount = round2(
+        products.reduce(
+          (sum, item) => sum + item.quantity * item.purchasePrice,
+          0
+        )
       );
 
-      // Step 3: Create transaction with details (atomic within transaction table)
+      // Step 2: Build transaction and details
       const transactionDTO: Partial<Transaction> = {
         business_id: businessId,
         type: "Expense" as TransactionType,
         category: "Stock Purchase",
         amount: totalAmount,
+        payment_method: data.paymentMethod ?? null,
+        payment_reference: data.paymentReference ?? null,
+        account_id: data.accountId ?? null,
+        credit_amount: data.credit ? totalAmount : 0,
         description: description || "Stock purchase",
         status: "complete",
+        ...(data.currency && { currency: data.currency }),
       };
 
       const transactionDetailsDTO: CreateTransactionDetailDTO[] = products.map(
         (item) => ({
-          transaction_id: 0, // Will be set by repository
+          transaction_id: 0, // Will be set by the database procedure
           product_id: item.productId,
           quantity: item.quantity,
           unit_price_at_transaction: item.purchasePrice,
         })
       );
 
-      const { data: transaction, error: transactionError } =
-        await this.repos.transactions.createWithDetails(
-          transactionDTO,
-          transactionDetailsDTO
-        );
-
-      if (transactionError || !transaction) {
-        return { data: null, error: transactionError };
-      }
-
-      // Step 4: Update product stocks (with rollback on failure)
-      try {
-        for (const item of products) {
-          // Get current product to calculate new stock
-          const { data: product, error: fetchError } =
-            await this.repos.products.findById(item.productId);
-          if (fetchError || !product) {
-            await this.repos.transactions.delete(transaction.id);
-            return {
-              data: null,
-              error: new Error(
-                `Product ${item.productId} not found during stock update`
-              ),
-            };
-          }
-
-          // Calculate new stock (increment for purchase)
-          const newStock = product.current_stock + item.quantity;
-          const { error: stockError } = await this.repos.products.updateStock(
-            item.productId,
-            newStock
-          );
-
-          if (stockError) {
-            // ROLLBACK: Delete transaction if stock update fails
-            await this.repos.transactions.delete(transaction.id);
-            return {
-              data: null,
-              error: new Error(
-                `Failed to update stock for product ${item.productId}: ${stockError.message}`
-              ),
-            };
-          }
-        }
-      } catch (stockUpdateError) {
-        // ROLLBACK: Delete transaction
-        await this.repos.transactions.delete(transaction.id);
-        return {
-          data: null,
-          error: new Error(`Stock update failed: ${stockUpdateError}`),
-        };
-      }
-
-      // Step 5: Update business balance (with rollback on failure)
-      try {
-        // Get current business to calculate new balance
-        const { data: business, error: fetchError } =
-          await this.repos.businesses.findById(businessId);
-        if (fetchError || !business) {
-          // ROLLBACK: Restore stock and delete transaction
-          for (const item of products) {
-            const { data: product } = await this.repos.products.findById(
-              item.productId
-            );
-            if (product) {
-              await this.repos.products.updateStock(
-                item.productId,
-                product.current_stock - item.quantity
-              );
-            }
-          }
-          await this.repos.transactions.delete(transaction.id);
-          return {
-            data: null,
-            error: new Error("Business not found during balance update"),
-          };
-        }
-
-        // Calculate new balance (decrement for purchase)
-        const newBalance = business.current_balance - totalAmount;
-        const { error: balanceError } =
-          await this.repos.businesses.updateBalance(businessId, newBalance);
-
-        if (balanceError) {
-          // ROLLBACK: Restore stock and delete transaction
-          for (const item of products) {
-            const { data: product } = await this.repos.products.findById(
-              item.productId
-            );
-            if (product) {
-              await this.repos.products.updateStock(
-                item.productId,
-                product.current_stock - item.quantity
-              );
-            }
-          }
-          await this.repos.transactions.delete(transaction.id);
-          return {
-            data: null,
-            error: new Error(
-              `Failed to update balance: ${balanceError.message}`
-            ),
-          };
-        }
-      } catch (balanceUpdateError) {
-        // ROLLBACK: Restore stock and delete transaction
-        for (const item of products) {
-          const { data: product } = await this.repos.products.findById(
-            item.productId
-          );
-          if (product) {
-            await this.repos.products.updateStock(
-              item.productId,
-              product.current_stock - item.quantity
-            );
-          }
+      // Step 3: Record atomically (stock, balance and payable included)
+      return await this.repos.transactions.recordWithDetails(
+        transactionDTO,
+        transactionDetailsDTO,
+        [],
+        {
+          payable: data.credit && {
+            supplier_name: data.credit.supplierName,
+            supplier_phone: data.credit.supplierPhone,
+            due_date: data.credit.dueDate,
+          },
         }
-        await this.repos.transactions.delete(transaction.id);
-        return {
-          data: null,
-          error: new Error(`Balance update failed: ${balanceUpdateError}`),
-        };
-      }
-
-      // Success: Return transaction with details
-      return { data: transaction, error: null };
+      );
     } catch (error) {
       return { data: null, error };
     }
@@ -417,9 +333,10 @@ export class TransactionService extends BaseService {
 
   /**
    * Create general transaction (Income/Expense) without products
-   * - Creates transaction
-   * - Updates business balance
-   * - Manual rollback on failure
+   * - Creates transaction (converted to the base currency at the rate of its
+   *   date when another currency is given)
+   * - Updates business balance when status is complete
+   * Both steps run in one database transaction (record_transaction)
    */
   async createGeneralTransaction(data: {
     businessId: number;
@@ -428,14 +345,43 @@ export class TransactionService extends BaseService {
     amount: number;
     description?: string;
     status?: TransactionStatus;
+    transactionDate?: string;
+    recurringTransactionId?: number;
+    paymentMethod?: PaymentMethod;
+    paymentReference?: string;
+    accountId?: number;
+    currency?: string;
   }): Promise<{
     data: Transaction | null;
     error: any;
   }> {
-    const { businessId, type, category, amount, description, status } = data;
+    const {
+      businessId,
+      type,
+      category,
+      amount,
+      description,
+      status,
+      transactionDate,
+      recurringTransactionId,
+      paymentMethod,
+      paymentReference,
+      accountId,
+      currency,
+    } = data;
 
     try {
-      // Step 1: Create transaction
+      if (transactionDate) {
+        const { error: periodError } =
+          await this.accountingPeriodService.findClosedPeriodError(businessId, [
+            transactionDate,
+          ]);
+
+        if (periodError) {
+          return { data: null, error: periodError };
+        }
+      }
+
       const transactionDTO: Partial<Transaction> = {
         business_id: businessId,
         type: type,
@@ -443,63 +389,93 @@ export class TransactionService extends BaseService {
         amount: amount,
         description: description || null,
         status: status || "complete", // Default to complete for balance update
+        payment_method: paymentMethod ?? null,
+        payment_reference: paymentReference ?? null,
+        account_id: accountId ?? null,
+        ...(transactionDate && { transaction_date: transactionDate }),
+        ...(recurringTransactionId && {
+          recurring_transaction_id: recurringTransactionId,
+        }),
+        ...(currency && { currency }),
       };
 
-      const { data: transaction, error: transactionError } =
-        await this.repos.transactions.create(transactionDTO);
+      return await this.repos.transactions.recordWithDetails(
+        transactionDTO,
+        []
+      );
+    } catch (error) {
+      return { data: null, error };
+    }
+  }
 
-      if (transactionError || !transaction) {
-        return { data: null, error: transactionError };
+  /**
+   * Record a sales return (partial refund)
+   * - Validates the sale belongs to the business
+   * - Puts returned quantities back into stock
+   * - Records an offsetting Expense linked to the sale
+   * Quantity checks and all changes run in one database transaction
+   * (record_sales_return), so more than was sold can never be returned
+   */
+  async recordSalesReturn(data: RecordReturnData): Promise<{
+    data: TransactionWithDetails | null;
+    error: any;
+  }> {
+    const { businessId, transactionId, items, description } = data;
+
+    try {
+      const { data: sale, error: findError } =
+        await this.repos.transactions.findById(transactionId);
+
+      if (findError || !sale) {
+        return { data: null, error: new Error("Transaction not found") };
       }
 
-      // Only update balance if status is complete
-      if (transaction.status === "complete") {
-        // Step 2: Update business balance (with rollback on failure)
-        try {
-          // Get current business to calculate new balance
-          const { data: business, error: fetchError } =
-            await this.repos.businesses.findById(businessId);
-          if (fetchError || !business) {
-            // ROLLBACK: Delete transaction
-            await this.repos.transactions.delete(transaction.id);
-            return {
-              data: null,
-              error: new Error("Business not found during balance update"),
-            };
-          }
-
-          // Calculate new balance
-          let newBalance = business.current_balance;
-          if (type === "Income") {
-            newBalance += amount;
-          } else {
-            newBalance -= amount;
-          }
-
-          const { error: balanceError } =
-            await this.repos.businesses.updateBalance(businessId, newBalance);
-
-          if (balanceError) {
-            // ROLLBACK: Delete transaction
-            await this.repos.transactions.delete(transaction.id);
-            return {
-              data: null,
-              error: new Error(
-                `Failed to update balance: ${balanceError.message}`
-              ),
-            };
-          }
-        } catch (balanceUpdateError) {
-          // ROLLBACK: Delete transaction
-          await this.repos.transactions.delete(transaction.id);
-          return {
-            data: null,
-            error: new Error(`Balance update failed: ${balanceUpdateError}`),
-          };
-        }
+      if (sale.business_id !== businessId) {
+        return {
+          data: null,
+          error: new Error("Transaction does not belong to this business"),
+        };
+      }
+
+      return await this.repos.transactions.recordReturn(
+        transactionId,
+        items.map((item) => ({
+          transaction_detail_id: item.transactionDetailId,
+          quantity: item.quantity,
+        })),
+        description
+      );
+    } catch (error) {
+      return { data: null, error };
+    }
+  }
+
+  /**
+   * Get transaction with details and return history
+   */
+  async getTransactionWithReturns(transactionId: number): Promise<{
+    data: TransactionWithReturns | null;
+    error: any;
+  }> {
+    try {
+      const { data: transaction, error } =
+        await this.repos.transactions.findWithDetails(transactionId);
+
+      if (error || !transaction) {
+        return { data: null, error: error || new Error("Transaction not found") };
       }
 
-      return { data: transaction, error: null };
+      const { data: returns, error: returnsError } =
+        await this.repos.transactions.findReturns(transactionId);
+
+      if (returnsError) {
+        return { data: null, error: returnsError };
+      }
+
+      return {
+        data: { ...transaction, Returns: returns || [] },
+        error: null,
+      };
     } catch (error) {
       return { data: null, error };
     }
@@ -507,9 +483,9 @@ export class TransactionService extends BaseService {
 
   /**
    * Delete transaction
-   * - Reverses business balance
-   * - Reverses product stock (if applicable)
+   * - Reverses business balance and product stock (if it was complete)
    * - Soft deletes transaction
+   * All steps run in one database transaction (delete_transaction)
    */
   async deleteTransaction(
     businessId: number,
@@ -519,9 +495,8 @@ export class TransactionService extends BaseService {
     error: any;
   }> {
     try {
-      // Get transaction with details
       const { data: transaction, error: findError } =
-        await this.repos.transactions.findWithDetails(transactionId);
+        await this.repos.transactions.findById(transactionId);
 
       if (findError || !transaction) {
         return { success: false, error: new Error("Transaction not found") };
@@ -534,74 +509,78 @@ export class TransactionService extends BaseService {
         };
       }
 
-      // Only reverse effects if transaction was previously complete
-      if (transaction.status === "complete") {
-        // 1. Reverse Balance
-        const { data: business, error: bizError } =
-          await this.repos.businesses.findById(businessId);
-
-        // Proceed even if business check fails? No, critical for balance.
-        if (!bizError && business) {
-          let newBalance = business.current_balance;
-
-          // IF Income (e.g. Sales) -> Subtract amount (Reverse)
-          // IF Expense (e.g. Purchase) -> Add amount (Reverse)
-          if (transaction.type === "Income") {
-            newBalance -= transaction.amount;
-          } else {
-            newBalance += transaction.amount;
-          }
-
-          await this.repos.businesses.updateBalance(businessId, newBalance);
-        }
+      const { error: periodError } =
+        await this.accountingPeriodService.findClosedPeriodError(businessId, [
+          transaction.transaction_date,
+        ]);
 
-        // 2. Reverse Stock (if transaction has product details)
-        // Check if TransactionDetails exists (TransactionWithDetails)
-        const details = (transaction as any).TransactionDetails;
-        if (details && Array.isArray(details) && details.length > 0) {
-          for (const detail of details) {
-            const { data: product } = await this.repos.products.findById(
-              detail.product_id
-            );
-            if (product) {
-              let newStock = product.current_stock;
-
-              // IF Income (Sales) -> Stock was decreased -> Add it back
-              // IF Expense (Purchase) -> Stock was increased -> Remove it
-              if (transaction.type === "Income") {
-                newStock += detail.quantity;
-              } else {
-                newStock -= detail.quantity;
-              }
-
-              await this.repos.products.updateStock(
-                detail.product_id,
-                newStock
-              );
-            }
-          }
-        }
+      if (periodError) {
+        return { success: false, error: periodError };
       }
 
-      // 3. Soft Delete Transaction
-      const { error: deleteError } = await this.repos.transactions.softDelete(
-        transactionId
-      );
+      return await this.repos.transactions.deleteWithEffects(transactionId);
+    } catch (error) {
+      return { success: false, error };
+    }
+  }
 
-      if (deleteError) {
-        return { success: false, error: deleteError };
+  /**
+   * Change transaction status
+   * - pending -> complete: applies balance and stock effects
+   * - pending -> cancel: no effects (none were applied)
+   * - complete -> cancel: reverses balance and stock effects
+   * Any other transition is rejected
+   */
+  async changeStatus(
+    businessId: number,
+    transactionId: number,
+    status: TransactionStatus
+  ): Promise<{ data: Transaction | null; error: any }> {
+    try {
+      const { data: transaction, error: findError } =
+        await this.repos.transactions.findById(transactionId);
+
+      if (findError || !transaction) {
+        return { data: null, error: new Error("Transaction not found") };
       }
 
-      return { success: true, error: null };
+      if (transaction.business_id !== businessId) {
+        return {
+          data: null,
+          error: new Error("Transaction does not belong to this business"),
+        };
+      }
+
+      if (!isAllowedStatusTransition(transaction.status, status)) {
+        return {
+          data: null,
+          error: new Error(
+            `Invalid status transition from ${transaction.status} to ${status}`
+          ),
+        };
+      }
+
+      const { error: periodError } =
+        await this.accountingPeriodService.findClosedPeriodError(businessId, [
+          transaction.transaction_date,
+        ]);
+
+      if (periodError) {
+        return { data: null, error: periodError };
+      }
+
+      return await this.repos.transactions.updateStatus(transactionId, status);
     } catch (error) {
-      return { success: false, error };
+      return { data: null, error };
     }
   }
 
   /**
    * Update general transaction
-   * - Handles amount changes (adjusts balance)
+   * - Handles amount changes (adjusts balance, a single payment follows)
    * - Updates details
+   * - Status changes are applied after the other fields
+   * All steps run in one database transaction (update_transaction)
    */
   async updateGeneralTransaction(
     businessId: number,
@@ -630,57 +609,194 @@ export class TransactionService extends BaseService {
         };
       }
 
-      // 2. Prepare update payload
-      const updates: any = {};
-      if (data.category !== undefined) updates.category = data.category;
-      if (data.description !== undefined)
-        updates.description = data.description;
-      if (data.status !== undefined) updates.status = data.status;
-      if (data.date !== undefined) updates.transaction_date = data.date;
-      if (data.amount !== undefined) updates.amount = data.amount;
+      // Neither the current nor the new date may be in a closed month
+      // (a category change alone is not locked by the database)
+      const { error: periodError } =
+        await this.accountingPeriodService.findClosedPeriodError(businessId, [
+          oldTransaction.transaction_date,
+          ...(data.date !== undefined ? [data.date] : []),
+        ]);
+
+      if (periodError) {
+        return { data: null, error: periodError };
+      }
+
+      const statusChanged =
+        data.status !== undefined && data.status !== oldTransaction.status;
 
-      // 3. Handle Balance Update if amount changed
       if (
-        data.amount !== undefined &&
-        data.amount !== oldTransaction.amount &&
-        oldTransaction.status === "complete"
+        statusChanged &&
+        !isAllowedStatusTransition(oldTransaction.status, data.status!)
       ) {
-        const { data: business } = await this.repos.businesses.findById(
-          businessId
-        );
-        if (business) {
-          let currentBalance = business.current_balance;
-
-          // Revert old amount
-          if (oldTransaction.type === "Income") {
-            currentBalance -= oldTransaction.amount;
-          } else {
-            currentBalance += oldTransaction.amount;
-          }
-
-          // Apply new amount
-          if (oldTransaction.type === "Income") {
-            currentBalance += data.amount;
-          } else {
-            currentBalance -= data.amount;
-          }
-
-          // Update balance
-          await this.repos.businesses.updateBalance(businessId, currentBalance);
-        }
+        return {
+          data: null,
+          error: new Error(
+            `Invalid status transition from ${oldTransaction.status} to ${data.status}`
+          ),
+        };
       }
 
-      // 4. Update Transaction
-      const { data: updatedTx, error: updateError } =
-        await this.repos.transactions.update(transactionId, updates);
+      const changes: Omit<UpdateTransactionDTO, "type"> = {};
+      if (data.category !== undefined) changes.category = data.category;
+      if (data.description !== undefined)
+        changes.description = data.description;
+      if (data.date !== undefined) changes.transaction_date = data.date;
+      if (data.amount !== undefined) changes.amount = data.amount;
+      if (statusChanged) changes.status = data.status;
+
+      if (Object.keys(changes).length === 0) {
+        return { data: oldTransaction, error: null };
+      }
+
+      // 2. Update fields, balance, payment and status in one database
+      // transaction (update_transaction)
+      return await this.repos.transactions.updateWithEffects(
+        transactionId,
+        changes
+      );
+    } catch (error) {
+      return { data: null, error };
+    }
+  }
+
+  /**
+   * Replace the line items of a sale or purchase
+   * - Sales: totals are computed again with the new discounts and the tax
+   *   the sale was recorded with; purchases: total = sum of the lines
+   * - Complete transactions: stock moves by the change in quantity per
+   *   product and the money account by the change in the total
+   * - Credit transactions: the receivable/payable follows the new total
+   * All steps run in one database transaction (update_transaction_items)
+   */
+  async updateTransactionItems(data: UpdateItemsData): Promise<{
+    data: TransactionWithDetails | null;
+    error: any;
+  }> {
+    const { businessId, transactionId, items } = data;
+
+    try {
+      const { data: transaction, error: findError } =
+        await this.repos.transactions.findById(transactionId);
+
+      if (findError || !transaction) {
+        return { data: null, error: new Error("Transaction not found") };
+      }
+
+      if (transaction.business_id !== businessId) {
+        return {
+          data: null,
+          error: new Error("Transaction does not belong to this business"),
+        };
+      }
+
+      const { error: periodError } =
+        await this.accountingPeriodService.findClosedPeriodError(businessId, [
+          transaction.transaction_date,
+        ]);
+
+      if (periodError) {
+        return { data: null, error: periodError };
+      }
 
-      if (updateError) {
-        return { data: null, error: updateError };
+      const isSale = transaction.type === "Income";
+
+      if (!isSale && (data.discount || items.some((item) => item.discount))) {
+        return {
+          data: null,
+          error: new Error("Discounts only apply to sales"),
+        };
+      }
+
+      const payments = data.payments || [];
+      if (Number(transaction.credit_amount) > 0 && payments.length > 0) {
+        return {
+          data: null,
+          error: new Error(
+            "Payment of a credit transaction is recorded through receivable or payable payments"
+          ),
+        };
       }
 
-      return { data: updatedTx, error: null };
+      const totals = isSale
+        ? calculateSaleTotals(
+            items.map((item) => ({
+              quantity: item.quantity,
+              unitPrice: item.unitPrice,
+              discount: item.discount,
+            })),
+            data.discount,
+            transaction.tax_rate !== null
+              ? {
+                  rate: Number(transaction.tax_rate),
+                  isInclusive: transaction.tax_inclusive,
+                }
+              : null
+          )
+        : null;
+
+      const amount = totals
+        ? totals.grandTotal
+        : round2(
+            items.reduce((sum, item) => sum + item.quantity * item.unitPrice, 0)
+          );
+
+      if (payments.length > 0) {
+        const paid = payments.reduce((sum, payment) => sum + payment.amount, 0);
+        if (Math.abs(paid - amount) >= 0.01) {
+          return {
+            data: null,
+            error: new Error(
+              `Payment amounts must add up to the total (${amount})`
+            ),
+          };
+        }
+      }
+
+      return await this.repos.transactions.updateItems(
+        transactionId,
+        {
+          amount,
+          subtotal: totals ? totals.subtotal : amount,
+          discount_amount: totals ? totals.discountAmount : 0,
+          tax_amount: totals ? totals.taxAmount : 0,
+        },
+        items.map((item, index) => ({
+          transaction_id: transactionId,
+          product_id: item.productId,
+          quantity: item.quantity,
+          unit_price_at_transaction: item.unitPrice,
+          discount_amount: totals ? totals.lineDiscounts[index] : 0,
+        })),
+        payments.length > 0 ? payments : null
+      );
     } catch (error) {
       return { data: null, error };
     }
   }
+
+  /**
+   * Tax rate for a sale
+   * - number: that tax rate (must belong to the business)
+   * - undefined: the business default tax rate, if any
+   * - null: no tax
+   */
+  private async resolveTaxRate(
+    businessId: number,
+    taxRateId: number | null | undefined
+  ): Promise<{ data: TaxRate | null; error: any }> {
+    if (taxRateId === null) {
+      return { data: null, error: null };
+    }
+
+    if (taxRateId === undefined) {
+      return this.repos.taxRates.findDefault(businessId);
+    }
+
+    const { data: taxRate } = await this.repos.taxRates.findById(taxRateId);
+    if (!taxRate || taxRate.business_id !== businessId) {
+      return { data: null, error: new Error("Tax rate not found") };
+    }
+
+    return { data: taxRate, error: null };
+  }
 }
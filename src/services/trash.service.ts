@@ -0,0 +1,220 @@
+/**
+ * Trash Service
+ * Deleted transactions, products and businesses can be restored until they
+ * are purged, TRASH_RETENTION_DAYS (default 30) after deletion
+ * Purged records stay in the database (journals, audit logs and sale details
+ * refer to them) but leave the trash for good
+ */
+
+import { BaseService } from './base.service';
+import type { Transaction } from '../models/transaction.model';
+import type { Product } from '../models/product.model';
+import type { Business } from '../models/business.model';
+
+// Days a deleted record stays restorable; 0 keeps it in the trash forever
+export const TRASH_RETENTION_DAYS = Number(process.env.TRASH_RETENTION_DAYS ?? 30) || 0;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Record in the trash
+ */
+export type TrashItem<T> = T & {
+    // When the record leaves the trash (null when the trash is never purged)
+    purge_at: string | null;
+};
+
+export interface PurgeResult {
+    transactions: number;
+    products: number;
+    businesses: number;
+}
+
+/**
+ * Add when a deleted record is purged
+ */
+function withPurgeDate<T extends { deleted_at: string | null }>(record: T): TrashItem<T> {
+    return {
+        ...record,
+        purge_at:
+            TRASH_RETENTION_DAYS > 0 && record.deleted_at
+                ? new Date(new Date(record.deleted_at).getTime() + TRASH_RETENTION_DAYS * DAY_MS).toISOString()
+                : null,
+    };
+}
+
+export class TrashService extends BaseService {
+    /**
+     * Deleted transactions of a business, latest deleted first
+     */
+    async getTransactions(businessId: number): Promise<{ data: TrashItem<Transaction>[] | null; error: any }> {
+        try {
+            const { data, error } = await this.repos.transactions.findTrashed({ business_id: businessId });
+
+            if (error || !data) {
+                return { data: null, error };
+            }
+
+            return { data: data.map(withPurgeDate), error: null };
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+
+    /**
+     * Deleted products of a business, latest deleted first
+     */
+    async getProducts(businessId: number): Promise<{ data: TrashItem<Product>[] | null; error: any }> {
+        try {
+            const { data, error } = await this.repos.products.findTrashed({ business_id: businessId });
+
+            if (error || !data) {
+                return { data: null, error };
+            }
+
+            return { data: data.map(withPurgeDate), error: null };
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+
+    /**
+     * Deleted businesses of a user, latest deleted first
+     */
+    async getBusinesses(userId: string): Promise<{ data: TrashItem<Business>[] | null; error: any }> {
+        try {
+            const { data, error } = await this.repos.businesses.findTrashed({ user_id: userId });
+
+            if (error || !data) {
+                return { data: null, error };
+            }
+
+            return { data: data.map(withPurgeDate), error: null };
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+
+    /**
+     * Restore a deleted transaction of a business
+     * A complete transaction gets back the balance, stock and
+     * receivable/payable effects its deletion reversed
+     */
+    async restoreTransaction(
+        businessId: number,
+        transactionId: number
+    ): Promise<{ data: Transaction | null; error: any }> {
+        try {
+            const { data: transaction, error: findError } =
+                await this.repos.transactions.findTrashedById(transactionId);
+
+            if (findError) {
+                return { data: null, error: findError };
+            }
+
+            if (!transaction || transaction.business_id !== businessId) {
+                return { data: null, error: new Error('Transaction not found in trash') };
+            }
+
+            return await this.repos.transactions.restoreWithEffects(transactionId);
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+
+    /**
+     * Restore a deleted product of a business
+     */
+    async restoreProduct(businessId: number, productId: number): Promise<{ data: Product | null; error: any }> {
+        try {
+            const { data: product, error: findError } = await this.repos.products.findTrashedById(productId);
+
+            if (findError) {
+                return { data: null, error: findError };
+            }
+
+            if (!product || product.business_id !== businessId) {
+                return { data: null, error: new Error('Product not found in trash') };
+            }
+
+            return await this.repos.products.restore(productId);
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+
+    /**
+     * Restore a deleted business of a user
+     */
+    async restoreBusiness(userId: string, businessId: number): Promise<{ data: Business | null; error: any }> {
+        try {
+            const { data: business, error: findError } = await this.repos.businesses.findTrashedById(businessId);
+
+            if (findError) {
+                return { data: null, error: findError };
+            }
+
+            if (!business || business.user_id !== userId) {
+                return { data: null, error: new Error('Business not found in trash') };
+            }
+
+            return await this.repos.businesses.restore(businessId);
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+
+    /**
+     * Purge everything deleted more than TRASH_RETENTION_DAYS ago
+     * (nothing when the retention is 0)
+     * Attachment files of purged transactions are removed from storage; until
+     * then they stay so a restored transaction keeps its receipts
+     */
+    async purgeExpired(): Promise<{ data: PurgeResult | null; error: any }> {
+        try {
+            const result: PurgeResult = { transactions: 0, products: 0, businesses: 0 };
+
+            if (TRASH_RETENTION_DAYS <= 0) {
+                return { data: result, error: null };
+            }
+
+            const deletedBefore = new Date(Date.now() - TRASH_RETENTION_DAYS * DAY_MS).toISOString();
+
+            // Collected before the purge, which takes the transactions out of the trash
+            const { data: attachments, error: attachmentError } =
+                await this.repos.transactionAttachments.findOfTrashedTransactions(deletedBefore);
+
+            if (attachmentError) {
+                return { data: null, error: attachmentError };
+            }
+
+            for (const [key, repo] of [
+                ['transactions', this.repos.transactions],
+                ['products', this.repos.products],
+                ['businesses', this.repos.businesses],
+            ] as const) {
+                const { count, error } = await repo.purgeTrashed(deletedBefore);
+
+                if (error) {
+                    return { data: null, error };
+                }
+
+                result[key] = count ?? 0;
+            }
+
+            if (attachments && attachments.length > 0) {
+                const { error: storageError } = await this.repos.transactionAttachments.removeFiles(
+                    attachments.map((attachment) => attachment.file_path)
+                );
+
+                if (storageError) {
+                    return { data: null, error: storageError };
+                }
+            }
+
+            return { data: result, error: null };
+        } catch (error) {
+            return { data: null, error };
+        }
+    }
+}
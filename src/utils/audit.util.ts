@@ -0,0 +1,25 @@
+/// <reference path="../types/express.d.ts" />
+
+/**
+ * Audit Utility
+ * Request metadata for audit logs
+ */
+
+import { Request } from 'express';
+import type { AuditContext } from '../models/audit-log.model';
+
+const MAX_USER_AGENT_LENGTH = 500;
+
+/**
+ * Actor and request metadata of an authenticated request
+ */
+export function getAuditContext(req: Request): AuditContext {
+    return {
+        actorId: req.user?.id ?? 'unknown',
+        actorEmail: req.user?.email || null,
+        ipAddress: req.ip || req.socket?.remoteAddress || null,
+        userAgent: req.get('User-Agent')?.slice(0, MAX_USER_AGENT_LENGTH) || null,
+        method: req.method || null,
+        path: req.originalUrl || null,
+    };
+}
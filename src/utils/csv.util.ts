@@ -0,0 +1,102 @@
+/**
+ * CSV Utility
+ * Minimal RFC 4180 CSV parsing and writing
+ */
+
+/**
+ * Detect the delimiter from the header line
+ * Spreadsheets with Indonesian locale export with ';' instead of ','
+ */
+export function detectDelimiter(text: string): string {
+    const firstLine = text.split(/\r?\n/, 1)[0] || '';
+    const commas = (firstLine.match(/,/g) || []).length;
+    const semicolons = (firstLine.match(/;/g) || []).length;
+    return semicolons > commas ? ';' : ',';
+}
+
+/**
+ * Parse CSV text into rows of fields
+ * - Supports quoted fields with delimiters, line breaks and escaped quotes ("")
+ * - Skips blank lines
+ * - Strips a leading UTF-8 BOM (added by Excel)
+ */
+export function parseCsv(text: string, delimiter: string = detectDelimiter(text)): string[][] {
+    const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    const endRow = () => {
+        row.push(field);
+        if (row.length > 1 || row[0].trim() !== '') {
+            rows.push(row);
+        }
+        row = [];
+        field = '';
+    };
+
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+
+        if (inQuotes) {
+            if (char === '"') {
+                if (input[i + 1] === '"') {
+                    field += '"';
+                    i++;
+                } else {
+                    inQuotes = false;
+                }
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && input[i + 1] === '\n') {
+                i++;
+            }
+            endRow();
+        } else {
+            field += char;
+        }
+    }
+
+    if (field !== '' || row.length > 0) {
+        endRow();
+    }
+
+    return rows;
+}
+
+/**
+ * Keep a text field from being read as a formula by spreadsheets
+ * Fields starting with =, +, - or @ get a leading ' (shown as text)
+ */
+export function escapeFormula(field: string): string {
+    return /^[=+\-@]/.test(field) ? `'${field}` : field;
+}
+
+/**
+ * Format one CSV line (with trailing CRLF)
+ * Fields containing the delimiter, quotes or line breaks are quoted
+ */
+export function toCsvLine(
+    values: (string | number | null | undefined)[],
+    delimiter: string = ','
+): string {
+    return (
+        values
+            .map(value => {
+                const field = value === null || value === undefined ? '' : String(value);
+                return field.includes(delimiter) || /["\r\n]/.test(field)
+                    ? `"${field.replace(/"/g, '""')}"`
+                    : field;
+            })
+            .join(delimiter) + '\r\n'
+    );
+}
@@ -0,0 +1,50 @@
+/**
+ * Currency Utilities
+ * Rupiah and foreign currency formatting helpers
+ */
+
+/**
+ * Format an amount as Rupiah, e.g. 1500000 -> "Rp 1.500.000"
+ */
+export function formatRupiah(amount: number): string {
+    const formatted = Math.abs(amount).toLocaleString('id-ID', { maximumFractionDigits: 2 });
+    return `${amount < 0 ? '-' : ''}Rp ${formatted}`;
+}
+
+/**
+ * Spreadsheet number format that displays Rupiah while keeping numeric cells
+ */
+export const RUPIAH_NUMBER_FORMAT = '"Rp" #,##0;-"Rp" #,##0';
+
+/**
+ * Spreadsheet number format of a currency (Rupiah, or e.g. "USD" #,##0.00)
+ */
+export function moneyNumberFormat(currency: string = 'IDR'): string {
+    if (currency === 'IDR') {
+        return RUPIAH_NUMBER_FORMAT;
+    }
+    return `"${currency}" #,##0.00;-"${currency}" #,##0.00`;
+}
+
+/**
+ * Format an amount without currency symbol, e.g. 1500000 -> "1.500.000"
+ * Other currencies than IDR always show 2 decimals, e.g. 1200 -> "1.200,00"
+ */
+export function formatAmount(amount: number, currency: string = 'IDR'): string {
+    const decimals =
+        currency === 'IDR'
+            ? { maximumFractionDigits: 2 }
+            : { minimumFractionDigits: 2, maximumFractionDigits: 2 };
+    const formatted = Math.abs(amount).toLocaleString('id-ID', decimals);
+    return `${amount < 0 ? '-' : ''}${formatted}`;
+}
+
+/**
+ * Format an amount with its currency, e.g. "Rp 1.500.000" or "USD 1.200,00"
+ */
+export function formatMoney(amount: number, currency: string = 'IDR'): string {
+    if (currency === 'IDR') {
+        return formatRupiah(amount);
+    }
+    return `${currency} ${formatAmount(amount, currency)}`;
+}
@@ -0,0 +1,110 @@
+/**
+ * Pricing Utilities
+ * Sale totals with line discounts, transaction discount and tax (PPN)
+ */
+
+export type DiscountType = 'percent' | 'nominal';
+
+/**
+ * Discount as a percentage (0-100) or a nominal Rupiah amount
+ * Line discounts apply to the whole line (quantity * unit price)
+ */
+export interface Discount {
+    type: DiscountType;
+    value: number;
+}
+
+export interface PricingLine {
+    quantity: number;
+    unitPrice: number;
+    discount?: Discount;
+}
+
+export interface PricingTax {
+    rate: number;
+    isInclusive: boolean;
+}
+
+export interface SaleTotals {
+    // Before any discount
+    subtotal: number;
+    // Line discounts + transaction discount
+    discountAmount: number;
+    taxAmount: number;
+    // What the customer pays
+    grandTotal: number;
+    // Discount of each line, in input order
+    lineDiscounts: number[];
+}
+
+/**
+ * Round to 2 decimals (database precision)
+ */
+export function round2(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+/**
+ * Discount amount for a base, never more than the base itself
+ */
+export function discountAmount(base: number, discount?: Discount): number {
+    if (!discount || base <= 0) {
+        return 0;
+    }
+
+    const amount = discount.type === 'percent' ? (base * discount.value) / 100 : discount.value;
+    return round2(Math.min(Math.max(amount, 0), base));
+}
+
+/**
+ * Compute sale totals
+ * 1. Line net = quantity * unit price - line discount
+ * 2. Transaction discount applies to the sum of line nets
+ * 3. Tax applies to what is left (the taxable base)
+ *    - exclusive: added on top, grand total = base + tax
+ *    - inclusive: already inside the prices, tax = base * rate / (100 + rate)
+ */
+export function calculateSaleTotals(
+    lines: PricingLine[],
+    transactionDiscount?: Discount,
+    tax?: PricingTax | null
+): SaleTotals {
+    let subtotal = 0;
+    let linesNet = 0;
+    const lineDiscounts: number[] = [];
+
+    for (const line of lines) {
+        const gross = round2(line.quantity * line.unitPrice);
+        const lineDiscount = discountAmount(gross, line.discount);
+
+        subtotal += gross;
+        linesNet += gross - lineDiscount;
+        lineDiscounts.push(lineDiscount);
+    }
+
+    subtotal = round2(subtotal);
+    linesNet = round2(linesNet);
+
+    const orderDiscount = discountAmount(linesNet, transactionDiscount);
+    const taxableBase = round2(linesNet - orderDiscount);
+
+    let taxAmount = 0;
+    let grandTotal = taxableBase;
+
+    if (tax && tax.rate > 0) {
+        if (tax.isInclusive) {
+            taxAmount = round2((taxableBase * tax.rate) / (100 + tax.rate));
+        } else {
+            taxAmount = round2((taxableBase * tax.rate) / 100);
+            grandTotal = round2(taxableBase + taxAmount);
+        }
+    }
+
+    return {
+        subtotal,
+        discountAmount: round2(subtotal - linesNet + orderDiscount),
+        taxAmount,
+        grandTotal,
+        lineDiscounts,
+    };
+}
@@ -59,6 +59,10 @@ export const ErrorCodes = {
     NOT_FOUND: 'NOT_FOUND',
     DUPLICATE_ENTRY: 'DUPLICATE_ENTRY',
     INSUFFICIENT_STOCK: 'INSUFFICIENT_STOCK',
+    INSUFFICIENT_FUNDS: 'INSUFFICIENT_FUNDS',
+    IDEMPOTENCY_CONFLICT: 'IDEMPOTENCY_CONFLICT',
+    INVALID_STATUS_TRANSITION: 'INVALID_STATUS_TRANSITION',
+    PERIOD_CLOSED: 'PERIOD_CLOSED',
     BUSINESS_LOGIC_ERROR: 'BUSINESS_LOGIC_ERROR',
     SERVER_ERROR: 'SERVER_ERROR',
 } as const;
@@ -0,0 +1,134 @@
+/**
+ * Schedule Utilities
+ * Date calculations for recurring transaction schedules
+ * Dates are handled as YYYY-MM-DD strings in UTC
+ */
+
+import type { RecurrenceSchedule } from '../models/recurring-transaction.model';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Format a date as YYYY-MM-DD (UTC)
+ */
+export function toDateString(date: Date): string {
+    return date.toISOString().split('T')[0];
+}
+
+/**
+ * Parse a YYYY-MM-DD (or full ISO) string as UTC midnight
+ */
+function parseDate(value: string): Date {
+    return new Date(`${value.slice(0, 10)}T00:00:00Z`);
+}
+
+/**
+ * Number of days from one YYYY-MM-DD date to another (negative if before)
+ */
+export function daysBetween(from: string, to: string): number {
+    return Math.round((parseDate(to).getTime() - parseDate(from).getTime()) / DAY_MS);
+}
+
+/**
+ * Add days to a YYYY-MM-DD date
+ */
+export function addDays(date: string, days: number): string {
+    return toDateString(new Date(parseDate(date).getTime() + days * DAY_MS));
+}
+
+/**
+ * Date for a day of month, clamped to the month length (e.g. 31 → 28 Feb)
+ * Month index may overflow into the next year
+ */
+function clampedDate(year: number, monthIndex: number, day: number): Date {
+    const lastDay = new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate();
+    return new Date(Date.UTC(year, monthIndex, Math.min(day, lastDay)));
+}
+
+/**
+ * Fill the day fields a frequency needs from an anchor date (the start date)
+ * e.g. monthly without day_of_month repeats on the day of month of the anchor
+ * Templates are saved complete: a field left empty would match every date
+ */
+export function completeSchedule(schedule: RecurrenceSchedule, anchorDate: string): RecurrenceSchedule {
+    const anchor = parseDate(anchorDate);
+    const needsDayOfMonth = schedule.frequency === 'monthly' || schedule.frequency === 'yearly';
+
+    return {
+        frequency: schedule.frequency,
+        day_of_week:
+            schedule.frequency === 'weekly' ? schedule.day_of_week ?? anchor.getUTCDay() : schedule.day_of_week,
+        day_of_month: needsDayOfMonth ? schedule.day_of_month ?? anchor.getUTCDate() : schedule.day_of_month,
+        month_of_year:
+            schedule.frequency === 'yearly'
+                ? schedule.month_of_year ?? anchor.getUTCMonth() + 1
+                : schedule.month_of_year,
+    };
+}
+
+/**
+ * First occurrence of a schedule on or after the given date
+ * Expects a complete schedule (see completeSchedule); a missing field matches
+ * the given date
+ */
+export function firstOccurrenceOnOrAfter(schedule: RecurrenceSchedule, date: string): string {
+    const from = parseDate(date);
+    const year = from.getUTCFullYear();
+    const month = from.getUTCMonth();
+
+    switch (schedule.frequency) {
+        case 'daily':
+            return toDateString(from);
+
+        case 'weekly': {
+            const dayOfWeek = schedule.day_of_week ?? from.getUTCDay();
+            const diff = (dayOfWeek - from.getUTCDay() + 7) % 7;
+            return addDays(date, diff);
+        }
+
+        case 'monthly': {
+            const day = schedule.day_of_month ?? from.getUTCDate();
+            let candidate = clampedDate(year, month, day);
+            if (candidate < from) {
+                candidate = clampedDate(year, month + 1, day);
+            }
+            return toDateString(candidate);
+        }
+
+        case 'yearly': {
+            const monthIndex = (schedule.month_of_year ?? month + 1) - 1;
+            const day = schedule.day_of_month ?? from.getUTCDate();
+            let candidate = clampedDate(year, monthIndex, day);
+            if (candidate < from) {
+                candidate = clampedDate(year + 1, monthIndex, day);
+            }
+            return toDateString(candidate);
+        }
+    }
+}
+
+/**
+ * Occurrence following the given occurrence date
+ */
+export function nextOccurrenceAfter(schedule: RecurrenceSchedule, date: string): string {
+    return firstOccurrenceOnOrAfter(schedule, addDays(date, 1));
+}
+
+/**
+ * All occurrences between two dates (inclusive)
+ */
+export function occurrencesBetween(
+    schedule: RecurrenceSchedule,
+    startDate: string,
+    endDate: string
+): string[] {
+    const occurrences: string[] = [];
+    let current = firstOccurrenceOnOrAfter(schedule, startDate);
+
+    while (current <= endDate) {
+        occurrences.push(current);
+        current = nextOccurrenceAfter(schedule, current);
+    }
+
+    return occurrences;
+}
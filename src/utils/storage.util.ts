@@ -7,6 +7,9 @@ import { SupabaseClient } from "@supabase/supabase-js";
 
 const USER_BUCKET_NAME = "user-image";
 const PRODUCT_BUCKET_NAME = "product-image";
+const ATTACHMENT_BUCKET_NAME = "transaction-attachment";
+// Attachment bucket is private, files are served through signed URLs
+const ATTACHMENT_URL_EXPIRES_IN = 60 * 60; // 1 hour
 const DEFAULT_AVATAR_URL =
   "https://puxrvmtzptuukbisgbnn.supabase.co/storage/v1/object/public/user-image/default.jpg";
 const DEFAULT_PRODUCT_IMAGE_URL =
@@ -174,6 +177,97 @@ export async function deleteProductImage(
   }
 }
 
+/**
+ * Upload lampiran transaksi (struk/nota) ke Supabase Storage
+ * @param supabase - Supabase client instance
+ * @param transactionId - ID Transaksi (number)
+ * @param file - File buffer dari multer
+ * @returns Path of uploaded file inside the attachment bucket
+ */
+export async function uploadTransactionAttachment(
+  supabase: SupabaseClient,
+  transactionId: number,
+  file: Express.Multer.File
+): Promise<{ path: string | null; error: any }> {
+  try {
+    const timestamp = Date.now();
+    const extension = file.mimetype.split("/")[1];
+    const random = Math.random().toString(36).substring(2, 8);
+    // Format path: transaction_[ID_TRANSAKSI]/[TIMESTAMP]_[RANDOM].[EKSTENSI]
+    const filePath = `transaction_${transactionId}/${timestamp}_${random}.${extension}`;
+
+    const { error } = await supabase.storage
+      .from(ATTACHMENT_BUCKET_NAME)
+      .upload(filePath, file.buffer, {
+        contentType: file.mimetype,
+        upsert: false,
+      });
+
+    if (error) {
+      console.error("Transaction attachment upload error:", error);
+      return { path: null, error };
+    }
+
+    return { path: filePath, error: null };
+  } catch (error) {
+    return { path: null, error };
+  }
+}
+
+/**
+ * Hapus lampiran transaksi dari Supabase Storage
+ * @param supabase - Supabase client instance
+ * @param filePaths - Paths inside the attachment bucket
+ * @returns Success status
+ */
+export async function deleteTransactionAttachments(
+  supabase: SupabaseClient,
+  filePaths: string[]
+): Promise<{ success: boolean; error: any }> {
+  try {
+    if (filePaths.length === 0) {
+      return { success: true, error: null };
+    }
+
+    const { error } = await supabase.storage
+      .from(ATTACHMENT_BUCKET_NAME)
+      .remove(filePaths);
+
+    if (error) {
+      return { success: false, error };
+    }
+
+    return { success: true, error: null };
+  } catch (error) {
+    return { success: false, error };
+  }
+}
+
+/**
+ * Buat signed URL sementara untuk lampiran transaksi
+ * @param supabase - Supabase client instance
+ * @param filePath - Path inside the attachment bucket
+ * @returns Signed URL valid for ATTACHMENT_URL_EXPIRES_IN seconds
+ */
+export async function getTransactionAttachmentUrl(
+  supabase: SupabaseClient,
+  filePath: string
+): Promise<{ url: string | null; error: any }> {
+  try {
+    const { data, error } = await supabase.storage
+      .from(ATTACHMENT_BUCKET_NAME)
+      .createSignedUrl(filePath, ATTACHMENT_URL_EXPIRES_IN);
+
+    if (error || !data) {
+      return { url: null, error };
+    }
+
+    return { url: data.signedUrl, error: null };
+  } catch (error) {
+    return { url: null, error };
+  }
+}
+
 /**
  * Get default avatar URL
  */
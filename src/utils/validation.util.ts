@@ -54,6 +54,13 @@ export function isValidDate(dateString: string): boolean {
     return !isNaN(date.getTime());
 }
 
+/**
+ * Validate currency code (ISO 4217, e.g. IDR, USD; any letter case)
+ */
+export function isCurrencyCode(value: any): boolean {
+    return typeof value === 'string' && /^[A-Za-z]{3}$/.test(value.trim());
+}
+
 /**
  * Validate required string (not empty)
  */
@@ -0,0 +1,120 @@
+-- Atomic transaction recording
+-- Creates a transaction with its line items, moves product stock and
+-- updates the business balance inside a single database transaction.
+-- Any failure (unknown product, insufficient stock, ...) raises and
+-- rolls back every change made by the call.
+
+create or replace function record_transaction(
+    p_transaction jsonb,
+    p_details jsonb default '[]'::jsonb
+)
+returns integer
+language plpgsql
+as $$
+declare
+    v_business_id integer := (p_transaction->>'business_id')::integer;
+    v_type text := p_transaction->>'type';
+    v_status text := coalesce(p_transaction->>'status', 'complete');
+    v_amount numeric := (p_transaction->>'amount')::numeric;
+    v_transaction_id integer;
+    v_item jsonb;
+    v_product "Products"%rowtype;
+    v_quantity integer;
+    v_new_stock integer;
+begin
+    -- Lock the business row so concurrent recordings serialize on the balance
+    perform 1
+    from "Businesses"
+    where id = v_business_id and deleted_at is null
+    for update;
+
+    if not found then
+        raise exception 'Business % not found', v_business_id;
+    end if;
+
+    insert into "Transactions" (
+        business_id,
+        transaction_date,
+        type,
+        category,
+        amount,
+        description,
+        status
+    )
+    values (
+        v_business_id,
+        coalesce((p_transaction->>'transaction_date')::timestamp, now()),
+        v_type,
+        p_transaction->>'category',
+        v_amount,
+        p_transaction->>'description',
+        v_status
+    )
+    returning id into v_transaction_id;
+
+    -- Lock products in id order to avoid deadlocks between concurrent sales
+    for v_item in
+        select value
+        from jsonb_array_elements(p_details)
+        order by (value->>'product_id')::integer
+    loop
+        v_quantity := (v_item->>'quantity')::integer;
+
+        select *
+        into v_product
+        from "Products"
+        where id = (v_item->>'product_id')::integer
+          and business_id = v_business_id
+          and deleted_at is null
+        for update;
+
+        if not found then
+            raise exception 'Product % not found', v_item->>'product_id';
+        end if;
+
+        insert into "TransactionDetails" (
+            transaction_id,
+            product_id,
+            quantity,
+            unit_price_at_transaction
+        )
+        values (
+            v_transaction_id,
+            v_product.id,
+            v_quantity,
+            (v_item->>'unit_price_at_transaction')::numeric
+        );
+
+        if v_status = 'complete' then
+            -- Income (sale) takes stock out, Expense (purchase) brings it in
+            v_new_stock := v_product.current_stock
+                + case when v_type = 'Income' then -v_quantity else v_quantity end;
+
+            if v_new_stock < 0 then
+                raise exception 'Insufficient stock for %. Available: %, Required: %',
+                    v_product.name, v_product.current_stock, v_quantity;
+            end if;
+
+            update "Products"
+            set current_stock = v_new_stock,
+                stock_status = case
+                    when v_new_stock = 0 then 'out'
+                    when v_new_stock < 10 then 'low'
+                    else 'active'
+                end,
+                updated_at = now()
+            where id = v_product.id;
+        end if;
+    end loop;
+
+    if v_status = 'complete' then
+        update "Businesses"
+        set current_balance = current_balance
+                + case when v_type = 'Income' then v_amount else -v_amount end,
+            updated_at = now()
+        where id = v_business_id;
+    end if;
+
+    return v_transaction_id;
+end;
+$$;
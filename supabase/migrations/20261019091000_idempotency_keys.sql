@@ -0,0 +1,18 @@
+-- Idempotency keys
+-- Stores the response of transaction-creating requests so that client
+-- retries carrying the same Idempotency-Key replay it instead of
+-- recording the sale/purchase a second time.
+
+create table if not exists "IdempotencyKeys" (
+    id serial primary key,
+    user_id uuid not null,
+    idempotency_key text not null,
+    request_hash text not null,
+    response_status integer,
+    response_body jsonb,
+    created_at timestamp default now(),
+    unique (user_id, idempotency_key)
+);
+
+create index if not exists idempotency_keys_created_at_idx
+    on "IdempotencyKeys" (created_at);
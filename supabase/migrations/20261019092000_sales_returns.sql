@@ -0,0 +1,224 @@
+-- Sales returns
+-- A return is recorded as an Expense ("Sales Return") linked to the original
+-- sale through related_transaction_id. Its line items point at the sold line
+-- through source_detail_id, which is used to stop returning more than was sold.
+
+alter table "Transactions"
+    add column if not exists related_transaction_id integer references "Transactions"(id);
+
+alter table "TransactionDetails"
+    add column if not exists source_detail_id integer references "TransactionDetails"(id);
+
+create index if not exists transactions_related_transaction_id_idx
+    on "Transactions" (related_transaction_id);
+
+create index if not exists transaction_details_source_detail_id_idx
+    on "TransactionDetails" (source_detail_id);
+
+-- record_transaction now also stores the related transaction and source line
+create or replace function record_transaction(
+    p_transaction jsonb,
+    p_details jsonb default '[]'::jsonb
+)
+returns integer
+language plpgsql
+as $$
+declare
+    v_business_id integer := (p_transaction->>'business_id')::integer;
+    v_type text := p_transaction->>'type';
+    v_status text := coalesce(p_transaction->>'status', 'complete');
+    v_amount numeric := (p_transaction->>'amount')::numeric;
+    v_transaction_id integer;
+    v_item jsonb;
+    v_product "Products"%rowtype;
+    v_quantity integer;
+    v_new_stock integer;
+begin
+    -- Lock the business row so concurrent recordings serialize on the balance
+    perform 1
+    from "Businesses"
+    where id = v_business_id and deleted_at is null
+    for update;
+
+    if not found then
+        raise exception 'Business % not found', v_business_id;
+    end if;
+
+    insert into "Transactions" (
+        business_id,
+        transaction_date,
+        type,
+        category,
+        amount,
+        description,
+        status,
+        related_transaction_id
+    )
+    values (
+        v_business_id,
+        coalesce((p_transaction->>'transaction_date')::timestamp, now()),
+        v_type,
+        p_transaction->>'category',
+        v_amount,
+        p_transaction->>'description',
+        v_status,
+        (p_transaction->>'related_transaction_id')::integer
+    )
+    returning id into v_transaction_id;
+
+    -- Lock products in id order to avoid deadlocks between concurrent sales
+    for v_item in
+        select value
+        from jsonb_array_elements(p_details)
+        order by (value->>'product_id')::integer
+    loop
+        v_quantity := (v_item->>'quantity')::integer;
+
+        select *
+        into v_product
+        from "Products"
+        where id = (v_item->>'product_id')::integer
+          and business_id = v_business_id
+          and deleted_at is null
+        for update;
+
+        if not found then
+            raise exception 'Product % not found', v_item->>'product_id';
+        end if;
+
+        insert into "TransactionDetails" (
+            transaction_id,
+            product_id,
+            quantity,
+            unit_price_at_transaction,
+            source_detail_id
+        )
+        values (
+            v_transaction_id,
+            v_product.id,
+            v_quantity,
+            (v_item->>'unit_price_at_transaction')::numeric,
+            (v_item->>'source_detail_id')::integer
+        );
+
+        if v_status = 'complete' then
+            -- Income (sale) takes stock out, Expense (purchase) brings it in
+            v_new_stock := v_product.current_stock
+                + case when v_type = 'Income' then -v_quantity else v_quantity end;
+
+            if v_new_stock < 0 then
+                raise exception 'Insufficient stock for %. Available: %, Required: %',
+                    v_product.name, v_product.current_stock, v_quantity;
+            end if;
+
+            update "Products"
+            set current_stock = v_new_stock,
+                stock_status = case
+                    when v_new_stock = 0 then 'out'
+                    when v_new_stock < 10 then 'low'
+                    else 'active'
+                end,
+                updated_at = now()
+            where id = v_product.id;
+        end if;
+    end loop;
+
+    if v_status = 'complete' then
+        update "Businesses"
+        set current_balance = current_balance
+                + case when v_type = 'Income' then v_amount else -v_amount end,
+            updated_at = now()
+        where id = v_business_id;
+    end if;
+
+    return v_transaction_id;
+end;
+$$;
+
+-- Record a (partial) return of a completed sale.
+-- p_items: [{ "transaction_detail_id": 1, "quantity": 2 }, ...]
+-- Locks the sale row so concurrent returns of the same sale serialize.
+create or replace function record_sales_return(
+    p_transaction_id integer,
+    p_items jsonb,
+    p_description text default null
+)
+returns integer
+language plpgsql
+as $$
+declare
+    v_sale "Transactions"%rowtype;
+    v_detail "TransactionDetails"%rowtype;
+    v_detail_id integer;
+    v_quantity integer;
+    v_returned integer;
+    v_amount numeric := 0;
+    v_details jsonb := '[]'::jsonb;
+begin
+    select *
+    into v_sale
+    from "Transactions"
+    where id = p_transaction_id and deleted_at is null
+    for update;
+
+    if not found then
+        raise exception 'Transaction % not found', p_transaction_id;
+    end if;
+
+    if v_sale.type <> 'Income' or v_sale.status <> 'complete' then
+        raise exception 'Only completed sales can be returned';
+    end if;
+
+    -- Same line listed twice counts as one combined quantity
+    for v_detail_id, v_quantity in
+        select (value->>'transaction_detail_id')::integer,
+               sum((value->>'quantity')::integer)
+        from jsonb_array_elements(p_items)
+        group by 1
+    loop
+        select *
+        into v_detail
+        from "TransactionDetails"
+        where id = v_detail_id and transaction_id = p_transaction_id;
+
+        if not found then
+            raise exception 'Transaction detail % not found', v_detail_id;
+        end if;
+
+        select coalesce(sum(d.quantity), 0)
+        into v_returned
+        from "TransactionDetails" d
+        join "Transactions" t on t.id = d.transaction_id
+        where d.source_detail_id = v_detail.id
+          and t.deleted_at is null
+          and t.status <> 'cancel';
+
+        if v_returned + v_quantity > v_detail.quantity then
+            raise exception 'Return quantity exceeds sold quantity for detail %. Sold: %, Already returned: %, Requested: %',
+                v_detail.id, v_detail.quantity, v_returned, v_quantity;
+        end if;
+
+        v_amount := v_amount + v_quantity * v_detail.unit_price_at_transaction;
+        v_details := v_details || jsonb_build_object(
+            'product_id', v_detail.product_id,
+            'quantity', v_quantity,
+            'unit_price_at_transaction', v_detail.unit_price_at_transaction,
+            'source_detail_id', v_detail.id
+        );
+    end loop;
+
+    -- Expense with details: puts the items back into stock and refunds the balance
+    return record_transaction(
+        jsonb_build_object(
+            'business_id', v_sale.business_id,
+            'type', 'Expense',
+            'category', 'Sales Return',
+            'amount', v_amount,
+            'description', coalesce(p_description, 'Sales return'),
+            'status', 'complete',
+            'related_transaction_id', v_sale.id
+        ),
+        v_details
+    );
+end;
+$$;
@@ -0,0 +1,153 @@
+-- Recurring transactions
+-- Templates for transactions that repeat on a schedule (rent, salaries,
+-- subscriptions). The scheduler materializes due occurrences into regular
+-- transactions and advances next_run_date.
+
+create table if not exists "RecurringTransactions" (
+    id serial primary key,
+    business_id integer not null references "Businesses"(id),
+    type text not null,
+    category text,
+    amount decimal(15, 2) not null,
+    description text,
+    frequency text not null check (frequency in ('daily', 'weekly', 'monthly', 'yearly')),
+    day_of_week integer check (day_of_week between 0 and 6),
+    day_of_month integer check (day_of_month between 1 and 31),
+    month_of_year integer check (month_of_year between 1 and 12),
+    start_date date not null,
+    end_date date,
+    next_run_date date not null,
+    is_paused boolean not null default false,
+    created_at timestamp default now(),
+    updated_at timestamp default now(),
+    deleted_at timestamp
+);
+
+create index if not exists recurring_transactions_due_idx
+    on "RecurringTransactions" (next_run_date)
+    where deleted_at is null and is_paused = false;
+
+alter table "Transactions"
+    add column if not exists recurring_transaction_id integer references "RecurringTransactions"(id);
+
+-- record_transaction now also stores the template a transaction came from
+create or replace function record_transaction(
+    p_transaction jsonb,
+    p_details jsonb default '[]'::jsonb
+)
+returns integer
+language plpgsql
+as $$
+declare
+    v_business_id integer := (p_transaction->>'business_id')::integer;
+    v_type text := p_transaction->>'type';
+    v_status text := coalesce(p_transaction->>'status', 'complete');
+    v_amount numeric := (p_transaction->>'amount')::numeric;
+    v_transaction_id integer;
+    v_item jsonb;
+    v_product "Products"%rowtype;
+    v_quantity integer;
+    v_new_stock integer;
+begin
+    -- Lock the business row so concurrent recordings serialize on the balance
+    perform 1
+    from "Businesses"
+    where id = v_business_id and deleted_at is null
+    for update;
+
+    if not found then
+        raise exception 'Business % not found', v_business_id;
+    end if;
+
+    insert into "Transactions" (
+        business_id,
+        transaction_date,
+        type,
+        category,
+        amount,
+        description,
+        status,
+        related_transaction_id,
+        recurring_transaction_id
+    )
+    values (
+        v_business_id,
+        coalesce((p_transaction->>'transaction_date')::timestamp, now()),
+        v_type,
+        p_transaction->>'category',
+        v_amount,
+        p_transaction->>'description',
+        v_status,
+        (p_transaction->>'related_transaction_id')::integer,
+        (p_transaction->>'recurring_transaction_id')::integer
+    )
+    returning id into v_transaction_id;
+
+    -- Lock products in id order to avoid deadlocks between concurrent sales
+    for v_item in
+        select value
+        from jsonb_array_elements(p_details)
+        order by (value->>'product_id')::integer
+    loop
+        v_quantity := (v_item->>'quantity')::integer;
+
+        select *
+        into v_product
+        from "Products"
+        where id = (v_item->>'product_id')::integer
+          and business_id = v_business_id
+          and deleted_at is null
+        for update;
+
+        if not found then
+            raise exception 'Product % not found', v_item->>'product_id';
+        end if;
+
+        insert into "TransactionDetails" (
+            transaction_id,
+            product_id,
+            quantity,
+            unit_price_at_transaction,
+            source_detail_id
+        )
+        values (
+            v_transaction_id,
+            v_product.id,
+            v_quantity,
+            (v_item->>'unit_price_at_transaction')::numeric,
+            (v_item->>'source_detail_id')::integer
+        );
+
+        if v_status = 'complete' then
+            -- Income (sale) takes stock out, Expense (purchase) brings it in
+            v_new_stock := v_product.current_stock
+                + case when v_type = 'Income' then -v_quantity else v_quantity end;
+
+            if v_new_stock < 0 then
+                raise exception 'Insufficient stock for %. Available: %, Required: %',
+                    v_product.name, v_product.current_stock, v_quantity;
+            end if;
+
+            update "Products"
+            set current_stock = v_new_stock,
+                stock_status = case
+                    when v_new_stock = 0 then 'out'
+                    when v_new_stock < 10 then 'low'
+                    else 'active'
+                end,
+                updated_at = now()
+            where id = v_product.id;
+        end if;
+    end loop;
+
+    if v_status = 'complete' then
+        update "Businesses"
+        set current_balance = current_balance
+                + case when v_type = 'Income' then v_amount else -v_amount end,
+            updated_at = now()
+        where id = v_business_id;
+    end if;
+
+    return v_transaction_id;
+end;
+$$;
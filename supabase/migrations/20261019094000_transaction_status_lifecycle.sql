@@ -0,0 +1,244 @@
+-- Transaction status lifecycle
+-- Balance and stock effects of a transaction are applied when it becomes
+-- complete and reversed when a complete transaction is cancelled or deleted.
+-- The transaction row is locked for every change, so effects are applied or
+-- reversed exactly once.
+--
+-- Allowed transitions: pending -> complete, pending -> cancel, complete -> cancel
+
+-- Apply (p_direction = 1) or reverse (p_direction = -1) the balance and
+-- stock effects of a transaction and its details.
+create or replace function apply_transaction_effects(
+    p_transaction_id integer,
+    p_direction integer
+)
+returns void
+language plpgsql
+as $$
+declare
+    v_transaction "Transactions"%rowtype;
+    v_detail "TransactionDetails"%rowtype;
+    v_product "Products"%rowtype;
+    v_change integer;
+    v_new_stock integer;
+begin
+    select * into v_transaction from "Transactions" where id = p_transaction_id;
+
+    -- Lock products in id order to avoid deadlocks between concurrent calls
+    for v_detail in
+        select *
+        from "TransactionDetails"
+        where transaction_id = p_transaction_id
+        order by product_id
+    loop
+        select *
+        into v_product
+        from "Products"
+        where id = v_detail.product_id
+        for update;
+
+        -- Income (sale) takes stock out, Expense (purchase) brings it in
+        v_change := p_direction
+            * case when v_transaction.type = 'Income' then -v_detail.quantity else v_detail.quantity end;
+        v_new_stock := v_product.current_stock + v_change;
+
+        if v_new_stock < 0 then
+            raise exception 'Insufficient stock for %. Available: %, Required: %',
+                v_product.name, v_product.current_stock, abs(v_change);
+        end if;
+
+        update "Products"
+        set current_stock = v_new_stock,
+            stock_status = case
+                when v_new_stock = 0 then 'out'
+                when v_new_stock < 10 then 'low'
+                else 'active'
+            end,
+            updated_at = now()
+        where id = v_product.id;
+    end loop;
+
+    update "Businesses"
+    set current_balance = current_balance + p_direction
+            * case when v_transaction.type = 'Income' then v_transaction.amount else -v_transaction.amount end,
+        updated_at = now()
+    where id = v_transaction.business_id;
+end;
+$$;
+
+-- record_transaction applies its effects through apply_transaction_effects
+create or replace function record_transaction(
+    p_transaction jsonb,
+    p_details jsonb default '[]'::jsonb
+)
+returns integer
+language plpgsql
+as $$
+declare
+    v_business_id integer := (p_transaction->>'business_id')::integer;
+    v_status text := coalesce(p_transaction->>'status', 'complete');
+    v_transaction_id integer;
+    v_item jsonb;
+    v_product_id integer;
+begin
+    -- Lock the business row so concurrent recordings serialize on the balance
+    perform 1
+    from "Businesses"
+    where id = v_business_id and deleted_at is null
+    for update;
+
+    if not found then
+        raise exception 'Business % not found', v_business_id;
+    end if;
+
+    insert into "Transactions" (
+        business_id,
+        transaction_date,
+        type,
+        category,
+        amount,
+        description,
+        status,
+        related_transaction_id,
+        recurring_transaction_id
+    )
+    values (
+        v_business_id,
+        coalesce((p_transaction->>'transaction_date')::timestamp, now()),
+        p_transaction->>'type',
+        p_transaction->>'category',
+        (p_transaction->>'amount')::numeric,
+        p_transaction->>'description',
+        v_status,
+        (p_transaction->>'related_transaction_id')::integer,
+        (p_transaction->>'recurring_transaction_id')::integer
+    )
+    returning id into v_transaction_id;
+
+    for v_item in select value from jsonb_array_elements(p_details)
+    loop
+        select id
+        into v_product_id
+        from "Products"
+        where id = (v_item->>'product_id')::integer
+          and business_id = v_business_id
+          and deleted_at is null;
+
+        if not found then
+            raise exception 'Product % not found', v_item->>'product_id';
+        end if;
+
+        insert into "TransactionDetails" (
+            transaction_id,
+            product_id,
+            quantity,
+            unit_price_at_transaction,
+            source_detail_id
+        )
+        values (
+            v_transaction_id,
+            v_product_id,
+            (v_item->>'quantity')::integer,
+            (v_item->>'unit_price_at_transaction')::numeric,
+            (v_item->>'source_detail_id')::integer
+        );
+    end loop;
+
+    if v_status = 'complete' then
+        perform apply_transaction_effects(v_transaction_id, 1);
+    end if;
+
+    return v_transaction_id;
+end;
+$$;
+
+-- Raise when a complete sale has active returns: its returned items are
+-- already back in stock, reversing the whole sale would count them twice
+create or replace function assert_no_active_returns(p_transaction_id integer)
+returns void
+language plpgsql
+as $$
+begin
+    if exists (
+        select 1
+        from "Transactions"
+        where related_transaction_id = p_transaction_id
+          and deleted_at is null
+          and status <> 'cancel'
+    ) then
+        raise exception 'Transaction has returns. Cancel or delete the returns first';
+    end if;
+end;
+$$;
+
+-- Move a transaction to a new status, applying or reversing its effects
+create or replace function transition_transaction_status(
+    p_transaction_id integer,
+    p_status text
+)
+returns integer
+language plpgsql
+as $$
+declare
+    v_transaction "Transactions"%rowtype;
+begin
+    select *
+    into v_transaction
+    from "Transactions"
+    where id = p_transaction_id and deleted_at is null
+    for update;
+
+    if not found then
+        raise exception 'Transaction % not found', p_transaction_id;
+    end if;
+
+    if v_transaction.status = 'pending' and p_status = 'complete' then
+        perform apply_transaction_effects(p_transaction_id, 1);
+    elsif v_transaction.status = 'pending' and p_status = 'cancel' then
+        null; -- pending transactions have no effects yet
+    elsif v_transaction.status = 'complete' and p_status = 'cancel' then
+        perform assert_no_active_returns(p_transaction_id);
+        perform apply_transaction_effects(p_transaction_id, -1);
+    else
+        raise exception 'Invalid status transition from % to %', v_transaction.status, p_status;
+    end if;
+
+    update "Transactions"
+    set status = p_status,
+        updated_at = now()
+    where id = p_transaction_id;
+
+    return p_transaction_id;
+end;
+$$;
+
+-- Soft delete a transaction, reversing its effects if it was complete
+create or replace function delete_transaction(p_transaction_id integer)
+returns integer
+language plpgsql
+as $$
+declare
+    v_transaction "Transactions"%rowtype;
+begin
+    select *
+    into v_transaction
+    from "Transactions"
+    where id = p_transaction_id and deleted_at is null
+    for update;
+
+    if not found then
+        raise exception 'Transaction % not found', p_transaction_id;
+    end if;
+
+    if v_transaction.status = 'complete' then
+        perform assert_no_active_returns(p_transaction_id);
+        perform apply_transaction_effects(p_transaction_id, -1);
+    end if;
+
+    update "Transactions"
+    set deleted_at = now()
+    where id = p_transaction_id;
+
+    return p_transaction_id;
+end;
+$$;
@@ -0,0 +1,24 @@
+-- Transaction attachments
+-- Receipts and supporting documents (images, PDFs) kept per transaction.
+-- Files live in the private "transaction-attachment" storage bucket and are
+-- served through short-lived signed URLs.
+
+insert into storage.buckets (id, name, public)
+values ('transaction-attachment', 'transaction-attachment', false)
+on conflict (id) do nothing;
+
+create table if not exists "TransactionAttachments" (
+    id serial primary key,
+    transaction_id integer not null references "Transactions"(id),
+    file_name text not null,
+    file_path text not null,
+    mime_type text not null,
+    file_size integer not null,
+    created_at timestamp default now(),
+    updated_at timestamp default now(),
+    deleted_at timestamp
+);
+
+create index if not exists transaction_attachments_transaction_idx
+    on "TransactionAttachments" (transaction_id)
+    where deleted_at is null;
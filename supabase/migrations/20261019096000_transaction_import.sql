@@ -0,0 +1,64 @@
+-- Transaction import
+-- Inserts a batch of imported (complete) transactions and adjusts the
+-- business balance once for the whole batch, all or nothing.
+
+create or replace function import_transactions(
+    p_business_id integer,
+    p_transactions jsonb
+)
+returns integer
+language plpgsql
+as $$
+declare
+    v_count integer;
+    v_net numeric;
+begin
+    -- Lock the business row so concurrent recordings serialize on the balance
+    perform 1
+    from "Businesses"
+    where id = p_business_id and deleted_at is null
+    for update;
+
+    if not found then
+        raise exception 'Business % not found', p_business_id;
+    end if;
+
+    insert into "Transactions" (
+        business_id,
+        transaction_date,
+        type,
+        category,
+        amount,
+        description,
+        status
+    )
+    select
+        p_business_id,
+        t.transaction_date,
+        t.type,
+        t.category,
+        t.amount,
+        t.description,
+        'complete'
+    from jsonb_to_recordset(p_transactions) as t(
+        transaction_date timestamp,
+        type text,
+        category text,
+        amount numeric,
+        description text
+    );
+
+    get diagnostics v_count = row_count;
+
+    select coalesce(sum(case when t.type = 'Income' then t.amount else -t.amount end), 0)
+    into v_net
+    from jsonb_to_recordset(p_transactions) as t(type text, amount numeric);
+
+    update "Businesses"
+    set current_balance = current_balance + v_net,
+        updated_at = now()
+    where id = p_business_id;
+
+    return v_count;
+end;
+$$;
@@ -0,0 +1,304 @@
+-- Tax (PPN) and discounts on sales
+-- Businesses configure tax rates (inclusive or exclusive). Sales store the
+-- subtotal, total discount and tax next to the grand total (amount), and each
+-- line stores its own discount.
+
+create table if not exists "TaxRates" (
+    id serial primary key,
+    business_id integer not null references "Businesses"(id),
+    name text not null,
+    rate decimal(5, 2) not null check (rate >= 0 and rate <= 100),
+    is_inclusive boolean not null default false,
+    is_default boolean not null default false,
+    created_at timestamp default now(),
+    updated_at timestamp default now(),
+    deleted_at timestamp
+);
+
+create index if not exists tax_rates_business_idx
+    on "TaxRates" (business_id)
+    where deleted_at is null;
+
+-- amount stays the grand total (what moves the balance):
+-- amount = subtotal - discount_amount + (tax_inclusive ? 0 : tax_amount)
+alter table "Transactions"
+    add column if not exists subtotal decimal(15, 2),
+    add column if not exists discount_amount decimal(15, 2) not null default 0,
+    add column if not exists tax_amount decimal(15, 2) not null default 0,
+    add column if not exists tax_rate_id integer references "TaxRates"(id),
+    add column if not exists tax_rate decimal(5, 2),
+    add column if not exists tax_inclusive boolean not null default false;
+
+update "Transactions" set subtotal = amount where subtotal is null;
+
+-- Line discount in Rupiah (quantity * unit price - discount = line net)
+alter table "TransactionDetails"
+    add column if not exists discount_amount decimal(15, 2) not null default 0;
+
+-- record_transaction now also stores totals and line discounts
+create or replace function record_transaction(
+    p_transaction jsonb,
+    p_details jsonb default '[]'::jsonb
+)
+returns integer
+language plpgsql
+as $$
+declare
+    v_business_id integer := (p_transaction->>'business_id')::integer;
+    v_status text := coalesce(p_transaction->>'status', 'complete');
+    v_transaction_id integer;
+    v_item jsonb;
+    v_product_id integer;
+begin
+    -- Lock the business row so concurrent recordings serialize on the balance
+    perform 1
+    from "Businesses"
+    where id = v_business_id and deleted_at is null
+    for update;
+
+    if not found then
+        raise exception 'Business % not found', v_business_id;
+    end if;
+
+    insert into "Transactions" (
+        business_id,
+        transaction_date,
+        type,
+        category,
+        amount,
+        description,
+        status,
+        related_transaction_id,
+        recurring_transaction_id,
+        subtotal,
+        discount_amount,
+        tax_amount,
+        tax_rate_id,
+        tax_rate,
+        tax_inclusive
+    )
+    values (
+        v_business_id,
+        coalesce((p_transaction->>'transaction_date')::timestamp, now()),
+        p_transaction->>'type',
+        p_transaction->>'category',
+        (p_transaction->>'amount')::numeric,
+        p_transaction->>'description',
+        v_status,
+        (p_transaction->>'related_transaction_id')::integer,
+        (p_transaction->>'recurring_transaction_id')::integer,
+        coalesce((p_transaction->>'subtotal')::numeric, (p_transaction->>'amount')::numeric),
+        coalesce((p_transaction->>'discount_amount')::numeric, 0),
+        coalesce((p_transaction->>'tax_amount')::numeric, 0),
+        (p_transaction->>'tax_rate_id')::integer,
+        (p_transaction->>'tax_rate')::numeric,
+        coalesce((p_transaction->>'tax_inclusive')::boolean, false)
+    )
+    returning id into v_transaction_id;
+
+    for v_item in select value from jsonb_array_elements(p_details)
+    loop
+        select id
+        into v_product_id
+        from "Products"
+        where id = (v_item->>'product_id')::integer
+          and business_id = v_business_id
+          and deleted_at is null;
+
+        if not found then
+            raise exception 'Product % not found', v_item->>'product_id';
+        end if;
+
+        insert into "TransactionDetails" (
+            transaction_id,
+            product_id,
+            quantity,
+            unit_price_at_transaction,
+            source_detail_id,
+            discount_amount
+        )
+        values (
+            v_transaction_id,
+            v_product_id,
+            (v_item->>'quantity')::integer,
+            (v_item->>'unit_price_at_transaction')::numeric,
+            (v_item->>'source_detail_id')::integer,
+            coalesce((v_item->>'discount_amount')::numeric, 0)
+        );
+    end loop;
+
+    if v_status = 'complete' then
+        perform apply_transaction_effects(v_transaction_id, 1);
+    end if;
+
+    return v_transaction_id;
+end;
+$$;
+
+-- Returns refund the share of the grand total paid for the returned units
+create or replace function record_sales_return(
+    p_transaction_id integer,
+    p_items jsonb,
+    p_description text default null
+)
+returns integer
+language plpgsql
+as $$
+declare
+    v_sale "Transactions"%rowtype;
+    v_detail "TransactionDetails"%rowtype;
+    v_detail_id integer;
+    v_quantity integer;
+    v_returned integer;
+    v_amount numeric := 0;
+    v_lines_net numeric;
+    v_details jsonb := '[]'::jsonb;
+begin
+    select *
+    into v_sale
+    from "Transactions"
+    where id = p_transaction_id and deleted_at is null
+    for update;
+
+    if not found then
+        raise exception 'Transaction % not found', p_transaction_id;
+    end if;
+
+    if v_sale.type <> 'Income' or v_sale.status <> 'complete' then
+        raise exception 'Only completed sales can be returned';
+    end if;
+
+    -- Net value of all sold lines (after line discounts), used to share the
+    -- transaction discount and tax across lines
+    select coalesce(sum(quantity * unit_price_at_transaction - discount_amount), 0)
+    into v_lines_net
+    from "TransactionDetails"
+    where transaction_id = p_transaction_id
+      and source_detail_id is null;
+
+    -- Same line listed twice counts as one combined quantity
+    for v_detail_id, v_quantity in
+        select (value->>'transaction_detail_id')::integer,
+               sum((value->>'quantity')::integer)
+        from jsonb_array_elements(p_items)
+        group by 1
+    loop
+        select *
+        into v_detail
+        from "TransactionDetails"
+        where id = v_detail_id and transaction_id = p_transaction_id;
+
+        if not found then
+            raise exception 'Transaction detail % not found', v_detail_id;
+        end if;
+
+        select coalesce(sum(d.quantity), 0)
+        into v_returned
+        from "TransactionDetails" d
+        join "Transactions" t on t.id = d.transaction_id
+        where d.source_detail_id = v_detail.id
+          and t.deleted_at is null
+          and t.status <> 'cancel';
+
+        if v_returned + v_quantity > v_detail.quantity then
+            raise exception 'Return quantity exceeds sold quantity for detail %. Sold: %, Already returned: %, Requested: %',
+                v_detail.id, v_detail.quantity, v_returned, v_quantity;
+        end if;
+
+        -- Refund the share of the grand total the returned units were paid
+        -- (line discount, transaction discount and tax included)
+        if v_lines_net > 0 then
+            v_amount := v_amount + round(
+                v_sale.amount
+                    * (v_detail.quantity * v_detail.unit_price_at_transaction - v_detail.discount_amount) / v_lines_net
+                    * v_quantity / v_detail.quantity,
+                2
+            );
+        end if;
+        v_details := v_details || jsonb_build_object(
+            'product_id', v_detail.product_id,
+            'quantity', v_quantity,
+            'unit_price_at_transaction', v_detail.unit_price_at_transaction,
+            'source_detail_id', v_detail.id
+        );
+    end loop;
+
+    -- Expense with details: puts the items back into stock and refunds the balance
+    return record_transaction(
+        jsonb_build_object(
+            'business_id', v_sale.business_id,
+            'type', 'Expense',
+            'category', 'Sales Return',
+            'amount', v_amount,
+            'description', coalesce(p_description, 'Sales return'),
+            'status', 'complete',
+            'related_transaction_id', v_sale.id
+        ),
+        v_details
+    );
+end;
+$$;
+
+-- Imported transactions have no discounts or tax: subtotal is the amount
+create or replace function import_transactions(
+    p_business_id integer,
+    p_transactions jsonb
+)
+returns integer
+language plpgsql
+as $$
+declare
+    v_count integer;
+    v_net numeric;
+begin
+    -- Lock the business row so concurrent recordings serialize on the balance
+    perform 1
+    from "Businesses"
+    where id = p_business_id and deleted_at is null
+    for update;
+
+    if not found then
+        raise exception 'Business % not found', p_business_id;
+    end if;
+
+    insert into "Transactions" (
+        business_id,
+        transaction_date,
+        type,
+        category,
+        amount,
+        subtotal,
+        description,
+        status
+    )
+    select
+        p_business_id,
+        t.transaction_date,
+        t.type,
+        t.category,
+        t.amount,
+        t.amount,
+        t.description,
+        'complete'
+    from jsonb_to_recordset(p_transactions) as t(
+        transaction_date timestamp,
+        type text,
+        category text,
+        amount numeric,
+        description text
+    );
+
+    get diagnostics v_count = row_count;
+
+    select coalesce(sum(case when t.type = 'Income' then t.amount else -t.amount end), 0)
+    into v_net
+    from jsonb_to_recordset(p_transactions) as t(type text, amount numeric);
+
+    update "Businesses"
+    set current_balance = current_balance + v_net,
+        updated_at = now()
+    where id = p_business_id;
+
+    return v_count;
+end;
+$$;
@@ -0,0 +1,155 @@
+-- Payment methods
+-- How money moved for a transaction (cash, QRIS, bank transfer, e-wallet).
+-- A transaction has one payment per method used; sales can be split across
+-- several methods (payment_method = 'split').
+
+alter table "Transactions"
+    add column if not exists payment_method text
+        check (payment_method in ('cash', 'qris', 'bank_transfer', 'e_wallet', 'split')),
+    add column if not exists payment_reference text;
+
+create table if not exists "TransactionPayments" (
+    id serial primary key,
+    transaction_id integer not null references "Transactions"(id),
+    method text not null check (method in ('cash', 'qris', 'bank_transfer', 'e_wallet')),
+    amount decimal(15, 2) not null check (amount > 0),
+    reference text,
+    created_at timestamp default now()
+);
+
+create index if not exists transaction_payments_transaction_idx
+    on "TransactionPayments" (transaction_id);
+
+-- record_transaction now also stores the payment method and payments
+-- (p_transaction->'payments': [{ method, amount, reference }])
+create or replace function record_transaction(
+    p_transaction jsonb,
+    p_details jsonb default '[]'::jsonb
+)
+returns integer
+language plpgsql
+as $$
+declare
+    v_business_id integer := (p_transaction->>'business_id')::integer;
+    v_status text := coalesce(p_transaction->>'status', 'complete');
+    v_transaction_id integer;
+    v_item jsonb;
+    v_product_id integer;
+    v_payments jsonb := coalesce(p_transaction->'payments', '[]'::jsonb);
+    v_payment_method text := p_transaction->>'payment_method';
+begin
+    -- Lock the business row so concurrent recordings serialize on the balance
+    perform 1
+    from "Businesses"
+    where id = v_business_id and deleted_at is null
+    for update;
+
+    if not found then
+        raise exception 'Business % not found', v_business_id;
+    end if;
+
+    insert into "Transactions" (
+        business_id,
+        transaction_date,
+        type,
+        category,
+        amount,
+        description,
+        status,
+        related_transaction_id,
+        recurring_transaction_id,
+        subtotal,
+        discount_amount,
+        tax_amount,
+        tax_rate_id,
+        tax_rate,
+        tax_inclusive,
+        payment_method,
+        payment_reference
+    )
+    values (
+        v_business_id,
+        coalesce((p_transaction->>'transaction_date')::timestamp, now()),
+        p_transaction->>'type',
+        p_transaction->>'category',
+        (p_transaction->>'amount')::numeric,
+        p_transaction->>'description',
+        v_status,
+        (p_transaction->>'related_transaction_id')::integer,
+        (p_transaction->>'recurring_transaction_id')::integer,
+        coalesce((p_transaction->>'subtotal')::numeric, (p_transaction->>'amount')::numeric),
+        coalesce((p_transaction->>'discount_amount')::numeric, 0),
+        coalesce((p_transaction->>'tax_amount')::numeric, 0),
+        (p_transaction->>'tax_rate_id')::integer,
+        (p_transaction->>'tax_rate')::numeric,
+        coalesce((p_transaction->>'tax_inclusive')::boolean, false),
+        case jsonb_array_length(v_payments)
+            when 0 then v_payment_method
+            when 1 then v_payments->0->>'method'
+            else 'split'
+        end,
+        p_transaction->>'payment_reference'
+    )
+    returning id into v_transaction_id;
+
+    for v_item in select value from jsonb_array_elements(p_details)
+    loop
+        select id
+        into v_product_id
+        from "Products"
+        where id = (v_item->>'product_id')::integer
+          and business_id = v_business_id
+          and deleted_at is null;
+
+        if not found then
+            raise exception 'Product % not found', v_item->>'product_id';
+        end if;
+
+        insert into "TransactionDetails" (
+            transaction_id,
+            product_id,
+            quantity,
+            unit_price_at_transaction,
+            source_detail_id,
+            discount_amount
+        )
+        values (
+            v_transaction_id,
+            v_product_id,
+            (v_item->>'quantity')::integer,
+            (v_item->>'unit_price_at_transaction')::numeric,
+            (v_item->>'source_detail_id')::integer,
+            coalesce((v_item->>'discount_amount')::numeric, 0)
+        );
+    end loop;
+
+    -- Single method without explicit payments: one payment of the full amount
+    if jsonb_array_length(v_payments) = 0 and v_payment_method is not null then
+        v_payments := jsonb_build_array(jsonb_build_object(
+            'method', v_payment_method,
+            'amount', p_transaction->>'amount',
+            'reference', p_transaction->>'payment_reference'
+        ));
+    end if;
+
+    if jsonb_array_length(v_payments) > 0 and (
+        select sum((value->>'amount')::numeric) from jsonb_array_elements(v_payments)
+    ) <> (p_transaction->>'amount')::numeric then
+        raise exception 'Payment amounts must add up to the transaction amount %', p_transaction->>'amount';
+    end if;
+
+    insert into "TransactionPayments" (transaction_id, method, amount, reference)
+    select
+        v_transaction_id,
+        value->>'method',
+        (value->>'amount')::numeric,
+        value->>'reference'
+    from jsonb_array_elements(v_payments);
+
+    if v_status = 'complete' then
+        perform apply_transaction_effects(v_transaction_id, 1);
+    end if;
+
+    return v_transaction_id;
+end;
+$$;
@@ -0,0 +1,648 @@
+-- Money accounts
+-- A business keeps its money in several places (cash drawer, bank account,
+-- e-wallet). Each money account has its own balance; Businesses.current_balance
+-- stays the total of all accounts. Every transaction moves the balance of one
+-- account, transfers move money between accounts without changing the total.
+
+create table if not exists "MoneyAccounts" (
+    id serial primary key,
+    business_id integer not null references "Businesses"(id),
+    name text not null,
+    type text not null default 'cash' check (type in ('cash', 'bank', 'e_wallet')),
+    balance decimal(15, 2) not null default 0,
+    -- Used for transactions that do not name an account
+    is_default boolean not null default false,
+    created_at timestamp default now(),
+    updated_at timestamp default now(),
+    deleted_at timestamp
+);
+
+create index if not exists money_accounts_business_idx
+    on "MoneyAccounts" (business_id)
+    where deleted_at is null;
+
+create unique index if not exists money_accounts_default_idx
+    on "MoneyAccounts" (business_id)
+    where is_default and deleted_at is null;
+
+create table if not exists "AccountTransfers" (
+    id serial primary key,
+    business_id integer not null references "Businesses"(id),
+    from_account_id integer not null references "MoneyAccounts"(id),
+    to_account_id integer not null references "MoneyAccounts"(id),
+    amount decimal(15, 2) not null check (amount > 0),
+    description text,
+    transfer_date timestamp not null default now(),
+    created_at timestamp default now(),
+    check (from_account_id <> to_account_id)
+);
+
+create index if not exists account_transfers_business_date_idx
+    on "AccountTransfers" (business_id, transfer_date);
+
+alter table "Transactions"
+    add column if not exists account_id integer references "MoneyAccounts"(id);
+
+create index if not exists transactions_account_idx
+    on "Transactions" (account_id);
+
+-- Existing businesses: one default cash account holding the current balance
+insert into "MoneyAccounts" (business_id, name, type, balance, is_default)
+select b.id, 'Kas', 'cash', b.current_balance, true
+from "Businesses" b
+where not exists (select 1 from "MoneyAccounts" a where a.business_id = b.id);
+
+update "Transactions" t
+set account_id = a.id
+from "MoneyAccounts" a
+where a.business_id = t.business_id
+  and a.is_default
+  and a.deleted_at is null
+  and t.account_id is null;
+
+-- New businesses get the same default account, opened with their initial balance
+create or replace function create_default_money_account()
+returns trigger
+language plpgsql
+as $$
+begin
+    insert into "MoneyAccounts" (business_id, name, type, balance, is_default)
+    values (new.id, 'Kas', 'cash', coalesce(new.current_balance, 0), true);
+    return new;
+end;
+$$;
+
+drop trigger if exists businesses_default_money_account on "Businesses";
+create trigger businesses_default_money_account
+    after insert on "Businesses"
+    for each row execute function create_default_money_account();
+
+-- Default money account of a business
+create or replace function default_money_account(p_business_id integer)
+returns integer
+language plpgsql
+as $$
+declare
+    v_account_id integer;
+begin
+    select id
+    into v_account_id
+    from "MoneyAccounts"
+    where business_id = p_business_id
+      and is_default
+      and deleted_at is null;
+
+    if not found then
+        raise exception 'Business % has no default money account', p_business_id;
+    end if;
+
+    return v_account_id;
+end;
+$$;
+
+-- Add p_delta to an account balance and to the business total
+create or replace function adjust_account_balance(
+    p_account_id integer,
+    p_delta numeric
+)
+returns void
+language plpgsql
+as $$
+declare
+    v_business_id integer;
+begin
+    update "MoneyAccounts"
+    set balance = balance + p_delta,
+        updated_at = now()
+    where id = p_account_id
+    returning business_id into v_business_id;
+
+    if not found then
+        raise exception 'Money account % not found', p_account_id;
+    end if;
+
+    update "Businesses"
+    set current_balance = current_balance + p_delta,
+        updated_at = now()
+    where id = v_business_id;
+end;
+$$;
+
+-- Open a money account; the opening balance is added to the business total
+create or replace function open_money_account(p_account jsonb)
+returns integer
+language plpgsql
+as $$
+declare
+    v_business_id integer := (p_account->>'business_id')::integer;
+    v_opening_balance numeric := coalesce((p_account->>'balance')::numeric, 0);
+    v_account_id integer;
+begin
+    perform 1
+    from "Businesses"
+    where id = v_business_id and deleted_at is null
+    for update;
+
+    if not found then
+        raise exception 'Business % not found', v_business_id;
+    end if;
+
+    if coalesce((p_account->>'is_default')::boolean, false) then
+        update "MoneyAccounts"
+        set is_default = false,
+            updated_at = now()
+        where business_id = v_business_id and is_default;
+    end if;
+
+    insert into "MoneyAccounts" (business_id, name, type, balance, is_default)
+    values (
+        v_business_id,
+        p_account->>'name',
+        coalesce(p_account->>'type', 'cash'),
+        0,
+        coalesce((p_account->>'is_default')::boolean, false)
+    )
+    returning id into v_account_id;
+
+    if v_opening_balance <> 0 then
+        perform adjust_account_balance(v_account_id, v_opening_balance);
+    end if;
+
+    return v_account_id;
+end;
+$$;
+
+-- Move money between two accounts of a business. The business total does
+-- not change and no Income/Expense is recorded.
+create or replace function transfer_between_accounts(
+    p_business_id integer,
+    p_from_account_id integer,
+    p_to_account_id integer,
+    p_amount numeric,
+    p_description text default null,
+    p_transfer_date timestamp default null
+)
+returns integer
+language plpgsql
+as $$
+declare
+    v_from "MoneyAccounts"%rowtype;
+    v_locked integer;
+    v_transfer_id integer;
+begin
+    if p_from_account_id = p_to_account_id then
+        raise exception 'Cannot transfer to the same account';
+    end if;
+
+    -- Lock both accounts in id order to avoid deadlocks between transfers
+    select count(*)
+    into v_locked
+    from (
+        select id
+        from "MoneyAccounts"
+        where id in (p_from_account_id, p_to_account_id)
+          and business_id = p_business_id
+          and deleted_at is null
+        order by id
+        for update
+    ) locked;
+
+    if v_locked <> 2 then
+        raise exception 'Money account not found';
+    end if;
+
+    select * into v_from from "MoneyAccounts" where id = p_from_account_id;
+
+    if v_from.balance < p_amount then
+        raise exception 'Insufficient funds in %. Available: %, Required: %',
+            v_from.name, v_from.balance, p_amount;
+    end if;
+
+    update "MoneyAccounts"
+    set balance = balance - p_amount,
+        updated_at = now()
+    where id = p_from_account_id;
+
+    update "MoneyAccounts"
+    set balance = balance + p_amount,
+        updated_at = now()
+    where id = p_to_account_id;
+
+    insert into "AccountTransfers" (
+        business_id,
+        from_account_id,
+        to_account_id,
+        amount,
+        description,
+        transfer_date
+    )
+    values (
+        p_business_id,
+        p_from_account_id,
+        p_to_account_id,
+        p_amount,
+        p_description,
+        coalesce(p_transfer_date, now())
+    )
+    returning id into v_transfer_id;
+
+    return v_transfer_id;
+end;
+$$;
+
+-- Balance effects now go to the transaction's money account (and through it
+-- to the business total)
+create or replace function apply_transaction_effects(
+    p_transaction_id integer,
+    p_direction integer
+)
+returns void
+language plpgsql
+as $$
+declare
+    v_transaction "Transactions"%rowtype;
+    v_detail "TransactionDetails"%rowtype;
+    v_product "Products"%rowtype;
+    v_change integer;
+    v_new_stock integer;
+begin
+    select * into v_transaction from "Transactions" where id = p_transaction_id;
+
+    -- Lock products in id order to avoid deadlocks between concurrent calls
+    for v_detail in
+        select *
+        from "TransactionDetails"
+        where transaction_id = p_transaction_id
+        order by product_id
+    loop
+        select *
+        into v_product
+        from "Products"
+        where id = v_detail.product_id
+        for update;
+
+        -- Income (sale) takes stock out, Expense (purchase) brings it in
+        v_change := p_direction
+            * case when v_transaction.type = 'Income' then -v_detail.quantity else v_detail.quantity end;
+        v_new_stock := v_product.current_stock + v_change;
+
+        if v_new_stock < 0 then
+            raise exception 'Insufficient stock for %. Available: %, Required: %',
+                v_product.name, v_product.current_stock, abs(v_change);
+        end if;
+
+        update "Products"
+        set current_stock = v_new_stock,
+            stock_status = case
+                when v_new_stock = 0 then 'out'
+                when v_new_stock < 10 then 'low'
+                else 'active'
+            end,
+            updated_at = now()
+        where id = v_product.id;
+    end loop;
+
+    perform adjust_account_balance(
+        coalesce(v_transaction.account_id, default_money_account(v_transaction.business_id)),
+        p_direction
+            * case when v_transaction.type = 'Income' then v_transaction.amount else -v_transaction.amount end
+    );
+end;
+$$;
+
+-- record_transaction stores the money account (p_transaction->>'account_id',
+-- default account when omitted)
+create or replace function record_transaction(
+    p_transaction jsonb,
+    p_details jsonb default '[]'::jsonb
+)
+returns integer
+language plpgsql
+as $$
+declare
+    v_business_id integer := (p_transaction->>'business_id')::integer;
+    v_status text := coalesce(p_transaction->>'status', 'complete');
+    v_transaction_id integer;
+    v_item jsonb;
+    v_product_id integer;
+    v_payments jsonb := coalesce(p_transaction->'payments', '[]'::jsonb);
+    v_payment_method text := p_transaction->>'payment_method';
+    v_account_id integer;
+begin
+    -- Lock the business row so concurrent recordings serialize on the balance
+    perform 1
+    from "Businesses"
+    where id = v_business_id and deleted_at is null
+    for update;
+
+    if not found then
+        raise exception 'Business % not found', v_business_id;
+    end if;
+
+    -- Money account: the one given, or the business default account
+    if p_transaction->>'account_id' is not null then
+        select id
+        into v_account_id
+        from "MoneyAccounts"
+        where id = (p_transaction->>'account_id')::integer
+          and business_id = v_business_id
+          and deleted_at is null;
+
+        if not found then
+            raise exception 'Money account % not found', p_transaction->>'account_id';
+        end if;
+    else
+        v_account_id := default_money_account(v_business_id);
+    end if;
+
+    insert into "Transactions" (
+        business_id,
+        transaction_date,
+        type,
+        category,
+        amount,
+        description,
+        status,
+        related_transaction_id,
+        recurring_transaction_id,
+        subtotal,
+        discount_amount,
+        tax_amount,
+        tax_rate_id,
+        tax_rate,
+        tax_inclusive,
+        payment_method,
+        payment_reference,
+        account_id
+    )
+    values (
+        v_business_id,
+        coalesce((p_transaction->>'transaction_date')::timestamp, now()),
+        p_transaction->>'type',
+        p_transaction->>'category',
+        (p_transaction->>'amount')::numeric,
+        p_transaction->>'description',
+        v_status,
+        (p_transaction->>'related_transaction_id')::integer,
+        (p_transaction->>'recurring_transaction_id')::integer,
+        coalesce((p_transaction->>'subtotal')::numeric, (p_transaction->>'amount')::numeric),
+        coalesce((p_transaction->>'discount_amount')::numeric, 0),
+        coalesce((p_transaction->>'tax_amount')::numeric, 0),
+        (p_transaction->>'tax_rate_id')::integer,
+        (p_transaction->>'tax_rate')::numeric,
+        coalesce((p_transaction->>'tax_inclusive')::boolean, false),
+        case jsonb_array_length(v_payments)
+            when 0 then v_payment_method
+            when 1 then v_payments->0->>'method'
+            else 'split'
+        end,
+        p_transaction->>'payment_reference',
+        v_account_id
+    )
+    returning id into v_transaction_id;
+
+    for v_item in select value from jsonb_array_elements(p_details)
+    loop
+        select id
+        into v_product_id
+        from "Products"
+        where id = (v_item->>'product_id')::integer
+          and business_id = v_business_id
+          and deleted_at is null;
+
+        if not found then
+            raise exception 'Product % not found', v_item->>'product_id';
+        end if;
+
+        insert into "TransactionDetails" (
+            transaction_id,
+            product_id,
+            quantity,
+            unit_price_at_transaction,
+            source_detail_id,
+            discount_amount
+        )
+        values (
+            v_transaction_id,
+            v_product_id,
+            (v_item->>'quantity')::integer,
+            (v_item->>'unit_price_at_transaction')::numeric,
+            (v_item->>'source_detail_id')::integer,
+            coalesce((v_item->>'discount_amount')::numeric, 0)
+        );
+    end loop;
+
+    -- Single method without explicit payments: one payment of the full amount
+    if jsonb_array_length(v_payments) = 0 and v_payment_method is not null then
+        v_payments := jsonb_build_array(jsonb_build_object(
+            'method', v_payment_method,
+            'amount', p_transaction->>'amount',
+            'reference', p_transaction->>'payment_reference'
+        ));
+    end if;
+
+    if jsonb_array_length(v_payments) > 0 and (
+        select sum((value->>'amount')::numeric) from jsonb_array_elements(v_payments)
+    ) <> (p_transaction->>'amount')::numeric then
+        raise exception 'Payment amounts must add up to the transaction amount %', p_transaction->>'amount';
+    end if;
+
+    insert into "TransactionPayments" (transaction_id, method, amount, reference)
+    select
+        v_transaction_id,
+        value->>'method',
+        (value->>'amount')::numeric,
+        value->>'reference'
+    from jsonb_array_elements(v_payments);
+
+    if v_status = 'complete' then
+        perform apply_transaction_effects(v_transaction_id, 1);
+    end if;
+
+    return v_transaction_id;
+end;
+$$;
+
+-- Returns are refunded from the account the sale was paid into
+create or replace function record_sales_return(
+    p_transaction_id integer,
+    p_items jsonb,
+    p_description text default null
+)
+returns integer
+language plpgsql
+as $$
+declare
+    v_sale "Transactions"%rowtype;
+    v_detail "TransactionDetails"%rowtype;
+    v_detail_id integer;
+    v_quantity integer;
+    v_returned integer;
+    v_amount numeric := 0;
+    v_lines_net numeric;
+    v_details jsonb := '[]'::jsonb;
+begin
+    select *
+    into v_sale
+    from "Transactions"
+    where id = p_transaction_id and deleted_at is null
+    for update;
+
+    if not found then
+        raise exception 'Transaction % not found', p_transaction_id;
+    end if;
+
+    if v_sale.type <> 'Income' or v_sale.status <> 'complete' then
+        raise exception 'Only completed sales can be returned';
+    end if;
+
+    -- Net value of all sold lines (after line discounts), used to share the
+    -- transaction discount and tax across lines
+    select coalesce(sum(quantity * unit_price_at_transaction - discount_amount), 0)
+    into v_lines_net
+    from "TransactionDetails"
+    where transaction_id = p_transaction_id
+      and source_detail_id is null;
+
+    -- Same line listed twice counts as one combined quantity
+    for v_detail_id, v_quantity in
+        select (value->>'transaction_detail_id')::integer,
+               sum((value->>'quantity')::integer)
+        from jsonb_array_elements(p_items)
+        group by 1
+    loop
+        select *
+        into v_detail
+        from "TransactionDetails"
+        where id = v_detail_id and transaction_id = p_transaction_id;
+
+        if not found then
+            raise exception 'Transaction detail % not found', v_detail_id;
+        end if;
+
+        select coalesce(sum(d.quantity), 0)
+        into v_returned
+        from "TransactionDetails" d
+        join "Transactions" t on t.id = d.transaction_id
+        where d.source_detail_id = v_detail.id
+          and t.deleted_at is null
+          and t.status <> 'cancel';
+
+        if v_returned + v_quantity > v_detail.quantity then
+            raise exception 'Return quantity exceeds sold quantity for detail %. Sold: %, Already returned: %, Requested: %',
+                v_detail.id, v_detail.quantity, v_returned, v_quantity;
+        end if;
+
+        -- Refund the share of the grand total the returned units were paid
+        -- (line discount, transaction discount and tax included)
+        if v_lines_net > 0 then
+            v_amount := v_amount + round(
+                v_sale.amount
+                    * (v_detail.quantity * v_detail.unit_price_at_transaction - v_detail.discount_amount) / v_lines_net
+                    * v_quantity / v_detail.quantity,
+                2
+            );
+        end if;
+        v_details := v_details || jsonb_build_object(
+            'product_id', v_detail.product_id,
+            'quantity', v_quantity,
+            'unit_price_at_transaction', v_detail.unit_price_at_transaction,
+            'source_detail_id', v_detail.id
+        );
+    end loop;
+
+    -- Expense with details: puts the items back into stock and refunds the balance
+    return record_transaction(
+        jsonb_build_object(
+            'business_id', v_sale.business_id,
+            'type', 'Expense',
+            'category', 'Sales Return',
+            'amount', v_amount,
+            'description', coalesce(p_description, 'Sales return'),
+            'status', 'complete',
+            'related_transaction_id', v_sale.id,
+            'account_id', v_sale.account_id
+        ),
+        v_details
+    );
+end;
+$$;
+
+-- Imported transactions go into one money account (default account when omitted)
+drop function if exists import_transactions(integer, jsonb);
+
+create or replace function import_transactions(
+    p_business_id integer,
+    p_transactions jsonb,
+    p_account_id integer default null
+)
+returns integer
+language plpgsql
+as $$
+declare
+    v_count integer;
+    v_net numeric;
+    v_account_id integer := p_account_id;
+begin
+    -- Lock the business row so concurrent recordings serialize on the balance
+    perform 1
+    from "Businesses"
+    where id = p_business_id and deleted_at is null
+    for update;
+
+    if not found then
+        raise exception 'Business % not found', p_business_id;
+    end if;
+
+    if v_account_id is null then
+        v_account_id := default_money_account(p_business_id);
+    elsif not exists (
+        select 1
+        from "MoneyAccounts"
+        where id = v_account_id
+          and business_id = p_business_id
+          and deleted_at is null
+    ) then
+        raise exception 'Money account % not found', v_account_id;
+    end if;
+
+    insert into "Transactions" (
+        business_id,
+        transaction_date,
+        type,
+        category,
+        amount,
+        subtotal,
+        description,
+        status,
+        account_id
+    )
+    select
+        p_business_id,
+        t.transaction_date,
+        t.type,
+        t.category,
+        t.amount,
+        t.amount,
+        t.description,
+        'complete',
+        v_account_id
+    from jsonb_to_recordset(p_transactions) as t(
+        transaction_date timestamp,
+        type text,
+        category text,
+        amount numeric,
+        description text
+    );
+
+    get diagnostics v_count = row_count;
+
+    select coalesce(sum(case when t.type = 'Income' then t.amount else -t.amount end), 0)
+    into v_net
+    from jsonb_to_recordset(p_transactions) as t(type text, amount numeric);
+
+    perform adjust_account_balance(v_account_id, v_net);
+
+    return v_count;
+end;
+$$;
@@ -0,0 +1,519 @@
+-- Accounts receivable
+-- Credit sales (kasbon): stock leaves and the sale counts as income right
+-- away, but the balance is only credited when the customer pays. What is
+-- still owed is tracked in "Receivables", installments in "ReceivablePayments".
+--
+-- Transactions.credit_amount is the part of the amount not settled in cash
+-- (the whole amount for a credit sale, the part of a return that lowered the
+-- receivable). Balance effects only use amount - credit_amount.
+
+alter table "Transactions"
+    add column if not exists credit_amount decimal(15, 2) not null default 0;
+
+create table if not exists "Receivables" (
+    id serial primary key,
+    business_id integer not null references "Businesses"(id),
+    transaction_id integer not null references "Transactions"(id),
+    customer_name text not null,
+    customer_phone text,
+    -- Owed: sale amount minus returns credited against it
+    amount decimal(15, 2) not null check (amount >= 0),
+    amount_paid decimal(15, 2) not null default 0,
+    due_date date not null,
+    status text not null default 'open' check (status in ('open', 'paid', 'cancelled')),
+    created_at timestamp default now(),
+    updated_at timestamp default now(),
+    deleted_at timestamp,
+    check (amount_paid <= amount)
+);
+
+create unique index if not exists receivables_transaction_idx
+    on "Receivables" (transaction_id)
+    where deleted_at is null;
+
+create index if not exists receivables_business_status_idx
+    on "Receivables" (business_id, status, due_date);
+
+create table if not exists "ReceivablePayments" (
+    id serial primary key,
+    receivable_id integer not null references "Receivables"(id),
+    account_id integer not null references "MoneyAccounts"(id),
+    amount decimal(15, 2) not null check (amount > 0),
+    payment_method text check (payment_method in ('cash', 'qris', 'bank_transfer', 'e_wallet')),
+    reference text,
+    payment_date timestamp not null default now(),
+    created_at timestamp default now()
+);
+
+create index if not exists receivable_payments_receivable_idx
+    on "ReceivablePayments" (receivable_id);
+
+-- Balance effects skip the credit part and keep the receivable in step
+create or replace function apply_transaction_effects(
+    p_transaction_id integer,
+    p_direction integer
+)
+returns void
+language plpgsql
+as $$
+declare
+    v_transaction "Transactions"%rowtype;
+    v_detail "TransactionDetails"%rowtype;
+    v_product "Products"%rowtype;
+    v_change integer;
+    v_new_stock integer;
+    v_receivable "Receivables"%rowtype;
+    v_cash numeric;
+begin
+    select * into v_transaction from "Transactions" where id = p_transaction_id;
+
+    -- Lock products in id order to avoid deadlocks between concurrent calls
+    for v_detail in
+        select *
+        from "TransactionDetails"
+        where transaction_id = p_transaction_id
+        order by product_id
+    loop
+        select *
+        into v_product
+        from "Products"
+        where id = v_detail.product_id
+        for update;
+
+        -- Income (sale) takes stock out, Expense (purchase) brings it in
+        v_change := p_direction
+            * case when v_transaction.type = 'Income' then -v_detail.quantity else v_detail.quantity end;
+        v_new_stock := v_product.current_stock + v_change;
+
+        if v_new_stock < 0 then
+            raise exception 'Insufficient stock for %. Available: %, Required: %',
+                v_product.name, v_product.current_stock, abs(v_change);
+        end if;
+
+        update "Products"
+        set current_stock = v_new_stock,
+            stock_status = case
+                when v_new_stock = 0 then 'out'
+                when v_new_stock < 10 then 'low'
+                else 'active'
+            end,
+            updated_at = now()
+        where id = v_product.id;
+    end loop;
+
+    if v_transaction.credit_amount > 0 then
+        if v_transaction.related_transaction_id is null then
+            -- Credit sale: the receivable goes with it
+            select *
+            into v_receivable
+            from "Receivables"
+            where transaction_id = p_transaction_id and deleted_at is null
+            for update;
+
+            if p_direction < 0 then
+                if v_receivable.amount_paid > 0 then
+                    raise exception 'Receivable has payments. Credit sales with payments cannot be cancelled or deleted';
+                end if;
+
+                update "Receivables"
+                set status = 'cancelled',
+                    updated_at = now()
+                where id = v_receivable.id;
+            end if;
+        else
+            -- Return of a credit sale: lowers (or restores) what the customer owes
+            update "Receivables"
+            set amount = amount - p_direction * v_transaction.credit_amount,
+                status = case
+                    when amount_paid >= amount - p_direction * v_transaction.credit_amount then 'paid'
+                    else 'open'
+                end,
+                updated_at = now()
+            where transaction_id = v_transaction.related_transaction_id
+              and deleted_at is null;
+        end if;
+    end if;
+
+    -- Only the part settled in cash moves the balance; receivable payments
+    -- credit the balance when the money arrives
+    v_cash := v_transaction.amount - v_transaction.credit_amount;
+
+    if v_cash <> 0 then
+        perform adjust_account_balance(
+            coalesce(v_transaction.account_id, default_money_account(v_transaction.business_id)),
+            p_direction * case when v_transaction.type = 'Income' then v_cash else -v_cash end
+        );
+    end if;
+end;
+$$;
+
+-- record_transaction stores credit_amount and creates the receivable of a
+-- credit sale (p_transaction->'receivable': { customer_name, customer_phone, due_date })
+create or replace function record_transaction(
+    p_transaction jsonb,
+    p_details jsonb default '[]'::jsonb
+)
+returns integer
+language plpgsql
+as $$
+declare
+    v_business_id integer := (p_transaction->>'business_id')::integer;
+    v_status text := coalesce(p_transaction->>'status', 'complete');
+    v_transaction_id integer;
+    v_item jsonb;
+    v_product_id integer;
+    v_payments jsonb := coalesce(p_transaction->'payments', '[]'::jsonb);
+    v_payment_method text := p_transaction->>'payment_method';
+    v_account_id integer;
+begin
+    -- Lock the business row so concurrent recordings serialize on the balance
+    perform 1
+    from "Businesses"
+    where id = v_business_id and deleted_at is null
+    for update;
+
+    if not found then
+        raise exception 'Business % not found', v_business_id;
+    end if;
+
+    -- Money account: the one given, or the business default account
+    if p_transaction->>'account_id' is not null then
+        select id
+        into v_account_id
+        from "MoneyAccounts"
+        where id = (p_transaction->>'account_id')::integer
+          and business_id = v_business_id
+          and deleted_at is null;
+
+        if not found then
+            raise exception 'Money account % not found', p_transaction->>'account_id';
+        end if;
+    else
+        v_account_id := default_money_account(v_business_id);
+    end if;
+
+    insert into "Transactions" (
+        business_id,
+        transaction_date,
+        type,
+        category,
+        amount,
+        description,
+        status,
+        related_transaction_id,
+        recurring_transaction_id,
+        subtotal,
+        discount_amount,
+        tax_amount,
+        tax_rate_id,
+        tax_rate,
+        tax_inclusive,
+        payment_method,
+        payment_reference,
+        account_id,
+        credit_amount
+    )
+    values (
+        v_business_id,
+        coalesce((p_transaction->>'transaction_date')::timestamp, now()),
+        p_transaction->>'type',
+        p_transaction->>'category',
+        (p_transaction->>'amount')::numeric,
+        p_transaction->>'description',
+        v_status,
+        (p_transaction->>'related_transaction_id')::integer,
+        (p_transaction->>'recurring_transaction_id')::integer,
+        coalesce((p_transaction->>'subtotal')::numeric, (p_transaction->>'amount')::numeric),
+        coalesce((p_transaction->>'discount_amount')::numeric, 0),
+        coalesce((p_transaction->>'tax_amount')::numeric, 0),
+        (p_transaction->>'tax_rate_id')::integer,
+        (p_transaction->>'tax_rate')::numeric,
+        coalesce((p_transaction->>'tax_inclusive')::boolean, false),
+        case jsonb_array_length(v_payments)
+            when 0 then v_payment_method
+            when 1 then v_payments->0->>'method'
+            else 'split'
+        end,
+        p_transaction->>'payment_reference',
+        v_account_id,
+        coalesce((p_transaction->>'credit_amount')::numeric, 0)
+    )
+    returning id into v_transaction_id;
+
+    for v_item in select value from jsonb_array_elements(p_details)
+    loop
+        select id
+        into v_product_id
+        from "Products"
+        where id = (v_item->>'product_id')::integer
+          and business_id = v_business_id
+          and deleted_at is null;
+
+        if not found then
+            raise exception 'Product % not found', v_item->>'product_id';
+        end if;
+
+        insert into "TransactionDetails" (
+            transaction_id,
+            product_id,
+            quantity,
+            unit_price_at_transaction,
+            source_detail_id,
+            discount_amount
+        )
+        values (
+            v_transaction_id,
+            v_product_id,
+            (v_item->>'quantity')::integer,
+            (v_item->>'unit_price_at_transaction')::numeric,
+            (v_item->>'source_detail_id')::integer,
+            coalesce((v_item->>'discount_amount')::numeric, 0)
+        );
+    end loop;
+
+    -- Single method without explicit payments: one payment of the full amount
+    if jsonb_array_length(v_payments) = 0 and v_payment_method is not null then
+        v_payments := jsonb_build_array(jsonb_build_object(
+            'method', v_payment_method,
+            'amount', p_transaction->>'amount',
+            'reference', p_transaction->>'payment_reference'
+        ));
+    end if;
+
+    if jsonb_array_length(v_payments) > 0 and (
+        select sum((value->>'amount')::numeric) from jsonb_array_elements(v_payments)
+    ) <> (p_transaction->>'amount')::numeric then
+        raise exception 'Payment amounts must add up to the transaction amount %', p_transaction->>'amount';
+    end if;
+
+    insert into "TransactionPayments" (transaction_id, method, amount, reference)
+    select
+        v_transaction_id,
+        value->>'method',
+        (value->>'amount')::numeric,
+        value->>'reference'
+    from jsonb_array_elements(v_payments);
+
+    -- Credit sale: the customer owes the whole amount
+    if p_transaction->'receivable' is not null then
+        insert into "Receivables" (
+            business_id,
+            transaction_id,
+            customer_name,
+            customer_phone,
+            amount,
+            due_date
+        )
+        values (
+            v_business_id,
+            v_transaction_id,
+            p_transaction->'receivable'->>'customer_name',
+            p_transaction->'receivable'->>'customer_phone',
+            (p_transaction->>'amount')::numeric,
+            (p_transaction->'receivable'->>'due_date')::date
+        );
+    end if;
+
+    if v_status = 'complete' then
+        perform apply_transaction_effects(v_transaction_id, 1);
+    end if;
+
+    return v_transaction_id;
+end;
+$$;
+
+-- Returns of a credit sale lower the receivable before refunding cash
+create or replace function record_sales_return(
+    p_transaction_id integer,
+    p_items jsonb,
+    p_description text default null
+)
+returns integer
+language plpgsql
+as $$
+declare
+    v_sale "Transactions"%rowtype;
+    v_detail "TransactionDetails"%rowtype;
+    v_detail_id integer;
+    v_quantity integer;
+    v_returned integer;
+    v_amount numeric := 0;
+    v_lines_net numeric;
+    v_details jsonb := '[]'::jsonb;
+    v_credit numeric := 0;
+begin
+    select *
+    into v_sale
+    from "Transactions"
+    where id = p_transaction_id and deleted_at is null
+    for update;
+
+    if not found then
+        raise exception 'Transaction % not found', p_transaction_id;
+    end if;
+
+    if v_sale.type <> 'Income' or v_sale.status <> 'complete' then
+        raise exception 'Only completed sales can be returned';
+    end if;
+
+    -- Net value of all sold lines (after line discounts), used to share the
+    -- transaction discount and tax across lines
+    select coalesce(sum(quantity * unit_price_at_transaction - discount_amount), 0)
+    into v_lines_net
+    from "TransactionDetails"
+    where transaction_id = p_transaction_id
+      and source_detail_id is null;
+
+    -- Same line listed twice counts as one combined quantity
+    for v_detail_id, v_quantity in
+        select (value->>'transaction_detail_id')::integer,
+               sum((value->>'quantity')::integer)
+        from jsonb_array_elements(p_items)
+        group by 1
+    loop
+        select *
+        into v_detail
+        from "TransactionDetails"
+        where id = v_detail_id and transaction_id = p_transaction_id;
+
+        if not found then
+            raise exception 'Transaction detail % not found', v_detail_id;
+        end if;
+
+        select coalesce(sum(d.quantity), 0)
+        into v_returned
+        from "TransactionDetails" d
+        join "Transactions" t on t.id = d.transaction_id
+        where d.source_detail_id = v_detail.id
+          and t.deleted_at is null
+          and t.status <> 'cancel';
+
+        if v_returned + v_quantity > v_detail.quantity then
+            raise exception 'Return quantity exceeds sold quantity for detail %. Sold: %, Already returned: %, Requested: %',
+                v_detail.id, v_detail.quantity, v_returned, v_quantity;
+        end if;
+
+        -- Refund the share of the grand total the returned units were paid
+        -- (line discount, transaction discount and tax included)
+        if v_lines_net > 0 then
+            v_amount := v_amount + round(
+                v_sale.amount
+                    * (v_detail.quantity * v_detail.unit_price_at_transaction - v_detail.discount_amount) / v_lines_net
+                    * v_quantity / v_detail.quantity,
+                2
+            );
+        end if;
+        v_details := v_details || jsonb_build_object(
+            'product_id', v_detail.product_id,
+            'quantity', v_quantity,
+            'unit_price_at_transaction', v_detail.unit_price_at_transaction,
+            'source_detail_id', v_detail.id
+        );
+    end loop;
+
+    -- Credit sale: the refund first lowers what the customer still owes,
+    -- only the rest is paid back in cash
+    if v_sale.credit_amount > 0 then
+        select least(v_amount, greatest(amount - amount_paid, 0))
+        into v_credit
+        from "Receivables"
+        where transaction_id = v_sale.id and deleted_at is null
+        for update;
+    end if;
+
+    -- Expense with details: puts the items back into stock and refunds the balance
+    return record_transaction(
+        jsonb_build_object(
+            'business_id', v_sale.business_id,
+            'type', 'Expense',
+            'category', 'Sales Return',
+            'amount', v_amount,
+            'description', coalesce(p_description, 'Sales return'),
+            'status', 'complete',
+            'related_transaction_id', v_sale.id,
+            'account_id', v_sale.account_id,
+            'credit_amount', coalesce(v_credit, 0)
+        ),
+        v_details
+    );
+end;
+$$;
+
+-- Record an installment: lowers the outstanding amount and credits the
+-- money account (default account when omitted)
+create or replace function record_receivable_payment(
+    p_receivable_id integer,
+    p_payment jsonb
+)
+returns integer
+language plpgsql
+as $$
+declare
+    v_receivable "Receivables"%rowtype;
+    v_amount numeric := (p_payment->>'amount')::numeric;
+    v_account_id integer;
+    v_payment_id integer;
+begin
+    select *
+    into v_receivable
+    from "Receivables"
+    where id = p_receivable_id and deleted_at is null
+    for update;
+
+    if not found then
+        raise exception 'Receivable % not found', p_receivable_id;
+    end if;
+
+    if v_receivable.status <> 'open' then
+        raise exception 'Receivable is %', v_receivable.status;
+    end if;
+
+    if v_amount > v_receivable.amount - v_receivable.amount_paid then
+        raise exception 'Payment exceeds the outstanding amount %',
+            v_receivable.amount - v_receivable.amount_paid;
+    end if;
+
+    if p_payment->>'account_id' is not null then
+        select id
+        into v_account_id
+        from "MoneyAccounts"
+        where id = (p_payment->>'account_id')::integer
+          and business_id = v_receivable.business_id
+          and deleted_at is null;
+
+        if not found then
+            raise exception 'Money account % not found', p_payment->>'account_id';
+        end if;
+    else
+        v_account_id := default_money_account(v_receivable.business_id);
+    end if;
+
+    insert into "ReceivablePayments" (
+        receivable_id,
+        account_id,
+        amount,
+        payment_method,
+        reference,
+        payment_date
+    )
+    values (
+        p_receivable_id,
+        v_account_id,
+        v_amount,
+        p_payment->>'payment_method',
+        p_payment->>'reference',
+        coalesce((p_payment->>'payment_date')::timestamp, now())
+    )
+    returning id into v_payment_id;
+
+    update "Receivables"
+    set amount_paid = amount_paid + v_amount,
+        status = case when amount_paid + v_amount >= amount then 'paid' else 'open' end,
+        updated_at = now()
+    where id = p_receivable_id;
+
+    perform adjust_account_balance(v_account_id, v_amount);
+
+    return v_payment_id;
+end;
+$$;
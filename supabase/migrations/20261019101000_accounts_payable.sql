@@ -0,0 +1,434 @@
+-- Accounts payable
+-- Credit purchases from suppliers (e.g. 30-day terms): stock comes in right
+-- away, the balance is only debited when the supplier is paid. What is still
+-- owed is tracked in "Payables", installments in "PayablePayments".
+-- Transactions.credit_amount works as for credit sales.
+
+create table if not exists "Payables" (
+    id serial primary key,
+    business_id integer not null references "Businesses"(id),
+    transaction_id integer not null references "Transactions"(id),
+    supplier_name text not null,
+    supplier_phone text,
+    amount decimal(15, 2) not null check (amount >= 0),
+    amount_paid decimal(15, 2) not null default 0,
+    due_date date not null,
+    status text not null default 'open' check (status in ('open', 'paid', 'cancelled')),
+    created_at timestamp default now(),
+    updated_at timestamp default now(),
+    deleted_at timestamp,
+    check (amount_paid <= amount)
+);
+
+create unique index if not exists payables_transaction_idx
+    on "Payables" (transaction_id)
+    where deleted_at is null;
+
+create index if not exists payables_business_status_idx
+    on "Payables" (business_id, status, due_date);
+
+create table if not exists "PayablePayments" (
+    id serial primary key,
+    payable_id integer not null references "Payables"(id),
+    account_id integer not null references "MoneyAccounts"(id),
+    amount decimal(15, 2) not null check (amount > 0),
+    payment_method text check (payment_method in ('cash', 'qris', 'bank_transfer', 'e_wallet')),
+    reference text,
+    payment_date timestamp not null default now(),
+    created_at timestamp default now()
+);
+
+create index if not exists payable_payments_payable_idx
+    on "PayablePayments" (payable_id);
+
+-- Balance effects also keep the payable of a credit purchase in step
+create or replace function apply_transaction_effects(
+    p_transaction_id integer,
+    p_direction integer
+)
+returns void
+language plpgsql
+as $$
+declare
+    v_transaction "Transactions"%rowtype;
+    v_detail "TransactionDetails"%rowtype;
+    v_product "Products"%rowtype;
+    v_change integer;
+    v_new_stock integer;
+    v_receivable "Receivables"%rowtype;
+    v_payable "Payables"%rowtype;
+    v_cash numeric;
+begin
+    select * into v_transaction from "Transactions" where id = p_transaction_id;
+
+    -- Lock products in id order to avoid deadlocks between concurrent calls
+    for v_detail in
+        select *
+        from "TransactionDetails"
+        where transaction_id = p_transaction_id
+        order by product_id
+    loop
+        select *
+        into v_product
+        from "Products"
+        where id = v_detail.product_id
+        for update;
+
+        -- Income (sale) takes stock out, Expense (purchase) brings it in
+        v_change := p_direction
+            * case when v_transaction.type = 'Income' then -v_detail.quantity else v_detail.quantity end;
+        v_new_stock := v_product.current_stock + v_change;
+
+        if v_new_stock < 0 then
+            raise exception 'Insufficient stock for %. Available: %, Required: %',
+                v_product.name, v_product.current_stock, abs(v_change);
+        end if;
+
+        update "Products"
+        set current_stock = v_new_stock,
+            stock_status = case
+                when v_new_stock = 0 then 'out'
+                when v_new_stock < 10 then 'low'
+                else 'active'
+            end,
+            updated_at = now()
+        where id = v_product.id;
+    end loop;
+
+    if v_transaction.credit_amount > 0 then
+        if v_transaction.related_transaction_id is null and v_transaction.type = 'Expense' then
+            -- Credit purchase: the payable goes with it
+            select *
+            into v_payable
+            from "Payables"
+            where transaction_id = p_transaction_id and deleted_at is null
+            for update;
+
+            if p_direction < 0 then
+                if v_payable.amount_paid > 0 then
+                    raise exception 'Payable has payments. Credit purchases with payments cannot be cancelled or deleted';
+                end if;
+
+                update "Payables"
+                set status = 'cancelled',
+                    updated_at = now()
+                where id = v_payable.id;
+            end if;
+        elsif v_transaction.related_transaction_id is null then
+            -- Credit sale: the receivable goes with it
+            select *
+            into v_receivable
+            from "Receivables"
+            where transaction_id = p_transaction_id and deleted_at is null
+            for update;
+
+            if p_direction < 0 then
+                if v_receivable.amount_paid > 0 then
+                    raise exception 'Receivable has payments. Credit sales with payments cannot be cancelled or deleted';
+                end if;
+
+                update "Receivables"
+                set status = 'cancelled',
+                    updated_at = now()
+                where id = v_receivable.id;
+            end if;
+        else
+            -- Return of a credit sale: lowers (or restores) what the customer owes
+            update "Receivables"
+            set amount = amount - p_direction * v_transaction.credit_amount,
+                status = case
+                    when amount_paid >= amount - p_direction * v_transaction.credit_amount then 'paid'
+                    else 'open'
+                end,
+                updated_at = now()
+            where transaction_id = v_transaction.related_transaction_id
+              and deleted_at is null;
+        end if;
+    end if;
+
+    -- Only the part settled in cash moves the balance; receivable and
+    -- payable payments move it when the money actually changes hands
+    v_cash := v_transaction.amount - v_transaction.credit_amount;
+
+    if v_cash <> 0 then
+        perform adjust_account_balance(
+            coalesce(v_transaction.account_id, default_money_account(v_transaction.business_id)),
+            p_direction * case when v_transaction.type = 'Income' then v_cash else -v_cash end
+        );
+    end if;
+end;
+$$;
+
+-- record_transaction creates the payable of a credit purchase
+-- (p_transaction->'payable': { supplier_name, supplier_phone, due_date })
+create or replace function record_transaction(
+    p_transaction jsonb,
+    p_details jsonb default '[]'::jsonb
+)
+returns integer
+language plpgsql
+as $$
+declare
+    v_business_id integer := (p_transaction->>'business_id')::integer;
+    v_status text := coalesce(p_transaction->>'status', 'complete');
+    v_transaction_id integer;
+    v_item jsonb;
+    v_product_id integer;
+    v_payments jsonb := coalesce(p_transaction->'payments', '[]'::jsonb);
+    v_payment_method text := p_transaction->>'payment_method';
+    v_account_id integer;
+begin
+    -- Lock the business row so concurrent recordings serialize on the balance
+    perform 1
+    from "Businesses"
+    where id = v_business_id and deleted_at is null
+    for update;
+
+    if not found then
+        raise exception 'Business % not found', v_business_id;
+    end if;
+
+    -- Money account: the one given, or the business default account
+    if p_transaction->>'account_id' is not null then
+        select id
+        into v_account_id
+        from "MoneyAccounts"
+        where id = (p_transaction->>'account_id')::integer
+          and business_id = v_business_id
+          and deleted_at is null;
+
+        if not found then
+            raise exception 'Money account % not found', p_transaction->>'account_id';
+        end if;
+    else
+        v_account_id := default_money_account(v_business_id);
+    end if;
+
+    insert into "Transactions" (
+        business_id,
+        transaction_date,
+        type,
+        category,
+        amount,
+        description,
+        status,
+        related_transaction_id,
+        recurring_transaction_id,
+        subtotal,
+        discount_amount,
+        tax_amount,
+        tax_rate_id,
+        tax_rate,
+        tax_inclusive,
+        payment_method,
+        payment_reference,
+        account_id,
+        credit_amount
+    )
+    values (
+        v_business_id,
+        coalesce((p_transaction->>'transaction_date')::timestamp, now()),
+        p_transaction->>'type',
+        p_transaction->>'category',
+        (p_transaction->>'amount')::numeric,
+        p_transaction->>'description',
+        v_status,
+        (p_transaction->>'related_transaction_id')::integer,
+        (p_transaction->>'recurring_transaction_id')::integer,
+        coalesce((p_transaction->>'subtotal')::numeric, (p_transaction->>'amount')::numeric),
+        coalesce((p_transaction->>'discount_amount')::numeric, 0),
+        coalesce((p_transaction->>'tax_amount')::numeric, 0),
+        (p_transaction->>'tax_rate_id')::integer,
+        (p_transaction->>'tax_rate')::numeric,
+        coalesce((p_transaction->>'tax_inclusive')::boolean, false),
+        case jsonb_array_length(v_payments)
+            when 0 then v_payment_method
+            when 1 then v_payments->0->>'method'
+            else 'split'
+        end,
+        p_transaction->>'payment_reference',
+        v_account_id,
+        coalesce((p_transaction->>'credit_amount')::numeric, 0)
+    )
+    returning id into v_transaction_id;
+
+    for v_item in select value from jsonb_array_elements(p_details)
+    loop
+        select id
+        into v_product_id
+        from "Products"
+        where id = (v_item->>'product_id')::integer
+          and business_id = v_business_id
+          and deleted_at is null;
+
+        if not found then
+            raise exception 'Product % not found', v_item->>'product_id';
+        end if;
+
+        insert into "TransactionDetails" (
+            transaction_id,
+            product_id,
+            quantity,
+            unit_price_at_transaction,
+            source_detail_id,
+            discount_amount
+        )
+        values (
+            v_transaction_id,
+            v_product_id,
+            (v_item->>'quantity')::integer,
+            (v_item->>'unit_price_at_transaction')::numeric,
+            (v_item->>'source_detail_id')::integer,
+            coalesce((v_item->>'discount_amount')::numeric, 0)
+        );
+    end loop;
+
+    -- Single method without explicit payments: one payment of the full amount
+    if jsonb_array_length(v_payments) = 0 and v_payment_method is not null then
+        v_payments := jsonb_build_array(jsonb_build_object(
+            'method', v_payment_method,
+            'amount', p_transaction->>'amount',
+            'reference', p_transaction->>'payment_reference'
+        ));
+    end if;
+
+    if jsonb_array_length(v_payments) > 0 and (
+        select sum((value->>'amount')::numeric) from jsonb_array_elements(v_payments)
+    ) <> (p_transaction->>'amount')::numeric then
+        raise exception 'Payment amounts must add up to the transaction amount %', p_transaction->>'amount';
+    end if;
+
+    insert into "TransactionPayments" (transaction_id, method, amount, reference)
+    select
+        v_transaction_id,
+        value->>'method',
+        (value->>'amount')::numeric,
+        value->>'reference'
+    from jsonb_array_elements(v_payments);
+
+    -- Credit sale: the customer owes the whole amount
+    if p_transaction->'receivable' is not null then
+        insert into "Receivables" (
+            business_id,
+            transaction_id,
+            customer_name,
+            customer_phone,
+            amount,
+            due_date
+        )
+        values (
+            v_business_id,
+            v_transaction_id,
+            p_transaction->'receivable'->>'customer_name',
+            p_transaction->'receivable'->>'customer_phone',
+            (p_transaction->>'amount')::numeric,
+            (p_transaction->'receivable'->>'due_date')::date
+        );
+    end if;
+
+    -- Credit purchase: the business owes the supplier the whole amount
+    if p_transaction->'payable' is not null then
+        insert into "Payables" (
+            business_id,
+            transaction_id,
+            supplier_name,
+            supplier_phone,
+            amount,
+            due_date
+        )
+        values (
+            v_business_id,
+            v_transaction_id,
+            p_transaction->'payable'->>'supplier_name',
+            p_transaction->'payable'->>'supplier_phone',
+            (p_transaction->>'amount')::numeric,
+            (p_transaction->'payable'->>'due_date')::date
+        );
+    end if;
+
+    if v_status = 'complete' then
+        perform apply_transaction_effects(v_transaction_id, 1);
+    end if;
+
+    return v_transaction_id;
+end;
+$$;
+
+-- Record a payment to a supplier: lowers the outstanding amount and debits
+-- the money account (default account when omitted)
+create or replace function record_payable_payment(
+    p_payable_id integer,
+    p_payment jsonb
+)
+returns integer
+language plpgsql
+as $$
+declare
+    v_payable "Payables"%rowtype;
+    v_amount numeric := (p_payment->>'amount')::numeric;
+    v_account_id integer;
+    v_payment_id integer;
+begin
+    select *
+    into v_payable
+    from "Payables"
+    where id = p_payable_id and deleted_at is null
+    for update;
+
+    if not found then
+        raise exception 'Payable % not found', p_payable_id;
+    end if;
+
+    if v_payable.status <> 'open' then
+        raise exception 'Payable is %', v_payable.status;
+    end if;
+
+    if v_amount > v_payable.amount - v_payable.amount_paid then
+        raise exception 'Payment exceeds the outstanding amount %',
+            v_payable.amount - v_payable.amount_paid;
+    end if;
+
+    if p_payment->>'account_id' is not null then
+        select id
+        into v_account_id
+        from "MoneyAccounts"
+        where id = (p_payment->>'account_id')::integer
+          and business_id = v_payable.business_id
+          and deleted_at is null;
+
+        if not found then
+            raise exception 'Money account % not found', p_payment->>'account_id';
+        end if;
+    else
+        v_account_id := default_money_account(v_payable.business_id);
+    end if;
+
+    insert into "PayablePayments" (
+        payable_id,
+        account_id,
+        amount,
+        payment_method,
+        reference,
+        payment_date
+    )
+    values (
+        p_payable_id,
+        v_account_id,
+        v_amount,
+        p_payment->>'payment_method',
+        p_payment->>'reference',
+        coalesce((p_payment->>'payment_date')::timestamp, now())
+    )
+    returning id into v_payment_id;
+
+    update "Payables"
+    set amount_paid = amount_paid + v_amount,
+        status = case when amount_paid + v_amount >= amount then 'paid' else 'open' end,
+        updated_at = now()
+    where id = p_payable_id;
+
+    perform adjust_account_balance(v_account_id, -v_amount);
+
+    return v_payment_id;
+end;
+$$;
@@ -0,0 +1,286 @@
+-- Transaction categories
+-- Each business keeps its own list of income and expense categories, optionally
+-- grouped one level deep under a parent category. Transactions and recurring
+-- templates keep the category name (reports and AI insights read it) and link
+-- the category by id; renaming or merging a category rewrites both, so history
+-- moves with the category.
+
+create table if not exists "TransactionCategories" (
+    id serial primary key,
+    business_id integer not null references "Businesses"(id),
+    name text not null,
+    type text not null check (type in ('Income', 'Expense')),
+    parent_id integer references "TransactionCategories"(id),
+    -- Used by sales, purchases and returns: cannot be renamed, merged or deleted
+    is_system boolean not null default false,
+    created_at timestamp default now(),
+    updated_at timestamp default now(),
+    deleted_at timestamp,
+    check (parent_id is null or parent_id <> id)
+);
+
+create unique index if not exists transaction_categories_name_idx
+    on "TransactionCategories" (business_id, type, lower(name))
+    where deleted_at is null;
+
+create index if not exists transaction_categories_parent_idx
+    on "TransactionCategories" (parent_id)
+    where deleted_at is null;
+
+alter table "Transactions"
+    add column if not exists category_id integer references "TransactionCategories"(id);
+
+create index if not exists transactions_category_idx
+    on "Transactions" (category_id);
+
+alter table "RecurringTransactions"
+    add column if not exists category_id integer references "TransactionCategories"(id);
+
+-- Default UMKM categories of a business
+create or replace function seed_default_categories(p_business_id integer)
+returns void
+language plpgsql
+as $$
+declare
+    v_operational_id integer;
+begin
+    insert into "TransactionCategories" (business_id, name, type, is_system)
+    values
+        (p_business_id, 'Sales', 'Income', true),
+        (p_business_id, 'Jasa', 'Income', false),
+        (p_business_id, 'Pendapatan Lain-lain', 'Income', false),
+        (p_business_id, 'Stock Purchase', 'Expense', true),
+        (p_business_id, 'Sales Return', 'Expense', true),
+        (p_business_id, 'Bahan Baku', 'Expense', false),
+        (p_business_id, 'Gaji Karyawan', 'Expense', false),
+        (p_business_id, 'Pemasaran', 'Expense', false),
+        (p_business_id, 'Transportasi', 'Expense', false),
+        (p_business_id, 'Peralatan', 'Expense', false),
+        (p_business_id, 'Lainnya', 'Expense', false)
+    on conflict do nothing;
+
+    insert into "TransactionCategories" (business_id, name, type)
+    values (p_business_id, 'Operasional', 'Expense')
+    on conflict do nothing
+    returning id into v_operational_id;
+
+    if v_operational_id is not null then
+        insert into "TransactionCategories" (business_id, name, type, parent_id)
+        values
+            (p_business_id, 'Sewa Tempat', 'Expense', v_operational_id),
+            (p_business_id, 'Listrik & Air', 'Expense', v_operational_id),
+            (p_business_id, 'Internet & Pulsa', 'Expense', v_operational_id)
+        on conflict do nothing;
+    end if;
+end;
+$$;
+
+-- Existing businesses: default set, plus a category for every name already
+-- used in their history
+select seed_default_categories(b.id)
+from "Businesses" b
+where not exists (select 1 from "TransactionCategories" c where c.business_id = b.id);
+
+insert into "TransactionCategories" (business_id, name, type)
+select distinct on (used.business_id, used.type, lower(trim(used.category)))
+    used.business_id, trim(used.category), used.type
+from (
+    select business_id, type, category from "Transactions"
+    union all
+    select business_id, type, category from "RecurringTransactions"
+) used
+where used.category is not null
+  and trim(used.category) <> ''
+  and used.type in ('Income', 'Expense')
+on conflict do nothing;
+
+update "Transactions" t
+set category_id = c.id,
+    category = c.name
+from "TransactionCategories" c
+where c.business_id = t.business_id
+  and c.type = t.type
+  and lower(c.name) = lower(trim(t.category))
+  and c.deleted_at is null
+  and t.category_id is null;
+
+update "RecurringTransactions" r
+set category_id = c.id,
+    category = c.name
+from "TransactionCategories" c
+where c.business_id = r.business_id
+  and c.type = r.type
+  and lower(c.name) = lower(trim(r.category))
+  and c.deleted_at is null
+  and r.category_id is null;
+
+-- New businesses get the default set
+create or replace function create_default_categories()
+returns trigger
+language plpgsql
+as $$
+begin
+    perform seed_default_categories(new.id);
+    return new;
+end;
+$$;
+
+drop trigger if exists businesses_default_categories on "Businesses";
+create trigger businesses_default_categories
+    after insert on "Businesses"
+    for each row execute function create_default_categories();
+
+-- Resolve the category name of a transaction or recurring template to a
+-- category of its business with the same type. Every path that writes
+-- transactions (record_transaction, import_transactions, returns, recurring
+-- runs) goes through this check.
+create or replace function resolve_transaction_category()
+returns trigger
+language plpgsql
+as $$
+declare
+    v_category "TransactionCategories"%rowtype;
+begin
+    if new.category is null or trim(new.category) = '' then
+        new.category := null;
+        new.category_id := null;
+        return new;
+    end if;
+
+    select * into v_category
+    from "TransactionCategories"
+    where business_id = new.business_id
+      and type = new.type
+      and lower(name) = lower(trim(new.category))
+      and deleted_at is null;
+
+    if not found then
+        raise exception 'Category "%" not found for % transactions', trim(new.category), new.type;
+    end if;
+
+    new.category := v_category.name;
+    new.category_id := v_category.id;
+    return new;
+end;
+$$;
+
+drop trigger if exists transactions_resolve_category on "Transactions";
+create trigger transactions_resolve_category
+    before insert or update of category, type on "Transactions"
+    for each row execute function resolve_transaction_category();
+
+drop trigger if exists recurring_transactions_resolve_category on "RecurringTransactions";
+create trigger recurring_transactions_resolve_category
+    before insert or update of category, type on "RecurringTransactions"
+    for each row execute function resolve_transaction_category();
+
+-- Rename a category and every transaction and recurring template using it
+create or replace function rename_transaction_category(p_category_id integer, p_name text)
+returns void
+language plpgsql
+as $$
+declare
+    v_category "TransactionCategories"%rowtype;
+begin
+    select * into v_category
+    from "TransactionCategories"
+    where id = p_category_id and deleted_at is null
+    for update;
+
+    if not found then
+        raise exception 'Category % not found', p_category_id;
+    end if;
+
+    if v_category.is_system then
+        raise exception 'System category "%" cannot be renamed', v_category.name;
+    end if;
+
+    update "TransactionCategories"
+    set name = p_name, updated_at = now()
+    where id = p_category_id;
+
+    update "Transactions"
+    set category = p_name, updated_at = now()
+    where category_id = p_category_id;
+
+    update "RecurringTransactions"
+    set category = p_name, updated_at = now()
+    where category_id = p_category_id;
+end;
+$$;
+
+-- Merge a category into another one of the same business and type
+-- Transactions, recurring templates and subcategories of the source move to
+-- the target; the source is deleted
+create or replace function merge_transaction_categories(p_source_id integer, p_target_id integer)
+returns void
+language plpgsql
+as $$
+declare
+    v_source "TransactionCategories"%rowtype;
+    v_target "TransactionCategories"%rowtype;
+begin
+    if p_source_id = p_target_id then
+        raise exception 'Cannot merge a category into itself';
+    end if;
+
+    -- Lock both categories in id order, like transfer_between_accounts
+    perform 1
+    from "TransactionCategories"
+    where id in (p_source_id, p_target_id) and deleted_at is null
+    order by id
+    for update;
+
+    select * into v_source
+    from "TransactionCategories"
+    where id = p_source_id and deleted_at is null;
+
+    select * into v_target
+    from "TransactionCategories"
+    where id = p_target_id and deleted_at is null;
+
+    if v_source.id is null or v_target.id is null then
+        raise exception 'Category not found';
+    end if;
+
+    if v_source.business_id <> v_target.business_id or v_source.type <> v_target.type then
+        raise exception 'Categories must belong to the same business and have the same type';
+    end if;
+
+    if v_source.is_system then
+        raise exception 'System category "%" cannot be merged into another category', v_source.name;
+    end if;
+
+    -- A subcategory of the source takes the source's place in the tree
+    if v_target.parent_id = v_source.id then
+        update "TransactionCategories"
+        set parent_id = v_source.parent_id, updated_at = now()
+        where id = v_target.id;
+
+        v_target.parent_id := v_source.parent_id;
+    end if;
+
+    if v_target.parent_id is not null and exists (
+        select 1 from "TransactionCategories"
+        where parent_id = v_source.id and deleted_at is null
+    ) then
+        raise exception 'Cannot merge a category with subcategories into a subcategory';
+    end if;
+
+    update "TransactionCategories"
+    set parent_id = v_target.id, updated_at = now()
+    where parent_id = v_source.id and deleted_at is null;
+
+    update "Transactions"
+    set category = v_target.name, updated_at = now()
+    where category_id = v_source.id;
+
+    update "RecurringTransactions"
+    set category = v_target.name, updated_at = now()
+    where category_id = v_source.id;
+
+    update "TransactionCategories"
+    set deleted_at = now(), updated_at = now()
+    where id = v_source.id;
+end;
+$$;
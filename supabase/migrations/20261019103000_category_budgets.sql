@@ -0,0 +1,121 @@
+-- Category budgets
+-- Monthly spending limit per expense category. Actual spending is computed
+-- from complete expense transactions of the month; a budget on a parent
+-- category covers its subcategories.
+
+create table if not exists "CategoryBudgets" (
+    id serial primary key,
+    business_id integer not null references "Businesses"(id),
+    category_id integer not null references "TransactionCategories"(id),
+    -- First day of the budget month
+    period date not null check (extract(day from period) = 1),
+    amount decimal(15, 2) not null check (amount > 0),
+    created_at timestamp default now(),
+    updated_at timestamp default now(),
+    deleted_at timestamp
+);
+
+create unique index if not exists category_budgets_period_idx
+    on "CategoryBudgets" (business_id, category_id, period)
+    where deleted_at is null;
+
+-- Merge a category into another one of the same business and type
+-- Transactions, recurring templates, subcategories and budgets of the source
+-- move to the target; the source is deleted
+create or replace function merge_transaction_categories(p_source_id integer, p_target_id integer)
+returns void
+language plpgsql
+as $$
+declare
+    v_source "TransactionCategories"%rowtype;
+    v_target "TransactionCategories"%rowtype;
+begin
+    if p_source_id = p_target_id then
+        raise exception 'Cannot merge a category into itself';
+    end if;
+
+    -- Lock both categories in id order, like transfer_between_accounts
+    perform 1
+    from "TransactionCategories"
+    where id in (p_source_id, p_target_id) and deleted_at is null
+    order by id
+    for update;
+
+    select * into v_source
+    from "TransactionCategories"
+    where id = p_source_id and deleted_at is null;
+
+    select * into v_target
+    from "TransactionCategories"
+    where id = p_target_id and deleted_at is null;
+
+    if v_source.id is null or v_target.id is null then
+        raise exception 'Category not found';
+    end if;
+
+    if v_source.business_id <> v_target.business_id or v_source.type <> v_target.type then
+        raise exception 'Categories must belong to the same business and have the same type';
+    end if;
+
+    if v_source.is_system then
+        raise exception 'System category "%" cannot be merged into another category', v_source.name;
+    end if;
+
+    -- A subcategory of the source takes the source's place in the tree
+    if v_target.parent_id = v_source.id then
+        update "TransactionCategories"
+        set parent_id = v_source.parent_id, updated_at = now()
+        where id = v_target.id;
+
+        v_target.parent_id := v_source.parent_id;
+    end if;
+
+    if v_target.parent_id is not null and exists (
+        select 1 from "TransactionCategories"
+        where parent_id = v_source.id and deleted_at is null
+    ) then
+        raise exception 'Cannot merge a category with subcategories into a subcategory';
+    end if;
+
+    update "TransactionCategories"
+    set parent_id = v_target.id, updated_at = now()
+    where parent_id = v_source.id and deleted_at is null;
+
+    update "Transactions"
+    set category = v_target.name, updated_at = now()
+    where category_id = v_source.id;
+
+    update "RecurringTransactions"
+    set category = v_target.name, updated_at = now()
+    where category_id = v_source.id;
+
+    -- Budgets: add to the target's budget of the same month, move the rest
+    update "CategoryBudgets" t
+    set amount = t.amount + s.amount, updated_at = now()
+    from "CategoryBudgets" s
+    where s.category_id = v_source.id
+      and t.category_id = v_target.id
+      and s.period = t.period
+      and s.deleted_at is null
+      and t.deleted_at is null;
+
+    update "CategoryBudgets" s
+    set deleted_at = now(), updated_at = now()
+    where s.category_id = v_source.id
+      and s.deleted_at is null
+      and exists (
+          select 1 from "CategoryBudgets" t
+          where t.category_id = v_target.id
+            and t.period = s.period
+            and t.deleted_at is null
+      );
+
+    update "CategoryBudgets"
+    set category_id = v_target.id, updated_at = now()
+    where category_id = v_source.id and deleted_at is null;
+
+    update "TransactionCategories"
+    set deleted_at = now(), updated_at = now()
+    where id = v_source.id;
+end;
+$$;
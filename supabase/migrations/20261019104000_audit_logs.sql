@@ -0,0 +1,45 @@
+-- Audit logs
+-- Append-only record of every change made through the transaction and product
+-- endpoints: who did it, what changed (before/after) and from where. Rows can
+-- only be inserted.
+
+create table if not exists "AuditLogs" (
+    id bigserial primary key,
+    business_id integer not null references "Businesses"(id),
+    -- Users.id of the actor (kept as text so logs outlive deleted users)
+    actor_id text not null,
+    actor_email text,
+    action text not null,
+    entity_type text not null check (entity_type in ('transaction', 'product')),
+    -- Null for batch actions (import, stock status refresh)
+    entity_id integer,
+    before jsonb,
+    after jsonb,
+    -- Changed fields of an update: { field: { from, to } }
+    changes jsonb,
+    ip_address text,
+    user_agent text,
+    request_method text,
+    request_path text,
+    created_at timestamp not null default now()
+);
+
+create index if not exists audit_logs_business_created_idx
+    on "AuditLogs" (business_id, created_at desc);
+
+create index if not exists audit_logs_entity_idx
+    on "AuditLogs" (entity_type, entity_id);
+
+create or replace function prevent_audit_log_changes()
+returns trigger
+language plpgsql
+as $$
+begin
+    raise exception 'Audit logs are append-only';
+end;
+$$;
+
+drop trigger if exists audit_logs_append_only on "AuditLogs";
+create trigger audit_logs_append_only
+    before update or delete on "AuditLogs"
+    for each row execute function prevent_audit_log_changes();
@@ -0,0 +1,328 @@
+-- Balance reconciliation
+-- Account balances are kept incrementally (adjust_account_balance), so a
+-- failed step between a balance update and the row it belongs to leaves the
+-- stored balance out of step with what actually happened. The ledger balance
+-- of a money account is its opening balance plus everything that moved money
+-- in or out of it: complete transactions (the part settled in cash),
+-- receivable and payable payments, and transfers.
+--
+-- Reconciliation compares the ledger with the stored balances and records
+-- each run; a repair brings the stored balances back to the ledger and keeps
+-- an adjusting entry for every corrected balance.
+
+alter table "MoneyAccounts"
+    add column if not exists opening_balance decimal(15, 2) not null default 0;
+
+create table if not exists "BalanceReconciliations" (
+    id serial primary key,
+    business_id integer not null references "Businesses"(id),
+    -- Businesses.current_balance at the time of the check
+    recorded_balance decimal(15, 2) not null,
+    -- Total of the ledger balances of all accounts
+    expected_balance decimal(15, 2) not null,
+    drift decimal(15, 2) not null,
+    -- False when the business total or any account is off
+    in_balance boolean not null,
+    -- [{ account_id, account_name, recorded_balance, expected_balance, drift }]
+    accounts jsonb not null default '[]',
+    -- backfill: what the opening balances of existing accounts absorbed
+    source text not null check (source in ('manual', 'job', 'backfill')),
+    repaired boolean not null default false,
+    created_at timestamp default now()
+);
+
+create index if not exists balance_reconciliations_business_idx
+    on "BalanceReconciliations" (business_id, created_at desc);
+
+create table if not exists "BalanceAdjustments" (
+    id serial primary key,
+    business_id integer not null references "Businesses"(id),
+    -- Null when only the business total was off
+    account_id integer references "MoneyAccounts"(id),
+    reconciliation_id integer references "BalanceReconciliations"(id),
+    previous_balance decimal(15, 2) not null,
+    new_balance decimal(15, 2) not null,
+    amount decimal(15, 2) not null,
+    reason text,
+    created_by text,
+    created_at timestamp default now()
+);
+
+create index if not exists balance_adjustments_business_idx
+    on "BalanceAdjustments" (business_id, created_at desc);
+
+-- Stored and ledger balance of every money account of a business
+-- A single statement, so balances and ledger come from the same snapshot
+create or replace function account_ledger_balances(p_business_id integer)
+returns table (
+    account_id integer,
+    account_name text,
+    recorded_balance numeric,
+    expected_balance numeric,
+    business_balance numeric
+)
+language sql
+stable
+as $$
+    select
+        a.id,
+        a.name,
+        a.balance,
+        a.opening_balance
+            + coalesce((
+                select sum(
+                    case when t.type = 'Income' then 1 else -1 end
+                    * (t.amount - t.credit_amount)
+                )
+                from "Transactions" t
+                where t.account_id = a.id
+                  and t.status = 'complete'
+                  and t.deleted_at is null
+            ), 0)
+            + coalesce((
+                select sum(p.amount) from "ReceivablePayments" p where p.account_id = a.id
+            ), 0)
+            - coalesce((
+                select sum(p.amount) from "PayablePayments" p where p.account_id = a.id
+            ), 0)
+            + coalesce((
+                select sum(x.amount) from "AccountTransfers" x where x.to_account_id = a.id
+            ), 0)
+            - coalesce((
+                select sum(x.amount) from "AccountTransfers" x where x.from_account_id = a.id
+            ), 0),
+        b.current_balance
+    from "MoneyAccounts" a
+    join "Businesses" b on b.id = a.business_id
+    where a.business_id = p_business_id
+      and a.deleted_at is null
+    order by a.id;
+$$;
+
+-- Existing accounts have no recorded opening balance (open_money_account and
+-- the default account only added it to the balance). Their opening balance
+-- is what the ledger does not explain, which may include drift from before
+-- this migration. So that it is not silently absorbed, the difference is
+-- first recorded per business as a 'backfill' reconciliation (opening
+-- balances are still 0 here) and shows up in the reconciliation history.
+insert into "BalanceReconciliations" (
+    business_id,
+    recorded_balance,
+    expected_balance,
+    drift,
+    in_balance,
+    accounts,
+    source
+)
+select
+    b.id,
+    b.current_balance,
+    sum(l.expected_balance),
+    b.current_balance - sum(l.expected_balance),
+    false,
+    jsonb_agg(
+        jsonb_build_object(
+            'account_id', l.account_id,
+            'account_name', l.account_name,
+            'recorded_balance', l.recorded_balance,
+            'expected_balance', l.expected_balance,
+            'drift', l.recorded_balance - l.expected_balance
+        )
+        order by l.account_id
+    ),
+    'backfill'
+from "Businesses" b,
+     lateral account_ledger_balances(b.id) l
+group by b.id, b.current_balance
+having bool_or(l.recorded_balance <> l.expected_balance)
+    or b.current_balance <> sum(l.expected_balance);
+
+update "MoneyAccounts" a
+set opening_balance = l.recorded_balance - l.expected_balance
+from "Businesses" b,
+     lateral account_ledger_balances(b.id) l
+where a.business_id = b.id
+  and l.account_id = a.id;
+
+-- The default account of a new business opens with its initial balance
+create or replace function create_default_money_account()
+returns trigger
+language plpgsql
+as $$
+begin
+    insert into "MoneyAccounts" (business_id, name, type, balance, opening_balance, is_default)
+    values (
+        new.id,
+        'Kas',
+        'cash',
+        coalesce(new.current_balance, 0),
+        coalesce(new.current_balance, 0),
+        true
+    );
+    return new;
+end;
+$$;
+
+create or replace function open_money_account(p_account jsonb)
+returns integer
+language plpgsql
+as $$
+declare
+    v_business_id integer := (p_account->>'business_id')::integer;
+    v_opening_balance numeric := coalesce((p_account->>'balance')::numeric, 0);
+    v_account_id integer;
+begin
+    perform 1
+    from "Businesses"
+    where id = v_business_id and deleted_at is null
+    for update;
+
+    if not found then
+        raise exception 'Business % not found', v_business_id;
+    end if;
+
+    if coalesce((p_account->>'is_default')::boolean, false) then
+        update "MoneyAccounts"
+        set is_default = false,
+            updated_at = now()
+        where business_id = v_business_id and is_default;
+    end if;
+
+    insert into "MoneyAccounts" (business_id, name, type, balance, opening_balance, is_default)
+    values (
+        v_business_id,
+        p_account->>'name',
+        coalesce(p_account->>'type', 'cash'),
+        0,
+        v_opening_balance,
+        coalesce((p_account->>'is_default')::boolean, false)
+    )
+    returning id into v_account_id;
+
+    if v_opening_balance <> 0 then
+        perform adjust_account_balance(v_account_id, v_opening_balance);
+    end if;
+
+    return v_account_id;
+end;
+$$;
+
+-- Bring the stored balances of a business back to the ledger
+-- Every corrected account (and the business total, if it was off on its
+-- own) gets an adjusting entry. Returns the number of entries.
+create or replace function repair_account_balances(
+    p_business_id integer,
+    p_reconciliation_id integer,
+    p_reason text,
+    p_created_by text
+)
+returns integer
+language plpgsql
+as $$
+declare
+    v_row record;
+    v_recorded numeric;
+    v_total numeric;
+    v_corrected numeric := 0;
+    v_count integer := 0;
+begin
+    -- Same lock order as record_transaction: business first, then accounts
+    select current_balance
+    into v_recorded
+    from "Businesses"
+    where id = p_business_id and deleted_at is null
+    for update;
+
+    if not found then
+        raise exception 'Business % not found', p_business_id;
+    end if;
+
+    perform 1
+    from "MoneyAccounts"
+    where business_id = p_business_id and deleted_at is null
+    order by id
+    for update;
+
+    for v_row in
+        select * from account_ledger_balances(p_business_id)
+    loop
+        if v_row.recorded_balance <> v_row.expected_balance then
+            insert into "BalanceAdjustments" (
+                business_id,
+                account_id,
+                reconciliation_id,
+                previous_balance,
+                new_balance,
+                amount,
+                reason,
+                created_by
+            )
+            values (
+                p_business_id,
+                v_row.account_id,
+                p_reconciliation_id,
+                v_row.recorded_balance,
+                v_row.expected_balance,
+                v_row.expected_balance - v_row.recorded_balance,
+                p_reason,
+                p_created_by
+            );
+
+            update "MoneyAccounts"
+            set balance = v_row.expected_balance,
+                updated_at = now()
+            where id = v_row.account_id;
+
+            v_corrected := v_corrected + v_row.expected_balance - v_row.recorded_balance;
+            v_count := v_count + 1;
+        end if;
+    end loop;
+
+    select coalesce(sum(balance), 0)
+    into v_total
+    from "MoneyAccounts"
+    where business_id = p_business_id and deleted_at is null;
+
+    -- The business total is always the sum of its accounts; it only gets its
+    -- own entry for what the account corrections do not explain
+    if v_recorded + v_corrected <> v_total then
+        insert into "BalanceAdjustments" (
+            business_id,
+            account_id,
+            reconciliation_id,
+            previous_balance,
+            new_balance,
+            amount,
+            reason,
+            created_by
+        )
+        values (
+            p_business_id,
+            null,
+            p_reconciliation_id,
+            v_recorded + v_corrected,
+            v_total,
+            v_total - v_recorded - v_corrected,
+            p_reason,
+            p_created_by
+        );
+
+        v_count := v_count + 1;
+    end if;
+
+    if v_recorded <> v_total then
+        update "Businesses"
+        set current_balance = v_total,
+            updated_at = now()
+        where id = p_business_id;
+    end if;
+
+    if p_reconciliation_id is not null then
+        update "BalanceReconciliations"
+        set repaired = true
+        where id = p_reconciliation_id;
+    end if;
+
+    return v_count;
+end;
+$$;
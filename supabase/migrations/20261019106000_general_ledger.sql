@@ -0,0 +1,793 @@
+-- General ledger (double-entry)
+-- Each business has a chart of accounts; every money movement is posted as a
+-- journal entry whose debit and credit lines balance. Postings happen in the
+-- database, in the same transaction as the change they record:
+--   - transactions: a deferred trigger keeps the journal of each transaction
+--     in step with it (posted when complete, reversed when cancelled, deleted
+--     or edited, then posted again with the new figures)
+--   - receivable and payable payments, transfers and opening balances of
+--     money accounts: posted when they are inserted
+-- Journals are append-only; corrections are reversing entries.
+--
+-- Every money account has its own cash ledger account, so the ledger balance
+-- of that account follows the money account balance.
+
+create table if not exists "LedgerAccounts" (
+    id serial primary key,
+    business_id integer not null references "Businesses"(id),
+    code text not null,
+    name text not null,
+    type text not null check (type in ('asset', 'liability', 'equity', 'income', 'expense')),
+    -- Accounts the automatic postings use (receivable, sales, ...)
+    system_key text,
+    -- Cash account of a money account
+    money_account_id integer references "MoneyAccounts"(id),
+    created_at timestamp default now(),
+    updated_at timestamp default now(),
+    deleted_at timestamp
+);
+
+create unique index if not exists ledger_accounts_code_idx
+    on "LedgerAccounts" (business_id, code)
+    where deleted_at is null;
+
+create unique index if not exists ledger_accounts_system_key_idx
+    on "LedgerAccounts" (business_id, system_key)
+    where system_key is not null;
+
+create unique index if not exists ledger_accounts_money_account_idx
+    on "LedgerAccounts" (money_account_id)
+    where money_account_id is not null;
+
+create table if not exists "JournalEntries" (
+    id serial primary key,
+    business_id integer not null references "Businesses"(id),
+    entry_date date not null,
+    description text,
+    source text not null check (source in (
+        'transaction',
+        'receivable_payment',
+        'payable_payment',
+        'transfer',
+        'opening_balance',
+        'manual',
+        'reversal'
+    )),
+    transaction_id integer references "Transactions"(id),
+    -- Payment, transfer or money account the entry was posted for
+    reference_id integer,
+    reversal_of integer references "JournalEntries"(id),
+    created_by text,
+    created_at timestamp default now()
+);
+
+create index if not exists journal_entries_business_date_idx
+    on "JournalEntries" (business_id, entry_date);
+
+create index if not exists journal_entries_transaction_idx
+    on "JournalEntries" (transaction_id)
+    where transaction_id is not null;
+
+-- An entry is reversed at most once
+create unique index if not exists journal_entries_reversal_idx
+    on "JournalEntries" (reversal_of)
+    where reversal_of is not null;
+
+create table if not exists "JournalLines" (
+    id serial primary key,
+    journal_entry_id integer not null references "JournalEntries"(id),
+    account_id integer not null references "LedgerAccounts"(id),
+    debit decimal(15, 2) not null default 0,
+    credit decimal(15, 2) not null default 0,
+    description text,
+    check ((debit > 0 and credit = 0) or (credit > 0 and debit = 0))
+);
+
+create index if not exists journal_lines_entry_idx
+    on "JournalLines" (journal_entry_id);
+
+create index if not exists journal_lines_account_idx
+    on "JournalLines" (account_id);
+
+alter table "MoneyAccounts"
+    add column if not exists ledger_account_id integer references "LedgerAccounts"(id);
+
+-- Optional: income/expense account the category's transactions are posted to
+alter table "TransactionCategories"
+    add column if not exists ledger_account_id integer references "LedgerAccounts"(id);
+
+create or replace function prevent_journal_changes()
+returns trigger
+language plpgsql
+as $$
+begin
+    raise exception 'Journal entries are append-only. Post a reversing entry instead';
+end;
+$$;
+
+drop trigger if exists journal_entries_append_only on "JournalEntries";
+create trigger journal_entries_append_only
+    before update or delete on "JournalEntries"
+    for each row execute function prevent_journal_changes();
+
+drop trigger if exists journal_lines_append_only on "JournalLines";
+create trigger journal_lines_append_only
+    before update or delete on "JournalLines"
+    for each row execute function prevent_journal_changes();
+
+-- Default chart of accounts of a business (accounts that already exist are kept)
+create or replace function seed_chart_of_accounts(p_business_id integer)
+returns void
+language plpgsql
+as $$
+begin
+    insert into "LedgerAccounts" (business_id, code, name, type, system_key)
+    values
+        (p_business_id, '1-1100', 'Piutang Usaha', 'asset', 'receivable'),
+        (p_business_id, '1-1300', 'PPN Masukan', 'asset', 'input_tax'),
+        (p_business_id, '2-1100', 'Utang Usaha', 'liability', 'payable'),
+        (p_business_id, '2-1200', 'PPN Keluaran', 'liability', 'output_tax'),
+        (p_business_id, '3-1000', 'Modal Awal', 'equity', 'opening_equity'),
+        (p_business_id, '4-1000', 'Penjualan', 'income', 'sales'),
+        (p_business_id, '4-1100', 'Retur Penjualan', 'income', 'sales_returns'),
+        (p_business_id, '4-9000', 'Pendapatan Lain-lain', 'income', 'other_income'),
+        (p_business_id, '5-1000', 'Pembelian', 'expense', 'purchases'),
+        (p_business_id, '6-9000', 'Beban Lain-lain', 'expense', 'other_expense')
+    on conflict (business_id, system_key) where system_key is not null do nothing;
+end;
+$$;
+
+create or replace function create_chart_of_accounts()
+returns trigger
+language plpgsql
+as $$
+begin
+    perform seed_chart_of_accounts(new.id);
+    return new;
+end;
+$$;
+
+drop trigger if exists businesses_chart_of_accounts on "Businesses";
+create trigger businesses_chart_of_accounts
+    after insert on "Businesses"
+    for each row execute function create_chart_of_accounts();
+
+-- System account of a business by key (seeds the chart when missing)
+create or replace function ledger_account(p_business_id integer, p_key text)
+returns integer
+language plpgsql
+as $$
+declare
+    v_account_id integer;
+begin
+    select id
+    into v_account_id
+    from "LedgerAccounts"
+    where business_id = p_business_id and system_key = p_key;
+
+    if not found then
+        perform seed_chart_of_accounts(p_business_id);
+
+        select id
+        into v_account_id
+        from "LedgerAccounts"
+        where business_id = p_business_id and system_key = p_key;
+
+        if not found then
+            raise exception 'Ledger account % not found', p_key;
+        end if;
+    end if;
+
+    return v_account_id;
+end;
+$$;
+
+-- Cash ledger account of a money account (created on first use, coded 1-10xx)
+create or replace function money_account_ledger_account(p_money_account_id integer)
+returns integer
+language plpgsql
+as $$
+declare
+    v_money_account "MoneyAccounts"%rowtype;
+    v_account_id integer;
+    v_number integer := 1;
+begin
+    select *
+    into v_money_account
+    from "MoneyAccounts"
+    where id = p_money_account_id;
+
+    if not found then
+        raise exception 'Money account % not found', p_money_account_id;
+    end if;
+
+    if v_money_account.ledger_account_id is not null then
+        return v_money_account.ledger_account_id;
+    end if;
+
+    while exists (
+        select 1
+        from "LedgerAccounts"
+        where business_id = v_money_account.business_id
+          and code = '1-10' || lpad(v_number::text, 2, '0')
+          and deleted_at is null
+    ) loop
+        v_number := v_number + 1;
+    end loop;
+
+    insert into "LedgerAccounts" (business_id, code, name, type, money_account_id)
+    values (
+        v_money_account.business_id,
+        '1-10' || lpad(v_number::text, 2, '0'),
+        v_money_account.name,
+        'asset',
+        p_money_account_id
+    )
+    returning id into v_account_id;
+
+    update "MoneyAccounts"
+    set ledger_account_id = v_account_id
+    where id = p_money_account_id;
+
+    return v_account_id;
+end;
+$$;
+
+-- Post a journal entry
+-- p_entry: business_id, entry_date, description, source, transaction_id,
+-- reference_id, reversal_of, created_by and lines [{ account_id, debit,
+-- credit, description }]. Lines must balance.
+create or replace function post_journal_entry(p_entry jsonb)
+returns integer
+language plpgsql
+as $$
+declare
+    v_business_id integer := (p_entry->>'business_id')::integer;
+    v_line jsonb;
+    v_debit numeric := 0;
+    v_credit numeric := 0;
+    v_entry_id integer;
+begin
+    if jsonb_array_length(coalesce(p_entry->'lines', '[]')) < 2 then
+        raise exception 'Journal entry needs at least two lines';
+    end if;
+
+    for v_line in select * from jsonb_array_elements(p_entry->'lines')
+    loop
+        perform 1
+        from "LedgerAccounts"
+        where id = (v_line->>'account_id')::integer
+          and business_id = v_business_id
+          and deleted_at is null;
+
+        if not found then
+            raise exception 'Ledger account % not found', v_line->>'account_id';
+        end if;
+
+        if p_entry->>'source' = 'manual' and exists (
+            select 1
+            from "LedgerAccounts"
+            where id = (v_line->>'account_id')::integer
+              and money_account_id is not null
+        ) then
+            raise exception 'Cash accounts of money accounts cannot be used in manual journals';
+        end if;
+
+        v_debit := v_debit + coalesce((v_line->>'debit')::numeric, 0);
+        v_credit := v_credit + coalesce((v_line->>'credit')::numeric, 0);
+    end loop;
+
+    if v_debit <> v_credit or v_debit = 0 then
+        raise exception 'Journal entry is not balanced (debit %, credit %)', v_debit, v_credit;
+    end if;
+
+    insert into "JournalEntries" (
+        business_id,
+        entry_date,
+        description,
+        source,
+        transaction_id,
+        reference_id,
+        reversal_of,
+        created_by
+    )
+    values (
+        v_business_id,
+        coalesce((p_entry->>'entry_date')::date, current_date),
+        p_entry->>'description',
+        p_entry->>'source',
+        (p_entry->>'transaction_id')::integer,
+        (p_entry->>'reference_id')::integer,
+        (p_entry->>'reversal_of')::integer,
+        p_entry->>'created_by'
+    )
+    returning id into v_entry_id;
+
+    insert into "JournalLines" (journal_entry_id, account_id, debit, credit, description)
+    select
+        v_entry_id,
+        (l->>'account_id')::integer,
+        coalesce((l->>'debit')::numeric, 0),
+        coalesce((l->>'credit')::numeric, 0),
+        l->>'description'
+    from jsonb_array_elements(p_entry->'lines') l;
+
+    return v_entry_id;
+end;
+$$;
+
+-- Post the mirror image of a journal entry (debits and credits swapped)
+create or replace function reverse_journal_entry(
+    p_entry_id integer,
+    p_description text,
+    p_created_by text,
+    p_entry_date date default current_date
+)
+returns integer
+language plpgsql
+as $$
+declare
+    v_entry "JournalEntries"%rowtype;
+begin
+    select *
+    into v_entry
+    from "JournalEntries"
+    where id = p_entry_id;
+
+    if not found then
+        raise exception 'Journal entry % not found', p_entry_id;
+    end if;
+
+    if v_entry.source = 'reversal' then
+        raise exception 'A reversing entry cannot be reversed';
+    end if;
+
+    if exists (select 1 from "JournalEntries" where reversal_of = p_entry_id) then
+        raise exception 'Journal entry % is already reversed', p_entry_id;
+    end if;
+
+    return post_journal_entry(jsonb_build_object(
+        'business_id', v_entry.business_id,
+        'entry_date', p_entry_date,
+        'description', coalesce(p_description, 'Reversal of journal entry ' || p_entry_id),
+        'source', 'reversal',
+        'transaction_id', v_entry.transaction_id,
+        'reversal_of', p_entry_id,
+        'created_by', p_created_by,
+        'lines', (
+            select jsonb_agg(jsonb_build_object(
+                'account_id', account_id,
+                'debit', credit,
+                'credit', debit,
+                'description', description
+            ) order by id)
+            from "JournalLines"
+            where journal_entry_id = p_entry_id
+        )
+    ));
+end;
+$$;
+
+-- Journal lines a transaction should have right now (empty unless complete)
+-- Income:  Dr cash (paid part), Dr receivable (credit part)
+--          Cr income account (amount - tax), Cr output tax
+-- Expense: Dr expense account (amount - tax), Dr input tax
+--          Cr cash (paid part), Cr payable (credit part; receivable for returns)
+-- The income/expense account is the one mapped on the category, otherwise
+-- sales, sales returns, purchases or other income/expense
+create or replace function transaction_journal_lines(p_transaction "Transactions")
+returns jsonb
+language plpgsql
+as $$
+declare
+    v_main integer;
+    v_cash_account integer;
+    v_credit_account integer;
+    v_tax_account integer;
+    v_cash numeric := p_transaction.amount - p_transaction.credit_amount;
+    v_tax numeric := coalesce(p_transaction.tax_amount, 0);
+    v_net numeric := p_transaction.amount - coalesce(p_transaction.tax_amount, 0);
+    v_debit_side integer;
+    v_lines jsonb := '[]';
+begin
+    if p_transaction.status <> 'complete'
+        or p_transaction.deleted_at is not null
+        or p_transaction.amount = 0 then
+        return v_lines;
+    end if;
+
+    select ledger_account_id
+    into v_main
+    from "TransactionCategories"
+    where id = p_transaction.category_id;
+
+    if v_main is null then
+        v_main := ledger_account(
+            p_transaction.business_id,
+            case
+                when p_transaction.related_transaction_id is not null then 'sales_returns'
+                when exists (
+                    select 1 from "TransactionDetails" where transaction_id = p_transaction.id
+                ) then
+                    case when p_transaction.type = 'Income' then 'sales' else 'purchases' end
+                when p_transaction.type = 'Income' then 'other_income'
+                else 'other_expense'
+            end
+        );
+    end if;
+
+    v_cash_account := money_account_ledger_account(
+        coalesce(p_transaction.account_id, default_money_account(p_transaction.business_id))
+    );
+    v_credit_account := ledger_account(
+        p_transaction.business_id,
+        case
+            when p_transaction.type = 'Income' or p_transaction.related_transaction_id is not null
+                then 'receivable'
+            else 'payable'
+        end
+    );
+    v_tax_account := ledger_account(
+        p_transaction.business_id,
+        case when p_transaction.type = 'Income' then 'output_tax' else 'input_tax' end
+    );
+
+    -- Income: money side is debited; Expense: money side is credited
+    v_debit_side := case when p_transaction.type = 'Income' then 1 else 0 end;
+
+    select coalesce(jsonb_agg(jsonb_build_object(
+        'account_id', l.account_id,
+        'debit', case when l.is_debit then l.amount else 0 end,
+        'credit', case when l.is_debit then 0 else l.amount end
+    ) order by l.position), '[]')
+    into v_lines
+    from (
+        values
+            (1, v_cash_account, v_cash, v_debit_side = 1),
+            (2, v_credit_account, p_transaction.credit_amount, v_debit_side = 1),
+            (3, v_main, v_net, v_debit_side = 0),
+            (4, v_tax_account, v_tax, v_debit_side = 0)
+    ) as l(position, account_id, amount, is_debit)
+    where l.amount > 0;
+
+    return v_lines;
+end;
+$$;
+
+-- Bring the journal of a transaction in step with it
+-- Reverses the current entry when the lines or the date no longer match and
+-- posts a new one; does nothing when they still match
+create or replace function sync_transaction_journal(p_transaction_id integer)
+returns void
+language plpgsql
+as $$
+declare
+    v_transaction "Transactions"%rowtype;
+    v_lines jsonb;
+    v_entry "JournalEntries"%rowtype;
+    v_matches boolean := false;
+begin
+    select * into v_transaction from "Transactions" where id = p_transaction_id;
+
+    if not found then
+        return;
+    end if;
+
+    v_lines := transaction_journal_lines(v_transaction);
+
+    select *
+    into v_entry
+    from "JournalEntries" e
+    where e.transaction_id = p_transaction_id
+      and e.source = 'transaction'
+      and not exists (select 1 from "JournalEntries" r where r.reversal_of = e.id)
+    order by e.id desc
+    limit 1;
+
+    if found then
+        select v_entry.entry_date = v_transaction.transaction_date::date
+            and not exists (
+                (
+                    select account_id, debit, credit
+                    from "JournalLines"
+                    where journal_entry_id = v_entry.id
+                    except all
+                    select (l->>'account_id')::integer, (l->>'debit')::numeric, (l->>'credit')::numeric
+                    from jsonb_array_elements(v_lines) l
+                )
+                union all
+                (
+                    select (l->>'account_id')::integer, (l->>'debit')::numeric, (l->>'credit')::numeric
+                    from jsonb_array_elements(v_lines) l
+                    except all
+                    select account_id, debit, credit
+                    from "JournalLines"
+                    where journal_entry_id = v_entry.id
+                )
+            )
+        into v_matches;
+
+        if v_matches then
+            return;
+        end if;
+
+        perform reverse_journal_entry(
+            v_entry.id,
+            'Koreksi transaksi #' || p_transaction_id,
+            null
+        );
+    end if;
+
+    if jsonb_array_length(v_lines) > 0 then
+        perform post_journal_entry(jsonb_build_object(
+            'business_id', v_transaction.business_id,
+            'entry_date', v_transaction.transaction_date::date,
+            'description', coalesce(
+                v_transaction.description,
+                v_transaction.category,
+                'Transaksi #' || p_transaction_id
+            ),
+            'source', 'transaction',
+            'transaction_id', p_transaction_id,
+            'lines', v_lines
+        ));
+    end if;
+end;
+$$;
+
+-- Deferred to commit, so the details written after the transaction row are
+-- there and several updates in one database transaction post once
+create or replace function transactions_sync_journal()
+returns trigger
+language plpgsql
+as $$
+begin
+    perform sync_transaction_journal(new.id);
+    return null;
+end;
+$$;
+
+drop trigger if exists transactions_journal on "Transactions";
+create constraint trigger transactions_journal
+    after insert or update of
+        status, amount, tax_amount, credit_amount, account_id, category_id, transaction_date, deleted_at
+    on "Transactions"
+    deferrable initially deferred
+    for each row execute function transactions_sync_journal();
+
+-- Two-line entry moving p_amount from p_credit_account to p_debit_account
+create or replace function post_simple_journal(
+    p_business_id integer,
+    p_entry_date date,
+    p_description text,
+    p_source text,
+    p_reference_id integer,
+    p_debit_account integer,
+    p_credit_account integer,
+    p_amount numeric
+)
+returns integer
+language plpgsql
+as $$
+begin
+    return post_journal_entry(jsonb_build_object(
+        'business_id', p_business_id,
+        'entry_date', p_entry_date,
+        'description', p_description,
+        'source', p_source,
+        'reference_id', p_reference_id,
+        'lines', jsonb_build_array(
+            jsonb_build_object('account_id', p_debit_account, 'debit', p_amount, 'credit', 0),
+            jsonb_build_object('account_id', p_credit_account, 'debit', 0, 'credit', p_amount)
+        )
+    ));
+end;
+$$;
+
+-- Receivable payment: Dr cash / Cr receivable
+create or replace function receivable_payments_post_journal()
+returns trigger
+language plpgsql
+as $$
+declare
+    v_receivable "Receivables"%rowtype;
+begin
+    select * into v_receivable from "Receivables" where id = new.receivable_id;
+
+    perform post_simple_journal(
+        v_receivable.business_id,
+        new.payment_date::date,
+        'Pembayaran piutang ' || v_receivable.customer_name,
+        'receivable_payment',
+        new.id,
+        money_account_ledger_account(new.account_id),
+        ledger_account(v_receivable.business_id, 'receivable'),
+        new.amount
+    );
+    return new;
+end;
+$$;
+
+drop trigger if exists receivable_payments_journal on "ReceivablePayments";
+create trigger receivable_payments_journal
+    after insert on "ReceivablePayments"
+    for each row execute function receivable_payments_post_journal();
+
+-- Payable payment: Dr payable / Cr cash
+create or replace function payable_payments_post_journal()
+returns trigger
+language plpgsql
+as $$
+declare
+    v_payable "Payables"%rowtype;
+begin
+    select * into v_payable from "Payables" where id = new.payable_id;
+
+    perform post_simple_journal(
+        v_payable.business_id,
+        new.payment_date::date,
+        'Pembayaran utang ' || v_payable.supplier_name,
+        'payable_payment',
+        new.id,
+        ledger_account(v_payable.business_id, 'payable'),
+        money_account_ledger_account(new.account_id),
+        new.amount
+    );
+    return new;
+end;
+$$;
+
+drop trigger if exists payable_payments_journal on "PayablePayments";
+create trigger payable_payments_journal
+    after insert on "PayablePayments"
+    for each row execute function payable_payments_post_journal();
+
+-- Transfer: Dr destination cash / Cr source cash
+create or replace function account_transfers_post_journal()
+returns trigger
+language plpgsql
+as $$
+begin
+    perform post_simple_journal(
+        new.business_id,
+        new.transfer_date::date,
+        coalesce(new.description, 'Transfer antar akun'),
+        'transfer',
+        new.id,
+        money_account_ledger_account(new.to_account_id),
+        money_account_ledger_account(new.from_account_id),
+        new.amount
+    );
+    return new;
+end;
+$$;
+
+drop trigger if exists account_transfers_journal on "AccountTransfers";
+create trigger account_transfers_journal
+    after insert on "AccountTransfers"
+    for each row execute function account_transfers_post_journal();
+
+-- Opening balance of a money account: Dr cash / Cr opening equity
+create or replace function post_opening_balance_journal(p_money_account "MoneyAccounts")
+returns void
+language plpgsql
+as $$
+declare
+    v_cash_account integer := money_account_ledger_account(p_money_account.id);
+    v_equity_account integer := ledger_account(p_money_account.business_id, 'opening_equity');
+begin
+    if p_money_account.opening_balance = 0 then
+        return;
+    end if;
+
+    perform post_simple_journal(
+        p_money_account.business_id,
+        coalesce(p_money_account.created_at, now())::date,
+        'Saldo awal ' || p_money_account.name,
+        'opening_balance',
+        p_money_account.id,
+        case when p_money_account.opening_balance > 0 then v_cash_account else v_equity_account end,
+        case when p_money_account.opening_balance > 0 then v_equity_account else v_cash_account end,
+        abs(p_money_account.opening_balance)
+    );
+end;
+$$;
+
+create or replace function money_accounts_post_opening_journal()
+returns trigger
+language plpgsql
+as $$
+begin
+    perform post_opening_balance_journal(new);
+    return new;
+end;
+$$;
+
+drop trigger if exists money_accounts_opening_journal on "MoneyAccounts";
+create trigger money_accounts_opening_journal
+    after insert on "MoneyAccounts"
+    for each row execute function money_accounts_post_opening_journal();
+
+-- Trial balance of a business on a date: debit and credit totals per account
+create or replace function trial_balance(p_business_id integer, p_as_of date)
+returns table (
+    account_id integer,
+    code text,
+    name text,
+    type text,
+    debit numeric,
+    credit numeric
+)
+language sql
+stable
+as $$
+    select
+        a.id,
+        a.code,
+        a.name,
+        a.type,
+        coalesce(sum(l.debit), 0),
+        coalesce(sum(l.credit), 0)
+    from "LedgerAccounts" a
+    left join (
+        "JournalLines" l
+        join "JournalEntries" e on e.id = l.journal_entry_id and e.entry_date <= p_as_of
+    ) on l.account_id = a.id
+    where a.business_id = p_business_id
+    group by a.id, a.code, a.name, a.type, a.deleted_at
+    having a.deleted_at is null or count(l.id) > 0
+    order by a.code;
+$$;
+
+-- Existing businesses: chart of accounts and their history up to now
+select seed_chart_of_accounts(id) from "Businesses";
+
+select post_opening_balance_journal(a)
+from "MoneyAccounts" a
+order by a.id;
+
+select sync_transaction_journal(id)
+from "Transactions"
+where status = 'complete' and deleted_at is null
+order by transaction_date, id;
+
+select post_simple_journal(
+    r.business_id,
+    p.payment_date::date,
+    'Pembayaran piutang ' || r.customer_name,
+    'receivable_payment',
+    p.id,
+    money_account_ledger_account(p.account_id),
+    ledger_account(r.business_id, 'receivable'),
+    p.amount
+)
+from "ReceivablePayments" p
+join "Receivables" r on r.id = p.receivable_id
+order by p.id;
+
+select post_simple_journal(
+    y.business_id,
+    p.payment_date::date,
+    'Pembayaran utang ' || y.supplier_name,
+    'payable_payment',
+    p.id,
+    ledger_account(y.business_id, 'payable'),
+    money_account_ledger_account(p.account_id),
+    p.amount
+)
+from "PayablePayments" p
+join "Payables" y on y.id = p.payable_id
+order by p.id;
+
+select post_simple_journal(
+    t.business_id,
+    t.transfer_date::date,
+    coalesce(t.description, 'Transfer antar akun'),
+    'transfer',
+    t.id,
+    money_account_ledger_account(t.to_account_id),
+    money_account_ledger_account(t.from_account_id),
+    t.amount
+)
+from "AccountTransfers" t
+order by t.id;
@@ -0,0 +1,630 @@
+-- Multi-currency transactions
+-- Every business keeps its books in a base currency (IDR by default).
+-- Transactions can be recorded in another currency: the amount stays in the
+-- transaction currency and base_amount holds it converted at the exchange
+-- rate of the transaction date (the latest rate on or before that date).
+-- The rate is fixed when the transaction is recorded; later rate changes do
+-- not convert existing transactions again.
+--
+-- Balances, ledger balances and journal postings are in the base currency.
+-- Credit sales and purchases stay in the base currency, so receivables and
+-- payables never need revaluing.
+
+alter table "Businesses"
+    add column if not exists base_currency text not null default 'IDR'
+        check (base_currency ~ '^[A-Z]{3}$');
+
+alter table "Transactions"
+    add column if not exists currency text check (currency ~ '^[A-Z]{3}$'),
+    -- Base currency units per unit of the transaction currency
+    add column if not exists exchange_rate decimal(18, 8) not null default 1
+        check (exchange_rate > 0),
+    -- amount converted to the base currency
+    add column if not exists base_amount decimal(15, 2);
+
+-- Existing transactions are in the base currency of their business
+update "Transactions" t
+set currency = b.base_currency,
+    exchange_rate = 1,
+    base_amount = t.amount
+from "Businesses" b
+where b.id = t.business_id
+  and t.currency is null;
+
+alter table "Transactions"
+    alter column currency set not null,
+    alter column base_amount set not null;
+
+-- Exchange rates per currency and date, entered manually or imported
+create table if not exists "ExchangeRates" (
+    id serial primary key,
+    business_id integer not null references "Businesses"(id),
+    currency text not null check (currency ~ '^[A-Z]{3}$'),
+    rate_date date not null,
+    -- Base currency units per unit of currency
+    rate decimal(18, 8) not null check (rate > 0),
+    source text not null default 'manual' check (source in ('manual', 'import')),
+    created_at timestamp default now(),
+    updated_at timestamp default now(),
+    deleted_at timestamp
+);
+
+create unique index if not exists exchange_rates_date_idx
+    on "ExchangeRates" (business_id, currency, rate_date)
+    where deleted_at is null;
+
+-- Rate of a currency on a date: the latest rate on or before it
+-- (1 for the base currency of the business)
+create or replace function exchange_rate_on(
+    p_business_id integer,
+    p_currency text,
+    p_date date
+)
+returns numeric
+language plpgsql
+stable
+as $$
+declare
+    v_base_currency text;
+    v_rate numeric;
+begin
+    select base_currency
+    into v_base_currency
+    from "Businesses"
+    where id = p_business_id;
+
+    if p_currency = v_base_currency then
+        return 1;
+    end if;
+
+    select rate
+    into v_rate
+    from "ExchangeRates"
+    where business_id = p_business_id
+      and currency = p_currency
+      and rate_date <= p_date
+      and deleted_at is null
+    order by rate_date desc
+    limit 1;
+
+    if v_rate is null then
+        raise exception 'No exchange rate for % on or before %', p_currency, p_date;
+    end if;
+
+    return v_rate;
+end;
+$$;
+
+-- Fill currency, rate and base amount of a transaction
+-- - Insert: currency defaults to the base currency; a return takes the
+--   currency and rate of the sale it offsets
+-- - Update: the base amount follows the amount at the recorded rate
+create or replace function convert_transaction_amount()
+returns trigger
+language plpgsql
+as $$
+declare
+    v_base_currency text;
+    v_related "Transactions"%rowtype;
+begin
+    if tg_op = 'UPDATE' then
+        if new.currency <> old.currency or new.exchange_rate <> old.exchange_rate then
+            raise exception 'Currency and exchange rate of a transaction cannot be changed';
+        end if;
+
+        new.base_amount := round(new.amount * new.exchange_rate, 2);
+        return new;
+    end if;
+
+    select base_currency
+    into v_base_currency
+    from "Businesses"
+    where id = new.business_id;
+
+    if new.related_transaction_id is not null then
+        select * into v_related from "Transactions" where id = new.related_transaction_id;
+        new.currency := v_related.currency;
+        new.exchange_rate := v_related.exchange_rate;
+    else
+        new.currency := coalesce(new.currency, v_base_currency);
+        new.exchange_rate := exchange_rate_on(
+            new.business_id,
+            new.currency,
+            coalesce(new.transaction_date::date, current_date)
+        );
+    end if;
+
+    if new.currency <> v_base_currency and new.credit_amount > 0 then
+        raise exception 'Credit transactions must be in the base currency (%)', v_base_currency;
+    end if;
+
+    new.base_amount := round(new.amount * new.exchange_rate, 2);
+    return new;
+end;
+$$;
+
+drop trigger if exists transactions_convert_amount on "Transactions";
+create trigger transactions_convert_amount
+    before insert or update of amount, currency, exchange_rate on "Transactions"
+    for each row execute function convert_transaction_amount();
+
+-- Balance effects use the base amount
+create or replace function apply_transaction_effects(
+    p_transaction_id integer,
+    p_direction integer
+)
+returns void
+language plpgsql
+as $$
+declare
+    v_transaction "Transactions"%rowtype;
+    v_detail "TransactionDetails"%rowtype;
+    v_product "Products"%rowtype;
+    v_change integer;
+    v_new_stock integer;
+    v_receivable "Receivables"%rowtype;
+    v_payable "Payables"%rowtype;
+    v_cash numeric;
+begin
+    select * into v_transaction from "Transactions" where id = p_transaction_id;
+
+    -- Lock products in id order to avoid deadlocks between concurrent calls
+    for v_detail in
+        select *
+        from "TransactionDetails"
+        where transaction_id = p_transaction_id
+        order by product_id
+    loop
+        select *
+        into v_product
+        from "Products"
+        where id = v_detail.product_id
+        for update;
+
+        -- Income (sale) takes stock out, Expense (purchase) brings it in
+        v_change := p_direction
+            * case when v_transaction.type = 'Income' then -v_detail.quantity else v_detail.quantity end;
+        v_new_stock := v_product.current_stock + v_change;
+
+        if v_new_stock < 0 then
+            raise exception 'Insufficient stock for %. Available: %, Required: %',
+                v_product.name, v_product.current_stock, abs(v_change);
+        end if;
+
+        update "Products"
+        set current_stock = v_new_stock,
+            stock_status = case
+                when v_new_stock = 0 then 'out'
+                when v_new_stock < 10 then 'low'
+                else 'active'
+            end,
+            updated_at = now()
+        where id = v_product.id;
+    end loop;
+
+    if v_transaction.credit_amount > 0 then
+        if v_transaction.related_transaction_id is null and v_transaction.type = 'Expense' then
+            -- Credit purchase: the payable goes with it
+            select *
+            into v_payable
+            from "Payables"
+            where transaction_id = p_transaction_id and deleted_at is null
+            for update;
+
+            if p_direction < 0 then
+                if v_payable.amount_paid > 0 then
+                    raise exception 'Payable has payments. Credit purchases with payments cannot be cancelled or deleted';
+                end if;
+
+                update "Payables"
+                set status = 'cancelled',
+                    updated_at = now()
+                where id = v_payable.id;
+            end if;
+        elsif v_transaction.related_transaction_id is null then
+            -- Credit sale: the receivable goes with it
+            select *
+            into v_receivable
+            from "Receivables"
+            where transaction_id = p_transaction_id and deleted_at is null
+            for update;
+
+            if p_direction < 0 then
+                if v_receivable.amount_paid > 0 then
+                    raise exception 'Receivable has payments. Credit sales with payments cannot be cancelled or deleted';
+                end if;
+
+                update "Receivables"
+                set status = 'cancelled',
+                    updated_at = now()
+                where id = v_receivable.id;
+            end if;
+        else
+            -- Return of a credit sale: lowers (or restores) what the customer owes
+            update "Receivables"
+            set amount = amount - p_direction * v_transaction.credit_amount,
+                status = case
+                    when amount_paid >= amount - p_direction * v_transaction.credit_amount then 'paid'
+                    else 'open'
+                end,
+                updated_at = now()
+            where transaction_id = v_transaction.related_transaction_id
+              and deleted_at is null;
+        end if;
+    end if;
+
+    -- Only the part settled in cash moves the balance; receivable and
+    -- payable payments move it when the money actually changes hands.
+    -- Balances are kept in the base currency (credit is base currency only)
+    v_cash := v_transaction.base_amount - v_transaction.credit_amount;
+
+    if v_cash <> 0 then
+        perform adjust_account_balance(
+            coalesce(v_transaction.account_id, default_money_account(v_transaction.business_id)),
+            p_direction * case when v_transaction.type = 'Income' then v_cash else -v_cash end
+        );
+    end if;
+end;
+$$;
+
+-- Transactions can be recorded in another currency (converted on insert)
+create or replace function record_transaction(
+    p_transaction jsonb,
+    p_details jsonb default '[]'::jsonb
+)
+returns integer
+language plpgsql
+as $$
+declare
+    v_business_id integer := (p_transaction->>'business_id')::integer;
+    v_status text := coalesce(p_transaction->>'status', 'complete');
+    v_transaction_id integer;
+    v_item jsonb;
+    v_product_id integer;
+    v_payments jsonb := coalesce(p_transaction->'payments', '[]'::jsonb);
+    v_payment_method text := p_transaction->>'payment_method';
+    v_account_id integer;
+begin
+    -- Lock the business row so concurrent recordings serialize on the balance
+    perform 1
+    from "Businesses"
+    where id = v_business_id and deleted_at is null
+    for update;
+
+    if not found then
+        raise exception 'Business % not found', v_business_id;
+    end if;
+
+    -- Money account: the one given, or the business default account
+    if p_transaction->>'account_id' is not null then
+        select id
+        into v_account_id
+        from "MoneyAccounts"
+        where id = (p_transaction->>'account_id')::integer
+          and business_id = v_business_id
+          and deleted_at is null;
+
+        if not found then
+            raise exception 'Money account % not found', p_transaction->>'account_id';
+        end if;
+    else
+        v_account_id := default_money_account(v_business_id);
+    end if;
+
+    insert into "Transactions" (
+        business_id,
+        transaction_date,
+        type,
+        category,
+        amount,
+        description,
+        status,
+        related_transaction_id,
+        recurring_transaction_id,
+        subtotal,
+        discount_amount,
+        tax_amount,
+        tax_rate_id,
+        tax_rate,
+        tax_inclusive,
+        payment_method,
+        payment_reference,
+        account_id,
+        credit_amount,
+        currency
+    )
+    values (
+        v_business_id,
+        coalesce((p_transaction->>'transaction_date')::timestamp, now()),
+        p_transaction->>'type',
+        p_transaction->>'category',
+        (p_transaction->>'amount')::numeric,
+        p_transaction->>'description',
+        v_status,
+        (p_transaction->>'related_transaction_id')::integer,
+        (p_transaction->>'recurring_transaction_id')::integer,
+        coalesce((p_transaction->>'subtotal')::numeric, (p_transaction->>'amount')::numeric),
+        coalesce((p_transaction->>'discount_amount')::numeric, 0),
+        coalesce((p_transaction->>'tax_amount')::numeric, 0),
+        (p_transaction->>'tax_rate_id')::integer,
+        (p_transaction->>'tax_rate')::numeric,
+        coalesce((p_transaction->>'tax_inclusive')::boolean, false),
+        case jsonb_array_length(v_payments)
+            when 0 then v_payment_method
+            when 1 then v_payments->0->>'method'
+            else 'split'
+        end,
+        p_transaction->>'payment_reference',
+        v_account_id,
+        coalesce((p_transaction->>'credit_amount')::numeric, 0),
+        upper(p_transaction->>'currency')
+    )
+    returning id into v_transaction_id;
+
+    for v_item in select value from jsonb_array_elements(p_details)
+    loop
+        select id
+        into v_product_id
+        from "Products"
+        where id = (v_item->>'product_id')::integer
+          and business_id = v_business_id
+          and deleted_at is null;
+
+        if not found then
+            raise exception 'Product % not found', v_item->>'product_id';
+        end if;
+
+        insert into "TransactionDetails" (
+            transaction_id,
+            product_id,
+            quantity,
+            unit_price_at_transaction,
+            source_detail_id,
+            discount_amount
+        )
+        values (
+            v_transaction_id,
+            v_product_id,
+            (v_item->>'quantity')::integer,
+            (v_item->>'unit_price_at_transaction')::numeric,
+            (v_item->>'source_detail_id')::integer,
+            coalesce((v_item->>'discount_amount')::numeric, 0)
+        );
+    end loop;
+
+    -- Single method without explicit payments: one payment of the full amount
+    if jsonb_array_length(v_payments) = 0 and v_payment_method is not null then
+        v_payments := jsonb_build_array(jsonb_build_object(
+            'method', v_payment_method,
+            'amount', p_transaction->>'amount',
+            'reference', p_transaction->>'payment_reference'
+        ));
+    end if;
+
+    if jsonb_array_length(v_payments) > 0 and (
+        select sum((value->>'amount')::numeric) from jsonb_array_elements(v_payments)
+    ) <> (p_transaction->>'amount')::numeric then
+        raise exception 'Payment amounts must add up to the transaction amount %', p_transaction->>'amount';
+    end if;
+
+    insert into "TransactionPayments" (transaction_id, method, amount, reference)
+    select
+        v_transaction_id,
+        value->>'method',
+        (value->>'amount')::numeric,
+        value->>'reference'
+    from jsonb_array_elements(v_payments);
+
+    -- Credit sale: the customer owes the whole amount
+    if p_transaction->'receivable' is not null then
+        insert into "Receivables" (
+            business_id,
+            transaction_id,
+            customer_name,
+            customer_phone,
+            amount,
+            due_date
+        )
+        values (
+            v_business_id,
+            v_transaction_id,
+            p_transaction->'receivable'->>'customer_name',
+            p_transaction->'receivable'->>'customer_phone',
+            (p_transaction->>'amount')::numeric,
+            (p_transaction->'receivable'->>'due_date')::date
+        );
+    end if;
+
+    -- Credit purchase: the business owes the supplier the whole amount
+    if p_transaction->'payable' is not null then
+        insert into "Payables" (
+            business_id,
+            transaction_id,
+            supplier_name,
+            supplier_phone,
+            amount,
+            due_date
+        )
+        values (
+            v_business_id,
+            v_transaction_id,
+            p_transaction->'payable'->>'supplier_name',
+            p_transaction->'payable'->>'supplier_phone',
+            (p_transaction->>'amount')::numeric,
+            (p_transaction->'payable'->>'due_date')::date
+        );
+    end if;
+
+    if v_status = 'complete' then
+        perform apply_transaction_effects(v_transaction_id, 1);
+    end if;
+
+    return v_transaction_id;
+end;
+$$;
+
+-- Ledger balances in the base currency
+create or replace function account_ledger_balances(p_business_id integer)
+returns table (
+    account_id integer,
+    account_name text,
+    recorded_balance numeric,
+    expected_balance numeric,
+    business_balance numeric
+)
+language sql
+stable
+as $$
+    select
+        a.id,
+        a.name,
+        a.balance,
+        a.opening_balance
+            + coalesce((
+                select sum(
+                    case when t.type = 'Income' then 1 else -1 end
+                    * (t.base_amount - t.credit_amount)
+                )
+                from "Transactions" t
+                where t.account_id = a.id
+                  and t.status = 'complete'
+                  and t.deleted_at is null
+            ), 0)
+            + coalesce((
+                select sum(p.amount) from "ReceivablePayments" p where p.account_id = a.id
+            ), 0)
+            - coalesce((
+                select sum(p.amount) from "PayablePayments" p where p.account_id = a.id
+            ), 0)
+            + coalesce((
+                select sum(x.amount) from "AccountTransfers" x where x.to_account_id = a.id
+            ), 0)
+            - coalesce((
+                select sum(x.amount) from "AccountTransfers" x where x.from_account_id = a.id
+            ), 0),
+        b.current_balance
+    from "MoneyAccounts" a
+    join "Businesses" b on b.id = a.business_id
+    where a.business_id = p_business_id
+      and a.deleted_at is null
+    order by a.id;
+$$;
+
+-- Postings in the base currency; tax is converted at the transaction rate
+create or replace function transaction_journal_lines(p_transaction "Transactions")
+returns jsonb
+language plpgsql
+as $$
+declare
+    v_main integer;
+    v_cash_account integer;
+    v_credit_account integer;
+    v_tax_account integer;
+    v_cash numeric := p_transaction.base_amount - p_transaction.credit_amount;
+    v_tax numeric := round(coalesce(p_transaction.tax_amount, 0) * p_transaction.exchange_rate, 2);
+    v_net numeric := p_transaction.base_amount - v_tax;
+    v_debit_side integer;
+    v_lines jsonb := '[]';
+begin
+    if p_transaction.status <> 'complete'
+        or p_transaction.deleted_at is not null
+        or p_transaction.base_amount = 0 then
+        return v_lines;
+    end if;
+
+    select ledger_account_id
+    into v_main
+    from "TransactionCategories"
+    where id = p_transaction.category_id;
+
+    if v_main is null then
+        v_main := ledger_account(
+            p_transaction.business_id,
+            case
+                when p_transaction.related_transaction_id is not null then 'sales_returns'
+                when exists (
+                    select 1 from "TransactionDetails" where transaction_id = p_transaction.id
+                ) then
+                    case when p_transaction.type = 'Income' then 'sales' else 'purchases' end
+                when p_transaction.type = 'Income' then 'other_income'
+                else 'other_expense'
+            end
+        );
+    end if;
+
+    v_cash_account := money_account_ledger_account(
+        coalesce(p_transaction.account_id, default_money_account(p_transaction.business_id))
+    );
+    v_credit_account := ledger_account(
+        p_transaction.business_id,
+        case
+            when p_transaction.type = 'Income' or p_transaction.related_transaction_id is not null
+                then 'receivable'
+            else 'payable'
+        end
+    );
+    v_tax_account := ledger_account(
+        p_transaction.business_id,
+        case when p_transaction.type = 'Income' then 'output_tax' else 'input_tax' end
+    );
+
+    -- Income: money side is debited; Expense: money side is credited
+    v_debit_side := case when p_transaction.type = 'Income' then 1 else 0 end;
+
+    select coalesce(jsonb_agg(jsonb_build_object(
+        'account_id', l.account_id,
+        'debit', case when l.is_debit then l.amount else 0 end,
+        'credit', case when l.is_debit then 0 else l.amount end
+    ) order by l.position), '[]')
+    into v_lines
+    from (
+        values
+            (1, v_cash_account, v_cash, v_debit_side = 1),
+            (2, v_credit_account, p_transaction.credit_amount, v_debit_side = 1),
+            (3, v_main, v_net, v_debit_side = 0),
+            (4, v_tax_account, v_tax, v_debit_side = 0)
+    ) as l(position, account_id, amount, is_debit)
+    where l.amount > 0;
+
+    return v_lines;
+end;
+$$;
+
+-- Import exchange rates in one go
+-- A rate for a currency and date that already exists is replaced.
+-- Returns the number of rates imported.
+create or replace function import_exchange_rates(
+    p_business_id integer,
+    p_rates jsonb
+)
+returns integer
+language plpgsql
+as $$
+declare
+    v_rate record;
+    v_count integer := 0;
+begin
+    for v_rate in
+        select upper(r.currency) as currency, r.rate_date, r.rate
+        from jsonb_to_recordset(p_rates) as r(currency text, rate_date date, rate numeric)
+    loop
+        update "ExchangeRates"
+        set rate = v_rate.rate,
+            source = 'import',
+            updated_at = now()
+        where business_id = p_business_id
+          and currency = v_rate.currency
+          and rate_date = v_rate.rate_date
+          and deleted_at is null;
+
+        if not found then
+            insert into "ExchangeRates" (business_id, currency, rate_date, rate, source)
+            values (p_business_id, v_rate.currency, v_rate.rate_date, v_rate.rate, 'import');
+        end if;
+
+        v_count := v_count + 1;
+    end loop;
+
+    return v_count;
+end;
+$$;
@@ -0,0 +1,202 @@
+-- Transaction numbers
+-- Every transaction gets a number of its business, e.g. INV/2026/10/0001,
+-- from a number series per transaction type (prefix, reset period and
+-- padding configurable per business). Numbers follow the transaction date and
+-- are assigned by the database on insert, so every path that writes
+-- transactions is numbered. The counter row of a series period is locked
+-- until the inserting transaction commits: concurrent sales wait for each
+-- other instead of taking the same number, and a failed insert gives its
+-- number back. Numbers never change once assigned.
+
+create table if not exists "TransactionNumberSeries" (
+    id serial primary key,
+    business_id integer not null references "Businesses"(id),
+    type text not null check (type in ('Income', 'Expense')),
+    prefix text not null check (prefix ~ '^[A-Z0-9-]{1,10}$'),
+    -- monthly: PREFIX/YYYY/MM/0001, yearly: PREFIX/YYYY/0001, never: PREFIX/0001
+    reset_period text not null default 'monthly'
+        check (reset_period in ('monthly', 'yearly', 'never')),
+    -- Minimum digits of the sequence
+    padding integer not null default 4 check (padding between 1 and 10),
+    created_at timestamp default now(),
+    updated_at timestamp default now(),
+    deleted_at timestamp
+);
+
+create unique index if not exists transaction_number_series_type_idx
+    on "TransactionNumberSeries" (business_id, type)
+    where deleted_at is null;
+
+-- Last number given per prefix and period ('' when the series never resets)
+-- Counters follow the prefix rather than the type: series that share a prefix,
+-- or a prefix given back to a series later, continue the same sequence and
+-- never repeat a number
+create table if not exists "TransactionNumberCounters" (
+    business_id integer not null references "Businesses"(id),
+    prefix text not null,
+    period text not null,
+    last_number integer not null check (last_number > 0),
+    primary key (business_id, prefix, period)
+);
+
+alter table "Transactions"
+    add column if not exists number text;
+
+-- Period of a date in a series
+create or replace function transaction_number_period(p_reset_period text, p_date date)
+returns text
+language sql
+immutable
+as $$
+    select case p_reset_period
+        when 'monthly' then to_char(p_date, 'YYYY/MM')
+        when 'yearly' then to_char(p_date, 'YYYY')
+        else ''
+    end;
+$$;
+
+-- Number text of a sequence in a series period
+create or replace function format_transaction_number(
+    p_prefix text,
+    p_period text,
+    p_padding integer,
+    p_sequence integer
+)
+returns text
+language sql
+immutable
+as $$
+    select concat_ws(
+        '/',
+        p_prefix,
+        nullif(p_period, ''),
+        lpad(p_sequence::text, greatest(p_padding, length(p_sequence::text)), '0')
+    );
+$$;
+
+-- Default series of a business: INV for income, EXP for expenses
+create or replace function seed_default_number_series(p_business_id integer)
+returns void
+language plpgsql
+as $$
+begin
+    insert into "TransactionNumberSeries" (business_id, type, prefix)
+    values
+        (p_business_id, 'Income', 'INV'),
+        (p_business_id, 'Expense', 'EXP')
+    on conflict do nothing;
+end;
+$$;
+
+select seed_default_number_series(b.id)
+from "Businesses" b;
+
+create or replace function create_default_number_series()
+returns trigger
+language plpgsql
+as $$
+begin
+    perform seed_default_number_series(new.id);
+    return new;
+end;
+$$;
+
+drop trigger if exists businesses_default_number_series on "Businesses";
+create trigger businesses_default_number_series
+    after insert on "Businesses"
+    for each row execute function create_default_number_series();
+
+-- Existing transactions are numbered by date (then id) in the default series
+with numbered as (
+    select
+        t.id,
+        t.business_id,
+        t.type,
+        transaction_number_period('monthly', t.transaction_date::date) as period,
+        row_number() over (
+            partition by t.business_id, t.type, transaction_number_period('monthly', t.transaction_date::date)
+            order by t.transaction_date, t.id
+        )::integer as sequence
+    from "Transactions" t
+    where t.number is null
+)
+update "Transactions" t
+set number = format_transaction_number(
+        case n.type when 'Income' then 'INV' else 'EXP' end,
+        n.period,
+        4,
+        n.sequence
+    )
+from numbered n
+where n.id = t.id;
+
+insert into "TransactionNumberCounters" (business_id, prefix, period, last_number)
+select
+    business_id,
+    case type when 'Income' then 'INV' else 'EXP' end,
+    transaction_number_period('monthly', transaction_date::date),
+    count(*)
+from "Transactions"
+group by 1, 2, 3
+on conflict (business_id, prefix, period) do update
+set last_number = greatest("TransactionNumberCounters".last_number, excluded.last_number);
+
+alter table "Transactions"
+    alter column number set not null;
+
+create unique index if not exists transactions_number_idx
+    on "Transactions" (business_id, number);
+
+-- Take the next number of the series of a new transaction
+-- (updates keep the number)
+create or replace function assign_transaction_number()
+returns trigger
+language plpgsql
+as $$
+declare
+    v_series "TransactionNumberSeries"%rowtype;
+    v_period text;
+    v_sequence integer;
+begin
+    if tg_op = 'UPDATE' then
+        if new.number is distinct from old.number then
+            raise exception 'Transaction numbers cannot be changed';
+        end if;
+        return new;
+    end if;
+
+    select * into v_series
+    from "TransactionNumberSeries"
+    where business_id = new.business_id
+      and type = new.type
+      and deleted_at is null;
+
+    if not found then
+        raise exception 'No number series for % transactions', new.type;
+    end if;
+
+    v_period := transaction_number_period(
+        v_series.reset_period,
+        coalesce(new.transaction_date::date, current_date)
+    );
+
+    insert into "TransactionNumberCounters" (business_id, prefix, period, last_number)
+    values (new.business_id, v_series.prefix, v_period, 1)
+    on conflict (business_id, prefix, period) do update
+    set last_number = "TransactionNumberCounters".last_number + 1
+    returning last_number into v_sequence;
+
+    new.number := format_transaction_number(
+        v_series.prefix,
+        v_period,
+        v_series.padding,
+        v_sequence
+    );
+    return new;
+end;
+$$;
+
+drop trigger if exists transactions_assign_number on "Transactions";
+create trigger transactions_assign_number
+    before insert or update of number on "Transactions"
+    for each row execute function assign_transaction_number();
@@ -0,0 +1,178 @@
+-- Trash and restore
+-- Deleted transactions, products and businesses stay in the trash and can be
+-- restored until they are purged (after a configurable number of days).
+-- Purging does not remove the rows: journal entries, audit logs and sale
+-- details keep referring to them. A purged record is out of the trash for
+-- good and can no longer be restored.
+-- The attachments of a deleted transaction go to the trash with it and come
+-- back when it is restored; their files are only removed from storage when
+-- the transaction is purged.
+
+alter table "Transactions"
+    add column if not exists purged_at timestamp;
+
+alter table "Products"
+    add column if not exists purged_at timestamp;
+
+alter table "Businesses"
+    add column if not exists purged_at timestamp;
+
+create index if not exists transactions_trash_idx
+    on "Transactions" (business_id, deleted_at)
+    where deleted_at is not null and purged_at is null;
+
+create index if not exists products_trash_idx
+    on "Products" (business_id, deleted_at)
+    where deleted_at is not null and purged_at is null;
+
+create index if not exists businesses_trash_idx
+    on "Businesses" (user_id, deleted_at)
+    where deleted_at is not null and purged_at is null;
+
+-- Restore a deleted transaction and re-apply what delete_transaction reversed
+-- (complete transactions only: balance, stock, receivable or payable)
+-- - The receivable of a credit sale and the payable of a credit purchase
+--   are open again
+-- - A return needs its sale (not deleted, complete) and must still fit in
+--   what was sold next to the other returns of the sale
+create or replace function restore_transaction(p_transaction_id integer)
+returns integer
+language plpgsql
+as $$
+declare
+    v_transaction "Transactions"%rowtype;
+    v_sale "Transactions"%rowtype;
+    v_detail record;
+    v_outstanding numeric;
+begin
+    select *
+    into v_transaction
+    from "Transactions"
+    where id = p_transaction_id
+      and deleted_at is not null
+      and purged_at is null
+    for update;
+
+    if not found then
+        raise exception 'Transaction % not found in trash', p_transaction_id;
+    end if;
+
+    if v_transaction.status = 'complete' then
+        if v_transaction.related_transaction_id is not null then
+            select *
+            into v_sale
+            from "Transactions"
+            where id = v_transaction.related_transaction_id
+            for update;
+
+            if v_sale.deleted_at is not null or v_sale.status <> 'complete' then
+                raise exception 'The sale of this return is deleted or not complete. Restore the sale first';
+            end if;
+
+            for v_detail in
+                select
+                    sold.id,
+                    sold.quantity as sold,
+                    returned.quantity as requested,
+                    coalesce((
+                        select sum(d.quantity)
+                        from "TransactionDetails" d
+                        join "Transactions" t on t.id = d.transaction_id
+                        where d.source_detail_id = sold.id
+                          and t.deleted_at is null
+                          and t.status <> 'cancel'
+                    ), 0) as already_returned
+                from "TransactionDetails" returned
+                join "TransactionDetails" sold on sold.id = returned.source_detail_id
+                where returned.transaction_id = p_transaction_id
+            loop
+                if v_detail.already_returned + v_detail.requested > v_detail.sold then
+                    raise exception 'Return quantity exceeds sold quantity for detail %. Sold: %, Already returned: %, Requested: %',
+                        v_detail.id, v_detail.sold, v_detail.already_returned, v_detail.requested;
+                end if;
+            end loop;
+
+            -- The part that lowered the receivable must still be owed
+            if v_transaction.credit_amount > 0 then
+                select amount - amount_paid
+                into v_outstanding
+                from "Receivables"
+                where transaction_id = v_sale.id and deleted_at is null
+                for update;
+
+                if coalesce(v_outstanding, 0) < v_transaction.credit_amount then
+                    raise exception 'Receivable of the sale has been paid since the return was deleted. Record a new return instead';
+                end if;
+            end if;
+        elsif v_transaction.credit_amount > 0 and v_transaction.type = 'Income' then
+            update "Receivables"
+            set status = 'open',
+                updated_at = now()
+            where transaction_id = p_transaction_id
+              and status = 'cancelled'
+              and deleted_at is null;
+        elsif v_transaction.credit_amount > 0 then
+            update "Payables"
+            set status = 'open',
+                updated_at = now()
+            where transaction_id = p_transaction_id
+              and status = 'cancelled'
+              and deleted_at is null;
+        end if;
+
+        perform apply_transaction_effects(p_transaction_id, 1);
+    end if;
+
+    -- Attachments deleted together with the transaction (same deleted_at);
+    -- ones deleted on their own before stay deleted
+    update "TransactionAttachments"
+    set deleted_at = null
+    where transaction_id = p_transaction_id
+      and deleted_at = v_transaction.deleted_at;
+
+    update "Transactions"
+    set deleted_at = null,
+        updated_at = now()
+    where id = p_transaction_id;
+
+    return p_transaction_id;
+end;
+$$;
+
+-- Delete a transaction into the trash (see transaction status lifecycle)
+-- Its attachments are deleted with it, at the same time, so restoring the
+-- transaction can bring exactly those back
+create or replace function delete_transaction(p_transaction_id integer)
+returns integer
+language plpgsql
+as $$
+declare
+    v_transaction "Transactions"%rowtype;
+begin
+    select *
+    into v_transaction
+    from "Transactions"
+    where id = p_transaction_id and deleted_at is null
+    for update;
+
+    if not found then
+        raise exception 'Transaction % not found', p_transaction_id;
+    end if;
+
+    if v_transaction.status = 'complete' then
+        perform assert_no_active_returns(p_transaction_id);
+        perform apply_transaction_effects(p_transaction_id, -1);
+    end if;
+
+    update "Transactions"
+    set deleted_at = now()
+    where id = p_transaction_id;
+
+    update "TransactionAttachments"
+    set deleted_at = now()
+    where transaction_id = p_transaction_id
+      and deleted_at is null;
+
+    return p_transaction_id;
+end;
+$$;
@@ -0,0 +1,134 @@
+-- Accounting periods
+-- A month of a business can be closed once it has been reported (e.g. to the
+-- tax office). Transactions dated in a closed month can no longer be
+-- recorded, changed, cancelled, deleted or restored, whatever path writes
+-- them. Category renames and merges still relabel them, and purging them from
+-- the trash is still possible. Reopening a month makes it editable again.
+
+create table if not exists "AccountingPeriods" (
+    id serial primary key,
+    business_id integer not null references "Businesses"(id),
+    -- First day of the month
+    period_start date not null check (extract(day from period_start) = 1),
+    status text not null default 'closed' check (status in ('closed', 'open')),
+    -- Users.id of who closed / last reopened the month
+    closed_at timestamp not null default now(),
+    closed_by text not null,
+    reopened_at timestamp,
+    reopened_by text,
+    created_at timestamp default now(),
+    updated_at timestamp default now(),
+    deleted_at timestamp,
+    unique (business_id, period_start)
+);
+
+-- Audit logs also record closing and reopening periods
+alter table "AuditLogs"
+    drop constraint if exists "AuditLogs_entity_type_check";
+
+alter table "AuditLogs"
+    add constraint "AuditLogs_entity_type_check"
+    check (entity_type in ('transaction', 'product', 'period'));
+
+-- Raise when a date falls in a closed month of the business
+create or replace function assert_period_open(p_business_id integer, p_date timestamp)
+returns void
+language plpgsql
+as $$
+begin
+    if exists (
+        select 1
+        from "AccountingPeriods"
+        where business_id = p_business_id
+          and period_start = date_trunc('month', coalesce(p_date, now()))::date
+          and status = 'closed'
+          and deleted_at is null
+    ) then
+        raise exception 'Period % is closed', to_char(coalesce(p_date, now()), 'YYYY-MM');
+    end if;
+end;
+$$;
+
+-- Transactions of a closed month are locked; only the category label and the
+-- trash purge marker may still change
+create or replace function lock_closed_period_transaction()
+returns trigger
+language plpgsql
+as $$
+begin
+    if tg_op = 'INSERT' then
+        perform assert_period_open(new.business_id, new.transaction_date);
+        return new;
+    end if;
+
+    if tg_op = 'UPDATE'
+       and to_jsonb(new) - array['category', 'updated_at', 'purged_at']
+           = to_jsonb(old) - array['category', 'updated_at', 'purged_at'] then
+        return new;
+    end if;
+
+    perform assert_period_open(old.business_id, old.transaction_date);
+
+    if tg_op = 'DELETE' then
+        return old;
+    end if;
+
+    perform assert_period_open(new.business_id, new.transaction_date);
+    return new;
+end;
+$$;
+
+drop trigger if exists transactions_lock_closed_period on "Transactions";
+create trigger transactions_lock_closed_period
+    before insert or update or delete on "Transactions"
+    for each row execute function lock_closed_period_transaction();
+
+-- Close a month of a business
+-- Only months that are over can be closed, and none of their transactions may
+-- still be pending (they could never be completed or cancelled afterwards)
+create or replace function close_accounting_period(
+    p_business_id integer,
+    p_period_start date,
+    p_user_id text
+)
+returns integer
+language plpgsql
+as $$
+declare
+    v_pending integer;
+    v_period_id integer;
+begin
+    if p_period_start >= date_trunc('month', now())::date then
+        raise exception 'Only months that are over can be closed';
+    end if;
+
+    select count(*)
+    into v_pending
+    from "Transactions"
+    where business_id = p_business_id
+      and deleted_at is null
+      and status = 'pending'
+      and date_trunc('month', transaction_date)::date = p_period_start;
+
+    if v_pending > 0 then
+        raise exception 'Period % has % pending transactions. Complete or cancel them first',
+            to_char(p_period_start, 'YYYY-MM'), v_pending;
+    end if;
+
+    insert into "AccountingPeriods" (business_id, period_start, status, closed_at, closed_by)
+    values (p_business_id, p_period_start, 'closed', now(), p_user_id)
+    on conflict (business_id, period_start) do update
+    set status = 'closed',
+        closed_at = now(),
+        closed_by = p_user_id,
+        updated_at = now()
+    where "AccountingPeriods".status = 'open'
+    returning id into v_period_id;
+
+    if v_period_id is null then
+        raise exception 'Period % is already closed', to_char(p_period_start, 'YYYY-MM');
+    end if;
+
+    return v_period_id;
+end;
+$$;
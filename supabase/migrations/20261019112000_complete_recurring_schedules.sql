@@ -0,0 +1,51 @@
+-- Complete recurring schedules
+-- Weekly, monthly and yearly templates saved without their day fields ran
+-- every day (an empty field matched every date). The fields now default to
+-- the start date when a template is saved; existing templates get the same
+-- defaults and their next run moves to the first matching date.
+
+with completed as (
+    select
+        id,
+        case when frequency = 'weekly'
+            then coalesce(day_of_week, extract(dow from start_date)::integer)
+            else day_of_week
+        end as day_of_week,
+        case when frequency in ('monthly', 'yearly')
+            then coalesce(day_of_month, extract(day from start_date)::integer)
+            else day_of_month
+        end as day_of_month,
+        case when frequency = 'yearly'
+            then coalesce(month_of_year, extract(month from start_date)::integer)
+            else month_of_year
+        end as month_of_year
+    from "RecurringTransactions"
+    where (frequency = 'weekly' and day_of_week is null)
+       or (frequency in ('monthly', 'yearly') and day_of_month is null)
+       or (frequency = 'yearly' and month_of_year is null)
+)
+update "RecurringTransactions" r
+set day_of_week = c.day_of_week,
+    day_of_month = c.day_of_month,
+    month_of_year = c.month_of_year,
+    -- First date on or after the current next run that fits the schedule
+    -- (day of month clamped to the length of the month, e.g. 31 -> 28 Feb)
+    next_run_date = (
+        select min(d)::date
+        from generate_series(r.next_run_date::timestamp, r.next_run_date + 366, interval '1 day') d
+        where case r.frequency
+            when 'weekly' then extract(dow from d) = c.day_of_week
+            when 'monthly' then extract(day from d) = least(
+                c.day_of_month,
+                extract(day from date_trunc('month', d) + interval '1 month - 1 day')
+            )
+            else extract(month from d) = c.month_of_year
+                and extract(day from d) = least(
+                    c.day_of_month,
+                    extract(day from date_trunc('month', d) + interval '1 month - 1 day')
+                )
+        end
+    ),
+    updated_at = now()
+from completed c
+where c.id = r.id;
@@ -0,0 +1,103 @@
+-- Update a transaction in one database transaction
+-- Description, category, date and amount are changed together with their
+-- effects: the money account of a complete transaction moves by the change in
+-- the base amount, and a single payment follows the new amount. A status
+-- change is applied last (transition_transaction_status), so the new amount
+-- is what gets applied or reversed. Any failure leaves nothing changed.
+-- The amount of a sale or purchase follows its line items (totals, discounts
+-- and tax), so it only changes through update_transaction_items; the amount
+-- of a return follows what it took back.
+
+create or replace function update_transaction(
+    p_transaction_id integer,
+    p_changes jsonb
+)
+returns integer
+language plpgsql
+as $$
+declare
+    v_transaction "Transactions"%rowtype;
+    v_updated "Transactions"%rowtype;
+    v_amount numeric := (p_changes->>'amount')::numeric;
+    v_amount_changed boolean;
+    v_payment_count integer;
+    v_delta numeric;
+begin
+    select *
+    into v_transaction
+    from "Transactions"
+    where id = p_transaction_id and deleted_at is null
+    for update;
+
+    if not found then
+        raise exception 'Transaction % not found', p_transaction_id;
+    end if;
+
+    v_amount_changed := v_amount is not null and v_amount <> v_transaction.amount;
+
+    if v_amount_changed then
+        if v_transaction.related_transaction_id is not null then
+            raise exception 'Amount of a return cannot be changed. Cancel the return and record it again';
+        end if;
+
+        if exists (select 1 from "TransactionDetails" where transaction_id = p_transaction_id) then
+            raise exception 'Amount of a sale or purchase cannot be changed here. Edit its items with PUT /transactions/:transactionId/items';
+        end if;
+
+        if v_transaction.credit_amount > 0 then
+            raise exception 'Amount of a credit transaction cannot be changed';
+        end if;
+
+        select count(*)
+        into v_payment_count
+        from "TransactionPayments"
+        where transaction_id = p_transaction_id;
+
+        -- A single payment follows the new amount; a split cannot be guessed
+        if v_payment_count > 1 then
+            raise exception 'Amount of a transaction with split payments cannot be changed';
+        end if;
+    end if;
+
+    -- base_amount follows the amount (convert_transaction_amount); the
+    -- subtotal keeps amount = subtotal - discount (+ exclusive tax)
+    update "Transactions"
+    set description = case when p_changes ? 'description' then p_changes->>'description' else description end,
+        category = case when p_changes ? 'category' then p_changes->>'category' else category end,
+        transaction_date = case
+            when p_changes ? 'transaction_date' then (p_changes->>'transaction_date')::timestamp
+            else transaction_date
+        end,
+        amount = case when v_amount_changed then v_amount else amount end,
+        subtotal = case
+            when v_amount_changed then v_amount + discount_amount - case when tax_inclusive then 0 else tax_amount end
+            else subtotal
+        end,
+        updated_at = now()
+    where id = p_transaction_id
+    returning * into v_updated;
+
+    if v_amount_changed then
+        update "TransactionPayments"
+        set amount = v_amount
+        where transaction_id = p_transaction_id;
+
+        -- The money account moves by the difference, in the base currency at
+        -- the rate the transaction was recorded with
+        if v_transaction.status = 'complete' then
+            v_delta := v_updated.base_amount - v_transaction.base_amount;
+
+            perform adjust_account_balance(
+                coalesce(v_transaction.account_id, default_money_account(v_transaction.business_id)),
+                case when v_transaction.type = 'Income' then v_delta else -v_delta end
+            );
+        end if;
+    end if;
+
+    if p_changes ? 'status' and p_changes->>'status' <> v_transaction.status then
+        perform transition_transaction_status(p_transaction_id, p_changes->>'status');
+    end if;
+
+    return p_transaction_id;
+end;
+$$;
@@ -0,0 +1,379 @@
+-- Stock status of products
+-- Recording, cancelling and editing sales and purchases recomputed the stock
+-- status from the new stock and turned products the owner had set 'inactive'
+-- back to active. The status now comes from one function that keeps
+-- 'inactive' and holds the low stock threshold.
+
+-- Stock status of a product after its stock changed to p_stock
+-- 'inactive' is set by the owner and stays until they change it
+create or replace function product_stock_status(p_status text, p_stock integer)
+returns text
+language sql
+immutable
+as $$
+    select case
+        when p_status = 'inactive' then 'inactive'
+        when p_stock = 0 then 'out'
+        when p_stock < 10 then 'low'
+        else 'active'
+    end;
+$$;
+
+-- Stock, receivable, payable and balance effects of a transaction
+create or replace function apply_transaction_effects(
+    p_transaction_id integer,
+    p_direction integer
+)
+returns void
+language plpgsql
+as $$
+declare
+    v_transaction "Transactions"%rowtype;
+    v_detail "TransactionDetails"%rowtype;
+    v_product "Products"%rowtype;
+    v_change integer;
+    v_new_stock integer;
+    v_receivable "Receivables"%rowtype;
+    v_payable "Payables"%rowtype;
+    v_cash numeric;
+begin
+    select * into v_transaction from "Transactions" where id = p_transaction_id;
+
+    -- Lock products in id order to avoid deadlocks between concurrent calls
+    for v_detail in
+        select *
+        from "TransactionDetails"
+        where transaction_id = p_transaction_id
+        order by product_id
+    loop
+        select *
+        into v_product
+        from "Products"
+        where id = v_detail.product_id
+        for update;
+
+        -- Income (sale) takes stock out, Expense (purchase) brings it in
+        v_change := p_direction
+            * case when v_transaction.type = 'Income' then -v_detail.quantity else v_detail.quantity end;
+        v_new_stock := v_product.current_stock + v_change;
+
+        if v_new_stock < 0 then
+            raise exception 'Insufficient stock for %. Available: %, Required: %',
+                v_product.name, v_product.current_stock, abs(v_change);
+        end if;
+
+        update "Products"
+        set current_stock = v_new_stock,
+            stock_status = product_stock_status(v_product.stock_status, v_new_stock),
+            updated_at = now()
+        where id = v_product.id;
+    end loop;
+
+    if v_transaction.credit_amount > 0 then
+        if v_transaction.related_transaction_id is null and v_transaction.type = 'Expense' then
+            -- Credit purchase: the payable goes with it
+            select *
+            into v_payable
+            from "Payables"
+            where transaction_id = p_transaction_id and deleted_at is null
+            for update;
+
+            if p_direction < 0 then
+                if v_payable.amount_paid > 0 then
+                    raise exception 'Payable has payments. Credit purchases with payments cannot be cancelled or deleted';
+                end if;
+
+                update "Payables"
+                set status = 'cancelled',
+                    updated_at = now()
+                where id = v_payable.id;
+            end if;
+        elsif v_transaction.related_transaction_id is null then
+            -- Credit sale: the receivable goes with it
+            select *
+            into v_receivable
+            from "Receivables"
+            where transaction_id = p_transaction_id and deleted_at is null
+            for update;
+
+            if p_direction < 0 then
+                if v_receivable.amount_paid > 0 then
+                    raise exception 'Receivable has payments. Credit sales with payments cannot be cancelled or deleted';
+                end if;
+
+                update "Receivables"
+                set status = 'cancelled',
+                    updated_at = now()
+                where id = v_receivable.id;
+            end if;
+        else
+            -- Return of a credit sale: lowers (or restores) what the customer owes
+            update "Receivables"
+            set amount = amount - p_direction * v_transaction.credit_amount,
+                status = case
+                    when amount_paid >= amount - p_direction * v_transaction.credit_amount then 'paid'
+                    else 'open'
+                end,
+                updated_at = now()
+            where transaction_id = v_transaction.related_transaction_id
+              and deleted_at is null;
+        end if;
+    end if;
+
+    -- Only the part settled in cash moves the balance; receivable and
+    -- payable payments move it when the money actually changes hands.
+    -- Balances are kept in the base currency (credit is base currency only)
+    v_cash := v_transaction.base_amount - v_transaction.credit_amount;
+
+    if v_cash <> 0 then
+        perform adjust_account_balance(
+            coalesce(v_transaction.account_id, default_money_account(v_transaction.business_id)),
+            p_direction * case when v_transaction.type = 'Income' then v_cash else -v_cash end
+        );
+    end if;
+end;
+$$;
+
+-- Edit the line items of a sale or purchase (see the edit transaction items
+-- migration)
+create or replace function update_transaction_items(
+    p_transaction_id integer,
+    p_transaction jsonb,
+    p_details jsonb
+)
+returns integer
+language plpgsql
+as $$
+declare
+    v_transaction "Transactions"%rowtype;
+    v_updated "Transactions"%rowtype;
+    v_amount numeric := (p_transaction->>'amount')::numeric;
+    v_payments jsonb := p_transaction->'payments';
+    v_item jsonb;
+    v_delta record;
+    v_product "Products"%rowtype;
+    v_change integer;
+    v_new_stock integer;
+    v_payment_count integer;
+    v_paid numeric;
+    v_cash_delta numeric;
+begin
+    select *
+    into v_transaction
+    from "Transactions"
+    where id = p_transaction_id and deleted_at is null
+    for update;
+
+    if not found then
+        raise exception 'Transaction % not found', p_transaction_id;
+    end if;
+
+    if v_transaction.related_transaction_id is not null then
+        raise exception 'Items of a return cannot be edited. Cancel the return and record it again';
+    end if;
+
+    if v_transaction.status = 'cancel' then
+        raise exception 'Items of a cancelled transaction cannot be edited';
+    end if;
+
+    if not exists (select 1 from "TransactionDetails" where transaction_id = p_transaction_id) then
+        raise exception 'Only sales and purchases have items to edit';
+    end if;
+
+    -- Returns point at the lines they took back
+    if exists (select 1 from "Transactions" where related_transaction_id = p_transaction_id) then
+        raise exception 'Items of a transaction with returns cannot be edited';
+    end if;
+
+    if jsonb_array_length(p_details) = 0 then
+        raise exception 'A transaction needs at least one item';
+    end if;
+
+    -- New products must be products of the business; lines already on the
+    -- transaction may keep a product deleted since
+    for v_item in select value from jsonb_array_elements(p_details)
+    loop
+        if not exists (
+            select 1
+            from "Products"
+            where id = (v_item->>'product_id')::integer
+              and business_id = v_transaction.business_id
+              and (
+                  deleted_at is null
+                  or id in (
+                      select product_id
+                      from "TransactionDetails"
+                      where transaction_id = p_transaction_id
+                  )
+              )
+        ) then
+            raise exception 'Product % not found', v_item->>'product_id';
+        end if;
+    end loop;
+
+    -- Stock moves by the change in quantity per product (products locked in
+    -- id order, like apply_transaction_effects)
+    if v_transaction.status = 'complete' then
+        for v_delta in
+            with old_items as (
+                select product_id, sum(quantity) as quantity
+                from "TransactionDetails"
+                where transaction_id = p_transaction_id
+                group by product_id
+            ),
+            new_items as (
+                select (value->>'product_id')::integer as product_id,
+                       sum((value->>'quantity')::integer) as quantity
+                from jsonb_array_elements(p_details)
+                group by 1
+            )
+            select coalesce(n.product_id, o.product_id) as product_id,
+                   coalesce(n.quantity, 0) - coalesce(o.quantity, 0) as quantity
+            from new_items n
+            full join old_items o on o.product_id = n.product_id
+            order by 1
+        loop
+            continue when v_delta.quantity = 0;
+
+            select *
+            into v_product
+            from "Products"
+            where id = v_delta.product_id
+            for update;
+
+            -- Income (sale) takes stock out, Expense (purchase) brings it in
+            v_change := case when v_transaction.type = 'Income' then -v_delta.quantity else v_delta.quantity end;
+            v_new_stock := v_product.current_stock + v_change;
+
+            if v_new_stock < 0 then
+                raise exception 'Insufficient stock for %. Available: %, Required: %',
+                    v_product.name, v_product.current_stock, abs(v_change);
+            end if;
+
+            update "Products"
+            set current_stock = v_new_stock,
+                stock_status = product_stock_status(v_product.stock_status, v_new_stock),
+                updated_at = now()
+            where id = v_product.id;
+        end loop;
+    end if;
+
+    delete from "TransactionDetails"
+    where transaction_id = p_transaction_id;
+
+    insert into "TransactionDetails" (
+        transaction_id,
+        product_id,
+        quantity,
+        unit_price_at_transaction,
+        discount_amount
+    )
+    select
+        p_transaction_id,
+        (value->>'product_id')::integer,
+        (value->>'quantity')::integer,
+        (value->>'unit_price_at_transaction')::numeric,
+        coalesce((value->>'discount_amount')::numeric, 0)
+    from jsonb_array_elements(p_details);
+
+    -- base_amount follows the amount (convert_transaction_amount)
+    update "Transactions"
+    set amount = v_amount,
+        subtotal = coalesce((p_transaction->>'subtotal')::numeric, v_amount),
+        discount_amount = coalesce((p_transaction->>'discount_amount')::numeric, 0),
+        tax_amount = coalesce((p_transaction->>'tax_amount')::numeric, 0),
+        credit_amount = case when credit_amount > 0 then v_amount else 0 end,
+        payment_method = case
+            when v_payments is null then payment_method
+            when jsonb_array_length(v_payments) = 1 then v_payments->0->>'method'
+            else 'split'
+        end,
+        updated_at = now()
+    where id = p_transaction_id
+    returning * into v_updated;
+
+    -- Credit sale or purchase: what is owed follows the new total
+    if v_transaction.credit_amount > 0 then
+        if v_transaction.type = 'Income' then
+            select amount_paid
+            into v_paid
+            from "Receivables"
+            where transaction_id = p_transaction_id and deleted_at is null
+            for update;
+
+            if v_paid > v_amount then
+                raise exception 'Receivable has payments of %, more than the new total %', v_paid, v_amount;
+            end if;
+
+            update "Receivables"
+            set amount = v_amount,
+                status = case when amount_paid >= v_amount then 'paid' else 'open' end,
+                updated_at = now()
+            where transaction_id = p_transaction_id
+              and deleted_at is null
+              and status <> 'cancelled';
+        else
+            select amount_paid
+            into v_paid
+            from "Payables"
+            where transaction_id = p_transaction_id and deleted_at is null
+            for update;
+
+            if v_paid > v_amount then
+                raise exception 'Payable has payments of %, more than the new total %', v_paid, v_amount;
+            end if;
+
+            update "Payables"
+            set amount = v_amount,
+                status = case when amount_paid >= v_amount then 'paid' else 'open' end,
+                updated_at = now()
+            where transaction_id = p_transaction_id
+              and deleted_at is null
+              and status <> 'cancelled';
+        end if;
+    elsif v_payments is not null then
+        if (select coalesce(sum((value->>'amount')::numeric), 0) from jsonb_array_elements(v_payments)) <> v_amount then
+            raise exception 'Payment amounts must add up to the transaction amount %', v_amount;
+        end if;
+
+        delete from "TransactionPayments"
+        where transaction_id = p_transaction_id;
+
+        insert into "TransactionPayments" (transaction_id, method, amount, reference)
+        select
+            p_transaction_id,
+            value->>'method',
+            (value->>'amount')::numeric,
+            value->>'reference'
+        from jsonb_array_elements(v_payments);
+    else
+        select count(*)
+        into v_payment_count
+        from "TransactionPayments"
+        where transaction_id = p_transaction_id;
+
+        if v_payment_count > 1 then
+            raise exception 'Transaction has split payments. Payment amounts must add up to the new total';
+        end if;
+
+        update "TransactionPayments"
+        set amount = v_amount
+        where transaction_id = p_transaction_id;
+    end if;
+
+    -- Only the cash part moves the balance (in the base currency)
+    if v_transaction.status = 'complete' then
+        v_cash_delta := (v_updated.base_amount - v_updated.credit_amount)
+            - (v_transaction.base_amount - v_transaction.credit_amount);
+
+        if v_cash_delta <> 0 then
+            perform adjust_account_balance(
+                coalesce(v_transaction.account_id, default_money_account(v_transaction.business_id)),
+                case when v_transaction.type = 'Income' then v_cash_delta else -v_cash_delta end
+            );
+        end if;
+    end if;
+
+    return p_transaction_id;
+end;
+$$;
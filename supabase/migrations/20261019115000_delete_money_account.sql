@@ -0,0 +1,80 @@
+-- Delete a money account
+-- The checks and the delete run under a lock on the account, so no
+-- transaction, payment or transfer can move money into it in between. An
+-- account can only go when it is not the default, its balance is zero and no
+-- open (not cancelled, not deleted) transaction is recorded on it; otherwise
+-- those transactions would be reversed into an account that no longer exists.
+
+create or replace function delete_money_account(p_account_id integer)
+returns void
+language plpgsql
+as $$
+declare
+    v_account "MoneyAccounts"%rowtype;
+    v_open integer;
+begin
+    select *
+    into v_account
+    from "MoneyAccounts"
+    where id = p_account_id and deleted_at is null
+    for update;
+
+    if not found then
+        raise exception 'Money account % not found', p_account_id;
+    end if;
+
+    if v_account.is_default then
+        raise exception 'The default account cannot be deleted';
+    end if;
+
+    if v_account.balance <> 0 then
+        raise exception 'Transfer the remaining balance to another account first';
+    end if;
+
+    select count(*)
+    into v_open
+    from "Transactions"
+    where account_id = p_account_id
+      and deleted_at is null
+      and status <> 'cancel';
+
+    if v_open > 0 then
+        raise exception 'Account has % open transactions. Cancel or delete them first', v_open;
+    end if;
+
+    update "MoneyAccounts"
+    set deleted_at = now(),
+        updated_at = now()
+    where id = p_account_id;
+end;
+$$;
+
+-- Balances only move on accounts that still exist: a write that waited on the
+-- lock of a deleted account fails instead of changing its balance
+create or replace function adjust_account_balance(
+    p_account_id integer,
+    p_delta numeric
+)
+returns void
+language plpgsql
+as $$
+declare
+    v_business_id integer;
+begin
+    update "MoneyAccounts"
+    set balance = balance + p_delta,
+        updated_at = now()
+    where id = p_account_id
+      and deleted_at is null
+    returning business_id into v_business_id;
+
+    if not found then
+        raise exception 'Money account % not found', p_account_id;
+    end if;
+
+    update "Businesses"
+    set current_balance = current_balance + p_delta,
+        updated_at = now()
+    where id = v_business_id;
+end;
+$$;
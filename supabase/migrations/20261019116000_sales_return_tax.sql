@@ -0,0 +1,213 @@
+-- Tax on sales returns
+-- A return refunded its share of the sale's tax but posted the whole amount
+-- to sales returns, so output tax stayed overstated. Returns now carry the
+-- returned share of the sale's tax_amount, and their journal debits it to
+-- output tax (the rest goes to sales returns). Returns recorded before keep
+-- their postings.
+
+create or replace function record_sales_return(
+    p_transaction_id integer,
+    p_items jsonb,
+    p_description text default null
+)
+returns integer
+language plpgsql
+as $$
+declare
+    v_sale "Transactions"%rowtype;
+    v_detail "TransactionDetails"%rowtype;
+    v_detail_id integer;
+    v_quantity integer;
+    v_returned integer;
+    v_amount numeric := 0;
+    v_tax numeric := 0;
+    v_share numeric;
+    v_lines_net numeric;
+    v_details jsonb := '[]'::jsonb;
+    v_credit numeric := 0;
+begin
+    select *
+    into v_sale
+    from "Transactions"
+    where id = p_transaction_id and deleted_at is null
+    for update;
+
+    if not found then
+        raise exception 'Transaction % not found', p_transaction_id;
+    end if;
+
+    if v_sale.type <> 'Income' or v_sale.status <> 'complete' then
+        raise exception 'Only completed sales can be returned';
+    end if;
+
+    -- Net value of all sold lines (after line discounts), used to share the
+    -- transaction discount and tax across lines
+    select coalesce(sum(quantity * unit_price_at_transaction - discount_amount), 0)
+    into v_lines_net
+    from "TransactionDetails"
+    where transaction_id = p_transaction_id
+      and source_detail_id is null;
+
+    -- Same line listed twice counts as one combined quantity
+    for v_detail_id, v_quantity in
+        select (value->>'transaction_detail_id')::integer,
+               sum((value->>'quantity')::integer)
+        from jsonb_array_elements(p_items)
+        group by 1
+    loop
+        select *
+        into v_detail
+        from "TransactionDetails"
+        where id = v_detail_id and transaction_id = p_transaction_id;
+
+        if not found then
+            raise exception 'Transaction detail % not found', v_detail_id;
+        end if;
+
+        select coalesce(sum(d.quantity), 0)
+        into v_returned
+        from "TransactionDetails" d
+        join "Transactions" t on t.id = d.transaction_id
+        where d.source_detail_id = v_detail.id
+          and t.deleted_at is null
+          and t.status <> 'cancel';
+
+        if v_returned + v_quantity > v_detail.quantity then
+            raise exception 'Return quantity exceeds sold quantity for detail %. Sold: %, Already returned: %, Requested: %',
+                v_detail.id, v_detail.quantity, v_returned, v_quantity;
+        end if;
+
+        -- Refund the share of the grand total the returned units were paid
+        -- (line discount, transaction discount and tax included); the same
+        -- share of the tax is given back
+        if v_lines_net > 0 then
+            v_share := (v_detail.quantity * v_detail.unit_price_at_transaction - v_detail.discount_amount) / v_lines_net
+                * v_quantity / v_detail.quantity;
+            v_amount := v_amount + round(v_sale.amount * v_share, 2);
+            v_tax := v_tax + round(coalesce(v_sale.tax_amount, 0) * v_share, 2);
+        end if;
+        v_details := v_details || jsonb_build_object(
+            'product_id', v_detail.product_id,
+            'quantity', v_quantity,
+            'unit_price_at_transaction', v_detail.unit_price_at_transaction,
+            'source_detail_id', v_detail.id
+        );
+    end loop;
+
+    -- Credit sale: the refund first lowers what the customer still owes,
+    -- only the rest is paid back in cash
+    if v_sale.credit_amount > 0 then
+        select least(v_amount, greatest(amount - amount_paid, 0))
+        into v_credit
+        from "Receivables"
+        where transaction_id = v_sale.id and deleted_at is null
+        for update;
+    end if;
+
+    -- Expense with details: puts the items back into stock and refunds the balance.
+    -- The refund includes its tax (inclusive), so amount = subtotal still holds
+    return record_transaction(
+        jsonb_build_object(
+            'business_id', v_sale.business_id,
+            'type', 'Expense',
+            'category', 'Sales Return',
+            'amount', v_amount,
+            'description', coalesce(p_description, 'Sales return'),
+            'status', 'complete',
+            'related_transaction_id', v_sale.id,
+            'account_id', v_sale.account_id,
+            'credit_amount', coalesce(v_credit, 0),
+            'tax_amount', v_tax,
+            'tax_rate_id', v_sale.tax_rate_id,
+            'tax_rate', v_sale.tax_rate,
+            'tax_inclusive', true
+        ),
+        v_details
+    );
+end;
+$$;
+
+-- Journal lines of a transaction (see the multi-currency migration)
+create or replace function transaction_journal_lines(p_transaction "Transactions")
+returns jsonb
+language plpgsql
+as $$
+declare
+    v_main integer;
+    v_cash_account integer;
+    v_credit_account integer;
+    v_tax_account integer;
+    v_cash numeric := p_transaction.base_amount - p_transaction.credit_amount;
+    v_tax numeric := round(coalesce(p_transaction.tax_amount, 0) * p_transaction.exchange_rate, 2);
+    v_net numeric := p_transaction.base_amount - v_tax;
+    v_debit_side integer;
+    v_lines jsonb := '[]';
+begin
+    if p_transaction.status <> 'complete'
+        or p_transaction.deleted_at is not null
+        or p_transaction.base_amount = 0 then
+        return v_lines;
+    end if;
+
+    select ledger_account_id
+    into v_main
+    from "TransactionCategories"
+    where id = p_transaction.category_id;
+
+    if v_main is null then
+        v_main := ledger_account(
+            p_transaction.business_id,
+            case
+                when p_transaction.related_transaction_id is not null then 'sales_returns'
+                when exists (
+                    select 1 from "TransactionDetails" where transaction_id = p_transaction.id
+                ) then
+                    case when p_transaction.type = 'Income' then 'sales' else 'purchases' end
+                when p_transaction.type = 'Income' then 'other_income'
+                else 'other_expense'
+            end
+        );
+    end if;
+
+    v_cash_account := money_account_ledger_account(
+        coalesce(p_transaction.account_id, default_money_account(p_transaction.business_id))
+    );
+    v_credit_account := ledger_account(
+        p_transaction.business_id,
+        case
+            when p_transaction.type = 'Income' or p_transaction.related_transaction_id is not null
+                then 'receivable'
+            else 'payable'
+        end
+    );
+    -- A sales return gives back output tax of its sale
+    v_tax_account := ledger_account(
+        p_transaction.business_id,
+        case
+            when p_transaction.type = 'Income' or p_transaction.related_transaction_id is not null
+                then 'output_tax'
+            else 'input_tax'
+        end
+    );
+
+    -- Income: money side is debited; Expense: money side is credited
+    v_debit_side := case when p_transaction.type = 'Income' then 1 else 0 end;
+
+    select coalesce(jsonb_agg(jsonb_build_object(
+        'account_id', l.account_id,
+        'debit', case when l.is_debit then l.amount else 0 end,
+        'credit', case when l.is_debit then 0 else l.amount end
+    ) order by l.position), '[]')
+    into v_lines
+    from (
+        values
+            (1, v_cash_account, v_cash, v_debit_side = 1),
+            (2, v_credit_account, p_transaction.credit_amount, v_debit_side = 1),
+            (3, v_main, v_net, v_debit_side = 0),
+            (4, v_tax_account, v_tax, v_debit_side = 0)
+    ) as l(position, account_id, amount, is_debit)
+    where l.amount > 0;
+
+    return v_lines;
+end;
+$$;
@@ -0,0 +1,9 @@
+-- Idempotency key age
+-- created_at was a timestamp without time zone, which the API parses as
+-- server-local time: on a host not running in UTC the age of a key was off
+-- by the UTC offset. Stored values are UTC (the database runs in UTC), so
+-- they are converted as such.
+
+alter table "IdempotencyKeys"
+    alter column created_at type timestamptz using created_at at time zone 'UTC',
+    alter column created_at set default now();